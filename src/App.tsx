@@ -9,22 +9,37 @@ import { SalesModule } from './components/SalesModule';
 import StockModule from './components/StockModule';
 import { ImportModule } from './components/ImportModule';
 import { StatisticsModule } from './components/StatisticsModule';
+import { PurchasingModule } from './components/PurchasingModule';
+import { ExpensesModule } from './components/ExpensesModule';
 import { SettingsModule } from './components/SettingsModule';
 import { NotificationsModule } from './components/NotificationsModule';
 import { ViewStateProvider } from './hooks/useViewState';
 import { LanguageProvider } from './contexts/LanguageContext';
 import { useFirebaseData } from './hooks/useFirebaseData';
 import { useAuth } from './hooks/useAuth';
+import { ALL_STORES } from './utils/storeUtils';
 
 function AppContent() {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [selectedStoreId, setSelectedStoreId] = useState(ALL_STORES);
   
   const { user, isAuthenticated, isLoading } = useAuth();
   
   const {
     registerSales,
+    salesWindow,
+    isStockOnPartialHistory,
     products,
+    stockMovements,
+    inventorySessions,
+    suppliers,
+    purchaseOrders,
+    expenses,
+    registerSessions,
+    salesTargets,
+    stores,
+    stockTransfers,
     dashboardStats,
     alerts,
     loading,
@@ -33,17 +48,60 @@ function AppContent() {
     addProduct,
     addProducts,
     updateProduct,
+    adjustStock,
+    applyMinStocks,
+    updateProductFlags,
+    migrateProductIdentity,
+    addProductAliases,
+    mergeProducts,
+    openInventorySession,
+    saveInventoryCounts,
+    getInventoryVariances,
+    postInventorySession,
+    cancelInventorySession,
+    addSupplier,
+    updateSupplier,
+    deleteSupplier,
+    createPurchaseOrder,
+    updatePurchaseOrder,
+    deletePurchaseOrder,
+    sendPurchaseOrder,
+    receivePurchaseOrder,
+    addExpense,
+    updateExpense,
+    deleteExpense,
+    openRegisterSession,
+    closeRegisterSession,
+    listRegisterSales,
+    addSalesTarget,
+    updateSalesTarget,
+    deleteSalesTarget,
+    addStore,
+    updateStore,
+    deleteStore,
+    createStockTransfer,
+    updateStockTransfer,
+    deleteStockTransfer,
+    shipStockTransfer,
+    receiveStockTransfer,
     updateSale,
     categorizeSales,
+    createSaleReturn,
+    markSaleAsReturn,
     deleteProduct,
     deleteProducts,
     deleteSales,
     markAlertAsRead,
     refreshData,
+    initializeStockLedger,
+    loadOlderSales,
+    loadSalesUntil,
+    setSalesDateRange,
     autoSyncProductsFromSales
   } = useFirebaseData();
 
   const unreadAlerts = alerts.filter(alert => !alert.read).length;
+  const registers = [...new Set(registerSales.map(sale => sale.register))].sort();
 
   if (isLoading) {
     return (
@@ -73,7 +131,17 @@ function AppContent() {
             dashboardStats={dashboardStats} 
             registerSales={registerSales}
             products={products}
+            expenses={expenses}
+            salesTargets={salesTargets}
             loading={loading} 
+            salesWindow={salesWindow}
+            onLoadOlderSales={loadOlderSales}
+            onLoadSalesUntil={loadSalesUntil}
+            onAddSalesTarget={addSalesTarget}
+            onUpdateSalesTarget={updateSalesTarget}
+            onDeleteSalesTarget={deleteSalesTarget}
+            stores={stores}
+            selectedStoreId={selectedStoreId}
           />
         );
       case 'sales':
@@ -84,6 +152,12 @@ function AppContent() {
             onDeleteSales={deleteSales}
             onUpdateSale={updateSale}
             onCategorizeSales={categorizeSales}
+            onCreateSaleReturn={createSaleReturn}
+            onMarkSaleAsReturn={markSaleAsReturn}
+            salesWindow={salesWindow}
+            onLoadOlderSales={loadOlderSales}
+            onLoadSalesUntil={loadSalesUntil}
+            onChangeSalesRange={setSalesDateRange}
           />
         );
       case 'stock':
@@ -93,6 +167,34 @@ function AppContent() {
             registerSales={registerSales}
             loading={loading}
             isRecalculating={isRecalculating}
+            isStockOnPartialHistory={isStockOnPartialHistory}
+            stockMovements={stockMovements}
+            onInitializeStockLedger={initializeStockLedger}
+            onAdjustStock={adjustStock}
+            inventorySessions={inventorySessions}
+            onOpenInventorySession={openInventorySession}
+            onSaveInventoryCounts={saveInventoryCounts}
+            onGetInventoryVariances={getInventoryVariances}
+            onPostInventorySession={postInventorySession}
+            onCancelInventorySession={cancelInventorySession}
+            purchaseOrders={purchaseOrders}
+            suppliers={suppliers}
+            onApplyMinStocks={applyMinStocks}
+            onUpdateProductFlags={updateProductFlags}
+            onMigrateProductIdentity={migrateProductIdentity}
+            onMergeProducts={mergeProducts}
+            onAddProductAliases={addProductAliases}
+            stores={stores}
+            selectedStoreId={selectedStoreId}
+            onAddStore={addStore}
+            onUpdateStore={updateStore}
+            onDeleteStore={deleteStore}
+            stockTransfers={stockTransfers}
+            onCreateStockTransfer={createStockTransfer}
+            onUpdateStockTransfer={updateStockTransfer}
+            onDeleteStockTransfer={deleteStockTransfer}
+            onShipStockTransfer={shipStockTransfer}
+            onReceiveStockTransfer={receiveStockTransfer}
             onAddProduct={addProduct}
             onAddProducts={addProducts}
             onUpdateProduct={updateProduct}
@@ -102,11 +204,49 @@ function AppContent() {
             autoSyncProductsFromSales={autoSyncProductsFromSales}
           />
         );
+      case 'purchasing':
+        return (
+          <PurchasingModule
+            products={products}
+            suppliers={suppliers}
+            purchaseOrders={purchaseOrders}
+            onAddSupplier={addSupplier}
+            onUpdateSupplier={updateSupplier}
+            onDeleteSupplier={deleteSupplier}
+            onCreatePurchaseOrder={createPurchaseOrder}
+            onUpdatePurchaseOrder={updatePurchaseOrder}
+            onDeletePurchaseOrder={deletePurchaseOrder}
+            onSendPurchaseOrder={sendPurchaseOrder}
+            onReceivePurchaseOrder={receivePurchaseOrder}
+            stores={stores}
+          />
+        );
+      case 'expenses':
+        return (
+          <ExpensesModule
+            expenses={expenses}
+            registers={registers}
+            onAddExpense={addExpense}
+            onUpdateExpense={updateExpense}
+            onDeleteExpense={deleteExpense}
+          />
+        );
       case 'statistics':
         return (
           <StatisticsModule 
             registerSales={registerSales}
             products={products}
+            stockMovements={stockMovements}
+            expenses={expenses}
+            registerSessions={registerSessions}
+            salesWindow={salesWindow}
+            onLoadOlderSales={loadOlderSales}
+            onLoadSalesUntil={loadSalesUntil}
+            onOpenRegisterSession={openRegisterSession}
+            onCloseRegisterSession={closeRegisterSession}
+            onListRegisterSales={listRegisterSales}
+            stores={stores}
+            selectedStoreId={selectedStoreId}
           />
         );
       case 'import':
@@ -115,10 +255,19 @@ function AppContent() {
             onImportSales={addRegisterSales}
             onRefreshData={refreshData}
             existingSales={registerSales}
+            products={products}
           />
         );
       case 'notifications':
-        return <NotificationsModule />;
+        return (
+          <NotificationsModule
+            products={products}
+            registerSales={registerSales}
+            salesTargets={salesTargets}
+            dashboardStats={dashboardStats}
+            loading={loading}
+          />
+        );
       case 'settings':
         return <SettingsModule />;
       default:
@@ -127,7 +276,17 @@ function AppContent() {
             dashboardStats={dashboardStats} 
             registerSales={registerSales}
             products={products}
+            expenses={expenses}
+            salesTargets={salesTargets}
             loading={loading} 
+            salesWindow={salesWindow}
+            onLoadOlderSales={loadOlderSales}
+            onLoadSalesUntil={loadSalesUntil}
+            onAddSalesTarget={addSalesTarget}
+            onUpdateSalesTarget={updateSalesTarget}
+            onDeleteSalesTarget={deleteSalesTarget}
+            stores={stores}
+            selectedStoreId={selectedStoreId}
           />
         );
     }
@@ -147,6 +306,9 @@ function AppContent() {
         activeTab={activeTab}
         onTabChange={setActiveTab}
         unreadAlerts={unreadAlerts}
+        stores={stores}
+        selectedStoreId={selectedStoreId}
+        onStoreChange={setSelectedStoreId}
       />
 
       {/* Main Content */}
@@ -0,0 +1,141 @@
+import { useState, useMemo } from 'react';
+import { ShoppingBasket, Link2, AlertTriangle } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+  calculateBasketMetrics,
+  calculateProductAssociations,
+  DEFAULT_MIN_PAIR_COUNT,
+  INFERRED_TICKET_GAP_MINUTES,
+  Ticket
+} from '../utils/basketUtils';
+
+interface BasketAnalysisPanelProps {
+  tickets: Ticket[];
+}
+
+const MIN_PAIR_COUNT_OPTIONS = [2, 3, 5, 10];
+const MAX_ASSOCIATIONS = 30;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function BasketAnalysisPanel({ tickets }: BasketAnalysisPanelProps) {
+  const { t } = useLanguage();
+  const [minPairCount, setMinPairCount] = useState(DEFAULT_MIN_PAIR_COUNT);
+  const [productSearch, setProductSearch] = useState('');
+
+  const metrics = useMemo(() => calculateBasketMetrics(tickets), [tickets]);
+  const associations = useMemo(
+    () => calculateProductAssociations(tickets, minPairCount),
+    [tickets, minPairCount]
+  );
+
+  const search = productSearch.trim().toLowerCase();
+  const displayed = associations
+    .filter(pair => !search ||
+      pair.productA.toLowerCase().includes(search) || pair.productB.toLowerCase().includes(search))
+    .slice(0, MAX_ASSOCIATIONS);
+
+  const cards = [
+    { label: t('basket.tickets'), value: metrics.tickets.toLocaleString('fr-FR') },
+    { label: t('basket.averageValue'), value: formatCurrency(metrics.averageValue) },
+    { label: t('basket.averageItems'), value: metrics.averageItems.toFixed(2) },
+    { label: t('basket.averageProducts'), value: metrics.averageDistinctProducts.toFixed(2) },
+    { label: t('basket.multiProductShare'), value: `${(metrics.multiProductShare * 100).toFixed(1)}%` }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-1 flex items-center space-x-2">
+          <ShoppingBasket className="w-5 h-5 text-blue-400" />
+          <span>{t('basket.title')}</span>
+        </h3>
+        <p className="text-slate-400 text-sm mb-4">{t('basket.subtitle')}</p>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {cards.map(card => (
+            <div key={card.label} className="p-4 bg-slate-700/30 rounded-xl">
+              <p className="text-slate-400 text-xs mb-1">{card.label}</p>
+              <p className="text-xl font-bold text-white">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {metrics.inferredShare > 0 && (
+          <p className="text-orange-400 text-sm mt-4 flex items-center space-x-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {(metrics.inferredShare * 100).toFixed(0)}% {t('basket.inferredHint')} ({INFERRED_TICKET_GAP_MINUTES} min)
+            </span>
+          </p>
+        )}
+      </div>
+
+      <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+              <Link2 className="w-5 h-5 text-purple-400" />
+              <span>{t('basket.associations')}</span>
+            </h3>
+            <p className="text-slate-400 text-sm">{t('basket.associationsHint')}</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={productSearch}
+              onChange={(e) => setProductSearch(e.target.value)}
+              placeholder={t('basket.searchProduct')}
+              className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-400"
+            />
+            <select
+              value={minPairCount}
+              onChange={(e) => setMinPairCount(Number(e.target.value))}
+              className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+            >
+              {MIN_PAIR_COUNT_OPTIONS.map(count => (
+                <option key={count} value={count}>{t('basket.minTogether')} {count}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {displayed.length === 0 ? (
+          <p className="text-center py-6 text-slate-400">{t('basket.noAssociations')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-700">
+                  <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('basket.productA')}</th>
+                  <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('basket.productB')}</th>
+                  <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('basket.together')}</th>
+                  <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('basket.support')}</th>
+                  <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('basket.confidenceAB')}</th>
+                  <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('basket.confidenceBA')}</th>
+                  <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('basket.lift')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {displayed.map(pair => (
+                  <tr key={`${pair.productA}|${pair.productB}`} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                    <td className="py-3 px-2 text-white font-medium">{pair.productA}</td>
+                    <td className="py-3 px-2 text-white font-medium">{pair.productB}</td>
+                    <td className="py-3 px-2 text-center text-slate-300">{pair.count}</td>
+                    <td className="py-3 px-2 text-right text-slate-300">{(pair.support * 100).toFixed(2)}%</td>
+                    <td className="py-3 px-2 text-right text-slate-300">{(pair.confidenceAB * 100).toFixed(1)}%</td>
+                    <td className="py-3 px-2 text-right text-slate-300">{(pair.confidenceBA * 100).toFixed(1)}%</td>
+                    <td className={`py-3 px-2 text-right font-semibold ${pair.lift > 1 ? 'text-emerald-400' : 'text-slate-400'}`}>
+                      {pair.lift.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
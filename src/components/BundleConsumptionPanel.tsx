@@ -0,0 +1,63 @@
+import { useMemo } from 'react';
+import { Layers } from 'lucide-react';
+import { Product, RegisterSale } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { calculateComponentConsumption, isBundle } from '../utils/bundleUtils';
+
+interface BundleConsumptionPanelProps {
+  sales: RegisterSale[];
+  products: Product[];
+}
+
+export function BundleConsumptionPanel({ sales, products }: BundleConsumptionPanelProps) {
+  const { t } = useLanguage();
+  const rows = useMemo(() => calculateComponentConsumption(sales, products), [sales, products]);
+
+  if (!products.some(isBundle)) return null;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+        <Layers className="w-5 h-5 text-cyan-400" />
+        <span>{t('bundles.title')}</span>
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">{t('bundles.subtitle')}</p>
+
+      {rows.every(row => row.totalQuantity === 0) ? (
+        <p className="text-center py-6 text-slate-400">{t('bundles.noData')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('bundles.component')}</th>
+                <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.category')}</th>
+                <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('bundles.direct')}</th>
+                <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('bundles.viaBundles')}</th>
+                <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('bundles.total')}</th>
+                <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('bundles.detail')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.product.id} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                  <td className="py-3 px-2 text-white font-medium">{row.product.name}</td>
+                  <td className="py-3 px-2 text-slate-300">{row.product.category}</td>
+                  <td className="py-3 px-2 text-center text-slate-300">{row.directQuantity}</td>
+                  <td className="py-3 px-2 text-center text-cyan-400">{row.bundleQuantity}</td>
+                  <td className="py-3 px-2 text-center text-white font-semibold">{row.totalQuantity}</td>
+                  <td className="py-3 px-2 text-slate-400 text-sm">
+                    {row.byBundle
+                      .filter(usage => usage.bundlesSold > 0)
+                      .map(usage => `${usage.bundle.name} : ${usage.bundlesSold} × ${usage.unitsPerBundle}`)
+                      .join(' · ') || '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
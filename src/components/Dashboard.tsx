@@ -13,23 +13,54 @@ import {
   X,
   TrendingDown,
   RefreshCw,
-  Monitor
+  Monitor,
+  Percent
 } from 'lucide-react';
-import { DashboardStats, RegisterSale, Product } from '../types';
+import { DashboardStats, RegisterSale, Product, SalesWindow, Expense, SalesTarget, Store } from '../types';
 import { format, startOfMonth, endOfMonth, isAfter, isBefore, startOfDay, endOfDay } from 'date-fns';
 import { FirebaseSetup } from './FirebaseSetup';
 import { StockAlertsDropdown } from './common/StockAlertsDropdown';
-import { calculateTotalQuantitySold } from '../utils/salesCalculations';
+import { SalesWindowBanner } from './common/SalesWindowBanner';
+import { SalesTargetsPanel } from './SalesTargetsPanel';
+import { SalesTargetFormData } from './SalesTargetsModal';
+import { calculateTotalQuantitySold, isSalesWindowPartial } from '../utils/salesCalculations';
 import { useLanguage } from '../contexts/LanguageContext';
+import { calculateGrossMargin } from '../utils/marginUtils';
+import { getExpenseOccurrences, sumExpenseOccurrences } from '../utils/expenseUtils';
 
 interface DashboardProps {
   dashboardStats: DashboardStats | null;
   registerSales: RegisterSale[];
   products: Product[];
+  expenses?: Expense[];
+  salesTargets?: SalesTarget[];
   loading: boolean;
+  salesWindow?: SalesWindow;
+  onLoadOlderSales?: () => void;
+  onLoadSalesUntil?: (date: Date) => void;
+  onAddSalesTarget?: (target: SalesTargetFormData) => Promise<boolean>;
+  onUpdateSalesTarget?: (id: string, updates: Partial<SalesTargetFormData>) => Promise<boolean>;
+  onDeleteSalesTarget?: (id: string) => Promise<boolean>;
+  stores?: Store[];
+  selectedStoreId?: string; // Stock alerts of this store, every store by default
 }
 
-export function Dashboard({ dashboardStats, registerSales, products, loading }: DashboardProps) {
+export function Dashboard({
+  dashboardStats,
+  registerSales,
+  products,
+  expenses = [],
+  salesTargets = [],
+  loading,
+  salesWindow,
+  onLoadOlderSales,
+  onLoadSalesUntil,
+  onAddSalesTarget,
+  onUpdateSalesTarget,
+  onDeleteSalesTarget,
+  stores,
+  selectedStoreId
+}: DashboardProps) {
   const { t } = useLanguage();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterRegister, setFilterRegister] = useState('all');
@@ -89,9 +120,16 @@ export function Dashboard({ dashboardStats, registerSales, products, loading }:
     
     const totalSales = sales.length;
     const totalRevenue = sales.filter(sale => sale.total >= 0).reduce((sum, sale) => sum + sale.total, 0);
-    const totalExpenses = Math.abs(sales.filter(sale => sale.total < 0).reduce((sum, sale) => sum + sale.total, 0));
+    // Operating costs come from the expense ledger, negative sale lines are not expenses
+    const totalExpenses = sumExpenseOccurrences(getExpenseOccurrences(
+      expenses,
+      new Date(startDate),
+      new Date(endDate),
+      filterRegister === 'all' ? undefined : filterRegister
+    ));
     const totalProducts = new Set(sales.map(s => s.product)).size;
     const lowStockAlerts = lowStockProducts.length;
+    const { margin: grossMargin, marginRate } = calculateGrossMargin(sales, products);
 
     const productStats = sales.reduce((acc, sale) => {
       if (sale.total >= 0) {
@@ -153,11 +191,13 @@ export function Dashboard({ dashboardStats, registerSales, products, loading }:
       totalExpenses,
       totalProducts,
       lowStockAlerts,
+      grossMargin,
+      marginRate,
       topProducts,
       topSellers,
       registerPerformance
     };
-  }, [filteredSalesByPeriod, lowStockProducts.length]);
+  }, [filteredSalesByPeriod, lowStockProducts.length, products, expenses, startDate, endDate, filterRegister]);
 
   const filteredSales = filteredSalesByPeriod
     .filter(sale => {
@@ -230,6 +270,16 @@ export function Dashboard({ dashboardStats, registerSales, products, loading }:
         </div>
       )}
 
+      {/* Only shown when the selected period reaches beyond the loaded sales */}
+      {salesWindow && onLoadOlderSales && isSalesWindowPartial(salesWindow, startOfDay(new Date(startDate))) && (
+        <SalesWindowBanner
+          salesWindow={salesWindow}
+          onLoadOlder={onLoadOlderSales}
+          onLoadUntil={onLoadSalesUntil}
+          requiredFrom={startOfDay(new Date(startDate))}
+        />
+      )}
+
       {/* Filters */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -343,7 +393,7 @@ export function Dashboard({ dashboardStats, registerSales, products, loading }:
       </motion.div>
 
       {/* Main Stats with Stock Alerts Dropdown */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-6">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -395,6 +445,29 @@ export function Dashboard({ dashboardStats, registerSales, products, loading }:
           <p className="text-pink-400 text-sm">{t('dashboard.negativeAmounts')}</p>
         </motion.div>
 
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.275 }}
+          className="bg-gradient-to-br from-emerald-500/10 to-emerald-600/10 backdrop-blur-xl 
+                     border border-emerald-500/20 rounded-xl p-6"
+        >
+          <div className="flex items-center space-x-3 mb-3">
+            <Percent className="w-6 h-6 text-emerald-400" />
+            <div>
+              <p className="text-slate-400 text-sm">{t('dashboard.grossMargin')}</p>
+              <p className="text-2xl font-bold text-white">
+                {dynamicStats.marginRate === null ? '—' : formatCurrency(dynamicStats.grossMargin)}
+              </p>
+            </div>
+          </div>
+          <p className="text-emerald-400 text-sm">
+            {dynamicStats.marginRate === null
+              ? t('dashboard.noCostPrice')
+              : `${t('dashboard.marginRate')} : ${dynamicStats.marginRate.toFixed(1)}%`}
+          </p>
+        </motion.div>
+
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -420,11 +493,23 @@ export function Dashboard({ dashboardStats, registerSales, products, loading }:
         >
           <StockAlertsDropdown 
             products={products}
+            registerSales={registerSales}
             onProductClick={handleProductClick}
+            stores={stores}
+            storeId={selectedStoreId}
           />
         </motion.div>
       </div>
 
+      <SalesTargetsPanel
+        targets={salesTargets}
+        registerSales={registerSales}
+        salesWindow={salesWindow}
+        onAddTarget={onAddSalesTarget}
+        onUpdateTarget={onUpdateSalesTarget}
+        onDeleteTarget={onDeleteSalesTarget}
+      />
+
       {/* Top performers */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Top Products */}
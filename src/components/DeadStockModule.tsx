@@ -0,0 +1,298 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Archive, AlertTriangle, CheckSquare, Square, Ban, Tag, RotateCcw, RefreshCw } from 'lucide-react';
+import { format, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Product, RegisterSale } from '../types';
+import {
+  calculateDeadStock,
+  DEAD_STOCK_PERIOD_OPTIONS,
+  DEFAULT_DEAD_STOCK_PERIOD_DAYS,
+  DEFAULT_SLOW_MOVER_THRESHOLD
+} from '../utils/deadStockUtils';
+import { getHistoryStart } from '../utils/forecastUtils';
+
+type ProductFlags = Pick<Product, 'discontinued' | 'promotionFlag'>;
+
+interface DeadStockModuleProps {
+  products: Product[];
+  registerSales: RegisterSale[];
+  onUpdateFlags: (productIds: string[], flags: ProductFlags) => Promise<boolean>;
+  onNotify: (type: 'success' | 'error' | 'warning', message: string) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function DeadStockModule({ products, registerSales, onUpdateFlags, onNotify }: DeadStockModuleProps) {
+  const [periodDays, setPeriodDays] = useState(DEFAULT_DEAD_STOCK_PERIOD_DAYS);
+  const [slowThreshold, setSlowThreshold] = useState(DEFAULT_SLOW_MOVER_THRESHOLD);
+  const [show, setShow] = useState<'all' | 'dead' | 'slow'>('all');
+  const [selectedCategory, setSelectedCategory] = useState('all');
+  const [hideDiscontinued, setHideDiscontinued] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const rows = useMemo(
+    () => calculateDeadStock(products, registerSales, periodDays, slowThreshold),
+    [products, registerSales, periodDays, slowThreshold]
+  );
+
+  const today = startOfDay(new Date());
+  const loadedDays = differenceInCalendarDays(today, getHistoryStart(registerSales, today, periodDays));
+
+  const categories = [...new Set(rows.map(row => row.product.category))].sort();
+  const displayed = rows
+    .filter(row => show === 'all' || row.status === show)
+    .filter(row => selectedCategory === 'all' || row.product.category === selectedCategory)
+    .filter(row => !hideDiscontinued || !row.product.discontinued);
+
+  const totalValue = displayed.reduce((sum, row) => sum + row.valueTiedUp, 0);
+  const totalUnits = displayed.reduce((sum, row) => sum + row.product.stock, 0);
+  const unvaluedCount = displayed.filter(row => row.unitCost === null).length;
+
+  const allSelected = displayed.length > 0 && displayed.every(row => selected.has(row.product.id));
+
+  const toggle = (productId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(displayed.map(row => row.product.id)));
+  };
+
+  const handleFlag = async (flags: ProductFlags, successMessage: string) => {
+    const productIds = displayed.filter(row => selected.has(row.product.id)).map(row => row.product.id);
+    if (productIds.length === 0) return;
+
+    setIsUpdating(true);
+    try {
+      if (await onUpdateFlags(productIds, flags)) {
+        onNotify('success', `${successMessage} : ${productIds.length} produit(s)`);
+        setSelected(new Set());
+      } else {
+        onNotify('error', 'Erreur lors de la mise à jour des produits');
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const selectedCount = displayed.filter(row => selected.has(row.product.id)).length;
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+              <Archive className="w-6 h-6 text-amber-400" />
+              <span>Stock dormant et rotation lente</span>
+            </h2>
+            <p className="text-gray-400 text-sm">
+              Produits en stock sans vente sur la période, ou vendus à moins de {slowThreshold} unité(s) par mois
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => handleFlag({ discontinued: true }, 'Produits marqués abandonnés')}
+              disabled={isUpdating || selectedCount === 0}
+              className="bg-red-500/20 text-red-400 border border-red-500/30 py-2 px-4 rounded-xl
+                         hover:bg-red-500/30 transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
+            >
+              {isUpdating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+              <span>Marquer abandonnés ({selectedCount})</span>
+            </button>
+            <button
+              onClick={() => handleFlag({ promotionFlag: true }, 'Produits signalés pour promotion')}
+              disabled={isUpdating || selectedCount === 0}
+              className="bg-amber-500/20 text-amber-400 border border-amber-500/30 py-2 px-4 rounded-xl
+                         hover:bg-amber-500/30 transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
+            >
+              <Tag className="w-4 h-4" />
+              <span>Signaler pour promotion</span>
+            </button>
+            <button
+              onClick={() => handleFlag({ discontinued: false, promotionFlag: false }, 'Marquages retirés')}
+              disabled={isUpdating || selectedCount === 0}
+              className="bg-gray-700/50 text-gray-300 py-2 px-4 rounded-xl hover:bg-gray-700
+                         transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Retirer les marquages</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Période</label>
+            <select
+              value={periodDays}
+              onChange={(e) => setPeriodDays(Number(e.target.value))}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              {DEAD_STOCK_PERIOD_OPTIONS.map(days => (
+                <option key={days} value={days}>{days} derniers jours</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Seuil rotation lente (unités / mois)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={slowThreshold}
+              onChange={(e) => setSlowThreshold(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Afficher</label>
+            <select
+              value={show}
+              onChange={(e) => setShow(e.target.value as 'all' | 'dead' | 'slow')}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              <option value="all">Stock dormant et rotation lente</option>
+              <option value="dead">Sans vente uniquement</option>
+              <option value="slow">Rotation lente uniquement</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Catégorie</label>
+            <select
+              value={selectedCategory}
+              onChange={(e) => setSelectedCategory(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              <option value="all">Toutes les catégories</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-300 md:mt-7">
+            <input
+              type="checkbox"
+              checked={hideDiscontinued}
+              onChange={(e) => setHideDiscontinued(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-700"
+            />
+            <span>Masquer les produits abandonnés</span>
+          </label>
+        </div>
+      </motion.div>
+
+      {loadedDays < periodDays && (
+        <div className="bg-orange-500/10 border border-orange-500/20 rounded-xl p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-gray-400">
+            Seulement {loadedDays} jour(s) de ventes chargés sur les {periodDays} de la période : des produits vendus
+            plus tôt peuvent apparaître à tort. Chargez un historique plus ancien depuis le module Ventes.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-4">
+          <p className="text-gray-400 text-sm">Produits concernés</p>
+          <p className="text-2xl font-bold text-white">{displayed.length}</p>
+        </div>
+        <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-4">
+          <p className="text-gray-400 text-sm">Unités en stock</p>
+          <p className="text-2xl font-bold text-white">{totalUnits}</p>
+        </div>
+        <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-4">
+          <p className="text-gray-400 text-sm">Valeur immobilisée (prix de revient)</p>
+          <p className="text-2xl font-bold text-amber-400">{formatCurrency(totalValue)}</p>
+          {unvaluedCount > 0 && (
+            <p className="text-orange-400 text-xs">{unvaluedCount} produit(s) sans prix de revient non valorisé(s)</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6">
+        {displayed.length === 0 ? (
+          <p className="text-center py-8 text-gray-400">Aucun produit dormant sur la période</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="py-3 px-2 text-left">
+                    <button onClick={toggleAll} className="text-gray-400 hover:text-white">
+                      {allSelected ? <CheckSquare className="w-5 h-5 text-amber-400" /> : <Square className="w-5 h-5" />}
+                    </button>
+                  </th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Produit</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Stock</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Vendu sur la période</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Unités / mois</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Dernière vente</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Jours sans vente</th>
+                  <th className="text-right py-3 px-2 text-gray-400 font-medium">Valeur immobilisée</th>
+                </tr>
+              </thead>
+              <tbody>
+                {displayed.map(row => (
+                  <tr key={row.product.id} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                    <td className="py-3 px-2">
+                      <button onClick={() => toggle(row.product.id)} className="text-gray-400 hover:text-white">
+                        {selected.has(row.product.id) ? <CheckSquare className="w-5 h-5 text-amber-400" /> : <Square className="w-5 h-5" />}
+                      </button>
+                    </td>
+                    <td className="py-3 px-2">
+                      <div className="flex items-center space-x-2">
+                        <p className="text-white font-medium">{row.product.name}</p>
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${
+                          row.status === 'dead' ? 'bg-red-500/20 text-red-400' : 'bg-yellow-500/20 text-yellow-400'
+                        }`}>
+                          {row.status === 'dead' ? 'Sans vente' : 'Rotation lente'}
+                        </span>
+                        {row.product.discontinued && (
+                          <span className="px-2 py-0.5 rounded-full text-xs bg-gray-500/20 text-gray-300">Abandonné</span>
+                        )}
+                        {row.product.promotionFlag && (
+                          <span className="px-2 py-0.5 rounded-full text-xs bg-amber-500/20 text-amber-400">Promotion</span>
+                        )}
+                      </div>
+                      <p className="text-gray-400 text-xs">{row.product.category}</p>
+                    </td>
+                    <td className="py-3 px-2 text-center text-white">{row.product.stock}</td>
+                    <td className="py-3 px-2 text-center text-gray-300">{row.soldInPeriod}</td>
+                    <td className="py-3 px-2 text-center text-gray-300">{row.monthlyVelocity.toFixed(1)}</td>
+                    <td className="py-3 px-2 text-center text-gray-300">
+                      {row.lastSaleDate ? format(row.lastSaleDate, 'dd/MM/yyyy') : '—'}
+                    </td>
+                    <td className="py-3 px-2 text-center text-gray-300">
+                      {row.daysSinceLastSale !== null ? row.daysSinceLastSale : `> ${loadedDays}`}
+                    </td>
+                    <td className="py-3 px-2 text-right font-semibold text-amber-400">
+                      {row.unitCost !== null ? formatCurrency(row.valueTiedUp) : (
+                        <span className="text-gray-500 font-normal" title="Aucun prix de revient renseigné">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
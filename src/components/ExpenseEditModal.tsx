@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Save, RefreshCw, Receipt, Paperclip, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Expense, ExpenseRecurrence } from '../types';
+import { EXPENSE_CATEGORIES, RECURRENCE_LABELS } from '../utils/expenseUtils';
+
+export type ExpenseFormData = Omit<Expense, 'id' | 'attachment' | 'userId' | 'userName' | 'createdAt' | 'updatedAt'>;
+
+interface ExpenseEditModalProps {
+  expense?: Expense;
+  registers: string[];
+  isOpen: boolean;
+  onClose: () => void;
+  // file: a new attachment, null to remove the current one, undefined to keep it
+  onSave: (expense: ExpenseFormData, file?: File | null) => Promise<void>;
+  isLoading: boolean;
+}
+
+// Attachments are receipts and invoices, keep them small enough for storage
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export function ExpenseEditModal({
+  expense,
+  registers,
+  isOpen,
+  onClose,
+  onSave,
+  isLoading
+}: ExpenseEditModalProps) {
+  const [category, setCategory] = useState(EXPENSE_CATEGORIES[0]);
+  const [label, setLabel] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [register, setRegister] = useState('');
+  const [recurrence, setRecurrence] = useState<ExpenseRecurrence>('none');
+  const [recurrenceEndDate, setRecurrenceEndDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [file, setFile] = useState<File | null | undefined>(undefined);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setCategory(expense?.category || EXPENSE_CATEGORIES[0]);
+    setLabel(expense?.label || '');
+    setAmount(expense ? expense.amount.toString() : '');
+    setDate(format(expense?.date || new Date(), 'yyyy-MM-dd'));
+    setRegister(expense?.register || '');
+    setRecurrence(expense?.recurrence || 'none');
+    setRecurrenceEndDate(expense?.recurrenceEndDate ? format(expense.recurrenceEndDate, 'yyyy-MM-dd') : '');
+    setNotes(expense?.notes || '');
+    setFile(undefined);
+    setErrors({});
+  }, [expense, isOpen]);
+
+  const currentAttachmentName = file === undefined ? expense?.attachment?.name : file?.name;
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    const parsedAmount = parseFloat(amount);
+    if (!label.trim()) newErrors.label = 'Le libellé est requis';
+    if (isNaN(parsedAmount) || parsedAmount <= 0) newErrors.amount = 'Le montant doit être supérieur à 0';
+    if (!date) newErrors.date = 'La date est requise';
+    if (recurrence !== 'none' && recurrenceEndDate && recurrenceEndDate < date) {
+      newErrors.recurrenceEndDate = 'La fin doit être postérieure à la première échéance';
+    }
+    if (file && file.size > MAX_ATTACHMENT_SIZE) newErrors.file = 'Le fichier ne doit pas dépasser 10 Mo';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!validate()) return;
+    await onSave({
+      category,
+      label: label.trim(),
+      amount: parseFloat(amount),
+      date: new Date(`${date}T12:00:00`),
+      register: register || undefined,
+      recurrence,
+      recurrenceEndDate: recurrence !== 'none' && recurrenceEndDate
+        ? new Date(`${recurrenceEndDate}T12:00:00`)
+        : undefined,
+      notes: notes.trim() || undefined
+    }, file);
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = (field?: string) =>
+    `w-full px-4 py-2 bg-gray-700 border rounded-lg text-white placeholder-gray-400
+     focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+       field && errors[field] ? 'border-red-500' : 'border-gray-600'
+     }`;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-gray-800 border border-gray-700 rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-red-500/20 rounded-full flex items-center justify-center">
+                <Receipt className="w-5 h-5 text-red-400" />
+              </div>
+              <h3 className="text-xl font-semibold text-white">
+                {expense ? 'Modifier la Dépense' : 'Nouvelle Dépense'}
+              </h3>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="text-gray-400 hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Catégorie *</label>
+                <select
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  className={inputClassName()}
+                >
+                  {EXPENSE_CATEGORIES.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Libellé *</label>
+                <input
+                  type="text"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  className={inputClassName('label')}
+                  placeholder="Ex : Loyer boutique"
+                />
+                {errors.label && <p className="text-red-400 text-sm mt-1">{errors.label}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Montant (€) *</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className={inputClassName('amount')}
+                />
+                {errors.amount && <p className="text-red-400 text-sm mt-1">{errors.amount}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  {recurrence === 'none' ? 'Date *' : 'Première échéance *'}
+                </label>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className={inputClassName('date')}
+                />
+                {errors.date && <p className="text-red-400 text-sm mt-1">{errors.date}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Caisse</label>
+                <select
+                  value={register}
+                  onChange={(e) => setRegister(e.target.value)}
+                  className={inputClassName()}
+                >
+                  <option value="">Toute la boutique</option>
+                  {registers.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Récurrence</label>
+                <select
+                  value={recurrence}
+                  onChange={(e) => setRecurrence(e.target.value as ExpenseRecurrence)}
+                  className={inputClassName()}
+                >
+                  {(Object.keys(RECURRENCE_LABELS) as ExpenseRecurrence[]).map(key => (
+                    <option key={key} value={key}>{RECURRENCE_LABELS[key]}</option>
+                  ))}
+                </select>
+              </div>
+              {recurrence !== 'none' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Dernière échéance</label>
+                  <input
+                    type="date"
+                    value={recurrenceEndDate}
+                    onChange={(e) => setRecurrenceEndDate(e.target.value)}
+                    className={inputClassName('recurrenceEndDate')}
+                  />
+                  <p className="text-gray-500 text-xs mt-1">Laisser vide pour une dépense sans fin prévue</p>
+                  {errors.recurrenceEndDate && <p className="text-red-400 text-sm mt-1">{errors.recurrenceEndDate}</p>}
+                </div>
+              )}
+            </div>
+
+            {/* Attachment */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Justificatif</label>
+              {currentAttachmentName ? (
+                <div className="flex items-center justify-between bg-gray-700/50 rounded-lg px-4 py-2">
+                  <span className="flex items-center space-x-2 text-white text-sm truncate">
+                    <Paperclip className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    <span className="truncate">{currentAttachmentName}</span>
+                  </span>
+                  <button
+                    onClick={() => setFile(null)}
+                    className="p-1 text-red-400 hover:text-red-300"
+                    title="Retirer le justificatif"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <input
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={(e) => setFile(e.target.files?.[0] || (expense?.attachment ? null : undefined))}
+                  className="w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0
+                             file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+                />
+              )}
+              {errors.file && <p className="text-red-400 text-sm mt-1">{errors.file}</p>}
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className={inputClassName()}
+              />
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-8">
+            <button
+              onClick={handleSave}
+              disabled={isLoading}
+              className="flex-1 bg-gradient-to-r from-red-500 to-red-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-red-600 hover:to-red-700
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                         flex items-center justify-center space-x-2"
+            >
+              {isLoading ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              <span>{expense ? 'Mettre à jour' : 'Ajouter la dépense'}</span>
+            </button>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl
+                         hover:bg-gray-500 transition-all duration-200"
+            >
+              Annuler
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,336 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Receipt,
+  Plus,
+  Edit,
+  Trash2,
+  Paperclip,
+  Repeat,
+  CheckCircle,
+  AlertCircle,
+  X,
+  PieChart
+} from 'lucide-react';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { Expense } from '../types';
+import { getExpenseOccurrences, sumExpenseOccurrences, RECURRENCE_LABELS } from '../utils/expenseUtils';
+import { ExpenseEditModal, ExpenseFormData } from './ExpenseEditModal';
+
+interface ExpensesModuleProps {
+  expenses: Expense[];
+  registers: string[];
+  onAddExpense: (expense: ExpenseFormData, file?: File) => Promise<boolean>;
+  onUpdateExpense: (id: string, updates: Partial<ExpenseFormData>, file?: File | null) => Promise<boolean>;
+  onDeleteExpense: (id: string) => Promise<boolean>;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function ExpensesModule({
+  expenses,
+  registers,
+  onAddExpense,
+  onUpdateExpense,
+  onDeleteExpense
+}: ExpensesModuleProps) {
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notification, setNotification] = useState<{
+    type: 'success' | 'error';
+    message: string;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!notification) return;
+    const timer = setTimeout(() => setNotification(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notification]);
+
+  const notify = (type: 'success' | 'error', message: string) => setNotification({ type, message });
+
+  // Payments of the selected month, recurring expenses included
+  const occurrences = useMemo(() => {
+    const monthStart = startOfMonth(new Date(`${month}-01T12:00:00`));
+    return getExpenseOccurrences(expenses, monthStart, endOfMonth(monthStart));
+  }, [expenses, month]);
+
+  const categories = [...new Set(expenses.map(expense => expense.category))].sort();
+  const displayedOccurrences = categoryFilter === 'all'
+    ? occurrences
+    : occurrences.filter(occurrence => occurrence.expense.category === categoryFilter);
+
+  const byCategory = useMemo(() => {
+    const totals = new Map<string, number>();
+    occurrences.forEach(occurrence => {
+      totals.set(occurrence.expense.category, (totals.get(occurrence.expense.category) || 0) + occurrence.amount);
+    });
+    return Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+  }, [occurrences]);
+
+  const monthTotal = sumExpenseOccurrences(occurrences);
+  const recurringTotal = sumExpenseOccurrences(occurrences.filter(occurrence => occurrence.expense.recurrence !== 'none'));
+
+  const handleSave = async (expense: ExpenseFormData, file?: File | null) => {
+    setIsSaving(true);
+    try {
+      const ok = editingExpense
+        ? await onUpdateExpense(editingExpense.id, expense, file)
+        : await onAddExpense(expense, file || undefined);
+      notify(
+        ok ? 'success' : 'error',
+        ok ? (editingExpense ? 'Dépense mise à jour' : 'Dépense ajoutée') : 'Erreur lors de l\'enregistrement de la dépense'
+      );
+      if (ok) {
+        setShowModal(false);
+        setEditingExpense(null);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (expense: Expense) => {
+    const message = expense.recurrence === 'none'
+      ? `Supprimer la dépense "${expense.label}" ?`
+      : `Supprimer la dépense récurrente "${expense.label}" et toutes ses échéances ?`;
+    if (!confirm(message)) return;
+
+    setIsSaving(true);
+    try {
+      const ok = await onDeleteExpense(expense.id);
+      notify(ok ? 'success' : 'error', ok ? 'Dépense supprimée' : 'Erreur lors de la suppression');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">Dépenses</h1>
+          <p className="text-gray-400">Charges d'exploitation : loyer, énergie, factures fournisseurs...</p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+          <button
+            onClick={() => {
+              setEditingExpense(null);
+              setShowModal(true);
+            }}
+            className="bg-gradient-to-r from-red-500 to-red-600 text-white font-semibold py-2 px-4 rounded-xl
+                       hover:from-red-600 hover:to-red-700 transition-all duration-200 flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Nouvelle dépense</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Notification */}
+      <AnimatePresence>
+        {notification && (
+          <motion.div
+            initial={{ opacity: 0, y: -50, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -50, scale: 0.95 }}
+            className="fixed top-4 right-4 z-50"
+          >
+            <div className={`p-4 rounded-xl border shadow-2xl backdrop-blur-xl flex items-center space-x-3 min-w-80 ${
+              notification.type === 'success'
+                ? 'bg-green-500/20 border-green-500/30 text-green-400'
+                : 'bg-red-500/20 border-red-500/30 text-red-400'
+            }`}>
+              {notification.type === 'success' ? (
+                <CheckCircle className="w-6 h-6 flex-shrink-0" />
+              ) : (
+                <AlertCircle className="w-6 h-6 flex-shrink-0" />
+              )}
+              <span className="font-medium flex-1">{notification.message}</span>
+              <button onClick={() => setNotification(null)} className="text-current hover:opacity-70">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-gradient-to-br from-red-500/10 to-red-600/10 border border-red-500/20 rounded-xl p-4">
+          <p className="text-gray-400 text-sm">Total du mois</p>
+          <p className="text-2xl font-bold text-white">{formatCurrency(monthTotal)}</p>
+        </div>
+        <div className="bg-gradient-to-br from-purple-500/10 to-purple-600/10 border border-purple-500/20 rounded-xl p-4">
+          <p className="text-gray-400 text-sm">Dont charges récurrentes</p>
+          <p className="text-2xl font-bold text-white">{formatCurrency(recurringTotal)}</p>
+        </div>
+        <div className="bg-gradient-to-br from-blue-500/10 to-blue-600/10 border border-blue-500/20 rounded-xl p-4">
+          <p className="text-gray-400 text-sm">Échéances</p>
+          <p className="text-2xl font-bold text-white">{occurrences.length}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Ledger */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="xl:col-span-2 bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+        >
+          <div className="flex flex-wrap gap-2 mb-6">
+            {['all', ...categories].map(category => (
+              <button
+                key={category}
+                onClick={() => setCategoryFilter(category)}
+                className={`px-3 py-1 rounded-lg text-sm transition-all duration-200 ${
+                  categoryFilter === category
+                    ? 'bg-red-500/20 text-red-400 border border-red-500/30'
+                    : 'bg-gray-700/50 text-gray-400 hover:text-white'
+                }`}
+              >
+                {category === 'all' ? 'Toutes' : category}
+              </button>
+            ))}
+          </div>
+
+          {displayedOccurrences.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">
+              <Receipt className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>Aucune dépense ce mois-ci</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Date</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Libellé</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Catégorie</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Caisse</th>
+                    <th className="text-right py-3 px-4 text-gray-400 font-medium">Montant</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {displayedOccurrences.map(({ expense, date, amount }) => (
+                    <tr key={`${expense.id}-${date.getTime()}`} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                      <td className="py-3 px-4 text-gray-300 text-sm">{format(date, 'dd/MM/yyyy')}</td>
+                      <td className="py-3 px-4 text-white">
+                        <div className="flex items-center space-x-2">
+                          <span>{expense.label}</span>
+                          {expense.recurrence !== 'none' && (
+                            <span title={RECURRENCE_LABELS[expense.recurrence]}>
+                              <Repeat className="w-4 h-4 text-purple-400" />
+                            </span>
+                          )}
+                          {expense.attachment && (
+                            <a
+                              href={expense.attachment.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title={expense.attachment.name}
+                              className="text-blue-400 hover:text-blue-300"
+                            >
+                              <Paperclip className="w-4 h-4" />
+                            </a>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 text-gray-300">{expense.category}</td>
+                      <td className="py-3 px-4 text-gray-300 text-sm">{expense.register || 'Toute la boutique'}</td>
+                      <td className="py-3 px-4 text-right text-red-400 font-semibold">{formatCurrency(amount)}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => {
+                              setEditingExpense(expense);
+                              setShowModal(true);
+                            }}
+                            className="p-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-all duration-200"
+                            title="Modifier la dépense"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(expense)}
+                            disabled={isSaving}
+                            className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-all duration-200"
+                            title="Supprimer la dépense"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </motion.div>
+
+        {/* By category */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+        >
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+            <PieChart className="w-5 h-5 text-red-400" />
+            <span>Par catégorie</span>
+          </h3>
+          {byCategory.length === 0 ? (
+            <p className="text-center py-8 text-gray-400">Aucune dépense</p>
+          ) : (
+            <div className="space-y-3">
+              {byCategory.map(([category, total]) => (
+                <div key={category}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-white">{category}</span>
+                    <span className="text-gray-300">{formatCurrency(total)}</span>
+                  </div>
+                  <div className="w-full bg-gray-700 rounded-full h-2">
+                    <div
+                      className="bg-gradient-to-r from-red-500 to-red-600 h-2 rounded-full"
+                      style={{ width: `${monthTotal > 0 ? (total / monthTotal) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </motion.div>
+      </div>
+
+      {/* Expense Modal */}
+      {showModal && (
+        <ExpenseEditModal
+          expense={editingExpense || undefined}
+          registers={registers}
+          isOpen={showModal}
+          onClose={() => {
+            setShowModal(false);
+            setEditingExpense(null);
+          }}
+          onSave={handleSave}
+          isLoading={isSaving}
+        />
+      )}
+    </div>
+  );
+}
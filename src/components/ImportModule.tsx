@@ -22,7 +22,7 @@ import {
   Hash,
   Copy
 } from 'lucide-react';
-import { RegisterSale, ImportPreview } from '../types';
+import { RegisterSale, ImportPreview, Product } from '../types';
 import { validateAndProcessImportWithExistingData } from '../utils/importUtils';
 import { importFromExcel, exportToExcel, parseClipboardData } from '../utils/excelUtils';
 
@@ -30,9 +30,10 @@ interface ImportModuleProps {
   onImportSales: (sales: RegisterSale[]) => Promise<boolean>;
   onRefreshData: () => void;
   existingSales?: RegisterSale[]; // ✅ NEW: Pass existing sales for duplicate detection
+  products?: Product[]; // Price history used to check imported unit prices
 }
 
-export function ImportModule({ onImportSales, onRefreshData, existingSales = [] }: ImportModuleProps) {
+export function ImportModule({ onImportSales, onRefreshData, existingSales = [], products = [] }: ImportModuleProps) {
   const [importing, setImporting] = useState(false);
   const [preview, setPreview] = useState<ImportPreview | null>(null);
   const [showPreview, setShowPreview] = useState(false);
@@ -55,7 +56,7 @@ export function ImportModule({ onImportSales, onRefreshData, existingSales = []
     try {
       const rawData = await importFromExcel(file);
       // ✅ ENHANCED: Use the new function with existing sales comparison
-      const processedPreview = validateAndProcessImportWithExistingData(rawData, existingSales);
+      const processedPreview = validateAndProcessImportWithExistingData(rawData, existingSales, products);
       
       setPreview(processedPreview);
       setShowPreview(true);
@@ -117,7 +118,7 @@ export function ImportModule({ onImportSales, onRefreshData, existingSales = []
 
       const rawData = parseClipboardData(text);
       // ✅ ENHANCED: Use the new function with existing sales comparison
-      const processedPreview = validateAndProcessImportWithExistingData(rawData, existingSales);
+      const processedPreview = validateAndProcessImportWithExistingData(rawData, existingSales, products);
       
       setPreview(processedPreview);
       setShowPreview(true);
@@ -671,6 +672,40 @@ export function ImportModule({ onImportSales, onRefreshData, existingSales = []
                 </div>
               )}
 
+              {/* Unit prices not matching the price valid on the sale date */}
+              {preview.priceMismatches && preview.priceMismatches.length > 0 && (
+                <div className="mb-6 bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-4">
+                  <div className="flex items-center space-x-2 mb-3">
+                    <DollarSign className="w-5 h-5 text-yellow-400" />
+                    <span className="text-yellow-400 font-medium">
+                      Prix Inhabituels ({preview.priceMismatches.length})
+                    </span>
+                  </div>
+                  <p className="text-gray-300 text-sm mb-3">
+                    Ces ventes seront importées, mais leur prix unitaire diffère du prix du produit en vigueur à leur date :
+                  </p>
+                  <div className="max-h-40 overflow-y-auto">
+                    <div className="space-y-2">
+                      {preview.priceMismatches.slice(0, 5).map((mismatch, index) => (
+                        <div key={index} className="bg-yellow-500/5 border border-yellow-500/10 rounded-lg p-3 text-sm">
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-gray-300">
+                            <div><strong>Produit:</strong> {mismatch.productName}</div>
+                            <div><strong>Date:</strong> {mismatch.sale.date.toLocaleDateString('fr-FR')}</div>
+                            <div><strong>Prix attendu:</strong> {formatCurrency(mismatch.expectedPrice)}</div>
+                            <div><strong>Prix importé:</strong> {formatCurrency(mismatch.actualPrice)}</div>
+                          </div>
+                        </div>
+                      ))}
+                      {preview.priceMismatches.length > 5 && (
+                        <div className="text-center text-yellow-400 text-sm">
+                          ... et {preview.priceMismatches.length - 5} autres écarts de prix
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Breakdown by positive/negative */}
               {preview.data.some(sale => sale.total < 0) && (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
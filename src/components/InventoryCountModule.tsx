@@ -0,0 +1,634 @@
+import { useState, useMemo, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ClipboardList,
+  Plus,
+  Save,
+  Eye,
+  EyeOff,
+  Search,
+  CheckCircle,
+  AlertTriangle,
+  RefreshCw,
+  Download,
+  X,
+  ArrowLeft
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { Product, InventorySession, InventoryVariance, Store } from '../types';
+import { calculateInventoryVariances, summarizeInventoryVariances } from '../utils/inventoryUtils';
+import { exportToExcel } from '../utils/excelUtils';
+import { ALL_STORES } from '../utils/storeUtils';
+
+interface InventoryCountModuleProps {
+  products: Product[];
+  sessions: InventorySession[];
+  stores?: Store[];
+  selectedStoreId?: string;
+  onOpenSession: (
+    session: Pick<InventorySession, 'name' | 'categories' | 'blind' | 'countDate' | 'storeId'>
+  ) => Promise<InventorySession | null>;
+  onSaveCounts: (sessionId: string, counts: Record<string, number | null>) => Promise<boolean>;
+  onGetVariances: (sessionId: string) => Promise<InventoryVariance[] | null>;
+  onPostSession: (sessionId: string) => Promise<boolean>;
+  onCancelSession: (sessionId: string) => Promise<boolean>;
+  onNotify: (type: 'success' | 'error' | 'warning', message: string) => void;
+}
+
+const STATUS_LABELS: Record<InventorySession['status'], { label: string; className: string }> = {
+  open: { label: 'En cours', className: 'bg-blue-500/20 text-blue-400' },
+  posted: { label: 'Validé', className: 'bg-green-500/20 text-green-400' },
+  cancelled: { label: 'Annulé', className: 'bg-gray-500/20 text-gray-400' }
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function InventoryCountModule({
+  products,
+  sessions,
+  stores = [],
+  selectedStoreId = ALL_STORES,
+  onOpenSession,
+  onSaveCounts,
+  onGetVariances,
+  onPostSession,
+  onCancelSession,
+  onNotify
+}: InventoryCountModuleProps) {
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [showNewSession, setShowNewSession] = useState(false);
+  const [newName, setNewName] = useState(`Inventaire ${format(new Date(), 'MM/yyyy')}`);
+  const [newCategories, setNewCategories] = useState<Set<string>>(new Set());
+  const [newBlind, setNewBlind] = useState(true);
+  const [newCountDate, setNewCountDate] = useState(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  const [newStoreId, setNewStoreId] = useState(selectedStoreId);
+  const [draftCounts, setDraftCounts] = useState<Record<string, string>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [variances, setVariances] = useState<InventoryVariance[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const categories = useMemo(
+    () => Array.from(new Set(products.map(product => product.category))).sort(),
+    [products]
+  );
+
+  const selectedSession = sessions.find(session => session.id === selectedSessionId) || null;
+
+  // Posted sessions keep their expected quantities, so the report needs no sales history
+  const postedVariances = useMemo(
+    () => selectedSession?.status === 'posted'
+      ? calculateInventoryVariances(selectedSession, products, [], [])
+      : null,
+    [selectedSession, products]
+  );
+  const reportVariances = postedVariances || variances;
+
+  useEffect(() => {
+    setDraftCounts({});
+    setVariances(null);
+    setSearchTerm('');
+  }, [selectedSessionId]);
+
+  const dirtyCounts = useMemo(() => {
+    if (!selectedSession) return {};
+    const counts: Record<string, number | null> = {};
+    Object.entries(draftCounts).forEach(([productId, value]) => {
+      const parsed = value.trim() === '' ? null : parseInt(value);
+      const line = selectedSession.lines.find(l => l.productId === productId);
+      if (line && (parsed === null || !isNaN(parsed)) && parsed !== line.countedQuantity) {
+        counts[productId] = parsed;
+      }
+    });
+    return counts;
+  }, [draftCounts, selectedSession]);
+
+  const hasUnsavedCounts = Object.keys(dirtyCounts).length > 0;
+
+  const filteredLines = useMemo(() => {
+    if (!selectedSession) return [];
+    const term = searchTerm.toLowerCase();
+    return selectedSession.lines.filter(line =>
+      !term || line.productName.toLowerCase().includes(term) || line.category.toLowerCase().includes(term)
+    );
+  }, [selectedSession, searchTerm]);
+
+  const toggleCategory = (category: string) => {
+    setNewCategories(prev => {
+      const next = new Set(prev);
+      if (next.has(category)) {
+        next.delete(category);
+      } else {
+        next.add(category);
+      }
+      return next;
+    });
+  };
+
+  const handleCreateSession = async () => {
+    if (!newName.trim() || newCategories.size === 0) {
+      onNotify('warning', 'Indiquez un nom et au moins une catégorie');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const created = await onOpenSession({
+        name: newName.trim(),
+        categories: Array.from(newCategories),
+        blind: newBlind,
+        countDate: new Date(newCountDate),
+        storeId: stores.some(s => s.id === newStoreId) ? newStoreId : undefined
+      });
+      if (created) {
+        setShowNewSession(false);
+        setNewCategories(new Set());
+        setSelectedSessionId(created.id);
+        onNotify('success', `Inventaire ouvert : ${created.lines.length} produits à compter`);
+      } else {
+        onNotify('error', 'Impossible d\'ouvrir l\'inventaire');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveDraftCounts = async () => {
+    if (!selectedSession || !hasUnsavedCounts) return true;
+    const saved = await onSaveCounts(selectedSession.id, dirtyCounts);
+    if (saved) {
+      setDraftCounts({});
+    } else {
+      onNotify('error', 'Erreur lors de l\'enregistrement des comptages');
+    }
+    return saved;
+  };
+
+  const handleSaveCounts = async () => {
+    setIsBusy(true);
+    try {
+      if (await saveDraftCounts()) {
+        onNotify('success', 'Comptages enregistrés');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReview = async () => {
+    if (!selectedSession) return;
+    setIsBusy(true);
+    try {
+      if (!(await saveDraftCounts())) return;
+      const result = await onGetVariances(selectedSession.id);
+      if (result) {
+        setVariances(result);
+      } else {
+        onNotify('error', 'Impossible de calculer les écarts');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!selectedSession) return;
+    setIsBusy(true);
+    try {
+      if (await onPostSession(selectedSession.id)) {
+        onNotify('success', 'Écarts d\'inventaire passés en ajustements');
+      } else {
+        onNotify('error', 'Erreur lors de la validation de l\'inventaire');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!selectedSession) return;
+    setIsBusy(true);
+    try {
+      if (await onCancelSession(selectedSession.id)) {
+        setSelectedSessionId(null);
+        onNotify('success', 'Inventaire annulé');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!selectedSession || !reportVariances) return;
+    exportToExcel(reportVariances.map(variance => ({
+      Produit: variance.productName,
+      Catégorie: variance.category,
+      Attendu: variance.expected,
+      Compté: variance.counted ?? '',
+      Écart: variance.counted === null ? '' : variance.variance,
+      'Valeur écart': Math.round(variance.value * 100) / 100
+    })), `inventaire-${selectedSession.name}-${format(selectedSession.countDate, 'yyyy-MM-dd')}`);
+  };
+
+  const getDisplayedCount = (productId: string, countedQuantity: number | null) =>
+    productId in draftCounts ? draftCounts[productId] : countedQuantity?.toString() ?? '';
+
+  const getStoreName = (session: InventorySession) =>
+    session.storeId ? stores.find(s => s.id === session.storeId)?.name : undefined;
+
+  // Session list
+  if (!selectedSession) {
+    return (
+      <div className="space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+        >
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+                <ClipboardList className="w-6 h-6 text-blue-400" />
+                <span>Inventaires Physiques</span>
+              </h2>
+              <p className="text-gray-400 text-sm">
+                Comptez les rayons puis comparez au stock attendu à la date du comptage
+              </p>
+            </div>
+            <button
+              onClick={() => setShowNewSession(!showNewSession)}
+              className="bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold py-2 px-4 rounded-xl
+                         hover:from-blue-600 hover:to-blue-700 transition-all duration-200 flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Nouvel inventaire</span>
+            </button>
+          </div>
+
+          {showNewSession && (
+            <div className="bg-gray-700/30 rounded-xl p-4 mb-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Nom</label>
+                  <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                               focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Date et heure du comptage</label>
+                  <input
+                    type="datetime-local"
+                    value={newCountDate}
+                    onChange={(e) => setNewCountDate(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                               focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  />
+                </div>
+              </div>
+
+              {stores.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Magasin compté</label>
+                  <select
+                    value={newStoreId}
+                    onChange={(e) => setNewStoreId(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                               focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  >
+                    <option value={ALL_STORES}>Tous les magasins (écarts passés sur le magasin principal)</option>
+                    {stores.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-gray-400">Catégories à compter</label>
+                  <button
+                    onClick={() => setNewCategories(
+                      newCategories.size === categories.length ? new Set() : new Set(categories)
+                    )}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    {newCategories.size === categories.length ? 'Tout désélectionner' : 'Tout sélectionner'}
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {categories.map(category => (
+                    <button
+                      key={category}
+                      onClick={() => toggleCategory(category)}
+                      className={`px-3 py-1 rounded-lg text-sm transition-all duration-200 ${
+                        newCategories.has(category)
+                          ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                          : 'bg-gray-700/50 text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-gray-300 text-sm">
+                <input
+                  type="checkbox"
+                  checked={newBlind}
+                  onChange={(e) => setNewBlind(e.target.checked)}
+                  className="rounded border-gray-600 bg-gray-700 text-blue-500"
+                />
+                <span>Comptage à l'aveugle (masquer le stock attendu pendant le comptage)</span>
+              </label>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleCreateSession}
+                  disabled={isBusy}
+                  className="bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold py-2 px-4 rounded-xl
+                             hover:from-green-600 hover:to-green-700 transition-all duration-200
+                             disabled:opacity-50 flex items-center space-x-2"
+                >
+                  {isBusy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <ClipboardList className="w-4 h-4" />}
+                  <span>Ouvrir l'inventaire</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {sessions.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">
+              <ClipboardList className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>Aucun inventaire pour le moment</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Inventaire</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Date du comptage</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Catégories</th>
+                    <th className="text-center py-3 px-4 text-gray-400 font-medium">Progression</th>
+                    <th className="text-center py-3 px-4 text-gray-400 font-medium">Statut</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map(session => {
+                    const countedLines = session.lines.filter(line => line.countedQuantity !== null).length;
+                    return (
+                      <tr
+                        key={session.id}
+                        onClick={() => setSelectedSessionId(session.id)}
+                        className="border-b border-gray-700/50 hover:bg-gray-700/20 cursor-pointer"
+                      >
+                        <td className="py-3 px-4 text-white font-medium">
+                          {session.name}
+                          {session.blind && <EyeOff className="w-3 h-3 inline ml-2 text-gray-500" />}
+                          {getStoreName(session) && (
+                            <span className="block text-xs text-gray-400">{getStoreName(session)}</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-gray-300 text-sm">{format(session.countDate, 'dd/MM/yyyy HH:mm')}</td>
+                        <td className="py-3 px-4 text-gray-300 text-sm">{session.categories.join(', ')}</td>
+                        <td className="py-3 px-4 text-center text-gray-300 text-sm">
+                          {countedLines} / {session.lines.length}
+                        </td>
+                        <td className="py-3 px-4 text-center">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[session.status].className}`}>
+                            {STATUS_LABELS[session.status].label}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </motion.div>
+      </div>
+    );
+  }
+
+  const isOpen = selectedSession.status === 'open';
+  const showExpected = !isOpen || !selectedSession.blind || !!variances;
+  const summary = reportVariances ? summarizeInventoryVariances(reportVariances) : null;
+  const variancesById = new Map((reportVariances || []).map(variance => [variance.productId, variance]));
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+      >
+        {/* Session header */}
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setSelectedSessionId(null)}
+              className="p-2 bg-gray-700/50 text-gray-400 rounded-lg hover:text-white transition-all duration-200"
+              title="Retour aux inventaires"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </button>
+            <div>
+              <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+                <span>{selectedSession.name}</span>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[selectedSession.status].className}`}>
+                  {STATUS_LABELS[selectedSession.status].label}
+                </span>
+              </h2>
+              <p className="text-gray-400 text-sm">
+                Comptage au {format(selectedSession.countDate, 'dd/MM/yyyy HH:mm')} • {selectedSession.categories.join(', ')}
+                {getStoreName(selectedSession) && ` • ${getStoreName(selectedSession)}`}
+                {selectedSession.blind && ' • Comptage à l\'aveugle'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {isOpen && (
+              <>
+                <button
+                  onClick={handleSaveCounts}
+                  disabled={isBusy || !hasUnsavedCounts}
+                  className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30
+                             transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
+                >
+                  <Save className="w-4 h-4" />
+                  <span>Enregistrer</span>
+                </button>
+                <button
+                  onClick={handleReview}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-purple-500/20 text-purple-400 rounded-lg hover:bg-purple-500/30
+                             transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
+                >
+                  {isBusy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+                  <span>Revue des écarts</span>
+                </button>
+                <button
+                  onClick={handleCancel}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30
+                             transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
+                >
+                  <X className="w-4 h-4" />
+                  <span>Annuler l'inventaire</span>
+                </button>
+              </>
+            )}
+            {reportVariances && (
+              <button
+                onClick={handleExport}
+                className="px-4 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30
+                           transition-all duration-200 flex items-center space-x-2"
+              >
+                <Download className="w-4 h-4" />
+                <span>Exporter</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Variance summary */}
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-gray-700/30 rounded-xl p-4">
+              <p className="text-gray-400 text-sm">Produits comptés</p>
+              <p className="text-2xl font-bold text-white">{summary.counted} / {summary.counted + summary.uncounted}</p>
+            </div>
+            <div className="bg-gray-700/30 rounded-xl p-4">
+              <p className="text-gray-400 text-sm">Produits en écart</p>
+              <p className="text-2xl font-bold text-yellow-400">{summary.linesWithVariance}</p>
+            </div>
+            <div className="bg-gray-700/30 rounded-xl p-4">
+              <p className="text-gray-400 text-sm">Manquants / Surplus</p>
+              <p className="text-2xl font-bold text-white">
+                <span className="text-red-400">-{summary.missingUnits}</span>
+                {' / '}
+                <span className="text-green-400">+{summary.surplusUnits}</span>
+              </p>
+            </div>
+            <div className="bg-gray-700/30 rounded-xl p-4">
+              <p className="text-gray-400 text-sm">Valeur nette des écarts</p>
+              <p className={`text-2xl font-bold ${summary.netValue < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {formatCurrency(summary.netValue)}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {isOpen && variances && (
+          <div className="bg-blue-500/10 border border-blue-500/20 rounded-xl p-4 mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
+              <p className="text-blue-300 text-sm">
+                Les écarts seront passés en ajustements « Écart d'inventaire » à la date du comptage.
+                {summary && summary.uncounted > 0 && ` ${summary.uncounted} produit(s) non compté(s) seront ignorés.`}
+              </p>
+            </div>
+            <button
+              onClick={handlePost}
+              disabled={isBusy || hasUnsavedCounts}
+              className="bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold py-2 px-4 rounded-xl
+                         hover:from-green-600 hover:to-green-700 transition-all duration-200
+                         disabled:opacity-50 flex items-center space-x-2 flex-shrink-0"
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>Valider l'inventaire</span>
+            </button>
+          </div>
+        )}
+
+        {/* Search */}
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Rechercher un produit..."
+            className="w-full pl-10 pr-4 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white
+                       placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+        </div>
+
+        {/* Count lines */}
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="text-left py-3 px-4 text-gray-400 font-medium">Produit</th>
+                <th className="text-left py-3 px-4 text-gray-400 font-medium">Catégorie</th>
+                {showExpected && <th className="text-center py-3 px-4 text-gray-400 font-medium">Attendu</th>}
+                <th className="text-center py-3 px-4 text-gray-400 font-medium">Compté</th>
+                {reportVariances && (
+                  <>
+                    <th className="text-center py-3 px-4 text-gray-400 font-medium">Écart</th>
+                    <th className="text-right py-3 px-4 text-gray-400 font-medium">Valeur</th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {filteredLines.map(line => {
+                const variance = variancesById.get(line.productId);
+                const product = products.find(p => p.id === line.productId);
+                return (
+                  <tr key={line.productId} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                    <td className="py-3 px-4 text-white font-medium">{line.productName}</td>
+                    <td className="py-3 px-4 text-gray-300 text-sm">{line.category}</td>
+                    {showExpected && (
+                      <td className="py-3 px-4 text-center text-gray-300">
+                        {variance ? variance.expected : product?.stock ?? '—'}
+                      </td>
+                    )}
+                    <td className="py-3 px-4 text-center">
+                      {isOpen ? (
+                        <input
+                          type="number"
+                          min="0"
+                          value={getDisplayedCount(line.productId, line.countedQuantity)}
+                          onChange={(e) => {
+                            setDraftCounts(prev => ({ ...prev, [line.productId]: e.target.value }));
+                            setVariances(null);
+                          }}
+                          className="w-24 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-center
+                                     focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                        />
+                      ) : (
+                        <span className="text-white">{line.countedQuantity ?? '—'}</span>
+                      )}
+                    </td>
+                    {reportVariances && (
+                      <>
+                        <td className={`py-3 px-4 text-center font-medium ${
+                          !variance || variance.counted === null || variance.variance === 0
+                            ? 'text-gray-400'
+                            : variance.variance < 0 ? 'text-red-400' : 'text-green-400'
+                        }`}>
+                          {variance && variance.counted !== null
+                            ? `${variance.variance > 0 ? '+' : ''}${variance.variance}`
+                            : '—'}
+                        </td>
+                        <td className={`py-3 px-4 text-right ${variance && variance.value < 0 ? 'text-red-400' : 'text-gray-300'}`}>
+                          {variance && variance.counted !== null ? formatCurrency(variance.value) : '—'}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -2,7 +2,8 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Bell, AlertTriangle, CheckCircle, Info, X, Trash2, Filter, Search, Calendar, Package, TrendingUp, Users, Settings, RefreshCw, Star, Clock, Eye, Volume2, Download, Shield, Activity, Plus, AlertCircle } from 'lucide-react';
 import { format, isToday, isYesterday, subDays, subHours, subMinutes } from 'date-fns';
-import { useFirebaseData } from '../hooks/useFirebaseData';
+import { calculateTargetsProgress, getTargetPeriodKey } from '../utils/targetUtils';
+import { DashboardStats, Product, RegisterSale, SalesTarget, SalesTargetPeriod, SalesTargetScope } from '../types';
 
 interface Notification {
   id: string;
@@ -23,6 +24,18 @@ interface Notification {
   };
 }
 
+const TARGET_PERIOD_LABELS: Record<SalesTargetPeriod, string> = {
+  daily: 'du jour',
+  weekly: 'de la semaine',
+  monthly: 'du mois'
+};
+
+const TARGET_SCOPE_LABELS: Record<Exclude<SalesTargetScope, 'overall'>, string> = {
+  seller: 'du vendeur',
+  register: 'de la caisse',
+  category: 'de la catégorie'
+};
+
 interface NotificationSettings {
   sound: boolean;
   desktop: boolean;
@@ -38,8 +51,21 @@ interface NotificationSettings {
   };
 }
 
-export function NotificationsModule() {
-  const { products, registerSales, dashboardStats, loading } = useFirebaseData();
+interface NotificationsModuleProps {
+  products: Product[];
+  registerSales: RegisterSale[];
+  salesTargets: SalesTarget[];
+  dashboardStats: DashboardStats | null;
+  loading: boolean;
+}
+
+export function NotificationsModule({
+  products,
+  registerSales,
+  salesTargets,
+  dashboardStats,
+  loading
+}: NotificationsModuleProps) {
   
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [filteredNotifications, setFilteredNotifications] = useState<Notification[]>([]);
@@ -110,29 +136,48 @@ export function NotificationsModule() {
       }
     });
 
-    // 2. Notifications de ventes (basées sur les vraies ventes)
-    if (dashboardStats) {
-      // Objectif de vente quotidien
-      const todaySales = registerSales.filter(sale => isToday(sale.date));
-      const todayRevenue = todaySales.reduce((sum, sale) => sum + sale.total, 0);
-      
-      if (todayRevenue > 1000) {
-        realNotifications.push({
-          id: 'sales-target-reached',
-          type: 'success',
-          category: 'sales',
-          title: 'Objectif de vente dépassé',
-          message: `Excellente journée ! Vous avez réalisé ${todayRevenue.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' })} de chiffre d'affaires aujourd'hui`,
-          timestamp: subHours(now, 1),
-          read: false,
-          starred: false,
-          priority: 'medium',
-          metadata: {
-            amount: todayRevenue
-          }
-        });
-      }
+    // 2. Objectifs de vente atteints ou nettement en retard, une notification par objectif et par période
+    calculateTargetsProgress(salesTargets, registerSales, now).forEach(({ target, actual, expected, status, reachedAt }) => {
+      if (status === 'onTrack') return;
+
+      const scopeLabel = target.scope === 'overall' ? 'de la boutique' : `${TARGET_SCOPE_LABELS[target.scope]} ${target.scopeValue}`;
+      const formatValue = (value: number) => target.metric === 'revenue'
+        ? value.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' })
+        : `${Math.round(value)} unités`;
 
+      realNotifications.push(status === 'reached' ? {
+        id: `target-reached-${target.id}-${getTargetPeriodKey(target.period, now)}`,
+        type: 'success',
+        category: 'sales',
+        title: 'Objectif de vente atteint',
+        message: `Objectif ${TARGET_PERIOD_LABELS[target.period]} ${scopeLabel} atteint : ${formatValue(actual)} pour un objectif de ${formatValue(target.amount)}`,
+        timestamp: reachedAt || now,
+        read: false,
+        starred: false,
+        priority: 'medium',
+        metadata: {
+          sellerId: target.scope === 'seller' ? target.scopeValue : undefined,
+          amount: actual
+        }
+      } : {
+        id: `target-behind-${target.id}-${getTargetPeriodKey(target.period, now)}`,
+        type: 'warning',
+        category: 'sales',
+        title: 'Objectif de vente en retard',
+        message: `Objectif ${TARGET_PERIOD_LABELS[target.period]} ${scopeLabel} : ${formatValue(actual)} réalisés, ${formatValue(expected)} attendus à ce stade pour un objectif de ${formatValue(target.amount)}`,
+        timestamp: now,
+        read: false,
+        starred: false,
+        priority: 'high',
+        metadata: {
+          sellerId: target.scope === 'seller' ? target.scopeValue : undefined,
+          amount: actual
+        }
+      });
+    });
+
+    // 3. Notifications de ventes (basées sur les vraies ventes)
+    if (dashboardStats) {
       // Top vendeur du jour
       if (dashboardStats.topSellers.length > 0) {
         const topSeller = dashboardStats.topSellers[0];
@@ -175,7 +220,7 @@ export function NotificationsModule() {
       }
     }
 
-    // 3. Notifications système (basées sur l'état réel)
+    // 4. Notifications système (basées sur l'état réel)
     realNotifications.push({
       id: 'system-sync-success',
       type: 'success',
@@ -204,7 +249,7 @@ export function NotificationsModule() {
       priority: 'low'
     });
 
-    // 4. Notifications de sécurité
+    // 5. Notifications de sécurité
     realNotifications.push({
       id: 'security-session',
       type: 'info',
@@ -217,7 +262,7 @@ export function NotificationsModule() {
       priority: 'low'
     });
 
-    // 5. Notifications utilisateur
+    // 6. Notifications utilisateur
     const recentSales = registerSales.filter(sale => 
       sale.date > subHours(now, 24)
     );
@@ -252,7 +297,7 @@ export function NotificationsModule() {
 
     // Trier par timestamp (plus récent en premier)
     return realNotifications.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  }, [products, registerSales, dashboardStats]);
+  }, [products, registerSales, salesTargets, dashboardStats]);
 
   // ✅ Mettre à jour les notifications quand les données changent
   useEffect(() => {
@@ -11,18 +11,30 @@ import {
   FileText,
   Calendar,
   AlertTriangle,
-  Info
+  Info,
+  ShoppingBag,
+  Barcode,
+  Layers,
+  Plus
 } from 'lucide-react';
-import { Product, RegisterSale } from '../types';
+import { format } from 'date-fns';
+import { Product, RegisterSale, Store } from '../types';
 import { validateStockConfiguration, getDefaultInitialStockDate, formatStockDate } from '../utils/calculateStockFinal';
+import { withCostPriceHistory } from '../utils/marginUtils';
+import { withPriceHistory, getScheduledPriceChanges } from '../utils/priceHistoryUtils';
+import { createProductIndex, normalizeProductCode } from '../utils/productIdentityUtils';
+import { isBundle } from '../utils/bundleUtils';
+import { useAuth } from '../hooks/useAuth';
 
 interface ProductEditModalProps {
   product?: Product; // undefined for create mode
   isOpen: boolean;
   onClose: () => void;
-  onSave: (productData: Omit<Product, 'id'>) => Promise<void>;
+  onSave: (productData: Omit<Product, 'id'>, stockChangeReason?: string) => Promise<void>;
   isLoading: boolean;
   allSales?: RegisterSale[]; // For validation warnings
+  allProducts?: Product[]; // SKUs and barcodes must stay unique
+  stores?: Store[]; // Oldest first, the main store keeps the initial stock not placed elsewhere
 }
 
 export function ProductEditModal({ 
@@ -31,18 +43,30 @@ export function ProductEditModal({
   onClose, 
   onSave, 
   isLoading,
-  allSales = []
+  allSales = [],
+  allProducts = [],
+  stores = []
 }: ProductEditModalProps) {
   const [formData, setFormData] = useState({
+    sku: '',
+    barcodes: '',
     name: '',
     category: '',
     price: '',
+    priceDate: format(new Date(), 'yyyy-MM-dd'),
+    costPrice: '',
+    costPriceDate: format(new Date(), 'yyyy-MM-dd'),
     initialStock: '',
     initialStockDate: getDefaultInitialStockDate(),
     minStock: '',
     description: ''
   });
 
+  const { user } = useAuth();
+  const [storeInitialStocks, setStoreInitialStocks] = useState<Record<string, string>>({});
+  const [bundleComponents, setBundleComponents] = useState<Array<{ productId: string; quantity: string }>>([]);
+  const [componentToAdd, setComponentToAdd] = useState('');
+  const [stockChangeReason, setStockChangeReason] = useState('');
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [warnings, setWarnings] = useState<any[]>([]);
 
@@ -50,9 +74,14 @@ export function ProductEditModal({
   useEffect(() => {
     if (product) {
       setFormData({
+        sku: product.sku || '',
+        barcodes: (product.barcodes || []).join(', '),
         name: product.name,
         category: product.category,
         price: product.price.toString(),
+        priceDate: format(new Date(), 'yyyy-MM-dd'),
+        costPrice: product.costPrice !== undefined ? product.costPrice.toString() : '',
+        costPriceDate: format(new Date(), 'yyyy-MM-dd'),
         initialStock: (product.initialStock || 0).toString(),
         initialStockDate: product.initialStockDate || getDefaultInitialStockDate(),
         minStock: product.minStock.toString(),
@@ -60,15 +89,29 @@ export function ProductEditModal({
       });
     } else {
       setFormData({
+        sku: '',
+        barcodes: '',
         name: '',
         category: '',
         price: '',
+        priceDate: format(new Date(), 'yyyy-MM-dd'),
+        costPrice: '',
+        costPriceDate: format(new Date(), 'yyyy-MM-dd'),
         initialStock: '',
         initialStockDate: getDefaultInitialStockDate(),
         minStock: '',
         description: ''
       });
     }
+    setStoreInitialStocks(Object.fromEntries(
+      Object.entries(product?.initialStockByStore || {}).map(([storeId, quantity]) => [storeId, quantity.toString()])
+    ));
+    setBundleComponents((product?.bundleComponents || []).map(component => ({
+      productId: component.productId,
+      quantity: component.quantity.toString()
+    })));
+    setComponentToAdd('');
+    setStockChangeReason('');
     setErrors({});
     setWarnings([]);
   }, [product, isOpen]);
@@ -82,13 +125,53 @@ export function ProductEditModal({
         initialStockDate: formData.initialStockDate
       };
       
-      const stockWarnings = validateStockConfiguration(tempProduct, allSales);
+      const stockWarnings = validateStockConfiguration(tempProduct, allSales, createProductIndex([...allProducts, product]));
       setWarnings(stockWarnings);
     }
-  }, [formData.initialStock, formData.initialStockDate, product, allSales]);
+  }, [formData.initialStock, formData.initialStockDate, product, allSales, allProducts]);
+
+  const [mainStore, ...otherStores] = stores;
+  const placedInOtherStores = otherStores.reduce((sum, s) => sum + (parseInt(storeInitialStocks[s.id]) || 0), 0);
+
+  // A bundle is made of plain products: no bundle inside a bundle
+  const componentChoices = allProducts
+    .filter(p => p.id !== product?.id && !isBundle(p) && !bundleComponents.some(c => c.productId === p.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const getComponentName = (productId: string) => allProducts.find(p => p.id === productId)?.name || productId;
+
+  const addComponent = () => {
+    if (!componentToAdd) return;
+    setBundleComponents(prev => [...prev, { productId: componentToAdd, quantity: '1' }]);
+    setComponentToAdd('');
+  };
+
+  const parseBarcodes = (value: string) =>
+    Array.from(new Set(value.split(/[\s,;]+/).map(normalizeProductCode).filter(code => code !== '')));
+
+  // Codes of the other products, a SKU or barcode can only identify one product
+  const getTakenCodes = () => new Map(
+    allProducts
+      .filter(p => p.id !== product?.id)
+      .flatMap(p => [p.sku, ...(p.barcodes || [])]
+        .filter((code): code is string => !!code)
+        .map(code => [normalizeProductCode(code), p.name] as [string, string]))
+  );
 
   const validateForm = (): boolean => {
     const newErrors: { [key: string]: string } = {};
+    const takenCodes = getTakenCodes();
+
+    const sku = normalizeProductCode(formData.sku);
+    if (sku && takenCodes.has(sku)) {
+      newErrors.sku = `SKU déjà utilisé par "${takenCodes.get(sku)}"`;
+    }
+
+    const takenBarcode = parseBarcodes(formData.barcodes).find(code => takenCodes.has(code) || code === sku);
+    if (takenBarcode) {
+      newErrors.barcodes = takenBarcode === sku
+        ? 'Un code-barres ne peut pas reprendre le SKU'
+        : `Code-barres ${takenBarcode} déjà utilisé par "${takenCodes.get(takenBarcode)}"`;
+    }
 
     if (!formData.name.trim()) {
       newErrors.name = 'Le nom du produit est requis';
@@ -103,9 +186,25 @@ export function ProductEditModal({
       newErrors.price = 'Le prix doit être un nombre positif';
     }
 
+    if (!formData.priceDate) {
+      newErrors.priceDate = 'La date d\'effet du prix est requise';
+    }
+
+    if (formData.costPrice !== '') {
+      const costPrice = parseFloat(formData.costPrice);
+      if (isNaN(costPrice) || costPrice < 0) {
+        newErrors.costPrice = 'Le prix d\'achat doit être un nombre positif';
+      }
+      if (!formData.costPriceDate) {
+        newErrors.costPriceDate = 'La date d\'effet du prix d\'achat est requise';
+      }
+    }
+
     const initialStock = parseInt(formData.initialStock);
     if (isNaN(initialStock) || initialStock < 0) {
       newErrors.initialStock = 'Le stock initial doit être un nombre positif';
+    } else if (placedInOtherStores > initialStock) {
+      newErrors.initialStock = `Le stock réparti dans les autres magasins (${placedInOtherStores}) dépasse le stock initial`;
     }
 
     const minStock = parseInt(formData.minStock);
@@ -117,6 +216,12 @@ export function ProductEditModal({
       newErrors.initialStockDate = 'La date de stock initial est requise';
     }
 
+    if (bundleComponents.some(component => !(parseInt(component.quantity) > 0))) {
+      newErrors.bundleComponents = 'Chaque composant doit avoir une quantité d\'au moins 1';
+    } else if (bundleComponents.length > 0 && product && allProducts.some(p => p.bundleComponents?.some(c => c.productId === product.id))) {
+      newErrors.bundleComponents = 'Ce produit est déjà le composant d\'un autre pack';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -124,19 +229,41 @@ export function ProductEditModal({
   const handleSave = async () => {
     if (!validateForm()) return;
 
+    const barcodes = parseBarcodes(formData.barcodes);
+    const initialStockByStore = Object.fromEntries(otherStores
+      .map(s => [s.id, parseInt(storeInitialStocks[s.id]) || 0] as [string, number])
+      .filter(([, quantity]) => quantity > 0));
     const productData: Omit<Product, 'id'> = {
+      sku: normalizeProductCode(formData.sku) || product?.sku, // Generated on creation when left blank
+      barcodes: barcodes.length > 0 || product?.barcodes ? barcodes : undefined,
       name: formData.name.trim(),
       category: formData.category.trim(),
       price: parseFloat(formData.price),
       stock: 0, // Will be calculated by the system
       initialStock: parseInt(formData.initialStock),
+      initialStockByStore: Object.keys(initialStockByStore).length > 0 || product?.initialStockByStore
+        ? initialStockByStore
+        : undefined,
       initialStockDate: formData.initialStockDate,
       quantitySold: 0, // Will be calculated by the system
       minStock: parseInt(formData.minStock),
-      description: formData.description.trim()
+      description: formData.description.trim(),
+      costPrice: formData.costPrice !== '' ? parseFloat(formData.costPrice) : undefined,
+      bundleComponents: bundleComponents.length > 0 || product?.bundleComponents
+        ? bundleComponents.map(component => ({ productId: component.productId, quantity: parseInt(component.quantity) }))
+        : undefined
     };
 
-    await onSave(productData);
+    // Price changes only apply from their effective date: earlier sales keep their price and margin
+    await onSave(
+      withPriceHistory(
+        withCostPriceHistory(productData, product, formData.costPriceDate),
+        product,
+        formData.priceDate,
+        user?.name
+      ),
+      stockChangeReason.trim() || undefined
+    );
   };
 
   const handleInputChange = (field: string, value: string) => {
@@ -152,6 +279,12 @@ export function ProductEditModal({
 
   const isEditMode = !!product;
 
+  // Editing the stock configuration is recorded in the stock ledger
+  const isStockConfigurationChanged = isEditMode && (
+    formData.initialStock !== (product.initialStock || 0).toString() ||
+    formData.initialStockDate !== (product.initialStockDate || getDefaultInitialStockDate())
+  );
+
   return (
     <AnimatePresence>
       <motion.div
@@ -241,6 +374,49 @@ export function ProductEditModal({
 
           {/* Form */}
           <div className="space-y-6">
+            {/* SKU and barcodes */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  <Hash className="w-4 h-4 inline mr-2" />
+                  SKU
+                </label>
+                <input
+                  type="text"
+                  value={formData.sku}
+                  onChange={(e) => handleInputChange('sku', e.target.value)}
+                  className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-white font-mono
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+                               errors.sku ? 'border-red-500' : 'border-gray-600'
+                             }`}
+                  placeholder={isEditMode ? 'SKU du produit' : 'Généré automatiquement si vide'}
+                />
+                {errors.sku && (
+                  <p className="text-red-400 text-sm mt-1">{errors.sku}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  <Barcode className="w-4 h-4 inline mr-2" />
+                  Codes-barres EAN
+                </label>
+                <input
+                  type="text"
+                  value={formData.barcodes}
+                  onChange={(e) => handleInputChange('barcodes', e.target.value)}
+                  className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-white font-mono
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+                               errors.barcodes ? 'border-red-500' : 'border-gray-600'
+                             }`}
+                  placeholder="Optionnel, séparés par des virgules"
+                />
+                {errors.barcodes && (
+                  <p className="text-red-400 text-sm mt-1">{errors.barcodes}</p>
+                )}
+              </div>
+            </div>
+
             {/* Product Name and Category */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -285,26 +461,120 @@ export function ProductEditModal({
             </div>
 
             {/* Price */}
-            <div>
-              <label className="block text-sm font-medium text-gray-400 mb-2">
-                <DollarSign className="w-4 h-4 inline mr-2" />
-                Prix Unitaire (€)
-              </label>
-              <input
-                type="number"
-                step="0.01"
-                min="0"
-                value={formData.price}
-                onChange={(e) => handleInputChange('price', e.target.value)}
-                className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-white
-                           focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
-                             errors.price ? 'border-red-500' : 'border-gray-600'
-                           }`}
-                placeholder="0.00"
-              />
-              {errors.price && (
-                <p className="text-red-400 text-sm mt-1">{errors.price}</p>
-              )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  <DollarSign className="w-4 h-4 inline mr-2" />
+                  Prix Unitaire (€)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.price}
+                  onChange={(e) => handleInputChange('price', e.target.value)}
+                  className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+                               errors.price ? 'border-red-500' : 'border-gray-600'
+                             }`}
+                  placeholder="0.00"
+                />
+                {errors.price && (
+                  <p className="text-red-400 text-sm mt-1">{errors.price}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  <Calendar className="w-4 h-4 inline mr-2" />
+                  Prix applicable à partir du
+                </label>
+                <input
+                  type="date"
+                  value={formData.priceDate}
+                  onChange={(e) => handleInputChange('priceDate', e.target.value)}
+                  className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+                               errors.priceDate ? 'border-red-500' : 'border-gray-600'
+                             }`}
+                />
+                {errors.priceDate && (
+                  <p className="text-red-400 text-sm mt-1">{errors.priceDate}</p>
+                )}
+                {formData.priceDate > format(new Date(), 'yyyy-MM-dd') && (
+                  <p className="text-blue-400 text-xs mt-1">
+                    Changement programmé : le prix actuel reste appliqué jusqu'au {formatStockDate(formData.priceDate)}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {product && getScheduledPriceChanges(product).length > 0 && (
+              <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-3 text-sm">
+                <p className="text-blue-400 font-medium mb-1">Changements de prix programmés</p>
+                {getScheduledPriceChanges(product).map(change => (
+                  <p key={change.effectiveDate} className="text-gray-300">
+                    {formatStockDate(change.effectiveDate)} : {change.price.toFixed(2)} €
+                    {change.changedBy && <span className="text-gray-500"> (par {change.changedBy})</span>}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {/* Cost Price */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  <ShoppingBag className="w-4 h-4 inline mr-2" />
+                  Prix d'Achat (€)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.costPrice}
+                  onChange={(e) => handleInputChange('costPrice', e.target.value)}
+                  className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+                               errors.costPrice ? 'border-red-500' : 'border-gray-600'
+                             }`}
+                  placeholder="Non renseigné"
+                />
+                {errors.costPrice && (
+                  <p className="text-red-400 text-sm mt-1">{errors.costPrice}</p>
+                )}
+                {formData.costPrice !== '' && parseFloat(formData.price) > 0 && (
+                  <p className={`text-xs mt-1 ${
+                    parseFloat(formData.costPrice) > parseFloat(formData.price) ? 'text-red-400' : 'text-gray-500'
+                  }`}>
+                    Marge unitaire : {(parseFloat(formData.price) - (parseFloat(formData.costPrice) || 0)).toFixed(2)} €
+                    {' '}({(((parseFloat(formData.price) - (parseFloat(formData.costPrice) || 0)) / parseFloat(formData.price)) * 100).toFixed(1)}%)
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  <Calendar className="w-4 h-4 inline mr-2" />
+                  Applicable à partir du
+                </label>
+                <input
+                  type="date"
+                  value={formData.costPriceDate}
+                  disabled={formData.costPrice === '' || parseFloat(formData.costPrice) === product?.costPrice}
+                  onChange={(e) => handleInputChange('costPriceDate', e.target.value)}
+                  className={`w-full px-4 py-3 bg-gray-700 border rounded-lg text-white disabled:opacity-50
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+                               errors.costPriceDate ? 'border-red-500' : 'border-gray-600'
+                             }`}
+                />
+                {errors.costPriceDate && (
+                  <p className="text-red-400 text-sm mt-1">{errors.costPriceDate}</p>
+                )}
+                {product?.costPriceHistory && product.costPriceHistory.length > 1 && (
+                  <p className="text-gray-500 text-xs mt-1">
+                    {product.costPriceHistory.length} prix d'achat enregistrés
+                  </p>
+                )}
+              </div>
             </div>
 
             {/* Stock Configuration */}
@@ -358,6 +628,34 @@ export function ProductEditModal({
                 </div>
               </div>
 
+              {otherStores.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">
+                    Répartition du stock initial
+                  </label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {otherStores.map(s => (
+                      <div key={s.id} className="flex items-center space-x-3">
+                        <span className="text-gray-300 text-sm flex-1 truncate">{s.name}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={storeInitialStocks[s.id] || ''}
+                          onChange={(e) => setStoreInitialStocks(prev => ({ ...prev, [s.id]: e.target.value }))}
+                          className="w-24 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                                     focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                          placeholder="0"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-gray-500 text-xs mt-1">
+                    Le reste ({Math.max(0, (parseInt(formData.initialStock) || 0) - placedInOtherStores)} unités) est
+                    en stock à {mainStore.name}, le magasin principal
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-2">
                   Stock Minimum (Alerte)
@@ -379,6 +677,70 @@ export function ProductEditModal({
               </div>
             </div>
 
+            {/* Bundle composition */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">
+                <Layers className="w-4 h-4 inline mr-2" />
+                Composition (pack ou kit, optionnel)
+              </label>
+              {bundleComponents.length > 0 && (
+                <div className="space-y-2 mb-3">
+                  {bundleComponents.map(component => (
+                    <div key={component.productId} className="flex items-center space-x-3">
+                      <input
+                        type="number"
+                        min="1"
+                        value={component.quantity}
+                        onChange={(e) => setBundleComponents(prev => prev.map(c =>
+                          c.productId === component.productId ? { ...c, quantity: e.target.value } : c
+                        ))}
+                        className="w-20 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-center
+                                   focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                      />
+                      <span className="text-gray-400 text-sm">×</span>
+                      <span className="text-gray-300 text-sm flex-1 truncate">{getComponentName(component.productId)}</span>
+                      <button
+                        type="button"
+                        onClick={() => setBundleComponents(prev => prev.filter(c => c.productId !== component.productId))}
+                        className="p-1 text-gray-400 hover:text-red-400 transition-colors duration-200"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex space-x-2">
+                <select
+                  value={componentToAdd}
+                  onChange={(e) => setComponentToAdd(e.target.value)}
+                  className="flex-1 px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                >
+                  <option value="">Ajouter un composant…</option>
+                  {componentChoices.map(p => (
+                    <option key={p.id} value={p.id}>{p.name} ({p.category})</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={addComponent}
+                  disabled={!componentToAdd}
+                  className="px-4 py-3 bg-gray-700 text-gray-300 rounded-lg hover:text-white transition-all duration-200
+                             disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              {errors.bundleComponents && (
+                <p className="text-red-400 text-sm mt-1">{errors.bundleComponents}</p>
+              )}
+              <p className="text-gray-500 text-xs mt-1">
+                Chaque vente du pack retire ses composants du stock ; son propre stock est le nombre de packs
+                réalisables avec le stock des composants
+              </p>
+            </div>
+
             {/* Description */}
             <div>
               <label className="block text-sm font-medium text-gray-400 mb-2">
@@ -394,6 +756,25 @@ export function ProductEditModal({
                 placeholder="Description du produit..."
               />
             </div>
+
+            {isStockConfigurationChanged && (
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  Motif de la modification du stock
+                </label>
+                <input
+                  type="text"
+                  value={stockChangeReason}
+                  onChange={(e) => setStockChangeReason(e.target.value)}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  placeholder="Ex : correction après comptage"
+                />
+                <p className="text-gray-500 text-xs mt-1">
+                  Enregistré dans l'historique des mouvements de stock
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Actions */}
@@ -0,0 +1,282 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Combine, Link2, Tags, RefreshCw, CheckSquare, Square, AlertTriangle } from 'lucide-react';
+import { Product, RegisterSale } from '../types';
+import { findDuplicateGroups, findUnmatchedSaleNames, getDuplicateKey } from '../utils/productIdentityUtils';
+
+interface ProductMergeModuleProps {
+  products: Product[];
+  registerSales: RegisterSale[];
+  onMergeProducts: (targetId: string, sourceIds: string[]) => Promise<boolean>;
+  onAddAliases: (productId: string, names: string[]) => Promise<number | null>;
+  onNotify: (type: 'success' | 'error' | 'warning', message: string) => void;
+}
+
+const MAX_UNMATCHED_NAMES = 50;
+
+export function ProductMergeModule({
+  products,
+  registerSales,
+  onMergeProducts,
+  onAddAliases,
+  onNotify
+}: ProductMergeModuleProps) {
+  // Per group, keyed by its most sold product: the product kept and the ones merged into it
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [aliasTargets, setAliasTargets] = useState<Record<string, string>>({});
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const groups = useMemo(() => findDuplicateGroups(products, registerSales), [products, registerSales]);
+  const unmatchedNames = useMemo(
+    () => findUnmatchedSaleNames(products, registerSales).slice(0, MAX_UNMATCHED_NAMES),
+    [products, registerSales]
+  );
+  const productsWithAliases = products.filter(product => (product.aliases || []).length > 0);
+  const sortedProducts = useMemo(() => [...products].sort((a, b) => a.name.localeCompare(b.name)), [products]);
+
+  // Products sharing the loose name come first in the alias picker
+  const getSuggestedProduct = (name: string) =>
+    products.find(product => getDuplicateKey(product.name) === getDuplicateKey(name))?.id || '';
+
+  const toggleExcluded = (productId: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const handleMerge = async (groupKey: string, productIds: string[]) => {
+    const targetId = targets[groupKey] || groupKey;
+    const sourceIds = productIds.filter(id => id !== targetId && !excluded.has(id));
+    const target = products.find(product => product.id === targetId);
+    if (!target || sourceIds.length === 0) return;
+
+    if (!confirm(`Fusionner ${sourceIds.length} produit(s) dans "${target.name}" ? Leurs ventes, leur stock et leur historique seront repris, puis ils seront supprimés.`)) {
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      if (await onMergeProducts(targetId, sourceIds)) {
+        onNotify('success', `${sourceIds.length} produit(s) fusionné(s) dans ${target.name}`);
+      } else {
+        onNotify('error', 'Erreur lors de la fusion des produits');
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleAddAlias = async (name: string) => {
+    const productId = aliasTargets[name] ?? getSuggestedProduct(name);
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+
+    setIsUpdating(true);
+    try {
+      const linked = await onAddAliases(productId, [name]);
+      if (linked === null) {
+        onNotify('error', 'Erreur lors de l\'ajout de l\'alias');
+      } else {
+        onNotify('success', `"${name}" ajouté comme alias de ${product.name} : ${linked} vente(s) liée(s)`);
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+      >
+        <h2 className="text-xl font-bold text-white flex items-center space-x-2 mb-1">
+          <Combine className="w-6 h-6 text-teal-400" />
+          <span>Doublons probables</span>
+        </h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Produits au nom presque identique (casse, accents, espaces, « x2 », fautes de frappe). La fusion reprend
+          leurs ventes, leur stock, leurs codes-barres et leur historique dans le produit conservé ; leurs noms
+          deviennent des alias.
+        </p>
+
+        {groups.length === 0 ? (
+          <p className="text-center py-6 text-gray-400">Aucun doublon probable dans le catalogue</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => {
+              const groupKey = group[0].product.id;
+              const targetId = targets[groupKey] || groupKey;
+              const mergedCount = group.filter(row => row.product.id !== targetId && !excluded.has(row.product.id)).length;
+
+              return (
+                <div key={groupKey} className="border border-gray-700 rounded-xl p-4">
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-700">
+                          <th className="text-left py-2 px-2 text-gray-400 font-medium">Conserver</th>
+                          <th className="text-left py-2 px-2 text-gray-400 font-medium">Fusionner</th>
+                          <th className="text-left py-2 px-2 text-gray-400 font-medium">Produit</th>
+                          <th className="text-left py-2 px-2 text-gray-400 font-medium">Catégorie</th>
+                          <th className="text-center py-2 px-2 text-gray-400 font-medium">Stock</th>
+                          <th className="text-center py-2 px-2 text-gray-400 font-medium">Ventes</th>
+                          <th className="text-center py-2 px-2 text-gray-400 font-medium">Unités vendues</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {group.map(row => {
+                          const isTarget = row.product.id === targetId;
+                          return (
+                            <tr key={row.product.id} className="border-b border-gray-700/50">
+                              <td className="py-2 px-2">
+                                <input
+                                  type="radio"
+                                  name={`merge-target-${groupKey}`}
+                                  checked={isTarget}
+                                  onChange={() => setTargets(prev => ({ ...prev, [groupKey]: row.product.id }))}
+                                />
+                              </td>
+                              <td className="py-2 px-2">
+                                {!isTarget && (
+                                  <button onClick={() => toggleExcluded(row.product.id)} className="text-gray-400 hover:text-white">
+                                    {excluded.has(row.product.id)
+                                      ? <Square className="w-5 h-5" />
+                                      : <CheckSquare className="w-5 h-5 text-teal-400" />}
+                                  </button>
+                                )}
+                              </td>
+                              <td className="py-2 px-2 text-white font-medium">
+                                {row.product.name}
+                                {row.product.sku && <span className="ml-2 text-gray-500 text-xs font-mono">{row.product.sku}</span>}
+                              </td>
+                              <td className="py-2 px-2 text-gray-300">{row.product.category}</td>
+                              <td className="py-2 px-2 text-center text-white">{row.product.stock}</td>
+                              <td className="py-2 px-2 text-center text-white">{row.salesCount}</td>
+                              <td className="py-2 px-2 text-center text-gray-300">{row.soldQuantity}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="flex justify-end mt-3">
+                    <button
+                      onClick={() => handleMerge(groupKey, group.map(row => row.product.id))}
+                      disabled={isUpdating || mergedCount === 0}
+                      className="bg-teal-500/20 text-teal-400 border border-teal-500/30 py-2 px-4 rounded-xl
+                                 hover:bg-teal-500/30 transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
+                    >
+                      {isUpdating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Combine className="w-4 h-4" />}
+                      <span>Fusionner {mergedCount} produit(s)</span>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+
+      <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6">
+        <h2 className="text-xl font-bold text-white flex items-center space-x-2 mb-1">
+          <Link2 className="w-6 h-6 text-blue-400" />
+          <span>Noms de vente non reconnus</span>
+        </h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Noms des ventes chargées qui ne correspondent à aucun produit. Les rattacher comme alias lie aussi
+          leurs ventes passées et futures.
+        </p>
+
+        {unmatchedNames.length === 0 ? (
+          <p className="text-center py-6 text-gray-400">Toutes les ventes chargées correspondent à un produit</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Nom en caisse</th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Catégorie</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Ventes</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Unités</th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Produit</th>
+                  <th className="py-3 px-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {unmatchedNames.map(row => {
+                  const selectedId = aliasTargets[row.name] ?? getSuggestedProduct(row.name);
+                  return (
+                    <tr key={row.name} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                      <td className="py-3 px-2 text-white font-medium">{row.name}</td>
+                      <td className="py-3 px-2 text-gray-300">{row.category}</td>
+                      <td className="py-3 px-2 text-center text-white">{row.salesCount}</td>
+                      <td className="py-3 px-2 text-center text-gray-300">{row.soldQuantity}</td>
+                      <td className="py-3 px-2">
+                        <select
+                          value={selectedId}
+                          onChange={(e) => setAliasTargets(prev => ({ ...prev, [row.name]: e.target.value }))}
+                          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm
+                                     focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                        >
+                          <option value="">Choisir un produit…</option>
+                          {sortedProducts.map(product => (
+                            <option key={product.id} value={product.id}>{product.name} ({product.category})</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-3 px-2 text-right">
+                        <button
+                          onClick={() => handleAddAlias(row.name)}
+                          disabled={isUpdating || !selectedId}
+                          className="bg-blue-500/20 text-blue-400 border border-blue-500/30 py-2 px-3 rounded-lg text-sm
+                                     hover:bg-blue-500/30 transition-all duration-200 disabled:opacity-50 whitespace-nowrap"
+                        >
+                          Ajouter l'alias
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-gray-500 text-xs mt-4 flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>Seules les ventes chargées sont analysées ; l'alias s'applique ensuite à tout l'historique.</span>
+        </p>
+      </div>
+
+      <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6">
+        <h2 className="text-xl font-bold text-white flex items-center space-x-2 mb-4">
+          <Tags className="w-6 h-6 text-purple-400" />
+          <span>Alias enregistrés</span>
+        </h2>
+        {productsWithAliases.length === 0 ? (
+          <p className="text-center py-6 text-gray-400">Aucun alias enregistré</p>
+        ) : (
+          <div className="space-y-3">
+            {productsWithAliases.map(product => (
+              <div key={product.id} className="flex flex-col md:flex-row md:items-center gap-2">
+                <span className="text-white font-medium md:w-64">{product.name}</span>
+                <div className="flex flex-wrap gap-2">
+                  {(product.aliases || []).map(alias => (
+                    <span key={alias} className="px-2 py-1 rounded-full text-xs bg-purple-500/20 text-purple-300">
+                      {alias}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Save, RefreshCw, FileText, Plus, Trash2, Calendar } from 'lucide-react';
+import { format } from 'date-fns';
+import { Product, PurchaseOrder, PurchaseOrderLine, Supplier } from '../types';
+import {
+  buildSuggestedOrderLines,
+  calculateOnOrderQuantities,
+  getDefaultExpectedDate,
+  getPurchaseOrderTotal
+} from '../utils/purchaseOrderUtils';
+
+export type PurchaseOrderFormData = Pick<PurchaseOrder, 'supplierId' | 'lines' | 'expectedDate' | 'notes'>;
+
+interface PurchaseOrderEditModalProps {
+  order?: PurchaseOrder; // Draft being edited
+  suppliers: Supplier[];
+  products: Product[];
+  purchaseOrders: PurchaseOrder[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (order: PurchaseOrderFormData) => Promise<void>;
+  isLoading: boolean;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function PurchaseOrderEditModal({
+  order,
+  suppliers,
+  products,
+  purchaseOrders,
+  isOpen,
+  onClose,
+  onSave,
+  isLoading
+}: PurchaseOrderEditModalProps) {
+  const [supplierId, setSupplierId] = useState('');
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([]);
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [productToAdd, setProductToAdd] = useState('');
+  const [error, setError] = useState('');
+
+  const onOrder = useMemo(() => calculateOnOrderQuantities(purchaseOrders), [purchaseOrders]);
+  const productsById = useMemo(() => new Map(products.map(product => [product.id, product])), [products]);
+  const supplier = suppliers.find(s => s.id === supplierId);
+
+  useEffect(() => {
+    if (order) {
+      setSupplierId(order.supplierId);
+      setLines(order.lines);
+      setExpectedDate(order.expectedDate ? format(order.expectedDate, 'yyyy-MM-dd') : '');
+      setNotes(order.notes || '');
+    } else {
+      setSupplierId('');
+      setLines([]);
+      setExpectedDate('');
+      setNotes('');
+    }
+    setError('');
+  }, [order, isOpen]);
+
+  const handleSupplierChange = (id: string) => {
+    setSupplierId(id);
+    const selected = suppliers.find(s => s.id === id);
+    if (selected) {
+      setLines(buildSuggestedOrderLines(selected, products, onOrder));
+      setExpectedDate(format(getDefaultExpectedDate(selected), 'yyyy-MM-dd'));
+    } else {
+      setLines([]);
+    }
+  };
+
+  const updateLine = (productId: string, updates: Partial<PurchaseOrderLine>) => {
+    setLines(prev => prev.map(line => line.productId === productId ? { ...line, ...updates } : line));
+    setError('');
+  };
+
+  const handleAddProduct = () => {
+    const product = productsById.get(productToAdd);
+    if (!product) return;
+    const supplierPrice = supplier?.products.find(p => p.productId === product.id)?.purchasePrice;
+
+    setLines(prev => [...prev, {
+      productId: product.id,
+      productName: product.name,
+      category: product.category,
+      quantityOrdered: 1,
+      quantityReceived: 0,
+      unitCost: supplierPrice ?? 0
+    }]);
+    setProductToAdd('');
+  };
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      setError('Sélectionnez un fournisseur');
+      return;
+    }
+    if (!lines.some(line => line.quantityOrdered > 0)) {
+      setError('La commande doit contenir au moins une ligne avec une quantité');
+      return;
+    }
+
+    await onSave({
+      supplierId,
+      lines,
+      expectedDate: expectedDate ? new Date(`${expectedDate}T12:00:00`) : undefined,
+      notes: notes.trim() || undefined
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const availableProducts = products.filter(product => !lines.some(line => line.productId === product.id));
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-gray-800 border border-gray-700 rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-green-500/20 rounded-full flex items-center justify-center">
+                <FileText className="w-5 h-5 text-green-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-white">
+                  {order ? `Commande ${order.number}` : 'Nouvelle Commande Fournisseur'}
+                </h3>
+                <p className="text-gray-400 text-sm">Brouillon • modifiable jusqu'à l'envoi</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="text-gray-400 hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Fournisseur *</label>
+                <select
+                  value={supplierId}
+                  onChange={(e) => handleSupplierChange(e.target.value)}
+                  disabled={!!order}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-60"
+                >
+                  <option value="">Sélectionner un fournisseur...</option>
+                  {suppliers.map(s => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  <Calendar className="w-4 h-4 inline mr-2" />
+                  Livraison prévue
+                </label>
+                <input
+                  type="date"
+                  value={expectedDate}
+                  onChange={(e) => setExpectedDate(e.target.value)}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                />
+              </div>
+            </div>
+
+            {/* Lines */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Lignes de commande</label>
+              {supplierId && (
+                <div className="flex space-x-2 mb-3">
+                  <select
+                    value={productToAdd}
+                    onChange={(e) => setProductToAdd(e.target.value)}
+                    className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                               focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  >
+                    <option value="">Ajouter un produit...</option>
+                    {availableProducts.map(product => (
+                      <option key={product.id} value={product.id}>{product.name} ({product.category})</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleAddProduct}
+                    disabled={!productToAdd}
+                    className="px-3 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30
+                               transition-all duration-200 disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+
+              {lines.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-gray-700">
+                        <th className="text-left py-2 px-2 text-gray-400 text-sm font-medium">Produit</th>
+                        <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Stock</th>
+                        <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Stock min</th>
+                        <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">En commande</th>
+                        <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Quantité</th>
+                        <th className="text-right py-2 px-2 text-gray-400 text-sm font-medium">Prix d'achat</th>
+                        <th className="text-right py-2 px-2 text-gray-400 text-sm font-medium">Total</th>
+                        <th className="py-2 px-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lines.map(line => {
+                        const product = productsById.get(line.productId);
+                        return (
+                          <tr key={line.productId} className="border-b border-gray-700/50">
+                            <td className="py-2 px-2 text-white text-sm">{line.productName}</td>
+                            <td className="py-2 px-2 text-center text-gray-300 text-sm">{product?.stock ?? '—'}</td>
+                            <td className="py-2 px-2 text-center text-gray-300 text-sm">{product?.minStock ?? '—'}</td>
+                            <td className="py-2 px-2 text-center text-blue-400 text-sm">{onOrder.get(line.productId) || 0}</td>
+                            <td className="py-2 px-2 text-center">
+                              <input
+                                type="number"
+                                min="0"
+                                value={line.quantityOrdered}
+                                onChange={(e) => updateLine(line.productId, { quantityOrdered: parseInt(e.target.value) || 0 })}
+                                className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm text-center"
+                              />
+                            </td>
+                            <td className="py-2 px-2 text-right">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={line.unitCost}
+                                onChange={(e) => updateLine(line.productId, { unitCost: parseFloat(e.target.value) || 0 })}
+                                className="w-24 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm text-right"
+                              />
+                            </td>
+                            <td className="py-2 px-2 text-right text-green-400 text-sm">
+                              {formatCurrency(line.quantityOrdered * line.unitCost)}
+                            </td>
+                            <td className="py-2 px-2 text-right">
+                              <button
+                                onClick={() => setLines(prev => prev.filter(l => l.productId !== line.productId))}
+                                className="p-1 text-red-400 hover:text-red-300"
+                                title="Retirer la ligne"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <p className="text-right text-white font-semibold mt-3">
+                    Total commande : {formatCurrency(getPurchaseOrderTotal({ lines }))}
+                  </p>
+                  <p className="text-gray-500 text-xs mt-1">
+                    Les lignes à quantité nulle sont ignorées à l'enregistrement
+                  </p>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">
+                  {supplierId ? 'Aucun produit par défaut pour ce fournisseur' : 'Choisissez un fournisseur pour préremplir la commande'}
+                </p>
+              )}
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                           focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            </div>
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+          </div>
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-8">
+            <button
+              onClick={handleSave}
+              disabled={isLoading}
+              className="flex-1 bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-green-600 hover:to-green-700
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                         flex items-center justify-center space-x-2"
+            >
+              {isLoading ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              <span>Enregistrer le brouillon</span>
+            </button>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl
+                         hover:bg-gray-500 transition-all duration-200"
+            >
+              Annuler
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
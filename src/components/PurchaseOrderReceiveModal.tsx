@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RefreshCw, PackageCheck, Calendar, Store as StoreIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { PurchaseOrder, Store } from '../types';
+import { getRemainingQuantity } from '../utils/purchaseOrderUtils';
+import { getMainStore } from '../utils/storeUtils';
+
+interface PurchaseOrderReceiveModalProps {
+  order: PurchaseOrder;
+  stores?: Store[];
+  isOpen: boolean;
+  onClose: () => void;
+  onReceive: (receivedQuantities: Record<string, number>, date: Date, storeId?: string) => Promise<void>;
+  isLoading: boolean;
+}
+
+export function PurchaseOrderReceiveModal({
+  order,
+  stores = [],
+  isOpen,
+  onClose,
+  onReceive,
+  isLoading
+}: PurchaseOrderReceiveModalProps) {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [receiptDate, setReceiptDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [storeId, setStoreId] = useState('');
+  const [error, setError] = useState('');
+  const mainStoreId = getMainStore(stores)?.id || '';
+
+  // Everything still expected is received by default, in the main store
+  useEffect(() => {
+    setQuantities(Object.fromEntries(
+      order.lines.map(line => [line.productId, String(getRemainingQuantity(line))])
+    ));
+    setReceiptDate(format(new Date(), 'yyyy-MM-dd'));
+    setStoreId(mainStoreId);
+    setError('');
+  }, [order, isOpen, mainStoreId]);
+
+  const handleReceive = async () => {
+    const received: Record<string, number> = {};
+
+    for (const line of order.lines) {
+      const quantity = parseInt(quantities[line.productId] || '0') || 0;
+      if (quantity < 0 || quantity > getRemainingQuantity(line)) {
+        setError(`Quantité invalide pour ${line.productName} (reste ${getRemainingQuantity(line)})`);
+        return;
+      }
+      if (quantity > 0) received[line.productId] = quantity;
+    }
+
+    if (Object.keys(received).length === 0) {
+      setError('Saisissez au moins une quantité reçue');
+      return;
+    }
+
+    await onReceive(
+      received,
+      receiptDate === format(new Date(), 'yyyy-MM-dd') ? new Date() : new Date(`${receiptDate}T12:00:00`),
+      stores.some(s => s.id === storeId) ? storeId : undefined
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-gray-800 border border-gray-700 rounded-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-teal-500/20 rounded-full flex items-center justify-center">
+                <PackageCheck className="w-5 h-5 text-teal-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-white">Réception {order.number}</h3>
+                <p className="text-gray-400 text-sm">{order.supplierName}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="text-gray-400 hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">
+                <Calendar className="w-4 h-4 inline mr-2" />
+                Date de réception
+              </label>
+              <input
+                type="date"
+                value={receiptDate}
+                onChange={(e) => setReceiptDate(e.target.value)}
+                className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                           focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            </div>
+
+            {stores.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">
+                  <StoreIcon className="w-4 h-4 inline mr-2" />
+                  Magasin de réception
+                </label>
+                <select
+                  value={storeId}
+                  onChange={(e) => setStoreId(e.target.value)}
+                  className="px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                >
+                  {stores.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-2 px-2 text-gray-400 text-sm font-medium">Produit</th>
+                  <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Commandé</th>
+                  <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Déjà reçu</th>
+                  <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Reçu maintenant</th>
+                </tr>
+              </thead>
+              <tbody>
+                {order.lines.map(line => (
+                  <tr key={line.productId} className="border-b border-gray-700/50">
+                    <td className="py-2 px-2 text-white text-sm">{line.productName}</td>
+                    <td className="py-2 px-2 text-center text-gray-300 text-sm">{line.quantityOrdered}</td>
+                    <td className="py-2 px-2 text-center text-gray-300 text-sm">{line.quantityReceived}</td>
+                    <td className="py-2 px-2 text-center">
+                      <input
+                        type="number"
+                        min="0"
+                        max={getRemainingQuantity(line)}
+                        value={quantities[line.productId] ?? ''}
+                        disabled={getRemainingQuantity(line) === 0}
+                        onChange={(e) => {
+                          setQuantities(prev => ({ ...prev, [line.productId]: e.target.value }));
+                          setError('');
+                        }}
+                        className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm text-center
+                                   disabled:opacity-50"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+          <p className="text-gray-500 text-xs mt-3">
+            Les quantités reçues entrent en stock avec la référence {order.number}
+          </p>
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={handleReceive}
+              disabled={isLoading}
+              className="flex-1 bg-gradient-to-r from-teal-500 to-teal-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-teal-600 hover:to-teal-700
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                         flex items-center justify-center space-x-2"
+            >
+              {isLoading ? <RefreshCw className="w-5 h-5 animate-spin" /> : <PackageCheck className="w-5 h-5" />}
+              <span>Valider la réception</span>
+            </button>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl
+                         hover:bg-gray-500 transition-all duration-200"
+            >
+              Annuler
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,473 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Truck,
+  FileText,
+  Plus,
+  Edit,
+  Trash2,
+  Send,
+  PackageCheck,
+  CheckCircle,
+  AlertCircle,
+  X,
+  Clock
+} from 'lucide-react';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { Product, PurchaseOrder, PurchaseOrderStatus, Store, Supplier } from '../types';
+import { getPurchaseOrderTotal, getRemainingQuantity } from '../utils/purchaseOrderUtils';
+import { SupplierEditModal } from './SupplierEditModal';
+import { PurchaseOrderEditModal, PurchaseOrderFormData } from './PurchaseOrderEditModal';
+import { PurchaseOrderReceiveModal } from './PurchaseOrderReceiveModal';
+
+type SupplierFormData = Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface PurchasingModuleProps {
+  products: Product[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  onAddSupplier: (supplier: SupplierFormData) => Promise<boolean>;
+  onUpdateSupplier: (id: string, updates: Partial<SupplierFormData>) => Promise<boolean>;
+  onDeleteSupplier: (id: string) => Promise<boolean>;
+  onCreatePurchaseOrder: (order: PurchaseOrderFormData) => Promise<PurchaseOrder | null>;
+  onUpdatePurchaseOrder: (id: string, updates: Omit<PurchaseOrderFormData, 'supplierId'>) => Promise<boolean>;
+  onDeletePurchaseOrder: (id: string) => Promise<boolean>;
+  onSendPurchaseOrder: (id: string) => Promise<boolean>;
+  onReceivePurchaseOrder: (id: string, receivedQuantities: Record<string, number>, date: Date, storeId?: string) => Promise<boolean>;
+  stores?: Store[];
+}
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, { label: string; className: string }> = {
+  draft: { label: 'Brouillon', className: 'bg-gray-500/20 text-gray-300' },
+  sent: { label: 'Envoyée', className: 'bg-blue-500/20 text-blue-400' },
+  partially_received: { label: 'Reçue partiellement', className: 'bg-orange-500/20 text-orange-400' },
+  received: { label: 'Reçue', className: 'bg-green-500/20 text-green-400' }
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function PurchasingModule({
+  products,
+  suppliers,
+  purchaseOrders,
+  onAddSupplier,
+  onUpdateSupplier,
+  onDeleteSupplier,
+  onCreatePurchaseOrder,
+  onUpdatePurchaseOrder,
+  onDeletePurchaseOrder,
+  onSendPurchaseOrder,
+  onReceivePurchaseOrder,
+  stores = []
+}: PurchasingModuleProps) {
+  const [activeTab, setActiveTab] = useState<'orders' | 'suppliers'>('orders');
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'all'>('all');
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [showSupplierModal, setShowSupplierModal] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [showOrderModal, setShowOrderModal] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notification, setNotification] = useState<{
+    type: 'success' | 'error';
+    message: string;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!notification) return;
+    const timer = setTimeout(() => setNotification(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notification]);
+
+  const notify = (type: 'success' | 'error', message: string) => setNotification({ type, message });
+
+  const filteredOrders = purchaseOrders.filter(order => statusFilter === 'all' || order.status === statusFilter);
+
+  const runAction = async (action: () => Promise<boolean>, success: string, failure: string) => {
+    setIsSaving(true);
+    try {
+      const ok = await action();
+      notify(ok ? 'success' : 'error', ok ? success : failure);
+      return ok;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveSupplier = async (supplier: SupplierFormData) => {
+    const ok = await runAction(
+      () => editingSupplier ? onUpdateSupplier(editingSupplier.id, supplier) : onAddSupplier(supplier),
+      editingSupplier ? 'Fournisseur mis à jour' : 'Fournisseur ajouté',
+      'Erreur lors de l\'enregistrement du fournisseur'
+    );
+    if (ok) {
+      setShowSupplierModal(false);
+      setEditingSupplier(null);
+    }
+  };
+
+  const handleSaveOrder = async (order: PurchaseOrderFormData) => {
+    const ok = await runAction(
+      async () => editingOrder
+        ? onUpdatePurchaseOrder(editingOrder.id, { lines: order.lines, expectedDate: order.expectedDate, notes: order.notes })
+        : !!(await onCreatePurchaseOrder(order)),
+      editingOrder ? 'Commande mise à jour' : 'Commande créée en brouillon',
+      'Erreur lors de l\'enregistrement de la commande'
+    );
+    if (ok) {
+      setShowOrderModal(false);
+      setEditingOrder(null);
+    }
+  };
+
+  const handleReceive = async (receivedQuantities: Record<string, number>, date: Date, storeId?: string) => {
+    if (!receivingOrder) return;
+    const ok = await runAction(
+      () => onReceivePurchaseOrder(receivingOrder.id, receivedQuantities, date, storeId),
+      'Réception enregistrée, stock mis à jour',
+      'Erreur lors de la réception'
+    );
+    if (ok) setReceivingOrder(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header with tabs */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">Achats</h1>
+          <p className="text-gray-400">Fournisseurs, commandes et réceptions de marchandises</p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => setActiveTab('orders')}
+            className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+              activeTab === 'orders'
+                ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                : 'bg-gray-700/50 text-gray-400 hover:text-white'
+            }`}
+          >
+            <FileText className="w-4 h-4 inline mr-2" />
+            Commandes
+          </button>
+          <button
+            onClick={() => setActiveTab('suppliers')}
+            className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+              activeTab === 'suppliers'
+                ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                : 'bg-gray-700/50 text-gray-400 hover:text-white'
+            }`}
+          >
+            <Truck className="w-4 h-4 inline mr-2" />
+            Fournisseurs
+          </button>
+        </div>
+      </div>
+
+      {/* Notification */}
+      <AnimatePresence>
+        {notification && (
+          <motion.div
+            initial={{ opacity: 0, y: -50, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -50, scale: 0.95 }}
+            className="fixed top-4 right-4 z-50"
+          >
+            <div className={`p-4 rounded-xl border shadow-2xl backdrop-blur-xl flex items-center space-x-3 min-w-80 ${
+              notification.type === 'success'
+                ? 'bg-green-500/20 border-green-500/30 text-green-400'
+                : 'bg-red-500/20 border-red-500/30 text-red-400'
+            }`}>
+              {notification.type === 'success' ? (
+                <CheckCircle className="w-6 h-6 flex-shrink-0" />
+              ) : (
+                <AlertCircle className="w-6 h-6 flex-shrink-0" />
+              )}
+              <span className="font-medium flex-1">{notification.message}</span>
+              <button onClick={() => setNotification(null)} className="text-current hover:opacity-70">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {activeTab === 'orders' ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+        >
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+            <div className="flex flex-wrap gap-2">
+              {(['all', 'draft', 'sent', 'partially_received', 'received'] as const).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-3 py-1 rounded-lg text-sm transition-all duration-200 ${
+                    statusFilter === status
+                      ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                      : 'bg-gray-700/50 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {status === 'all' ? 'Toutes' : STATUS_LABELS[status].label}
+                  {' '}({status === 'all' ? purchaseOrders.length : purchaseOrders.filter(o => o.status === status).length})
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => {
+                setEditingOrder(null);
+                setShowOrderModal(true);
+              }}
+              disabled={suppliers.length === 0}
+              title={suppliers.length === 0 ? 'Ajoutez d\'abord un fournisseur' : undefined}
+              className="bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold py-2 px-4 rounded-xl
+                         hover:from-green-600 hover:to-green-700 transition-all duration-200
+                         disabled:opacity-50 flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Nouvelle commande</span>
+            </button>
+          </div>
+
+          {filteredOrders.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">
+              <FileText className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>Aucune commande fournisseur</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Numéro</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Fournisseur</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Créée le</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Livraison prévue</th>
+                    <th className="text-center py-3 px-4 text-gray-400 font-medium">Reste à recevoir</th>
+                    <th className="text-right py-3 px-4 text-gray-400 font-medium">Montant</th>
+                    <th className="text-center py-3 px-4 text-gray-400 font-medium">Statut</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredOrders.map(order => {
+                    const remaining = order.lines.reduce((sum, line) => sum + getRemainingQuantity(line), 0);
+                    const isLate = !!order.expectedDate && remaining > 0 && order.status !== 'draft' &&
+                      isBefore(order.expectedDate, startOfDay(new Date()));
+
+                    return (
+                      <tr key={order.id} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                        <td className="py-3 px-4 text-white font-mono text-sm">{order.number}</td>
+                        <td className="py-3 px-4 text-white">{order.supplierName}</td>
+                        <td className="py-3 px-4 text-gray-300 text-sm">{format(order.createdAt, 'dd/MM/yyyy')}</td>
+                        <td className={`py-3 px-4 text-sm ${isLate ? 'text-red-400' : 'text-gray-300'}`}>
+                          {order.expectedDate ? format(order.expectedDate, 'dd/MM/yyyy') : '—'}
+                          {isLate && <Clock className="w-3 h-3 inline ml-1" />}
+                        </td>
+                        <td className="py-3 px-4 text-center text-gray-300">{remaining}</td>
+                        <td className="py-3 px-4 text-right text-green-400 font-semibold">
+                          {formatCurrency(getPurchaseOrderTotal(order))}
+                        </td>
+                        <td className="py-3 px-4 text-center">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[order.status].className}`}>
+                            {STATUS_LABELS[order.status].label}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex space-x-2">
+                            {order.status === 'draft' && (
+                              <>
+                                <button
+                                  onClick={() => {
+                                    setEditingOrder(order);
+                                    setShowOrderModal(true);
+                                  }}
+                                  className="p-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-all duration-200"
+                                  title="Modifier le brouillon"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => runAction(
+                                    () => onSendPurchaseOrder(order.id),
+                                    `Commande ${order.number} envoyée`,
+                                    'Erreur lors de l\'envoi de la commande'
+                                  )}
+                                  disabled={isSaving}
+                                  className="p-2 bg-purple-500/20 text-purple-400 rounded-lg hover:bg-purple-500/30 transition-all duration-200"
+                                  title="Marquer comme envoyée"
+                                >
+                                  <Send className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => runAction(
+                                    () => onDeletePurchaseOrder(order.id),
+                                    'Brouillon supprimé',
+                                    'Erreur lors de la suppression'
+                                  )}
+                                  disabled={isSaving}
+                                  className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-all duration-200"
+                                  title="Supprimer le brouillon"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                            {(order.status === 'sent' || order.status === 'partially_received') && (
+                              <button
+                                onClick={() => setReceivingOrder(order)}
+                                className="p-2 bg-teal-500/20 text-teal-400 rounded-lg hover:bg-teal-500/30 transition-all duration-200"
+                                title="Réceptionner"
+                              >
+                                <PackageCheck className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </motion.div>
+      ) : (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+        >
+          <div className="flex justify-end mb-6">
+            <button
+              onClick={() => {
+                setEditingSupplier(null);
+                setShowSupplierModal(true);
+              }}
+              className="bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold py-2 px-4 rounded-xl
+                         hover:from-blue-600 hover:to-blue-700 transition-all duration-200 flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Nouveau fournisseur</span>
+            </button>
+          </div>
+
+          {suppliers.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">
+              <Truck className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>Aucun fournisseur enregistré</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Fournisseur</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Contact</th>
+                    <th className="text-center py-3 px-4 text-gray-400 font-medium">Délai</th>
+                    <th className="text-center py-3 px-4 text-gray-400 font-medium">Produits</th>
+                    <th className="text-center py-3 px-4 text-gray-400 font-medium">Commandes en cours</th>
+                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {suppliers.map(supplier => {
+                    const openOrders = purchaseOrders.filter(order =>
+                      order.supplierId === supplier.id && (order.status === 'sent' || order.status === 'partially_received')
+                    ).length;
+
+                    return (
+                      <tr key={supplier.id} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                        <td className="py-3 px-4 text-white font-medium">{supplier.name}</td>
+                        <td className="py-3 px-4 text-gray-300 text-sm">
+                          {[supplier.contactName, supplier.phone, supplier.email].filter(Boolean).join(' • ') || '—'}
+                        </td>
+                        <td className="py-3 px-4 text-center text-gray-300">{supplier.leadTimeDays} j</td>
+                        <td className="py-3 px-4 text-center text-gray-300">{supplier.products.length}</td>
+                        <td className="py-3 px-4 text-center text-blue-400">{openOrders}</td>
+                        <td className="py-3 px-4">
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => {
+                                setEditingSupplier(supplier);
+                                setShowSupplierModal(true);
+                              }}
+                              className="p-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-all duration-200"
+                              title="Modifier le fournisseur"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => runAction(
+                                () => onDeleteSupplier(supplier.id),
+                                'Fournisseur supprimé',
+                                'Impossible de supprimer un fournisseur ayant des commandes'
+                              )}
+                              disabled={isSaving}
+                              className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-all duration-200"
+                              title="Supprimer le fournisseur"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </motion.div>
+      )}
+
+      {/* Supplier Modal */}
+      {showSupplierModal && (
+        <SupplierEditModal
+          supplier={editingSupplier || undefined}
+          products={products}
+          isOpen={showSupplierModal}
+          onClose={() => {
+            setShowSupplierModal(false);
+            setEditingSupplier(null);
+          }}
+          onSave={handleSaveSupplier}
+          isLoading={isSaving}
+        />
+      )}
+
+      {/* Purchase Order Modal */}
+      {showOrderModal && (
+        <PurchaseOrderEditModal
+          order={editingOrder || undefined}
+          suppliers={suppliers}
+          products={products}
+          purchaseOrders={purchaseOrders}
+          isOpen={showOrderModal}
+          onClose={() => {
+            setShowOrderModal(false);
+            setEditingOrder(null);
+          }}
+          onSave={handleSaveOrder}
+          isLoading={isSaving}
+        />
+      )}
+
+      {/* Receive Modal */}
+      {receivingOrder && (
+        <PurchaseOrderReceiveModal
+          order={receivingOrder}
+          stores={stores}
+          isOpen={!!receivingOrder}
+          onClose={() => setReceivingOrder(null)}
+          onReceive={handleReceive}
+          isLoading={isSaving}
+        />
+      )}
+    </div>
+  );
+}
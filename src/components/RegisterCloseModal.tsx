@@ -0,0 +1,192 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RefreshCw, Lock, Banknote } from 'lucide-react';
+import { format } from 'date-fns';
+import { CashCount, RegisterSale, RegisterSession } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+  CASH_DENOMINATIONS,
+  CASH_TOLERANCE,
+  getCountedCash,
+  getExpectedCash,
+  isWithinSession
+} from '../utils/registerSessionUtils';
+
+interface RegisterCloseModalProps {
+  session: RegisterSession;
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (closingCount: CashCount, notes?: string) => Promise<void>;
+  onListRegisterSales: (register: string, from: Date, to: Date) => Promise<RegisterSale[]>;
+  isLoading: boolean;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function RegisterCloseModal({
+  session,
+  isOpen,
+  onClose,
+  onConfirm,
+  onListRegisterSales,
+  isLoading
+}: RegisterCloseModalProps) {
+  const { t } = useLanguage();
+  const [count, setCount] = useState<CashCount>({});
+  const [notes, setNotes] = useState('');
+  const [sessionSales, setSessionSales] = useState<RegisterSale[] | null>(null);
+  // Parent callbacks change on every render, only a new session should reload the sales
+  const listSalesRef = useRef(onListRegisterSales);
+  listSalesRef.current = onListRegisterSales;
+
+  useEffect(() => {
+    setCount({});
+    setNotes(session.notes || '');
+    setSessionSales(null);
+
+    // Preview only: the expected cash is computed again when the closing is saved
+    const now = new Date();
+    listSalesRef.current(session.register, session.openedAt, now)
+      .then(sales => setSessionSales(sales.filter(sale => isWithinSession(sale, session, now))))
+      .catch(error => {
+        console.error('❌ Error loading session sales:', error);
+        setSessionSales([]);
+      });
+  }, [session, isOpen]);
+
+  const countedCash = getCountedCash(count);
+  const expectedCash = sessionSales ? getExpectedCash(session, sessionSales) : null;
+  const discrepancy = expectedCash === null ? null : countedCash - expectedCash;
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-slate-800 border border-slate-700 rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-orange-500/20 rounded-full flex items-center justify-center">
+                <Lock className="w-5 h-5 text-orange-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-white">{t('sessions.closeTitle')} • {session.register}</h3>
+                <p className="text-slate-400 text-sm">
+                  {t('sessions.openedAt')} {format(session.openedAt, 'dd/MM/yyyy HH:mm')}
+                  {session.openedBy && ` ${t('sessions.by')} ${session.openedBy}`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="text-slate-400 hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Denominations */}
+          <h4 className="text-white font-medium mb-3 flex items-center space-x-2">
+            <Banknote className="w-5 h-5 text-green-400" />
+            <span>{t('sessions.cashCount')}</span>
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6">
+            {CASH_DENOMINATIONS.map(({ cents, kind }) => (
+              <div key={cents} className="flex items-center space-x-2 bg-slate-700/30 rounded-lg px-3 py-2">
+                <span className={`w-20 text-sm font-medium ${kind === 'note' ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {formatCurrency(cents / 100)}
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  value={count[cents] ?? ''}
+                  onChange={(e) => {
+                    const quantity = parseInt(e.target.value);
+                    setCount(prev => ({ ...prev, [cents]: isNaN(quantity) || quantity < 0 ? 0 : quantity }));
+                  }}
+                  className="w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded-lg text-white text-right"
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Expected vs counted */}
+          <div className="grid grid-cols-3 gap-3 mb-6">
+            <div className="bg-slate-700/30 rounded-xl p-3">
+              <p className="text-slate-400 text-xs">{t('sessions.expectedCash')}</p>
+              <p className="text-lg font-bold text-white">
+                {expectedCash === null ? '…' : formatCurrency(expectedCash)}
+              </p>
+              <p className="text-slate-500 text-xs">
+                {sessionSales === null
+                  ? t('sessions.loadingSales')
+                  : `${t('sessions.openingFloat')} ${formatCurrency(session.openingFloat)} + ${sessionSales.length} ${t('sessions.salesLines').toLowerCase()}`}
+              </p>
+            </div>
+            <div className="bg-slate-700/30 rounded-xl p-3">
+              <p className="text-slate-400 text-xs">{t('sessions.countedCash')}</p>
+              <p className="text-lg font-bold text-white">{formatCurrency(countedCash)}</p>
+            </div>
+            <div className="bg-slate-700/30 rounded-xl p-3">
+              <p className="text-slate-400 text-xs">{t('sessions.discrepancy')}</p>
+              <p className={`text-lg font-bold ${
+                discrepancy === null || Math.abs(discrepancy) < CASH_TOLERANCE
+                  ? 'text-white'
+                  : discrepancy < 0 ? 'text-red-400' : 'text-orange-400'
+              }`}>
+                {discrepancy === null ? '…' : formatCurrency(discrepancy)}
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-2">{t('sessions.notes')}</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={() => onConfirm(count, notes.trim() || undefined)}
+              disabled={isLoading}
+              className="flex-1 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-orange-600 hover:to-orange-700
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                         flex items-center justify-center space-x-2"
+            >
+              {isLoading ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Lock className="w-5 h-5" />}
+              <span>{t('sessions.confirmClose')}</span>
+            </button>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-3 bg-slate-600 text-white font-semibold rounded-xl
+                         hover:bg-slate-500 transition-all duration-200"
+            >
+              {t('sessions.cancel')}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
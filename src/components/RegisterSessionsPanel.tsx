@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import { Wallet, Unlock, Lock, FileText, CheckCircle, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { CashCount, RegisterSale, RegisterSession } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { groupSessionsByRegisterDay, RegisterDay, CASH_TOLERANCE } from '../utils/registerSessionUtils';
+import { RegisterCloseModal } from './RegisterCloseModal';
+import { ZReportModal } from './ZReportModal';
+
+interface RegisterSessionsPanelProps {
+  registers: string[];
+  sessions: RegisterSession[];
+  onOpenSession: (register: string, openingFloat: number, notes?: string) => Promise<boolean>;
+  onCloseSession: (id: string, closingCount: CashCount, notes?: string) => Promise<boolean>;
+  onListRegisterSales: (register: string, from: Date, to: Date) => Promise<RegisterSale[]>;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function RegisterSessionsPanel({
+  registers,
+  sessions,
+  onOpenSession,
+  onCloseSession,
+  onListRegisterSales
+}: RegisterSessionsPanelProps) {
+  const { t } = useLanguage();
+  const openSessions = sessions.filter(session => session.status === 'open');
+  const availableRegisters = registers.filter(register => !openSessions.some(session => session.register === register));
+
+  const [register, setRegister] = useState(availableRegisters[0] || '');
+  const [openingFloat, setOpeningFloat] = useState('150');
+  const [closingSession, setClosingSession] = useState<RegisterSession | null>(null);
+  const [reportDay, setReportDay] = useState<RegisterDay | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!availableRegisters.includes(register)) setRegister(availableRegisters[0] || '');
+  }, [availableRegisters, register]);
+
+  const registerDays = groupSessionsByRegisterDay(sessions);
+
+  const handleOpen = async () => {
+    const amount = parseFloat(openingFloat);
+    if (isNaN(amount) || amount < 0) {
+      setMessage({ type: 'error', text: t('sessions.invalidFloat') });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const ok = await onOpenSession(register, amount);
+      setMessage(ok ? { type: 'success', text: t('sessions.opened') } : { type: 'error', text: t('sessions.openError') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async (closingCount: CashCount, notes?: string) => {
+    if (!closingSession) return;
+
+    setIsSaving(true);
+    try {
+      const ok = await onCloseSession(closingSession.id, closingCount, notes);
+      setMessage(ok ? { type: 'success', text: t('sessions.closed') } : { type: 'error', text: t('sessions.closeError') });
+      if (ok) setClosingSession(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderDiscrepancy = (discrepancy: number) => (
+    <span className={
+      Math.abs(discrepancy) < CASH_TOLERANCE ? 'text-green-400' : discrepancy < 0 ? 'text-red-400' : 'text-orange-400'
+    }>
+      {formatCurrency(discrepancy)}
+    </span>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
+        <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+              <Wallet className="w-5 h-5 text-green-400" />
+              <span>{t('statistics.sessions')}</span>
+            </h3>
+            <p className="text-slate-400 text-sm">{t('sessions.subtitle')}</p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-sm text-slate-400 mb-1">{t('sessions.register')}</label>
+              <select
+                value={register}
+                onChange={(e) => setRegister(e.target.value)}
+                className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white"
+              >
+                {availableRegisters.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-slate-400 mb-1">{t('sessions.openingFloat')} (€)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                className="w-32 bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white"
+              />
+            </div>
+            <button
+              onClick={handleOpen}
+              disabled={isSaving || !register}
+              className="bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold py-2 px-4 rounded-xl
+                         hover:from-green-600 hover:to-green-700 transition-all duration-200
+                         disabled:opacity-50 flex items-center space-x-2"
+            >
+              <Unlock className="w-4 h-4" />
+              <span>{t('sessions.open')}</span>
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <p className={`mt-4 text-sm flex items-center space-x-2 ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+            {message.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+            <span>{message.text}</span>
+          </p>
+        )}
+
+        {/* Open sessions */}
+        <h4 className="text-white font-medium mt-6 mb-3">{t('sessions.openSessions')}</h4>
+        {openSessions.length === 0 ? (
+          <p className="text-slate-400 text-sm">{t('sessions.noOpenSession')}</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {openSessions.map(session => (
+              <div key={session.id} className="bg-slate-700/30 border border-green-500/20 rounded-xl p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-white font-semibold">{session.register}</span>
+                  <button
+                    onClick={() => setClosingSession(session)}
+                    className="px-3 py-1 bg-orange-500/20 text-orange-400 rounded-lg hover:bg-orange-500/30
+                               transition-all duration-200 text-sm flex items-center space-x-1"
+                  >
+                    <Lock className="w-4 h-4" />
+                    <span>{t('sessions.close')}</span>
+                  </button>
+                </div>
+                <p className="text-slate-400 text-sm">
+                  {t('sessions.openedAt')} {format(session.openedAt, 'dd/MM/yyyy HH:mm')}
+                  {session.openedBy && ` ${t('sessions.by')} ${session.openedBy}`}
+                </p>
+                <p className="text-slate-300 text-sm">
+                  {t('sessions.openingFloat')} : {formatCurrency(session.openingFloat)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Closings by register and day */}
+      <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+          <FileText className="w-5 h-5 text-blue-400" />
+          <span>{t('sessions.history')}</span>
+        </h3>
+
+        {registerDays.length === 0 ? (
+          <p className="text-center py-8 text-slate-400">{t('sessions.noHistory')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-700">
+                  <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('sessions.date')}</th>
+                  <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('sessions.register')}</th>
+                  <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('sessions.sessionCount')}</th>
+                  <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('sessions.expectedCash')}</th>
+                  <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('sessions.countedCash')}</th>
+                  <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('sessions.discrepancy')}</th>
+                  <th className="py-3 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {registerDays.map(registerDay => {
+                  const expected = registerDay.sessions.reduce((sum, session) => sum + (session.expectedCash || 0), 0);
+                  const counted = registerDay.sessions.reduce((sum, session) => sum + (session.countedCash || 0), 0);
+
+                  return (
+                    <tr key={`${registerDay.register}-${registerDay.day}`} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                      <td className="py-3 px-2 text-white">
+                        {format(new Date(`${registerDay.day}T12:00:00`), 'dd/MM/yyyy')}
+                      </td>
+                      <td className="py-3 px-2 text-slate-300">{registerDay.register}</td>
+                      <td className="py-3 px-2 text-center text-slate-300">{registerDay.sessions.length}</td>
+                      <td className="py-3 px-2 text-right text-white">{formatCurrency(expected)}</td>
+                      <td className="py-3 px-2 text-right text-white">{formatCurrency(counted)}</td>
+                      <td className="py-3 px-2 text-right font-semibold">{renderDiscrepancy(counted - expected)}</td>
+                      <td className="py-3 px-2 text-right">
+                        <button
+                          onClick={() => setReportDay(registerDay)}
+                          className="px-3 py-1 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30
+                                     transition-all duration-200 text-sm"
+                        >
+                          {t('sessions.zReport')}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {closingSession && (
+        <RegisterCloseModal
+          session={closingSession}
+          isOpen={!!closingSession}
+          onClose={() => setClosingSession(null)}
+          onConfirm={handleClose}
+          onListRegisterSales={onListRegisterSales}
+          isLoading={isSaving}
+        />
+      )}
+
+      {reportDay && (
+        <ZReportModal
+          registerDay={reportDay}
+          isOpen={!!reportDay}
+          onClose={() => setReportDay(null)}
+          onListRegisterSales={onListRegisterSales}
+        />
+      )}
+    </div>
+  );
+}
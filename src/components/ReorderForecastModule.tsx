@@ -0,0 +1,236 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp, AlertTriangle, CheckSquare, Square, Check, RefreshCw, ShoppingCart } from 'lucide-react';
+import { Product, RegisterSale, Supplier, PurchaseOrder } from '../types';
+import {
+  calculateProductForecasts,
+  FORECAST_HISTORY_DAYS,
+  ORDER_COVER_DAYS,
+  SAFETY_FACTOR
+} from '../utils/forecastUtils';
+import { calculateOnOrderQuantities } from '../utils/purchaseOrderUtils';
+
+interface ReorderForecastModuleProps {
+  products: Product[];
+  registerSales: RegisterSale[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  onApplyMinStocks: (changes: Array<{ productId: string; minStock: number }>) => Promise<boolean>;
+  onNotify: (type: 'success' | 'error' | 'warning', message: string) => void;
+}
+
+const WEEKDAY_LABELS = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
+
+export function ReorderForecastModule({
+  products,
+  registerSales,
+  suppliers,
+  purchaseOrders,
+  onApplyMinStocks,
+  onNotify
+}: ReorderForecastModuleProps) {
+  const [selectedCategory, setSelectedCategory] = useState('all');
+  const [show, setShow] = useState<'changed' | 'reorder' | 'all'>('changed');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  const forecasts = useMemo(
+    () => calculateProductForecasts(products, registerSales, suppliers, calculateOnOrderQuantities(purchaseOrders)),
+    [products, registerSales, suppliers, purchaseOrders]
+  );
+
+  const categories = [...new Set(products.map(product => product.category))].sort();
+  const historyDays = forecasts[0]?.historyDays ?? 0;
+
+  const displayed = forecasts
+    .filter(forecast => selectedCategory === 'all' || forecast.product.category === selectedCategory)
+    .filter(forecast =>
+      show === 'all' ||
+      (show === 'reorder' ? forecast.needsReorder : forecast.reorderPoint !== forecast.product.minStock))
+    .sort((a, b) => Number(b.needsReorder) - Number(a.needsReorder) || b.dailyDemand - a.dailyDemand);
+
+  const selectable = displayed.filter(forecast => forecast.reorderPoint !== forecast.product.minStock);
+  const allSelected = selectable.length > 0 && selectable.every(forecast => selected.has(forecast.product.id));
+
+  const toggle = (productId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(selectable.map(forecast => forecast.product.id)));
+  };
+
+  const handleApply = async () => {
+    const changes = forecasts
+      .filter(forecast => selected.has(forecast.product.id) && forecast.reorderPoint !== forecast.product.minStock)
+      .map(forecast => ({ productId: forecast.product.id, minStock: forecast.reorderPoint }));
+    if (changes.length === 0) return;
+
+    setIsApplying(true);
+    try {
+      if (await onApplyMinStocks(changes)) {
+        onNotify('success', `Stock minimum mis à jour pour ${changes.length} produit(s)`);
+        setSelected(new Set());
+      } else {
+        onNotify('error', 'Erreur lors de la mise à jour des stocks minimum');
+      }
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const strongestWeekday = (factors: number[]) => {
+    const max = Math.max(...factors);
+    return max > 1.2 ? WEEKDAY_LABELS[factors.indexOf(max)] : null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+              <TrendingUp className="w-6 h-6 text-cyan-400" />
+              <span>Prévision et Réapprovisionnement</span>
+            </h2>
+            <p className="text-gray-400 text-sm">
+              Demande journalière lissée sur {FORECAST_HISTORY_DAYS} jours avec saisonnalité par jour de la semaine,
+              stock de sécurité à {SAFETY_FACTOR} écart-type sur le délai fournisseur, commande couvrant {ORDER_COVER_DAYS} jours
+            </p>
+          </div>
+          <button
+            onClick={handleApply}
+            disabled={isApplying || selected.size === 0}
+            className="bg-gradient-to-r from-cyan-500 to-cyan-600 text-white font-semibold py-2 px-4 rounded-xl
+                       hover:from-cyan-600 hover:to-cyan-700 transition-all duration-200
+                       disabled:opacity-50 flex items-center space-x-2"
+          >
+            {isApplying ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            <span>Appliquer au stock minimum ({selected.size})</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Catégorie</label>
+            <select
+              value={selectedCategory}
+              onChange={(e) => setSelectedCategory(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              <option value="all">Toutes les catégories</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Afficher</label>
+            <select
+              value={show}
+              onChange={(e) => setShow(e.target.value as 'changed' | 'reorder' | 'all')}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              <option value="changed">Suggestion différente du stock minimum</option>
+              <option value="reorder">Produits à commander</option>
+              <option value="all">Tous les produits</option>
+            </select>
+          </div>
+        </div>
+      </motion.div>
+
+      {historyDays < FORECAST_HISTORY_DAYS && (
+        <div className="bg-orange-500/10 border border-orange-500/20 rounded-xl p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-gray-400">
+            Seulement {historyDays} jour(s) de ventes chargés sur les {FORECAST_HISTORY_DAYS} utilisés pour la prévision :
+            les suggestions sont moins fiables. Chargez un historique plus ancien depuis le module Ventes pour les affiner.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6">
+        {displayed.length === 0 ? (
+          <p className="text-center py-8 text-gray-400">Aucun produit à afficher</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="py-3 px-2 text-left">
+                    <button onClick={toggleAll} disabled={selectable.length === 0} className="text-gray-400 hover:text-white">
+                      {allSelected ? <CheckSquare className="w-5 h-5 text-cyan-400" /> : <Square className="w-5 h-5" />}
+                    </button>
+                  </th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Produit</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Stock</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">En commande</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Demande / jour</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Délai</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Stock sécurité</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Stock min. actuel</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Point de commande</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">À commander</th>
+                </tr>
+              </thead>
+              <tbody>
+                {displayed.map(forecast => {
+                  const { product } = forecast;
+                  const isChanged = forecast.reorderPoint !== product.minStock;
+                  const peakDay = strongestWeekday(forecast.weekdayFactors);
+
+                  return (
+                    <tr key={product.id} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                      <td className="py-3 px-2">
+                        <button onClick={() => toggle(product.id)} disabled={!isChanged} className="text-gray-400 hover:text-white disabled:opacity-30">
+                          {selected.has(product.id) ? <CheckSquare className="w-5 h-5 text-cyan-400" /> : <Square className="w-5 h-5" />}
+                        </button>
+                      </td>
+                      <td className="py-3 px-2">
+                        <p className="text-white font-medium">{product.name}</p>
+                        <p className="text-gray-400 text-xs">
+                          {product.category} • {forecast.soldQuantity} vendus en {forecast.historyDays} j
+                          {peakDay && ` • pic le ${peakDay}`}
+                        </p>
+                      </td>
+                      <td className="py-3 px-2 text-center text-white">{product.stock}</td>
+                      <td className="py-3 px-2 text-center text-gray-300">{forecast.onOrder || '—'}</td>
+                      <td className="py-3 px-2 text-center text-gray-300">{forecast.dailyDemand.toFixed(1)}</td>
+                      <td className="py-3 px-2 text-center text-gray-300">{forecast.leadTimeDays} j</td>
+                      <td className="py-3 px-2 text-center text-gray-300">{forecast.safetyStock}</td>
+                      <td className="py-3 px-2 text-center text-gray-300">{product.minStock}</td>
+                      <td className={`py-3 px-2 text-center font-semibold ${isChanged ? 'text-cyan-400' : 'text-white'}`}>
+                        {forecast.reorderPoint}
+                      </td>
+                      <td className="py-3 px-2 text-center">
+                        {forecast.needsReorder ? (
+                          <span className="inline-flex items-center space-x-1 text-orange-400 font-semibold">
+                            <ShoppingCart className="w-4 h-4" />
+                            <span>{forecast.suggestedOrderQuantity}</span>
+                          </span>
+                        ) : (
+                          <span className="text-gray-500">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RefreshCw, RotateCcw, Calendar } from 'lucide-react';
+import { format } from 'date-fns';
+import { RegisterSale, ReturnCondition, SaleReturnInput } from '../types';
+import { RETURN_CONDITIONS, getReturnedQuantity, isReturn } from '../utils/returnUtils';
+
+interface SaleReturnModalProps {
+  sale: RegisterSale;
+  allSales: RegisterSale[];
+  isOpen: boolean;
+  onClose: () => void;
+  onCreateReturn: (input: SaleReturnInput) => Promise<void>;
+  onMarkAsReturn: (condition: ReturnCondition, originalSaleId?: string) => Promise<void>;
+  isLoading: boolean;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function SaleReturnModal({
+  sale,
+  allSales,
+  isOpen,
+  onClose,
+  onCreateReturn,
+  onMarkAsReturn,
+  isLoading
+}: SaleReturnModalProps) {
+  // A negative line is an existing refund to requalify; a positive one is the sale being returned
+  const isRequalification = sale.total < 0;
+  const returnable = sale.quantity - getReturnedQuantity(sale.id, allSales);
+
+  const [quantity, setQuantity] = useState('1');
+  const [refundAmount, setRefundAmount] = useState('');
+  const [condition, setCondition] = useState<ReturnCondition>('sellable');
+  const [returnDate, setReturnDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [originalSaleId, setOriginalSaleId] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setQuantity('1');
+    setRefundAmount(sale.price.toFixed(2));
+    setCondition('sellable');
+    setReturnDate(format(new Date(), 'yyyy-MM-dd'));
+    setOriginalSaleId('');
+    setError('');
+  }, [sale, isOpen]);
+
+  // Earlier sales of the same product the refund may relate to
+  const candidateSales = useMemo(() => {
+    if (!isRequalification) return [];
+    return allSales
+      .filter(s =>
+        s.id !== sale.id && !isReturn(s) && s.total >= 0 &&
+        (s.productId && sale.productId
+          ? s.productId === sale.productId
+          : s.product === sale.product && s.category === sale.category) &&
+        s.date <= sale.date
+      )
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, 20);
+  }, [allSales, sale, isRequalification]);
+
+  const handleQuantityChange = (value: string) => {
+    setQuantity(value);
+    const parsed = parseInt(value);
+    if (!isNaN(parsed) && parsed > 0) {
+      setRefundAmount((parsed * sale.price).toFixed(2));
+    }
+    setError('');
+  };
+
+  const handleSave = async () => {
+    if (isRequalification) {
+      await onMarkAsReturn(condition, originalSaleId || undefined);
+      return;
+    }
+
+    const parsedQuantity = parseInt(quantity);
+    const parsedRefund = parseFloat(refundAmount);
+
+    if (isNaN(parsedQuantity) || parsedQuantity <= 0 || parsedQuantity > returnable) {
+      setError(`La quantité retournée doit être comprise entre 1 et ${returnable}`);
+      return;
+    }
+    if (isNaN(parsedRefund) || parsedRefund < 0) {
+      setError('Le montant remboursé doit être un nombre positif');
+      return;
+    }
+
+    await onCreateReturn({
+      quantity: parsedQuantity,
+      refundAmount: parsedRefund,
+      condition,
+      date: returnDate === format(new Date(), 'yyyy-MM-dd') ? new Date() : new Date(`${returnDate}T12:00:00`)
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-gray-800 border border-gray-700 rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-cyan-500/20 rounded-full flex items-center justify-center">
+                <RotateCcw className="w-5 h-5 text-cyan-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-white">
+                  {isRequalification ? 'Requalifier en retour client' : 'Retour client'}
+                </h3>
+                <p className="text-gray-400 text-sm">
+                  {sale.product} • {format(sale.date, 'dd/MM/yyyy HH:mm')} • {sale.seller}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="text-gray-400 hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            {isRequalification ? (
+              <>
+                <div className="bg-gray-700/30 rounded-xl p-4 text-sm text-gray-300">
+                  Remboursement de <strong className="text-white">{formatCurrency(Math.abs(sale.total))}</strong> pour
+                  {' '}<strong className="text-white">{Math.abs(sale.quantity)}</strong> unité(s). Il ne sera plus compté
+                  comme une dépense ni comme une vente.
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Vente d'origine (facultatif)</label>
+                  <select
+                    value={originalSaleId}
+                    onChange={(e) => setOriginalSaleId(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                               focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  >
+                    <option value="">Inconnue</option>
+                    {candidateSales.map(candidate => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {format(candidate.date, 'dd/MM/yyyy HH:mm')} • {candidate.seller} • {candidate.quantity} × {formatCurrency(candidate.price)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Quantité retournée</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={returnable}
+                      value={quantity}
+                      onChange={(e) => handleQuantityChange(e.target.value)}
+                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                                 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                    />
+                    <p className="text-gray-500 text-xs mt-1">{returnable} unité(s) encore retournable(s)</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Montant remboursé (€)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={refundAmount}
+                      onChange={(e) => {
+                        setRefundAmount(e.target.value);
+                        setError('');
+                      }}
+                      className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                                 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">
+                    <Calendar className="w-4 h-4 inline mr-2" />
+                    Date du retour
+                  </label>
+                  <input
+                    type="date"
+                    value={returnDate}
+                    onChange={(e) => setReturnDate(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                               focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  />
+                </div>
+              </>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">État des articles</label>
+              <div className="grid grid-cols-1 gap-2">
+                {(Object.keys(RETURN_CONDITIONS) as ReturnCondition[]).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => setCondition(key)}
+                    className={`px-4 py-2 rounded-lg text-sm text-left transition-all duration-200 ${
+                      condition === key
+                        ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                        : 'bg-gray-700/50 text-gray-400 hover:text-white border border-transparent'
+                    }`}
+                  >
+                    {RETURN_CONDITIONS[key]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+          </div>
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={handleSave}
+              disabled={isLoading || (!isRequalification && returnable <= 0)}
+              className="flex-1 bg-gradient-to-r from-cyan-500 to-cyan-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-cyan-600 hover:to-cyan-700
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                         flex items-center justify-center space-x-2"
+            >
+              {isLoading ? <RefreshCw className="w-5 h-5 animate-spin" /> : <RotateCcw className="w-5 h-5" />}
+              <span>{isRequalification ? 'Requalifier' : 'Enregistrer le retour'}</span>
+            </button>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl
+                         hover:bg-gray-500 transition-all duration-200"
+            >
+              Annuler
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
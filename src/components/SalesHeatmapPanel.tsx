@@ -0,0 +1,183 @@
+import { useState, useMemo } from 'react';
+import { Clock, AlertTriangle } from 'lucide-react';
+import { RegisterSale } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { calculateSalesHeatmap, countWeekdayOccurrences, HeatmapMetric } from '../utils/heatmapUtils';
+
+interface SalesHeatmapPanelProps {
+  sales: RegisterSale[];
+  startDate: Date;
+  endDate: Date;
+  baselineSales?: RegisterSale[];
+  baselineStart?: Date;
+  baselineEnd?: Date;
+}
+
+const formatValue = (metric: HeatmapMetric, value: number) =>
+  metric === 'revenue'
+    ? new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(value)
+    : value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+
+const formatSignedValue = (metric: HeatmapMetric, value: number) =>
+  `${value > 0 ? '+' : ''}${formatValue(metric, value)}`;
+
+export function SalesHeatmapPanel({
+  sales,
+  startDate,
+  endDate,
+  baselineSales,
+  baselineStart,
+  baselineEnd
+}: SalesHeatmapPanelProps) {
+  const { t } = useLanguage();
+  const [metric, setMetric] = useState<HeatmapMetric>('revenue');
+  const [average, setAverage] = useState(true);
+  const [showDelta, setShowDelta] = useState(false);
+
+  const heatmap = useMemo(
+    () => calculateSalesHeatmap(sales, metric, average ? countWeekdayOccurrences(startDate, endDate) : undefined),
+    [sales, metric, average, startDate, endDate]
+  );
+
+  const canCompare = !!baselineSales && !!baselineStart && !!baselineEnd;
+  const baselineHeatmap = useMemo(
+    () => baselineSales && baselineStart && baselineEnd
+      ? calculateSalesHeatmap(
+        baselineSales,
+        metric,
+        average ? countWeekdayOccurrences(baselineStart, baselineEnd) : undefined
+      )
+      : null,
+    [baselineSales, metric, average, baselineStart, baselineEnd]
+  );
+  const delta = showDelta && baselineHeatmap ? baselineHeatmap : null;
+
+  const hasTimes = heatmap.timedShare > 0;
+  const firstHour = delta ? Math.min(heatmap.firstHour, delta.firstHour) : heatmap.firstHour;
+  const lastHour = delta ? Math.max(heatmap.lastHour, delta.lastHour) : heatmap.lastHour;
+  const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, i) => firstHour + i);
+  const weekdayValues = heatmap.weekdayTotals.map((value, weekday) => delta ? value - delta.weekdayTotals[weekday] : value);
+  const cellValue = (weekday: number, hour: number) =>
+    heatmap.cells[weekday][hour] - (delta ? delta.cells[weekday][hour] : 0);
+  const maxCell = delta
+    ? Math.max(0, ...heatmap.cells.flatMap((row, weekday) => row.map((_, hour) => Math.abs(cellValue(weekday, hour)))))
+    : heatmap.maxCell;
+  const maxWeekday = Math.max(0, ...weekdayValues.map(Math.abs));
+  const display = (value: number) => delta ? formatSignedValue(metric, value) : formatValue(metric, value);
+
+  // Blue intensity proportional to the busiest cell, green or red against the baseline
+  const cellStyle = (value: number, max: number) => {
+    const intensity = max > 0 ? 0.08 + (Math.abs(value) / max) * 0.82 : 0.08;
+    if (!delta) return { backgroundColor: `rgba(59, 130, 246, ${intensity})` };
+    return { backgroundColor: value >= 0 ? `rgba(34, 197, 94, ${intensity})` : `rgba(239, 68, 68, ${intensity})` };
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+            <Clock className="w-5 h-5 text-blue-400" />
+            <span>{t('heatmap.title')}</span>
+          </h3>
+          <p className="text-slate-400 text-sm">{t('heatmap.subtitle')}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as HeatmapMetric)}
+            className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+          >
+            <option value="revenue">{t('statistics.revenue')}</option>
+            <option value="units">{t('statistics.quantity')}</option>
+          </select>
+          <select
+            value={average ? 'average' : 'total'}
+            onChange={(e) => setAverage(e.target.value === 'average')}
+            className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+          >
+            <option value="average">{t('heatmap.averagePerDay')}</option>
+            <option value="total">{t('heatmap.periodTotal')}</option>
+          </select>
+          {canCompare && (
+            <select
+              value={showDelta ? 'delta' : 'values'}
+              onChange={(e) => setShowDelta(e.target.value === 'delta')}
+              className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+            >
+              <option value="values">{t('heatmap.values')}</option>
+              <option value="delta">{t('heatmap.deltaVsBaseline')}</option>
+            </select>
+          )}
+        </div>
+      </div>
+
+      {hasTimes && heatmap.timedShare < 1 && (
+        <p className="text-orange-400 text-sm mb-4 flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>{((1 - heatmap.timedShare) * 100).toFixed(0)}% {t('heatmap.partialTimes')}</span>
+        </p>
+      )}
+
+      {hasTimes ? (
+        <div className="overflow-x-auto">
+          <table className="border-separate" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr>
+                <th />
+                {hours.map(hour => (
+                  <th key={hour} className="text-slate-400 text-xs font-medium px-1 min-w-10">{hour}h</th>
+                ))}
+                <th className="text-slate-400 text-xs font-medium px-2 text-right">{t('table.total')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.cells.map((_, weekday) => (
+                <tr key={weekday}>
+                  <td className="text-slate-300 text-sm pr-3 whitespace-nowrap">{t(`heatmap.weekday.${weekday}`)}</td>
+                  {hours.map(hour => {
+                    const value = cellValue(weekday, hour);
+                    return (
+                      <td
+                        key={hour}
+                        title={`${t(`heatmap.weekday.${weekday}`)} ${hour}h : ${display(value)}`}
+                        className="h-8 rounded text-center text-[10px] text-white/80"
+                        style={cellStyle(value, maxCell)}
+                      >
+                        {value !== 0 && Math.abs(value) >= maxCell * 0.5 ? display(value) : ''}
+                      </td>
+                    );
+                  })}
+                  <td className="text-white text-sm font-semibold pl-2 text-right whitespace-nowrap">
+                    {display(weekdayValues[weekday])}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-slate-400 text-sm mb-3 flex items-center space-x-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0 text-orange-400" />
+            <span>{t('heatmap.noTimes')}</span>
+          </p>
+          {weekdayValues.map((value, weekday) => (
+            <div key={weekday} className="flex items-center space-x-3">
+              <span className="text-slate-300 text-sm w-24">{t(`heatmap.weekday.${weekday}`)}</span>
+              <div className="flex-1 h-6 bg-slate-700/30 rounded overflow-hidden">
+                <div
+                  className={`h-full rounded ${
+                    !delta ? 'bg-gradient-to-r from-blue-500 to-cyan-400' : value >= 0 ? 'bg-green-500' : 'bg-red-500'
+                  }`}
+                  style={{ width: `${maxWeekday > 0 ? (Math.abs(value) / maxWeekday) * 100 : 0}%` }}
+                />
+              </div>
+              <span className="text-white text-sm font-semibold w-28 text-right">{display(value)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
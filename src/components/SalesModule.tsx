@@ -21,15 +21,19 @@ import {
   Save,
   X,
   Package,
-  CheckCircle
+  CheckCircle,
+  RotateCcw
 } from 'lucide-react';
-import { RegisterSale } from '../types';
+import { RegisterSale, SalesWindow, SaleReturnInput, ReturnCondition } from '../types';
 import { format, startOfDay, endOfDay } from 'date-fns';
 import { exportToExcel } from '../utils/excelUtils';
 import { useViewState, useScrollPosition } from '../hooks/useViewState';
 import { SaleEditModal } from './SaleEditModal';
 import { calculateTotalQuantitySold } from '../utils/salesCalculations';
 import { SaleCategorizeModal } from './SaleCategorizeModal';
+import { SaleReturnModal } from './SaleReturnModal';
+import { isReturn, RETURN_CONDITIONS } from '../utils/returnUtils';
+import { SalesWindowBanner } from './common/SalesWindowBanner';
 
 interface SalesModuleProps {
   registerSales: RegisterSale[];
@@ -37,6 +41,12 @@ interface SalesModuleProps {
   onDeleteSales?: (saleIds: string[]) => Promise<boolean>;
   onUpdateSale?: (saleId: string, updates: Partial<RegisterSale>) => Promise<boolean>;
   onCategorizeSales?: (saleIds: string[], category: string, subcategory?: string) => Promise<boolean>;
+  onCreateSaleReturn?: (originalSaleId: string, input: SaleReturnInput) => Promise<boolean>;
+  onMarkSaleAsReturn?: (saleId: string, condition: ReturnCondition, originalSaleId?: string) => Promise<boolean>;
+  salesWindow?: SalesWindow;
+  onLoadOlderSales?: () => void;
+  onLoadSalesUntil?: (date: Date) => void;
+  onChangeSalesRange?: (range: { from?: Date; to?: Date }) => void;
 }
 
 export function SalesModule({ 
@@ -44,7 +54,13 @@ export function SalesModule({
   onRefreshData, 
   onDeleteSales,
   onUpdateSale,
-  onCategorizeSales 
+  onCategorizeSales,
+  onCreateSaleReturn,
+  onMarkSaleAsReturn,
+  salesWindow,
+  onLoadOlderSales,
+  onLoadSalesUntil,
+  onChangeSalesRange
 }: SalesModuleProps) {
   const { viewState, updateState, updateFilters, updateDateRange, updateSelectedItems, updateModals } = useViewState('sales');
   useScrollPosition('sales');
@@ -64,6 +80,8 @@ export function SalesModule({
   const [showEditModal, setShowEditModal] = useState(false);
   const [showCategorizeModal, setShowCategorizeModal] = useState(false);
   const [editingSale, setEditingSale] = useState<RegisterSale | null>(null);
+  const [returningSale, setReturningSale] = useState<RegisterSale | null>(null);
+  const [isReturning, setIsReturning] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isCategorizing, setIsCategorizing] = useState(false);
@@ -289,6 +307,40 @@ export function SalesModule({
     }
   };
 
+  const handleCreateReturn = async (input: SaleReturnInput) => {
+    if (!returningSale || !onCreateSaleReturn) return;
+
+    setIsReturning(true);
+    try {
+      if (await onCreateSaleReturn(returningSale.id, input)) {
+        setReturningSale(null);
+        showToast('success', input.condition === 'sellable'
+          ? `Retour enregistré, ${input.quantity} unité(s) remise(s) en stock`
+          : 'Retour enregistré (articles défectueux, non remis en stock)');
+      } else {
+        showToast('error', 'Erreur lors de l\'enregistrement du retour');
+      }
+    } finally {
+      setIsReturning(false);
+    }
+  };
+
+  const handleMarkAsReturn = async (condition: ReturnCondition, originalSaleId?: string) => {
+    if (!returningSale || !onMarkSaleAsReturn) return;
+
+    setIsReturning(true);
+    try {
+      if (await onMarkSaleAsReturn(returningSale.id, condition, originalSaleId)) {
+        setReturningSale(null);
+        showToast('success', 'Remboursement requalifié en retour client');
+      } else {
+        showToast('error', 'Erreur lors de la requalification du remboursement');
+      }
+    } finally {
+      setIsReturning(false);
+    }
+  };
+
   // Categorize sales handler
   const handleCategorizeSales = () => {
     if (selectedSales.size === 0) return;
@@ -387,6 +439,17 @@ export function SalesModule({
         </div>
       </div>
 
+      {/* ✅ NEW: Loaded sales window */}
+      {salesWindow && onLoadOlderSales && (
+        <SalesWindowBanner
+          salesWindow={salesWindow}
+          onLoadOlder={onLoadOlderSales}
+          onLoadUntil={onLoadSalesUntil}
+          onChangeRange={onChangeSalesRange}
+          requiredFrom={dateRange.start ? startOfDay(new Date(dateRange.start)) : undefined}
+        />
+      )}
+
       {/* ✅ NEW: Toast Notification */}
       <AnimatePresence>
         {toastNotification.show && (
@@ -814,7 +877,19 @@ export function SalesModule({
                       )}
                     </button>
                   </td>
-                  <td className="py-4 px-4 text-white font-medium">{sale.product}</td>
+                  <td className="py-4 px-4 text-white font-medium">
+                    <div className="flex items-center space-x-2">
+                      <span>{sale.product}</span>
+                      {isReturn(sale) && (
+                        <span
+                          className="bg-cyan-500/20 text-cyan-400 px-2 py-0.5 rounded-full text-xs font-medium"
+                          title={sale.returnCondition ? RETURN_CONDITIONS[sale.returnCondition] : undefined}
+                        >
+                          Retour
+                        </span>
+                      )}
+                    </div>
+                  </td>
                   <td className="py-4 px-4">
                     <span className="bg-purple-500/20 text-purple-400 px-2 py-1 rounded-full text-xs font-medium">
                       {sale.category}
@@ -846,6 +921,17 @@ export function SalesModule({
                           <Edit className="w-4 h-4" />
                         </button>
                       )}
+
+                      {!isReturn(sale) && (sale.total >= 0 ? onCreateSaleReturn : onMarkSaleAsReturn) && (
+                        <button
+                          onClick={() => setReturningSale(sale)}
+                          className="p-2 bg-cyan-500/20 text-cyan-400 rounded-lg hover:bg-cyan-500/30 
+                                     transition-all duration-200"
+                          title={sale.total >= 0 ? 'Enregistrer un retour' : 'Requalifier en retour client'}
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
                       
                       {onDeleteSales && (
                         <button 
@@ -901,6 +987,19 @@ export function SalesModule({
         />
       )}
 
+      {/* Return Modal */}
+      {returningSale && (
+        <SaleReturnModal
+          sale={returningSale}
+          allSales={registerSales}
+          isOpen={!!returningSale}
+          onClose={() => setReturningSale(null)}
+          onCreateReturn={handleCreateReturn}
+          onMarkAsReturn={handleMarkAsReturn}
+          isLoading={isReturning}
+        />
+      )}
+
       {/* Categorize Sales Modal */}
       {showCategorizeModal && onCategorizeSales && (
         <SaleCategorizeModal
@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Save, RefreshCw, Target, Edit, Trash2, Plus } from 'lucide-react';
+import { SalesTarget, SalesTargetMetric, SalesTargetPeriod, SalesTargetScope } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { TARGET_METRICS, TARGET_PERIODS, TARGET_SCOPES } from '../utils/targetUtils';
+
+export type SalesTargetFormData = Omit<SalesTarget, 'id' | 'userId' | 'userName' | 'createdAt' | 'updatedAt'>;
+
+interface SalesTargetsModalProps {
+  targets: SalesTarget[];
+  sellers: string[];
+  registers: string[];
+  categories: string[];
+  isOpen: boolean;
+  onClose: () => void;
+  onAdd: (target: SalesTargetFormData) => Promise<boolean>;
+  onUpdate: (id: string, updates: Partial<SalesTargetFormData>) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+export function SalesTargetsModal({
+  targets,
+  sellers,
+  registers,
+  categories,
+  isOpen,
+  onClose,
+  onAdd,
+  onUpdate,
+  onDelete
+}: SalesTargetsModalProps) {
+  const { t } = useLanguage();
+  const [editing, setEditing] = useState<SalesTarget | null>(null);
+  const [scope, setScope] = useState<SalesTargetScope>('overall');
+  const [scopeValue, setScopeValue] = useState('');
+  const [period, setPeriod] = useState<SalesTargetPeriod>('daily');
+  const [metric, setMetric] = useState<SalesTargetMetric>('revenue');
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setScope(editing?.scope || 'overall');
+    setScopeValue(editing?.scopeValue || '');
+    setPeriod(editing?.period || 'daily');
+    setMetric(editing?.metric || 'revenue');
+    setAmount(editing ? editing.amount.toString() : '');
+    setError(null);
+  }, [editing, isOpen]);
+
+  const scopeOptions: Record<Exclude<SalesTargetScope, 'overall'>, string[]> = {
+    seller: sellers,
+    register: registers,
+    category: categories
+  };
+
+  const describeTarget = (target: SalesTarget) =>
+    `${t(`targets.period.${target.period}`)} • ${target.scope === 'overall'
+      ? t('targets.scope.overall')
+      : `${t(`targets.scope.${target.scope}`)} ${target.scopeValue}`}`;
+
+  const formatAmount = (target: SalesTarget) =>
+    target.metric === 'revenue' ? formatCurrency(target.amount) : `${target.amount} ${t('targets.units')}`;
+
+  const handleSave = async () => {
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError(t('targets.invalidAmount'));
+      return;
+    }
+    if (scope !== 'overall' && !scopeValue) {
+      setError(t('targets.scopeValueRequired'));
+      return;
+    }
+
+    const data: SalesTargetFormData = {
+      scope,
+      scopeValue: scope === 'overall' ? undefined : scopeValue,
+      period,
+      metric,
+      amount: parsedAmount,
+      active: editing ? editing.active : true
+    };
+
+    setIsSaving(true);
+    try {
+      const ok = editing ? await onUpdate(editing.id, data) : await onAdd(data);
+      if (ok) {
+        setEditing(null);
+        setAmount('');
+        setError(null);
+      } else {
+        setError(t('targets.saveError'));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (target: SalesTarget) => {
+    if (!confirm(t('targets.confirmDelete'))) return;
+    if (await onDelete(target.id) && editing?.id === target.id) setEditing(null);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-slate-800 border border-slate-700 rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-blue-500/20 rounded-full flex items-center justify-center">
+                <Target className="w-5 h-5 text-blue-400" />
+              </div>
+              <h3 className="text-xl font-semibold text-white">{t('targets.title')}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors duration-200">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Existing targets */}
+          <h4 className="text-white font-medium mb-3">{t('targets.existing')}</h4>
+          {targets.length === 0 ? (
+            <p className="text-slate-400 text-sm mb-6">{t('targets.none')}</p>
+          ) : (
+            <div className="space-y-2 mb-6">
+              {targets.map(target => (
+                <div
+                  key={target.id}
+                  className={`flex items-center justify-between p-3 rounded-xl ${
+                    editing?.id === target.id ? 'bg-blue-500/10 border border-blue-500/30' : 'bg-slate-700/30'
+                  }`}
+                >
+                  <div>
+                    <p className={`text-sm font-medium ${target.active ? 'text-white' : 'text-slate-500'}`}>
+                      {describeTarget(target)}
+                    </p>
+                    <p className="text-slate-400 text-xs">
+                      {t(`targets.metric.${target.metric}`)} : {formatAmount(target)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => onUpdate(target.id, { active: !target.active })}
+                      className={`px-2 py-1 rounded-lg text-xs transition-all duration-200 ${
+                        target.active ? 'bg-green-500/20 text-green-400' : 'bg-slate-600/50 text-slate-400'
+                      }`}
+                    >
+                      {target.active ? t('targets.active') : t('targets.inactive')}
+                    </button>
+                    <button
+                      onClick={() => setEditing(target)}
+                      className="p-2 text-blue-400 hover:bg-blue-500/20 rounded-lg transition-all duration-200"
+                      title={t('targets.edit')}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(target)}
+                      className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg transition-all duration-200"
+                      title={t('targets.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Form */}
+          <h4 className="text-white font-medium mb-3 flex items-center space-x-2">
+            {editing ? <Edit className="w-4 h-4 text-blue-400" /> : <Plus className="w-4 h-4 text-green-400" />}
+            <span>{editing ? t('targets.edit') : t('targets.add')}</span>
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">{t('targets.scope')}</label>
+              <select
+                value={scope}
+                onChange={(e) => {
+                  setScope(e.target.value as SalesTargetScope);
+                  setScopeValue('');
+                }}
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+              >
+                {TARGET_SCOPES.map(option => (
+                  <option key={option} value={option}>{t(`targets.scope.${option}`)}</option>
+                ))}
+              </select>
+            </div>
+
+            {scope !== 'overall' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">{t(`targets.scope.${scope}`)}</label>
+                <select
+                  value={scopeValue}
+                  onChange={(e) => setScopeValue(e.target.value)}
+                  className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+                >
+                  <option value="">—</option>
+                  {/* Keep the current value selectable even if it no longer appears in the loaded sales */}
+                  {[...new Set([...scopeOptions[scope], ...(scopeValue ? [scopeValue] : [])])].sort().map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">{t('targets.period')}</label>
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as SalesTargetPeriod)}
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+              >
+                {TARGET_PERIODS.map(option => (
+                  <option key={option} value={option}>{t(`targets.period.${option}`)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">{t('targets.metric')}</label>
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as SalesTargetMetric)}
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+              >
+                {TARGET_METRICS.map(option => (
+                  <option key={option} value={option}>{t(`targets.metric.${option}`)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">
+                {t('targets.amount')} {metric === 'revenue' ? '(€)' : `(${t('targets.units')})`}
+              </label>
+              <input
+                type="number"
+                min="0"
+                step={metric === 'revenue' ? '0.01' : '1'}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-blue-600 hover:to-blue-700
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                         flex items-center justify-center space-x-2"
+            >
+              {isSaving ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              <span>{t('targets.save')}</span>
+            </button>
+            {editing && (
+              <button
+                onClick={() => setEditing(null)}
+                disabled={isSaving}
+                className="px-6 py-3 bg-slate-600 text-white font-semibold rounded-xl
+                           hover:bg-slate-500 transition-all duration-200"
+              >
+                {t('targets.cancel')}
+              </button>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
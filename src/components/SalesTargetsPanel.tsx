@@ -0,0 +1,149 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Target, Settings, AlertTriangle } from 'lucide-react';
+import { RegisterSale, SalesTarget, SalesWindow } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { calculateTargetsProgress, TargetProgress, TargetStatus } from '../utils/targetUtils';
+import { isSalesWindowPartial } from '../utils/salesCalculations';
+import { SalesTargetsModal, SalesTargetFormData } from './SalesTargetsModal';
+
+interface SalesTargetsPanelProps {
+  targets: SalesTarget[];
+  registerSales: RegisterSale[];
+  salesWindow?: SalesWindow;
+  onAddTarget?: (target: SalesTargetFormData) => Promise<boolean>;
+  onUpdateTarget?: (id: string, updates: Partial<SalesTargetFormData>) => Promise<boolean>;
+  onDeleteTarget?: (id: string) => Promise<boolean>;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+const STATUS_STYLES: Record<TargetStatus, { bar: string; badge: string }> = {
+  reached: { bar: 'from-green-500 to-emerald-400', badge: 'bg-green-500/20 text-green-400' },
+  onTrack: { bar: 'from-blue-500 to-cyan-400', badge: 'bg-blue-500/20 text-blue-400' },
+  behind: { bar: 'from-orange-500 to-red-400', badge: 'bg-orange-500/20 text-orange-400' }
+};
+
+export function SalesTargetsPanel({
+  targets,
+  registerSales,
+  salesWindow,
+  onAddTarget,
+  onUpdateTarget,
+  onDeleteTarget
+}: SalesTargetsPanelProps) {
+  const { t } = useLanguage();
+  const [showModal, setShowModal] = useState(false);
+
+  // Targets always follow the current day, week or month, not the dashboard date filters
+  const progress = useMemo(() => calculateTargetsProgress(targets, registerSales), [targets, registerSales]);
+
+  const earliestPeriodStart = progress.reduce<Date | undefined>(
+    (earliest, item) => !earliest || item.periodStart < earliest ? item.periodStart : earliest,
+    undefined
+  );
+  const isPartial = !!salesWindow && !!earliestPeriodStart && isSalesWindowPartial(salesWindow, earliestPeriodStart);
+
+  const canManage = onAddTarget && onUpdateTarget && onDeleteTarget;
+
+  const formatValue = (item: TargetProgress, value: number) =>
+    item.target.metric === 'revenue' ? formatCurrency(value) : `${Math.round(value)} ${t('targets.units')}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+      className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+            <Target className="w-5 h-5 text-blue-400" />
+            <span>{t('targets.title')}</span>
+          </h3>
+          <p className="text-slate-400 text-sm">{t('targets.subtitle')}</p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center space-x-2 text-sm text-slate-400 hover:text-white
+                       bg-slate-700/50 hover:bg-slate-700 px-3 py-2 rounded-lg transition-all duration-200"
+          >
+            <Settings className="w-4 h-4" />
+            <span>{t('targets.manage')}</span>
+          </button>
+        )}
+      </div>
+
+      {isPartial && (
+        <p className="text-orange-400 text-sm mb-4 flex items-center space-x-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>{t('targets.partialHistory')}</span>
+        </p>
+      )}
+
+      {progress.length === 0 ? (
+        <p className="text-center py-6 text-slate-400">{t('targets.none')}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {progress.map(item => (
+            <div key={item.target.id} className="p-4 bg-slate-700/30 rounded-xl">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <p className="text-white font-medium text-sm">
+                    {item.target.scope === 'overall' ? t('targets.scope.overall') : item.target.scopeValue}
+                  </p>
+                  <p className="text-slate-400 text-xs">
+                    {t(`targets.period.${item.target.period}`)} • {t(`targets.metric.${item.target.metric}`)}
+                  </p>
+                </div>
+                <span className={`text-xs px-2 py-1 rounded-full ${STATUS_STYLES[item.status].badge}`}>
+                  {t(`targets.status.${item.status}`)}
+                </span>
+              </div>
+
+              <div className="flex items-baseline justify-between mb-1">
+                <span className="text-white font-semibold">{formatValue(item, item.actual)}</span>
+                <span className="text-slate-400 text-sm">
+                  / {formatValue(item, item.target.amount)} ({(item.progress * 100).toFixed(0)}%)
+                </span>
+              </div>
+
+              {/* The white tick marks where a steady pace would be by now */}
+              <div className="relative h-2 bg-slate-600/50 rounded-full overflow-hidden">
+                <div
+                  className={`h-full bg-gradient-to-r ${STATUS_STYLES[item.status].bar} rounded-full`}
+                  style={{ width: `${Math.min(100, Math.max(0, item.progress * 100))}%` }}
+                />
+                <div className="absolute top-0 h-full w-0.5 bg-white/70" style={{ left: `${item.elapsed * 100}%` }} />
+              </div>
+
+              <div className="flex justify-between mt-2 text-xs text-slate-400">
+                <span>{t('targets.expected')} : {formatValue(item, item.expected)}</span>
+                {item.projected !== null && (
+                  <span>{t('targets.projected')} : {formatValue(item, item.projected)}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <SalesTargetsModal
+          targets={targets}
+          sellers={[...new Set(registerSales.map(sale => sale.seller))].sort()}
+          registers={[...new Set(registerSales.map(sale => sale.register))].sort()}
+          categories={[...new Set(registerSales.map(sale => sale.category))].sort()}
+          isOpen={showModal}
+          onClose={() => setShowModal(false)}
+          onAdd={onAddTarget}
+          onUpdate={onUpdateTarget}
+          onDelete={onDeleteTarget}
+        />
+      )}
+    </motion.div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { 
   TrendingUp, 
@@ -16,16 +16,91 @@ import {
   Minus,
   BarChart3,
   PieChart,
-  TrendingDown
+  TrendingDown,
+  PackageMinus,
+  Percent,
+  AlertTriangle,
+  RotateCcw,
+  Scale,
+  Wallet,
+  ShoppingBasket,
+  Clock
 } from 'lucide-react';
-import { RegisterSale, Product } from '../types';
+import { RegisterSale, Product, SalesWindow, StockMovement, Expense, RegisterSession, CashCount, Store } from '../types';
 import { format, subDays, isAfter, isBefore, startOfDay, endOfDay } from 'date-fns';
 import { StockAlertsDropdown } from './common/StockAlertsDropdown';
+import { SalesWindowBanner } from './common/SalesWindowBanner';
+import { RegisterSessionsPanel } from './RegisterSessionsPanel';
+import { BasketAnalysisPanel } from './BasketAnalysisPanel';
+import { SalesHeatmapPanel } from './SalesHeatmapPanel';
+import { BundleConsumptionPanel } from './BundleConsumptionPanel';
 import { useLanguage } from '../contexts/LanguageContext';
+import { Chart } from './common/Chart';
+import { calculateShrinkageReport, ShrinkageRow } from '../utils/stockAdjustmentUtils';
+import {
+  calculateAbcClassification,
+  summarizeAbcClasses,
+  ABC_METRICS,
+  A_CLASS_THRESHOLD,
+  B_CLASS_THRESHOLD,
+  AbcClass,
+  AbcMetric
+} from '../utils/abcUtils';
+import { groupSalesIntoTickets, countTicketsBy } from '../utils/basketUtils';
+import { createProductIndex, getSaleProductKey } from '../utils/productIdentityUtils';
+import { getBundles } from '../utils/bundleUtils';
+import {
+  getComparisonBounds,
+  calculateDelta,
+  sumBy,
+  COMPARISON_MODES,
+  ComparisonMode,
+  Delta
+} from '../utils/comparisonUtils';
+import {
+  createSaleCostResolver,
+  emptyMarginTotals,
+  addSaleToMargin,
+  getGrossMargin,
+  isSoldBelowCost,
+  GrossMargin,
+  MarginTotals
+} from '../utils/marginUtils';
+import {
+  groupReturnTotals,
+  emptyReturnTotals,
+  addSaleToReturnTotals,
+  getReturnRate
+} from '../utils/returnUtils';
+import {
+  getExpenseOccurrences,
+  sumExpenseOccurrences,
+  calculateNetResultByPeriod,
+  NetResultGranularity
+} from '../utils/expenseUtils';
+import {
+  ALL_STORES,
+  getStoreMovements,
+  getStoreProducts,
+  getStoreSales,
+  getStoreScope,
+  isRegisterInStore
+} from '../utils/storeUtils';
 
 interface StatisticsModuleProps {
   registerSales: RegisterSale[];
   products: Product[];
+  stockMovements?: StockMovement[];
+  expenses?: Expense[];
+  registerSessions?: RegisterSession[];
+  salesWindow?: SalesWindow;
+  onLoadOlderSales?: () => void;
+  onLoadSalesUntil?: (date: Date) => void;
+  onOpenRegisterSession?: (register: string, openingFloat: number, notes?: string) => Promise<boolean>;
+  onCloseRegisterSession?: (id: string, closingCount: CashCount, notes?: string) => Promise<boolean>;
+  onListRegisterSales?: (register: string, from: Date, to: Date) => Promise<RegisterSale[]>;
+  stores?: Store[];
+  selectedStoreId?: string; // ALL_STORES for every store
 }
 
 interface KPIData {
@@ -34,30 +109,42 @@ interface KPIData {
   totalQuantity: number;
   numberOfTickets: number;
   stockAlerts: number;
-  previousPeriodRevenue: number;
-  previousPeriodExpenses: number;
-  previousPeriodQuantity: number;
-  previousPeriodTickets: number;
+  baselineRevenue: number;
+  baselineExpenses: number;
+  baselineQuantity: number;
+  baselineTickets: number;
+  grossMargin: number;
+  marginRate: number | null;
+  baselineGrossMargin: number;
+  totalRefunded: number; // Customer returns, reported apart from expenses
+  returnRate: number | null;
+  baselineRefunded: number;
 }
 
-interface ProductStats {
+interface ProductStats extends GrossMargin {
+  key: string; // Catalog product id, name and category for sales matching no product
   product: string;
   category: string;
   revenue: number;
   quantity: number;
   averageUnitPrice: number;
   tickets: number;
+  belowCostSales: number; // Tickets sold under the cost price of the day
+  returnedQuantity: number;
+  returnRate: number | null;
 }
 
-interface SellerStats {
+interface SellerStats extends GrossMargin {
   seller: string;
   revenue: number;
   quantity: number;
   tickets: number;
   averageBasket: number;
+  returnedQuantity: number;
+  returnRate: number | null;
 }
 
-interface RegisterStats {
+interface RegisterStats extends GrossMargin {
   register: string;
   revenue: number;
   quantity: number;
@@ -71,8 +158,48 @@ interface CategoryStats {
   percentageOfTotal: number;
 }
 
-export function StatisticsModule({ registerSales, products }: StatisticsModuleProps) {
+const ABC_CLASS_STYLES: Record<AbcClass, string> = {
+  A: 'bg-green-500/20 text-green-400 border-green-500/30',
+  B: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  C: 'bg-slate-500/20 text-slate-400 border-slate-500/30'
+};
+
+export function StatisticsModule({
+  registerSales: allSales,
+  products: allProducts,
+  stockMovements: allMovements = [],
+  expenses: allExpenses = [],
+  registerSessions: allSessions = [],
+  salesWindow,
+  onLoadOlderSales,
+  onLoadSalesUntil,
+  onOpenRegisterSession,
+  onCloseRegisterSession,
+  onListRegisterSales,
+  stores = [],
+  selectedStoreId = ALL_STORES
+}: StatisticsModuleProps) {
   const { t } = useLanguage();
+
+  // Everything below reads the sales, stock, expenses and sessions of the store selected in
+  // the sidebar; expenses shared by every register only count in the consolidated view
+  const storeScope = useMemo(() => getStoreScope(stores, selectedStoreId), [stores, selectedStoreId]);
+  const registerSales = useMemo(() => getStoreSales(allSales, stores, selectedStoreId), [allSales, stores, selectedStoreId]);
+  const products = useMemo(() => getStoreProducts(allProducts, stores, selectedStoreId), [allProducts, stores, selectedStoreId]);
+  const stockMovements = useMemo(
+    () => getStoreMovements(allMovements, stores, selectedStoreId),
+    [allMovements, stores, selectedStoreId]
+  );
+  const expenses = useMemo(
+    () => storeScope
+      ? allExpenses.filter(expense => expense.register && isRegisterInStore(storeScope, expense.register))
+      : allExpenses,
+    [allExpenses, storeScope]
+  );
+  const registerSessions = useMemo(
+    () => storeScope ? allSessions.filter(session => isRegisterInStore(storeScope, session.register)) : allSessions,
+    [allSessions, storeScope]
+  );
   const [dateRange, setDateRange] = useState<'7d' | '30d' | '90d' | 'custom'>('30d');
   const [startDate, setStartDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
   const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
@@ -80,7 +207,20 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
   const [selectedRegister, setSelectedRegister] = useState<string>('all');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [topN, setTopN] = useState(10);
-  const [activeTab, setActiveTab] = useState<'overview' | 'products' | 'sellers' | 'registers'>('overview');
+  const [activeTab, setActiveTab] = useState<
+    'overview' | 'netResult' | 'products' | 'basket' | 'heatmap' | 'sellers' | 'registers' | 'sessions' | 'shrinkage'
+  >('overview');
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous');
+  const [compareStartDate, setCompareStartDate] = useState(format(subDays(new Date(), 365 + 30), 'yyyy-MM-dd'));
+  const [compareEndDate, setCompareEndDate] = useState(format(subDays(new Date(), 365), 'yyyy-MM-dd'));
+  const [netResultGranularity, setNetResultGranularity] = useState<NetResultGranularity>('month');
+  const [abcMetric, setAbcMetric] = useState<AbcMetric>('revenue');
+  const [abcClassFilter, setAbcClassFilter] = useState<AbcClass | 'all'>('all');
+
+  // The register filter only lists the registers of the selected store
+  useEffect(() => {
+    setSelectedRegister('all');
+  }, [selectedStoreId]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('fr-FR', {
@@ -89,12 +229,44 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
     }).format(amount);
   };
 
-  const getFilteredSales = () => {
+  const renderMarginCells = ({ margin, marginRate }: GrossMargin) => (
+    <>
+      <td className={`py-3 px-2 text-right font-semibold ${margin < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+        {marginRate === null ? '—' : formatCurrency(margin)}
+      </td>
+      <td className={`py-3 px-2 text-right ${marginRate !== null && marginRate < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+        {marginRate === null ? '—' : `${marginRate.toFixed(1)}%`}
+      </td>
+    </>
+  );
+
+  const renderReturnCells = ({ returnedQuantity, returnRate }: { returnedQuantity: number; returnRate: number | null }) => (
+    <>
+      <td className="py-3 px-2 text-center text-cyan-400">{returnedQuantity}</td>
+      <td className={`py-3 px-2 text-right ${returnRate !== null && returnRate >= 10 ? 'text-orange-400' : 'text-slate-300'}`}>
+        {returnRate === null ? '—' : `${returnRate.toFixed(1)}%`}
+      </td>
+    </>
+  );
+
+  const renderReturnHeaders = () => (
+    <>
+      <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.returns')}</th>
+      <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.returnRate')}</th>
+    </>
+  );
+
+  const renderMarginHeaders = () => (
+    <>
+      <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.grossMargin')}</th>
+      <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.marginRate')}</th>
+    </>
+  );
+
+  // The baseline keeps the seller, register and category filters so rows compare like for like
+  const filterSales = (start: Date, end: Date) => {
     let filtered = registerSales;
     
-    const start = startOfDay(new Date(startDate));
-    const end = endOfDay(new Date(endDate));
-    
     filtered = filtered.filter(sale => 
       isAfter(sale.date, start) && isBefore(sale.date, end)
     );
@@ -114,25 +286,24 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
     return filtered;
   };
 
-  const getPreviousPeriodSales = () => {
-    const currentStart = new Date(startDate);
-    const currentEnd = new Date(endDate);
-    const periodLength = currentEnd.getTime() - currentStart.getTime();
-    
-    const previousStart = new Date(currentStart.getTime() - periodLength);
-    const previousEnd = new Date(currentStart.getTime() - 1);
-    
-    return registerSales.filter(sale => 
-      isAfter(sale.date, startOfDay(previousStart)) && 
-      isBefore(sale.date, endOfDay(previousEnd))
-    );
-  };
+  const baseline = getComparisonBounds(
+    comparisonMode,
+    new Date(startDate),
+    new Date(endDate),
+    { start: new Date(compareStartDate), end: new Date(compareEndDate) }
+  );
 
-  const filteredSales = getFilteredSales();
-  const previousPeriodSales = getPreviousPeriodSales();
+  // KPIs compare against the baseline, so both periods must be loaded
+  const requiredFrom = startOfDay(new Date(Math.min(baseline.start.getTime(), new Date(startDate).getTime())));
+
+  const filteredSales = filterSales(startOfDay(new Date(startDate)), endOfDay(new Date(endDate)));
+  const baselineSales = filterSales(startOfDay(baseline.start), endOfDay(baseline.end));
+
+  // Sale lines grouped by ticket number, or inferred from register, seller and time
+  const tickets = useMemo(() => groupSalesIntoTickets(filteredSales), [filteredSales]);
   
   const sellers = [...new Set(registerSales.map(s => s.seller))];
-  const registers = ['Register1', 'Register2'];
+  const registers = [...new Set(registerSales.map(s => s.register))].sort();
   const categories = [...new Set(registerSales.map(s => s.category))];
 
   const handleDateRangeChange = (range: '7d' | '30d' | '90d' | 'custom') => {
@@ -145,17 +316,41 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
     }
   };
 
+  // Unit cost of a sale at its date, from the matching product's cost price history
+  const resolveCost = useMemo(() => createSaleCostResolver(products), [products]);
+  const productIndex = useMemo(() => createProductIndex(products), [products]);
+
+  // Operating costs come from the expense ledger; a register filter keeps that register's own expenses
+  const expenseRegister = selectedRegister === 'all' ? undefined : selectedRegister;
+  const expenseOccurrences = useMemo(
+    () => getExpenseOccurrences(expenses, new Date(startDate), new Date(endDate), expenseRegister),
+    [expenses, startDate, endDate, expenseRegister]
+  );
+
   const kpiData: KPIData = useMemo(() => {
     const totalRevenue = filteredSales.filter(sale => sale.total >= 0).reduce((sum, sale) => sum + sale.total, 0);
-    const totalExpenses = Math.abs(filteredSales.filter(sale => sale.total < 0).reduce((sum, sale) => sum + sale.total, 0));
+    const totalExpenses = sumExpenseOccurrences(expenseOccurrences);
     const totalQuantity = filteredSales.reduce((sum, sale) => sum + sale.quantity, 0);
-    const numberOfTickets = filteredSales.length;
+    const numberOfTickets = tickets.length;
     const stockAlerts = products.filter(p => p.stock <= p.minStock).length;
     
-    const previousPeriodRevenue = previousPeriodSales.filter(sale => sale.total >= 0).reduce((sum, sale) => sum + sale.total, 0);
-    const previousPeriodExpenses = Math.abs(previousPeriodSales.filter(sale => sale.total < 0).reduce((sum, sale) => sum + sale.total, 0));
-    const previousPeriodQuantity = previousPeriodSales.reduce((sum, sale) => sum + sale.quantity, 0);
-    const previousPeriodTickets = previousPeriodSales.length;
+    const baselineRevenue = baselineSales.filter(sale => sale.total >= 0).reduce((sum, sale) => sum + sale.total, 0);
+    const baselineExpenses = sumExpenseOccurrences(
+      getExpenseOccurrences(expenses, baseline.start, baseline.end, expenseRegister)
+    );
+    const baselineQuantity = baselineSales.reduce((sum, sale) => sum + sale.quantity, 0);
+    const baselineTickets = groupSalesIntoTickets(baselineSales).length;
+
+    const marginTotals = emptyMarginTotals();
+    filteredSales.filter(sale => sale.total >= 0).forEach(sale => addSaleToMargin(marginTotals, sale, resolveCost(sale)));
+    const { margin: grossMargin, marginRate } = getGrossMargin(marginTotals);
+    const baselineMarginTotals = emptyMarginTotals();
+    baselineSales.filter(sale => sale.total >= 0).forEach(sale => addSaleToMargin(baselineMarginTotals, sale, resolveCost(sale)));
+
+    const returnTotals = emptyReturnTotals();
+    filteredSales.forEach(sale => addSaleToReturnTotals(returnTotals, sale));
+    const baselineReturnTotals = emptyReturnTotals();
+    baselineSales.forEach(sale => addSaleToReturnTotals(baselineReturnTotals, sale));
     
     return {
       totalRevenue,
@@ -163,43 +358,131 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
       totalQuantity,
       numberOfTickets,
       stockAlerts,
-      previousPeriodRevenue,
-      previousPeriodExpenses,
-      previousPeriodQuantity,
-      previousPeriodTickets
+      baselineRevenue,
+      baselineExpenses,
+      baselineQuantity,
+      baselineTickets,
+      grossMargin,
+      marginRate,
+      baselineGrossMargin: getGrossMargin(baselineMarginTotals).margin,
+      totalRefunded: returnTotals.refunded,
+      returnRate: getReturnRate(returnTotals),
+      baselineRefunded: baselineReturnTotals.refunded
     };
-  }, [filteredSales, previousPeriodSales, products]);
+  }, [
+    filteredSales,
+    baselineSales,
+    baseline.start,
+    baseline.end,
+    tickets,
+    products,
+    resolveCost,
+    expenses,
+    expenseOccurrences,
+    expenseRegister
+  ]);
+
+  // Baseline figures of the table rows
+  const positiveBaselineSales = baselineSales.filter(sale => sale.total >= 0);
+  const baselineRevenueByProduct = sumBy(positiveBaselineSales, sale => getSaleProductKey(productIndex, sale), sale => sale.total);
+  const baselineRevenueBySeller = sumBy(positiveBaselineSales, sale => sale.seller, sale => sale.total);
+  const baselineRevenueByRegister = sumBy(positiveBaselineSales, sale => sale.register, sale => sale.total);
+  const baselineRevenueByCategory = sumBy(positiveBaselineSales, sale => sale.category, sale => sale.total);
+
+  const netResultPeriods = useMemo(
+    () => calculateNetResultByPeriod(
+      filteredSales,
+      expenseOccurrences,
+      resolveCost,
+      new Date(startDate),
+      new Date(endDate),
+      netResultGranularity
+    ),
+    [filteredSales, expenseOccurrences, resolveCost, startDate, endDate, netResultGranularity]
+  );
+
+  const netResultTotals = netResultPeriods.reduce((totals, period) => ({
+    revenue: totals.revenue + period.revenue,
+    costOfGoods: totals.costOfGoods + period.costOfGoods,
+    uncostedRevenue: totals.uncostedRevenue + period.uncostedRevenue,
+    expenses: totals.expenses + period.expenses,
+    netResult: totals.netResult + period.netResult
+  }), { revenue: 0, costOfGoods: 0, uncostedRevenue: 0, expenses: 0, netResult: 0 });
 
+  // Sales are grouped by product id, so a renamed product keeps a single row
   const productStats: ProductStats[] = useMemo(() => {
-    const productMap = new Map<string, ProductStats>();
+    const productMap = new Map<string, Omit<ProductStats, keyof GrossMargin | 'returnedQuantity' | 'returnRate'> & {
+      margin: MarginTotals;
+    }>();
+    const returnsByProduct = groupReturnTotals(filteredSales, sale => getSaleProductKey(productIndex, sale));
     
     filteredSales.filter(sale => sale.total >= 0).forEach(sale => {
-      const key = sale.product;
+      const key = getSaleProductKey(productIndex, sale);
       if (!productMap.has(key)) {
+        const catalogProduct = productIndex.byId.get(key);
         productMap.set(key, {
-          product: sale.product,
-          category: sale.category,
+          key,
+          product: catalogProduct?.name ?? sale.product,
+          category: catalogProduct?.category ?? sale.category,
           revenue: 0,
           quantity: 0,
           averageUnitPrice: 0,
-          tickets: 0
+          tickets: 0,
+          belowCostSales: 0,
+          margin: emptyMarginTotals()
         });
       }
       
       const stats = productMap.get(key)!;
+      const unitCost = resolveCost(sale);
       stats.revenue += sale.total;
       stats.quantity += sale.quantity;
       stats.tickets += 1;
+      addSaleToMargin(stats.margin, sale, unitCost);
+      if (isSoldBelowCost(sale, unitCost)) stats.belowCostSales += 1;
     });
     
-    return Array.from(productMap.values()).map(stats => ({
-      ...stats,
-      averageUnitPrice: stats.quantity > 0 ? stats.revenue / stats.quantity : 0
-    })).sort((a, b) => b.revenue - a.revenue);
-  }, [filteredSales]);
+    return Array.from(productMap.values()).map(({ margin, ...stats }) => {
+      const returns = returnsByProduct.get(stats.key) || emptyReturnTotals();
+      return {
+        ...stats,
+        ...getGrossMargin(margin),
+        averageUnitPrice: stats.quantity > 0 ? stats.revenue / stats.quantity : 0,
+        returnedQuantity: returns.returnedQuantity,
+        returnRate: getReturnRate(returns)
+      };
+    }).sort((a, b) => b.revenue - a.revenue);
+  }, [filteredSales, resolveCost, productIndex]);
+
+  // Catalog products of the selected category, classified on the filtered sales of the period
+  const abcRows = useMemo(
+    () => calculateAbcClassification(
+      selectedCategory === 'all' ? products : products.filter(product => product.category === selectedCategory),
+      filteredSales,
+      abcMetric,
+      productIndex
+    ),
+    [products, filteredSales, selectedCategory, abcMetric, productIndex]
+  );
+  const abcSummary = summarizeAbcClasses(abcRows);
+  const abcClassByProduct = new Map(abcRows.map(row => [row.product.id, row.abcClass]));
+
+  const formatAbcValue = (value: number) =>
+    abcMetric === 'units' ? value.toLocaleString('fr-FR') : formatCurrency(value);
+
+  const renderAbcBadge = (abcClass: AbcClass | undefined) => abcClass ? (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-bold border ${ABC_CLASS_STYLES[abcClass]}`}>
+      {abcClass}
+    </span>
+  ) : (
+    <span className="text-slate-500">—</span>
+  );
 
   const sellerStats: SellerStats[] = useMemo(() => {
-    const sellerMap = new Map<string, SellerStats>();
+    const sellerMap = new Map<string, Omit<SellerStats, keyof GrossMargin | 'returnedQuantity' | 'returnRate'> & {
+      margin: MarginTotals;
+    }>();
+    const returnsBySeller = groupReturnTotals(filteredSales, sale => sale.seller);
     
     filteredSales.filter(sale => sale.total >= 0).forEach(sale => {
       if (!sellerMap.has(sale.seller)) {
@@ -208,31 +491,43 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
           revenue: 0,
           quantity: 0,
           tickets: 0,
-          averageBasket: 0
+          averageBasket: 0,
+          margin: emptyMarginTotals()
         });
       }
       
       const stats = sellerMap.get(sale.seller)!;
       stats.revenue += sale.total;
       stats.quantity += sale.quantity;
-      stats.tickets += 1;
+      addSaleToMargin(stats.margin, sale, resolveCost(sale));
     });
+
+    const ticketsBySeller = countTicketsBy(tickets, ticket => ticket.seller);
     
-    return Array.from(sellerMap.values()).map(stats => ({
-      ...stats,
-      averageBasket: stats.tickets > 0 ? stats.revenue / stats.tickets : 0
-    })).sort((a, b) => b.revenue - a.revenue);
-  }, [filteredSales]);
+    return Array.from(sellerMap.values()).map(({ margin, ...stats }) => {
+      const returns = returnsBySeller.get(stats.seller) || emptyReturnTotals();
+      const sellerTickets = ticketsBySeller.get(stats.seller) || 0;
+      return {
+        ...stats,
+        ...getGrossMargin(margin),
+        tickets: sellerTickets,
+        averageBasket: sellerTickets > 0 ? stats.revenue / sellerTickets : 0,
+        returnedQuantity: returns.returnedQuantity,
+        returnRate: getReturnRate(returns)
+      };
+    }).sort((a, b) => b.revenue - a.revenue);
+  }, [filteredSales, resolveCost, tickets]);
 
   const registerStats: RegisterStats[] = useMemo(() => {
-    const registerMap = new Map<string, RegisterStats>();
+    const registerMap = new Map<string, Omit<RegisterStats, keyof GrossMargin> & { margin: MarginTotals }>();
     
     registers.forEach(register => {
       registerMap.set(register, {
         register,
         revenue: 0,
         quantity: 0,
-        tickets: 0
+        tickets: 0,
+        margin: emptyMarginTotals()
       });
     });
     
@@ -241,12 +536,20 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
         const stats = registerMap.get(sale.register)!;
         stats.revenue += sale.total;
         stats.quantity += sale.quantity;
-        stats.tickets += 1;
+        addSaleToMargin(stats.margin, sale, resolveCost(sale));
       }
     });
+
+    const ticketsByRegister = countTicketsBy(tickets, ticket => ticket.register);
     
-    return Array.from(registerMap.values()).sort((a, b) => b.revenue - a.revenue);
-  }, [filteredSales]);
+    return Array.from(registerMap.values())
+      .map(({ margin, ...stats }) => ({
+        ...stats,
+        ...getGrossMargin(margin),
+        tickets: ticketsByRegister.get(stats.register) || 0
+      }))
+      .sort((a, b) => b.revenue - a.revenue);
+  }, [filteredSales, resolveCost, tickets]);
 
   const categoryStats: CategoryStats[] = useMemo(() => {
     const categoryMap = new Map<string, CategoryStats>();
@@ -273,29 +576,30 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
     })).sort((a, b) => b.revenue - a.revenue);
   }, [filteredSales]);
 
-  const getPercentageChange = (current: number, previous: number) => {
-    if (previous === 0) return current > 0 ? 100 : 0;
-    return ((current - previous) / previous) * 100;
-  };
+  const formatSigned = (value: number, formatValue: (value: number) => string) =>
+    `${value > 0 ? '+' : ''}${formatValue(value)}`;
 
-  const renderChangeIndicator = (change: number) => {
-    if (change > 0) {
+  const formatPercentage = ({ percentage }: Delta) =>
+    percentage === null ? t('comparison.new') : `${percentage > 0 ? '+' : ''}${percentage.toFixed(1)}%`;
+
+  const renderChangeIndicator = (delta: Delta, formatValue: (value: number) => string = formatCurrency) => {
+    if (delta.absolute > 0) {
       return (
-        <div className="flex items-center text-green-400">
+        <div className="flex items-center text-green-400" title={t('comparison.vsBaseline')}>
           <ArrowUp className="w-4 h-4 mr-1" />
-          <span>+{change.toFixed(1)}%</span>
+          <span>{formatPercentage(delta)} ({formatSigned(delta.absolute, formatValue)})</span>
         </div>
       );
-    } else if (change < 0) {
+    } else if (delta.absolute < 0) {
       return (
-        <div className="flex items-center text-red-400">
+        <div className="flex items-center text-red-400" title={t('comparison.vsBaseline')}>
           <ArrowDown className="w-4 h-4 mr-1" />
-          <span>{change.toFixed(1)}%</span>
+          <span>{formatPercentage(delta)} ({formatSigned(delta.absolute, formatValue)})</span>
         </div>
       );
     } else {
       return (
-        <div className="flex items-center text-slate-400">
+        <div className="flex items-center text-slate-400" title={t('comparison.vsBaseline')}>
           <Minus className="w-4 h-4 mr-1" />
           <span>0%</span>
         </div>
@@ -303,15 +607,86 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
     }
   };
 
+  const formatCount = (value: number) => value.toLocaleString('fr-FR');
+
+  const renderDeltaCell = (current: number, baselineValue: number) => {
+    const delta = calculateDelta(current, baselineValue);
+    return (
+      <td className={`py-3 px-2 text-right text-sm ${
+        delta.absolute > 0 ? 'text-green-400' : delta.absolute < 0 ? 'text-red-400' : 'text-slate-400'
+      }`}>
+        <div>{formatSigned(delta.absolute, formatCurrency)}</div>
+        <div className="text-xs opacity-80">{formatPercentage(delta)}</div>
+      </td>
+    );
+  };
+
+  const renderDeltaHeader = () => (
+    <th className="text-right py-3 px-2 text-slate-400 font-medium" title={t('comparison.vsBaseline')}>
+      {t('comparison.delta')}
+    </th>
+  );
+
   const lowStockProducts = products.filter(p => p.stock <= p.minStock);
+  const bundleIds = useMemo(() => new Set(getBundles(products).map(p => p.id)), [products]);
 
   const tabs = [
     { id: 'overview', label: t('statistics.overview'), icon: BarChart3 },
+    { id: 'netResult', label: t('statistics.netResult'), icon: Scale },
     { id: 'products', label: t('statistics.products'), icon: Package },
+    { id: 'basket', label: t('basket.tab'), icon: ShoppingBasket },
+    { id: 'heatmap', label: t('heatmap.tab'), icon: Clock },
     { id: 'sellers', label: t('statistics.sellers'), icon: Users },
-    { id: 'registers', label: t('statistics.registers'), icon: Monitor }
+    { id: 'registers', label: t('statistics.registers'), icon: Monitor },
+    ...(onOpenRegisterSession && onCloseRegisterSession && onListRegisterSales
+      ? [{ id: 'sessions', label: t('statistics.sessions'), icon: Wallet }]
+      : []),
+    { id: 'shrinkage', label: t('statistics.shrinkage'), icon: PackageMinus }
   ];
 
+  const shrinkageReport = useMemo(
+    () => calculateShrinkageReport(stockMovements, products, new Date(startDate), new Date(endDate)),
+    [stockMovements, products, startDate, endDate]
+  );
+
+  const renderShrinkageTable = (rows: ShrinkageRow[], labelHeader: string, translateLabel: boolean) => (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-slate-700">
+            <th className="text-left py-3 px-2 text-slate-400 font-medium">{labelHeader}</th>
+            <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.shrinkageAdjustments')}</th>
+            <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.shrinkageLosses')}</th>
+            <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.shrinkageGains')}</th>
+            <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.shrinkageNet')}</th>
+            <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.shrinkageValue')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...rows, shrinkageReport.totals].map(row => (
+            <tr
+              key={row.key}
+              className={`border-b border-slate-700/50 hover:bg-slate-700/20 ${row === shrinkageReport.totals ? 'font-semibold' : ''}`}
+            >
+              <td className="py-3 px-2 text-white font-medium">
+                {row === shrinkageReport.totals
+                  ? t('table.total')
+                  : translateLabel ? t(`statistics.reason.${row.key}`) : row.label}
+              </td>
+              <td className="py-3 px-2 text-center text-white">{row.adjustments}</td>
+              <td className="py-3 px-2 text-center text-red-400">{row.losses}</td>
+              <td className="py-3 px-2 text-center text-green-400">{row.gains}</td>
+              <td className={`py-3 px-2 text-center ${row.net < 0 ? 'text-red-400' : 'text-white'}`}>{row.net}</td>
+              <td className={`py-3 px-2 text-right ${row.value < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {formatCurrency(row.value)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
   const handleProductClick = (product: Product) => {
     console.log('Product clicked:', product);
   };
@@ -321,7 +696,10 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-white mb-2">{t('statistics.title')}</h1>
-          <p className="text-slate-400">{t('statistics.subtitle')}</p>
+          <p className="text-slate-400">
+            {t('statistics.subtitle')}
+            {storeScope && ` • ${stores.find(store => store.id === storeScope.storeId)?.name}`}
+          </p>
         </div>
         
         <button className="bg-gradient-to-r from-blue-500 to-purple-500 text-white font-semibold 
@@ -332,6 +710,15 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
         </button>
       </div>
 
+      {salesWindow && onLoadOlderSales && (
+        <SalesWindowBanner
+          salesWindow={salesWindow}
+          onLoadOlder={onLoadOlderSales}
+          onLoadUntil={onLoadSalesUntil}
+          requiredFrom={requiredFrom}
+        />
+      )}
+
       {/* Filters */}
       <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
         <div className="flex flex-wrap gap-4 items-center">
@@ -378,6 +765,40 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
             </div>
           )}
 
+          <div className="flex items-center space-x-2">
+            <span className="text-slate-400 text-sm">{t('comparison.compareTo')}</span>
+            <select
+              value={comparisonMode}
+              onChange={(e) => setComparisonMode(e.target.value as ComparisonMode)}
+              className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+            >
+              {COMPARISON_MODES.map(mode => (
+                <option key={mode} value={mode}>{t(`comparison.mode.${mode}`)}</option>
+              ))}
+            </select>
+            {comparisonMode === 'custom' ? (
+              <>
+                <input
+                  type="date"
+                  value={compareStartDate}
+                  onChange={(e) => setCompareStartDate(e.target.value)}
+                  className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+                />
+                <span className="text-slate-400">{t('statistics.to')}</span>
+                <input
+                  type="date"
+                  value={compareEndDate}
+                  onChange={(e) => setCompareEndDate(e.target.value)}
+                  className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+                />
+              </>
+            ) : (
+              <span className="text-slate-500 text-xs">
+                {format(baseline.start, 'dd/MM/yyyy')} – {format(baseline.end, 'dd/MM/yyyy')}
+              </span>
+            )}
+          </div>
+
           <div className="flex items-center space-x-2">
             <Filter className="w-5 h-5 text-slate-400" />
             <select
@@ -417,7 +838,7 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
       </div>
 
       {/* KPI Summary with Stock Alerts Dropdown */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 xl:grid-cols-7 gap-6">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -434,7 +855,7 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
               </div>
             </div>
           </div>
-          {renderChangeIndicator(getPercentageChange(kpiData.totalRevenue, kpiData.previousPeriodRevenue))}
+          {renderChangeIndicator(calculateDelta(kpiData.totalRevenue, kpiData.baselineRevenue))}
         </motion.div>
 
         <motion.div
@@ -453,7 +874,55 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
               </div>
             </div>
           </div>
-          {renderChangeIndicator(getPercentageChange(kpiData.totalExpenses, kpiData.previousPeriodExpenses))}
+          {renderChangeIndicator(calculateDelta(kpiData.totalExpenses, kpiData.baselineExpenses))}
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.16 }}
+          className="bg-gradient-to-br from-cyan-500/10 to-cyan-600/10 backdrop-blur-xl 
+                     border border-cyan-500/20 rounded-xl p-6"
+        >
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-3">
+              <RotateCcw className="w-6 h-6 text-cyan-400" />
+              <div>
+                <p className="text-slate-400 text-sm">{t('statistics.returns')}</p>
+                <p className="text-2xl font-bold text-white">{formatCurrency(kpiData.totalRefunded)}</p>
+              </div>
+            </div>
+          </div>
+          <p className="text-slate-400 text-sm">
+            {t('statistics.returnRate')} : {kpiData.returnRate === null ? '—' : `${kpiData.returnRate.toFixed(1)}%`}
+          </p>
+          {renderChangeIndicator(calculateDelta(kpiData.totalRefunded, kpiData.baselineRefunded))}
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.175 }}
+          className="bg-gradient-to-br from-emerald-500/10 to-emerald-600/10 backdrop-blur-xl 
+                     border border-emerald-500/20 rounded-xl p-6"
+        >
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-3">
+              <Percent className="w-6 h-6 text-emerald-400" />
+              <div>
+                <p className="text-slate-400 text-sm">{t('statistics.grossMargin')}</p>
+                <p className="text-2xl font-bold text-white">
+                  {kpiData.marginRate === null ? '—' : formatCurrency(kpiData.grossMargin)}
+                </p>
+              </div>
+            </div>
+          </div>
+          <p className="text-slate-400 text-sm">
+            {kpiData.marginRate === null
+              ? t('statistics.noCostPrice')
+              : `${t('statistics.marginRate')} : ${kpiData.marginRate.toFixed(1)}%`}
+          </p>
+          {kpiData.marginRate !== null && renderChangeIndicator(calculateDelta(kpiData.grossMargin, kpiData.baselineGrossMargin))}
         </motion.div>
 
         <motion.div
@@ -472,7 +941,7 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
               </div>
             </div>
           </div>
-          {renderChangeIndicator(getPercentageChange(kpiData.totalQuantity, kpiData.previousPeriodQuantity))}
+          {renderChangeIndicator(calculateDelta(kpiData.totalQuantity, kpiData.baselineQuantity), formatCount)}
         </motion.div>
 
         <motion.div
@@ -491,7 +960,7 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
               </div>
             </div>
           </div>
-          {renderChangeIndicator(getPercentageChange(kpiData.numberOfTickets, kpiData.previousPeriodTickets))}
+          {renderChangeIndicator(calculateDelta(kpiData.numberOfTickets, kpiData.baselineTickets), formatCount)}
         </motion.div>
 
         {/* Stock Alerts Dropdown */}
@@ -501,15 +970,18 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
           transition={{ delay: 0.4 }}
         >
           <StockAlertsDropdown 
-            products={products}
+            products={allProducts}
+            registerSales={allSales}
             onProductClick={handleProductClick}
+            stores={stores}
+            storeId={selectedStoreId}
           />
         </motion.div>
       </div>
 
       {/* Sub-tabs Navigation */}
       <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
-        <div className="flex space-x-2 mb-6">
+        <div className="flex flex-wrap gap-2 mb-6">
           {tabs.map(({ id, label, icon: Icon }) => (
             <button
               key={id}
@@ -548,6 +1020,7 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
                       <tr className="border-b border-slate-700">
                         <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.category')}</th>
                         <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.revenue')}</th>
+                        {renderDeltaHeader()}
                         <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.quantity')}</th>
                         <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.percentTotal')}</th>
                       </tr>
@@ -559,6 +1032,7 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
                           <td className="py-3 px-2 text-right text-green-400 font-semibold">
                             {formatCurrency(category.revenue)}
                           </td>
+                          {renderDeltaCell(category.revenue, baselineRevenueByCategory.get(category.category) || 0)}
                           <td className="py-3 px-2 text-center text-white">{category.quantity}</td>
                           <td className="py-3 px-2 text-center text-yellow-400 font-medium">
                             {category.percentageOfTotal.toFixed(1)}%
@@ -572,6 +1046,76 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
             </div>
           )}
 
+          {activeTab === 'netResult' && (
+            <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                    <Scale className="w-5 h-5 text-emerald-400" />
+                    <span>{t('statistics.netResult')}</span>
+                  </h3>
+                  <p className="text-slate-400 text-sm">{t('statistics.netResultHint')}</p>
+                </div>
+                <select
+                  value={netResultGranularity}
+                  onChange={(e) => setNetResultGranularity(e.target.value as NetResultGranularity)}
+                  className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-1 text-white text-sm"
+                >
+                  <option value="week">{t('statistics.byWeek')}</option>
+                  <option value="month">{t('statistics.byMonth')}</option>
+                </select>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-slate-700">
+                      <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.period')}</th>
+                      <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.netRevenue')}</th>
+                      <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.costOfGoods')}</th>
+                      <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.expenses')}</th>
+                      <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.netResult')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...netResultPeriods, { ...netResultTotals, label: t('table.total'), start: null }].map(period => (
+                      <tr
+                        key={period.start ? period.start.getTime() : 'total'}
+                        className={`border-b border-slate-700/50 hover:bg-slate-700/20 ${period.start ? '' : 'font-semibold'}`}
+                      >
+                        <td className="py-3 px-2 text-white font-medium">{period.label}</td>
+                        <td className="py-3 px-2 text-right text-green-400">{formatCurrency(period.revenue)}</td>
+                        <td className="py-3 px-2 text-right text-slate-300">
+                          <div className="flex items-center justify-end space-x-1">
+                            {period.uncostedRevenue > 0 && (
+                              <span title={t('statistics.uncostedRevenueHint')}>
+                                <AlertTriangle className="w-4 h-4 text-orange-400" />
+                              </span>
+                            )}
+                            <span>{formatCurrency(period.costOfGoods)}</span>
+                          </div>
+                        </td>
+                        <td className="py-3 px-2 text-right text-red-400">{formatCurrency(period.expenses)}</td>
+                        <td className={`py-3 px-2 text-right font-semibold ${period.netResult < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                          {formatCurrency(period.netResult)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {netResultTotals.uncostedRevenue > 0 && (
+                <p className="text-orange-400 text-sm mt-4 flex items-center space-x-2">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <span>
+                    {t('statistics.uncostedRevenueHint')} : {formatCurrency(netResultTotals.uncostedRevenue)}
+                  </span>
+                </p>
+              )}
+            </div>
+          )}
+
           {activeTab === 'products' && (
             <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
               <div className="flex items-center justify-between mb-4">
@@ -597,24 +1141,51 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
                       <th className="text-left py-3 px-2 text-slate-400 font-medium">#</th>
                       <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.product')}</th>
                       <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.category')}</th>
+                      <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('abc.class')}</th>
                       <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.revenue')}</th>
+                      {renderDeltaHeader()}
                       <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.quantity')}</th>
                       <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.avgPrice')}</th>
+                      {renderMarginHeaders()}
+                      {renderReturnHeaders()}
                     </tr>
                   </thead>
                   <tbody>
                     {productStats.slice(0, topN).map((product, index) => (
-                      <tr key={product.product} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                      <tr key={product.key} className="border-b border-slate-700/50 hover:bg-slate-700/20">
                         <td className="py-3 px-2 text-blue-400 font-bold">{index + 1}</td>
-                        <td className="py-3 px-2 text-white font-medium">{product.product}</td>
+                        <td className="py-3 px-2 text-white font-medium">
+                          <div className="flex items-center space-x-2">
+                            <span>{product.product}</span>
+                            {bundleIds.has(product.key) && (
+                              <span className="px-2 py-0.5 rounded-full text-xs bg-cyan-500/20 text-cyan-400">
+                                {t('bundles.badge')}
+                              </span>
+                            )}
+                            {product.belowCostSales > 0 && (
+                              <span
+                                className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs
+                                           bg-red-500/20 text-red-400 border border-red-500/30"
+                                title={`${t('statistics.belowCostHint')} : ${product.belowCostSales}`}
+                              >
+                                <AlertTriangle className="w-3 h-3" />
+                                <span>{t('statistics.belowCost')}</span>
+                              </span>
+                            )}
+                          </div>
+                        </td>
                         <td className="py-3 px-2 text-slate-300">{product.category}</td>
+                        <td className="py-3 px-2 text-center">{renderAbcBadge(abcClassByProduct.get(product.key))}</td>
                         <td className="py-3 px-2 text-right text-green-400 font-semibold">
                           {formatCurrency(product.revenue)}
                         </td>
+                        {renderDeltaCell(product.revenue, baselineRevenueByProduct.get(product.key) || 0)}
                         <td className="py-3 px-2 text-center text-white">{product.quantity}</td>
                         <td className="py-3 px-2 text-right text-slate-300">
                           {formatCurrency(product.averageUnitPrice)}
                         </td>
+                        {renderMarginCells(product)}
+                        {renderReturnCells(product)}
                       </tr>
                     ))}
                   </tbody>
@@ -623,6 +1194,126 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
             </div>
           )}
 
+          {activeTab === 'products' && (
+            <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6 mt-6 space-y-6">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-white flex items-center space-x-2">
+                    <BarChart3 className="w-5 h-5 text-green-400" />
+                    <span>{t('abc.title')}</span>
+                  </h3>
+                  <p className="text-slate-400 text-sm">{t('abc.subtitle')}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={abcMetric}
+                    onChange={(e) => setAbcMetric(e.target.value as AbcMetric)}
+                    className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+                  >
+                    {ABC_METRICS.map(metric => (
+                      <option key={metric} value={metric}>{t(`abc.metric.${metric}`)}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={abcClassFilter}
+                    onChange={(e) => setAbcClassFilter(e.target.value as AbcClass | 'all')}
+                    className="bg-slate-700/50 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+                  >
+                    <option value="all">{t('abc.allClasses')}</option>
+                    {abcSummary.map(({ abcClass }) => (
+                      <option key={abcClass} value={abcClass}>{t('abc.class')} {abcClass}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {abcSummary.map(summary => (
+                  <div key={summary.abcClass} className="p-4 bg-slate-700/30 rounded-xl flex items-center justify-between">
+                    <div>
+                      <p className="text-white font-semibold">{summary.products} {t('abc.products')}</p>
+                      <p className="text-slate-400 text-sm">
+                        {formatAbcValue(summary.value)} • {(summary.share * 100).toFixed(1)}% {t('abc.ofTotal')}
+                      </p>
+                    </div>
+                    {renderAbcBadge(summary.abcClass)}
+                  </div>
+                ))}
+              </div>
+
+              {abcRows.some(row => row.value > 0) ? (
+                <>
+                  <Chart
+                    type="pareto"
+                    title={t('abc.paretoTitle')}
+                    data={abcRows.filter(row => row.value > 0).map(row => ({
+                      product: row.product.name,
+                      value: Math.round(row.value * 100) / 100,
+                      cumulative: Math.round(row.cumulativeShare * 1000) / 10
+                    }))}
+                    xAxisKey="product"
+                    dataKey="value"
+                    cumulativeKey="cumulative"
+                    valueLabel={t(`abc.metric.${abcMetric}`)}
+                    cumulativeLabel={t('abc.cumulative')}
+                    referenceLines={[A_CLASS_THRESHOLD * 100, B_CLASS_THRESHOLD * 100]}
+                  />
+
+                  <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-slate-700">
+                          <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.product')}</th>
+                          <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.category')}</th>
+                          <th className="text-right py-3 px-2 text-slate-400 font-medium">{t(`abc.metric.${abcMetric}`)}</th>
+                          <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('abc.share')}</th>
+                          <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('abc.cumulative')}</th>
+                          <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('abc.class')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {abcRows
+                          .filter(row => abcClassFilter === 'all' || row.abcClass === abcClassFilter)
+                          .map(row => (
+                            <tr key={row.product.id} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                              <td className="py-3 px-2 text-white font-medium">{row.product.name}</td>
+                              <td className="py-3 px-2 text-slate-300">{row.product.category}</td>
+                              <td className="py-3 px-2 text-right text-green-400">{formatAbcValue(row.value)}</td>
+                              <td className="py-3 px-2 text-right text-slate-300">{(row.share * 100).toFixed(1)}%</td>
+                              <td className="py-3 px-2 text-right text-slate-300">{(row.cumulativeShare * 100).toFixed(1)}%</td>
+                              <td className="py-3 px-2 text-center">{renderAbcBadge(row.abcClass)}</td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-slate-500 text-xs">{t('abc.catalogHint')}</p>
+                </>
+              ) : (
+                <p className="text-center py-6 text-slate-400">{t('abc.noData')}</p>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'products' && (
+            <BundleConsumptionPanel sales={filteredSales} products={products} />
+          )}
+
+          {activeTab === 'basket' && (
+            <BasketAnalysisPanel tickets={tickets} />
+          )}
+
+          {activeTab === 'heatmap' && (
+            <SalesHeatmapPanel
+              sales={filteredSales}
+              startDate={new Date(startDate)}
+              endDate={new Date(endDate)}
+              baselineSales={baselineSales}
+              baselineStart={baseline.start}
+              baselineEnd={baseline.end}
+            />
+          )}
+
           {activeTab === 'sellers' && (
             <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
               <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
@@ -637,9 +1328,12 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
                       <th className="text-left py-3 px-2 text-slate-400 font-medium">#</th>
                       <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.seller')}</th>
                       <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.revenue')}</th>
+                      {renderDeltaHeader()}
                       <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.quantity')}</th>
                       <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.tickets')}</th>
                       <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.avgBasket')}</th>
+                      {renderMarginHeaders()}
+                      {renderReturnHeaders()}
                     </tr>
                   </thead>
                   <tbody>
@@ -650,11 +1344,14 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
                         <td className="py-3 px-2 text-right text-green-400 font-semibold">
                           {formatCurrency(seller.revenue)}
                         </td>
+                        {renderDeltaCell(seller.revenue, baselineRevenueBySeller.get(seller.seller) || 0)}
                         <td className="py-3 px-2 text-center text-white">{seller.quantity}</td>
                         <td className="py-3 px-2 text-center text-white">{seller.tickets}</td>
                         <td className="py-3 px-2 text-right text-slate-300">
                           {formatCurrency(seller.averageBasket)}
                         </td>
+                        {renderMarginCells(seller)}
+                        {renderReturnCells(seller)}
                       </tr>
                     ))}
                   </tbody>
@@ -676,9 +1373,11 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
                     <tr className="border-b border-slate-700">
                       <th className="text-left py-3 px-2 text-slate-400 font-medium">{t('statistics.register')}</th>
                       <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.revenue')}</th>
+                      {renderDeltaHeader()}
                       <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.quantity')}</th>
                       <th className="text-center py-3 px-2 text-slate-400 font-medium">{t('statistics.tickets')}</th>
                       <th className="text-right py-3 px-2 text-slate-400 font-medium">{t('statistics.percentOfTotal')}</th>
+                      {renderMarginHeaders()}
                     </tr>
                   </thead>
                   <tbody>
@@ -692,11 +1391,13 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
                           <td className="py-3 px-2 text-right text-green-400 font-semibold">
                             {formatCurrency(register.revenue)}
                           </td>
+                          {renderDeltaCell(register.revenue, baselineRevenueByRegister.get(register.register) || 0)}
                           <td className="py-3 px-2 text-center text-white">{register.quantity}</td>
                           <td className="py-3 px-2 text-center text-white">{register.tickets}</td>
                           <td className="py-3 px-2 text-right text-yellow-400 font-medium">
                             {percentage.toFixed(1)}%
                           </td>
+                          {renderMarginCells(register)}
                         </tr>
                       );
                     })}
@@ -705,6 +1406,43 @@ export function StatisticsModule({ registerSales, products }: StatisticsModulePr
               </div>
             </div>
           )}
+
+          {activeTab === 'sessions' && onOpenRegisterSession && onCloseRegisterSession && onListRegisterSales && (
+            <RegisterSessionsPanel
+              registers={[...new Set([...registers, ...registerSales.map(s => s.register)])].sort()}
+              sessions={registerSessions}
+              onOpenSession={onOpenRegisterSession}
+              onCloseSession={onCloseRegisterSession}
+              onListRegisterSales={onListRegisterSales}
+            />
+          )}
+
+          {activeTab === 'shrinkage' && (
+            shrinkageReport.totals.adjustments === 0 ? (
+              <div className="text-center py-8 text-slate-400">
+                <PackageMinus className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                <p>{t('statistics.noShrinkage')}</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
+                  <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+                    <PackageMinus className="w-5 h-5 text-orange-400" />
+                    <span>{t('statistics.shrinkageByReason')}</span>
+                  </h3>
+                  {renderShrinkageTable(shrinkageReport.byReason, t('statistics.shrinkageReason'), true)}
+                </div>
+
+                <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700/50 rounded-xl p-6">
+                  <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+                    <PieChart className="w-5 h-5 text-orange-400" />
+                    <span>{t('statistics.shrinkageByCategory')}</span>
+                  </h3>
+                  {renderShrinkageTable(shrinkageReport.byCategory, t('statistics.category'), false)}
+                </div>
+              </div>
+            )
+          )}
         </motion.div>
       </div>
 
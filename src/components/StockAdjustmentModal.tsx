@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  Save,
+  RefreshCw,
+  SlidersHorizontal,
+  Calendar,
+  FileText,
+  Minus,
+  Plus
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { Product, AdjustmentReasonCode, StockAdjustmentInput } from '../types';
+import { ADJUSTMENT_REASONS, MANUAL_ADJUSTMENT_REASONS } from '../utils/stockAdjustmentUtils';
+
+interface StockAdjustmentModalProps {
+  product: Product;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (adjustment: StockAdjustmentInput) => Promise<void>;
+  isLoading: boolean;
+}
+
+export function StockAdjustmentModal({
+  product,
+  isOpen,
+  onClose,
+  onSave,
+  isLoading
+}: StockAdjustmentModalProps) {
+  const [direction, setDirection] = useState<'out' | 'in'>('out');
+  const [quantity, setQuantity] = useState('');
+  const [reasonCode, setReasonCode] = useState<AdjustmentReasonCode>('casse');
+  const [note, setNote] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDirection('out');
+    setQuantity('');
+    setReasonCode('casse');
+    setNote('');
+    setEffectiveDate(format(new Date(), 'yyyy-MM-dd'));
+    setError('');
+  }, [product, isOpen]);
+
+  const parsedQuantity = parseInt(quantity);
+  const signedQuantity = isNaN(parsedQuantity) ? 0 : (direction === 'out' ? -parsedQuantity : parsedQuantity);
+  const projectedStock = Math.max(0, product.stock + signedQuantity);
+
+  const handleSave = async () => {
+    if (isNaN(parsedQuantity) || parsedQuantity <= 0) {
+      setError('La quantité doit être un nombre entier positif');
+      return;
+    }
+    if (!effectiveDate) {
+      setError('La date d\'effet est requise');
+      return;
+    }
+
+    await onSave({
+      quantity: signedQuantity,
+      reasonCode,
+      note: note.trim() || undefined,
+      // Keep the time of day so same-day adjustments stay ordered
+      date: effectiveDate === format(new Date(), 'yyyy-MM-dd') ? new Date() : new Date(`${effectiveDate}T12:00:00`)
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-gray-800 border border-gray-700 rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-orange-500/20 rounded-full flex items-center justify-center">
+                <SlidersHorizontal className="w-5 h-5 text-orange-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-white">Ajuster le Stock</h3>
+                <p className="text-gray-400 text-sm">{product.name} • Stock actuel : {product.stock}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="text-gray-400 hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {/* Reason */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Motif</label>
+              <select
+                value={reasonCode}
+                onChange={(e) => setReasonCode(e.target.value as AdjustmentReasonCode)}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                           focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              >
+                {MANUAL_ADJUSTMENT_REASONS.map(code => (
+                  <option key={code} value={code}>{ADJUSTMENT_REASONS[code]}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Quantity */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Quantité</label>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setDirection('out')}
+                  className={`px-3 py-2 rounded-lg flex items-center space-x-1 transition-all duration-200 ${
+                    direction === 'out'
+                      ? 'bg-red-500/20 text-red-400 border border-red-500/30'
+                      : 'bg-gray-700/50 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  <Minus className="w-4 h-4" />
+                  <span>Sortie</span>
+                </button>
+                <button
+                  onClick={() => setDirection('in')}
+                  className={`px-3 py-2 rounded-lg flex items-center space-x-1 transition-all duration-200 ${
+                    direction === 'in'
+                      ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                      : 'bg-gray-700/50 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Entrée</span>
+                </button>
+                <input
+                  type="number"
+                  min="1"
+                  value={quantity}
+                  onChange={(e) => {
+                    setQuantity(e.target.value);
+                    setError('');
+                  }}
+                  className={`flex-1 px-4 py-2 bg-gray-700 border rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+                               error ? 'border-red-500' : 'border-gray-600'
+                             }`}
+                  placeholder="0"
+                />
+              </div>
+              {error && <p className="text-red-400 text-sm mt-1">{error}</p>}
+              <p className="text-gray-500 text-xs mt-1">
+                Stock après ajustement : <span className="text-white">{projectedStock}</span>
+              </p>
+            </div>
+
+            {/* Effective date */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">
+                <Calendar className="w-4 h-4 inline mr-2" />
+                Date d'Effet
+              </label>
+              <input
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                           focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+              {product.initialStockDate && effectiveDate < product.initialStockDate && (
+                <p className="text-yellow-400 text-xs mt-1">
+                  Antérieur à la date de stock initial : cet ajustement ne modifiera pas le stock final
+                </p>
+              )}
+            </div>
+
+            {/* Note */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">
+                <FileText className="w-4 h-4 inline mr-2" />
+                Note (optionnel)
+              </label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                           placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                placeholder="Ex : carton tombé en réserve"
+              />
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-8">
+            <button
+              onClick={handleSave}
+              disabled={isLoading}
+              className="flex-1 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-orange-600 hover:to-orange-700
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                         flex items-center justify-center space-x-2"
+            >
+              {isLoading ? (
+                <RefreshCw className="w-5 h-5 animate-spin" />
+              ) : (
+                <Save className="w-5 h-5" />
+              )}
+              <span>Enregistrer l'ajustement</span>
+            </button>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl
+                         hover:bg-gray-500 transition-all duration-200"
+            >
+              Annuler
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
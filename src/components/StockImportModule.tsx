@@ -20,14 +20,14 @@ import {
   BarChart3,
   Info
 } from 'lucide-react';
-import { Product } from '../types';
+import { Product, StockMovementContext } from '../types';
 import { importFromExcel, exportToExcel, parseClipboardData } from '../utils/excelUtils';
 import { validateStockImport, StockImportData, StockImportPreview } from '../utils/stockImportUtils';
 
 interface StockImportModuleProps {
   products: Product[];
-  onUpdateProduct: (id: string, updates: Partial<Product>) => Promise<void>;
-  onAddProduct: (product: Omit<Product, 'id'>) => Promise<void>;
+  onUpdateProduct: (id: string, updates: Partial<Product>, movement?: StockMovementContext) => Promise<void>;
+  onAddProduct: (product: Omit<Product, 'id'>, movement?: StockMovementContext) => Promise<void>;
   onRefreshData: () => void;
 }
 
@@ -215,6 +215,8 @@ export function StockImportModule({
     
     setImporting(true);
     try {
+      // Every stock movement of this import shares the same reference
+      const importReference = `stock-import-${Date.now()}`;
       const updated: ImportResult['updated'] = [];
       const created: ImportResult['created'] = [];
       let processedCount = 0;
@@ -237,6 +239,12 @@ export function StockImportModule({
               stock: newStock,
               // Update initialStock if it's not set or if new stock is higher
               initialStock: Math.max(matchingProduct.initialStock || oldStock, newStock)
+            }, {
+              // No explicit quantity: the ledger records the change actually applied
+              type: 'import',
+              reason: 'Import de stock',
+              reference: importReference,
+              date: importData.date
             });
 
             updated.push({
@@ -258,7 +266,13 @@ export function StockImportModule({
               description: `Créé automatiquement le ${importData.date.toLocaleDateString('fr-FR')}`
             };
 
-            await onAddProduct(newProduct);
+            await onAddProduct(newProduct, {
+              type: 'import',
+              reason: 'Import de stock (nouveau produit)',
+              reference: importReference,
+              quantity: importData.quantity,
+              date: importData.date
+            });
             
             created.push({
               product: newProduct,
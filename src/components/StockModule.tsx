@@ -22,36 +22,156 @@ import {
   BarChart3,
   X,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  History,
+  SlidersHorizontal,
+  ClipboardList,
+  Calculator,
+  TrendingUp,
+  Archive,
+  Link2,
+  Combine,
+  Store as StoreIcon,
+  ArrowLeftRight
 } from 'lucide-react';
-import { Product, RegisterSale } from '../types';
+import {
+  Product,
+  RegisterSale,
+  StockMovement,
+  StockMovementContext,
+  StockAdjustmentInput,
+  InventorySession,
+  InventoryVariance,
+  PurchaseOrder,
+  Supplier,
+  Store,
+  StockTransfer
+} from '../types';
 import { exportToExcel } from '../utils/excelUtils';
 import { useViewState, useScrollPosition } from '../hooks/useViewState';
 import { ProductEditModal } from './ProductEditModal';
 import { StockImportModule } from './StockImportModule';
+import { StockMovementsModal } from './StockMovementsModal';
+import { StockAdjustmentModal } from './StockAdjustmentModal';
+import { InventoryCountModule } from './InventoryCountModule';
+import { StockValuationModule } from './StockValuationModule';
+import { ReorderForecastModule } from './ReorderForecastModule';
+import { DeadStockModule } from './DeadStockModule';
+import { ProductMergeModule } from './ProductMergeModule';
+import { StoresModule } from './StoresModule';
+import { StockTransfersModule } from './StockTransfersModule';
 import { RebuildDatabaseButton } from './RebuildDatabaseButton';
 import { calculateStockFinal } from '../utils/calculateStockFinal';
+import { calculateOnOrderQuantities } from '../utils/purchaseOrderUtils';
+import { calculateInTransitQuantities } from '../utils/transferUtils';
+import { isBundle } from '../utils/bundleUtils';
+import {
+  calculateStockCover,
+  isRunningOutSoon,
+  COVER_WINDOW_OPTIONS,
+  DEFAULT_COVER_WINDOW_DAYS,
+  DEFAULT_STOCKOUT_HORIZON_DAYS
+} from '../utils/stockCoverUtils';
+import { calculateAbcClassification, ABC_CLASSES, STOCK_ABC_PERIOD_DAYS, AbcClass } from '../utils/abcUtils';
+import {
+  ALL_STORES,
+  getStoreMovements,
+  getStoreProducts,
+  getStoreSales,
+  getStoreScope,
+  getStoreStock
+} from '../utils/storeUtils';
+import { format, subDays, startOfDay } from 'date-fns';
 import { useLanguage } from '../contexts/LanguageContext';
 
 interface StockModuleProps {
   products: Product[];
   registerSales: RegisterSale[];
   loading: boolean;
-  onAddProduct: (product: Omit<Product, 'id'>) => Promise<void>;
+  onAddProduct: (product: Omit<Product, 'id'>, movement?: StockMovementContext) => Promise<void>;
   onAddProducts: (products: Omit<Product, 'id'>[]) => Promise<boolean>;
-  onUpdateProduct: (id: string, updates: Partial<Product>) => Promise<void>;
+  onUpdateProduct: (id: string, updates: Partial<Product>, movement?: StockMovementContext) => Promise<void>;
   onDeleteProduct: (id: string) => Promise<void>;
   onDeleteProducts: (productIds: string[]) => Promise<boolean>;
   onRefreshData: () => void;
   autoSyncProductsFromSales: () => Promise<{ created: Product[]; summary: string; }>;
   isRecalculating?: boolean;
+  isStockOnPartialHistory?: boolean;
+  stockMovements?: StockMovement[];
+  onInitializeStockLedger?: (productIds?: string[]) => Promise<number>;
+  onAdjustStock?: (productId: string, adjustment: StockAdjustmentInput) => Promise<boolean>;
+  inventorySessions?: InventorySession[];
+  onOpenInventorySession?: (
+    session: Pick<InventorySession, 'name' | 'categories' | 'blind' | 'countDate' | 'storeId'>
+  ) => Promise<InventorySession | null>;
+  onSaveInventoryCounts?: (sessionId: string, counts: Record<string, number | null>) => Promise<boolean>;
+  onGetInventoryVariances?: (sessionId: string) => Promise<InventoryVariance[] | null>;
+  onPostInventorySession?: (sessionId: string) => Promise<boolean>;
+  onCancelInventorySession?: (sessionId: string) => Promise<boolean>;
+  purchaseOrders?: PurchaseOrder[];
+  suppliers?: Supplier[];
+  onApplyMinStocks?: (changes: Array<{ productId: string; minStock: number }>) => Promise<boolean>;
+  onUpdateProductFlags?: (productIds: string[], flags: Pick<Product, 'discontinued' | 'promotionFlag'>) => Promise<boolean>;
+  onMigrateProductIdentity?: () => Promise<{ skusAssigned: number; salesLinked: number; salesUnlinked: number } | null>;
+  onMergeProducts?: (targetId: string, sourceIds: string[]) => Promise<boolean>;
+  onAddProductAliases?: (productId: string, names: string[]) => Promise<number | null>;
+  stores?: Store[];
+  selectedStoreId?: string; // ALL_STORES for the consolidated stock
+  onAddStore?: (store: Omit<Store, 'id' | 'createdAt' | 'updatedAt'>) => Promise<boolean>;
+  onUpdateStore?: (id: string, updates: Partial<Omit<Store, 'id' | 'createdAt' | 'updatedAt'>>) => Promise<boolean>;
+  onDeleteStore?: (id: string) => Promise<boolean>;
+  stockTransfers?: StockTransfer[];
+  onCreateStockTransfer?: (
+    transfer: Pick<StockTransfer, 'fromStoreId' | 'toStoreId' | 'lines' | 'notes'>
+  ) => Promise<StockTransfer | null>;
+  onUpdateStockTransfer?: (id: string, updates: Pick<StockTransfer, 'lines' | 'notes'>) => Promise<boolean>;
+  onDeleteStockTransfer?: (id: string) => Promise<boolean>;
+  onShipStockTransfer?: (id: string, shippedQuantities: Record<string, number>) => Promise<boolean>;
+  onReceiveStockTransfer?: (id: string, receivedQuantities: Record<string, number>) => Promise<boolean>;
 }
 
+// Computed columns sort alongside the product fields
+type StockSortField = keyof Product | 'averageDailySales' | 'daysOfCover' | 'stockoutDate' | 'abcClass';
+
+const ABC_CLASS_STYLES: Record<AbcClass, string> = {
+  A: 'bg-green-500/20 text-green-400 border-green-500/30',
+  B: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  C: 'bg-gray-500/20 text-gray-400 border-gray-500/30'
+};
+
 const StockModule: React.FC<StockModuleProps> = ({ 
-  products, 
-  registerSales, 
+  products: allProducts, 
+  registerSales: allSales, 
   loading,
   isRecalculating,
+  isStockOnPartialHistory,
+  stockMovements: allMovements = [],
+  onInitializeStockLedger,
+  onAdjustStock,
+  inventorySessions = [],
+  onOpenInventorySession,
+  onSaveInventoryCounts,
+  onGetInventoryVariances,
+  onPostInventorySession,
+  onCancelInventorySession,
+  purchaseOrders = [],
+  suppliers = [],
+  onApplyMinStocks,
+  onUpdateProductFlags,
+  onMigrateProductIdentity,
+  onMergeProducts,
+  onAddProductAliases,
+  stores = [],
+  selectedStoreId = ALL_STORES,
+  onAddStore,
+  onUpdateStore,
+  onDeleteStore,
+  stockTransfers = [],
+  onCreateStockTransfer,
+  onUpdateStockTransfer,
+  onDeleteStockTransfer,
+  onShipStockTransfer,
+  onReceiveStockTransfer,
   onAddProduct, 
   onAddProducts,
   onUpdateProduct, 
@@ -64,11 +184,33 @@ const StockModule: React.FC<StockModuleProps> = ({
   useScrollPosition('stock');
   const { t } = useLanguage();
 
+  // Stock, sales and ledger of the store selected in the sidebar; imports, inventories
+  // and the catalog tools work on every store
+  const selectedStore = stores.find(s => s.id === selectedStoreId);
+  const products = useMemo(
+    () => getStoreProducts(allProducts, stores, selectedStoreId),
+    [allProducts, stores, selectedStoreId]
+  );
+  const registerSales = useMemo(
+    () => getStoreSales(allSales, stores, selectedStoreId),
+    [allSales, stores, selectedStoreId]
+  );
+  const stockMovements = useMemo(
+    () => getStoreMovements(allMovements, stores, selectedStoreId),
+    [allMovements, stores, selectedStoreId]
+  );
+  const storeScopes = useMemo(() => stores.map(s => getStoreScope(stores, s.id)!), [stores]);
+
   // Initialize state from viewState with stable defaults
   const [searchTerm, setSearchTerm] = useState(viewState.searchTerm || '');
   const [filterCategory, setFilterCategory] = useState(viewState.filters?.category || 'all');
   const [filterStockLevel, setFilterStockLevel] = useState(viewState.filters?.stockLevel || 'all');
-  const [sortField, setSortField] = useState<keyof Product>(viewState.sortField as keyof Product || 'name');
+  const [filterAbcClass, setFilterAbcClass] = useState<AbcClass | 'all'>(viewState.filters?.abcClass || 'all');
+  const [coverWindowDays, setCoverWindowDays] = useState<number>(viewState.filters?.coverWindow || DEFAULT_COVER_WINDOW_DAYS);
+  const [stockoutHorizonDays, setStockoutHorizonDays] = useState<number>(
+    viewState.filters?.stockoutHorizon || DEFAULT_STOCKOUT_HORIZON_DAYS
+  );
+  const [sortField, setSortField] = useState<StockSortField>(viewState.sortField as StockSortField || 'name');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>(viewState.sortDirection || 'asc');
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(viewState.selectedItems || new Set());
   const [currentPage, setCurrentPage] = useState(viewState.currentPage || 1);
@@ -78,9 +220,18 @@ const StockModule: React.FC<StockModuleProps> = ({
   const [showDeleteModal, setShowDeleteModal] = useState(viewState.modals?.deleteModal || false);
   const [showImportModal, setShowImportModal] = useState(viewState.modals?.importModal || false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const onOrderQuantities = useMemo(() => calculateOnOrderQuantities(purchaseOrders), [purchaseOrders]);
+  const inTransitQuantities = useMemo(
+    () => calculateInTransitQuantities(stockTransfers, selectedStore ? selectedStoreId : ALL_STORES),
+    [stockTransfers, selectedStore, selectedStoreId]
+  );
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [activeTab, setActiveTab] = useState<'list' | 'import'>(viewState.activeTab as 'list' | 'import' || 'list');
+  const [activeTab, setActiveTab] = useState<'list' | 'import' | 'inventory' | 'valuation' | 'forecast' | 'deadStock' | 'merge' | 'stores' | 'transfers'>(
+    viewState.activeTab as 'list' | 'import' | 'inventory' | 'valuation' | 'forecast' | 'deadStock' | 'merge' | 'stores' | 'transfers' || 'list'
+  );
   const [notification, setNotification] = useState<{
     show: boolean;
     type: 'success' | 'error' | 'warning';
@@ -111,11 +262,17 @@ const StockModule: React.FC<StockModuleProps> = ({
 
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      updateFilters({ category: filterCategory, stockLevel: filterStockLevel });
+      updateFilters({
+        category: filterCategory,
+        stockLevel: filterStockLevel,
+        abcClass: filterAbcClass,
+        coverWindow: coverWindowDays,
+        stockoutHorizon: stockoutHorizonDays
+      });
     }, 100);
 
     return () => clearTimeout(timeoutId);
-  }, [filterCategory, filterStockLevel]);
+  }, [filterCategory, filterStockLevel, filterAbcClass, coverWindowDays, stockoutHorizonDays]);
 
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -153,12 +310,26 @@ const StockModule: React.FC<StockModuleProps> = ({
     setNotification({ show: true, type, message });
   };
 
+  const stockCover = useMemo(
+    () => calculateStockCover(products, registerSales, coverWindowDays),
+    [products, registerSales, coverWindowDays]
+  );
+
+  // Revenue classes over the last STOCK_ABC_PERIOD_DAYS, to set counting frequency and shelf space
+  const abcClasses = useMemo(() => {
+    const periodStart = subDays(startOfDay(new Date()), STOCK_ABC_PERIOD_DAYS);
+    const periodSales = registerSales.filter(sale => sale.date >= periodStart);
+    return new Map(calculateAbcClassification(products, periodSales).map(row => [row.product.id, row.abcClass]));
+  }, [products, registerSales]);
+
   // Memoized filtered products to improve performance
   const filteredProducts = useMemo(() => {
     return products
       .filter(product => {
         const matchesSearch = 
           product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          (product.sku && product.sku.toLowerCase().includes(searchTerm.toLowerCase())) ||
+          (product.barcodes || []).some(code => code.includes(searchTerm.trim())) ||
           product.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
           (product.description && product.description.toLowerCase().includes(searchTerm.toLowerCase()));
         
@@ -171,13 +342,27 @@ const StockModule: React.FC<StockModuleProps> = ({
           matchesStockLevel = product.stock > 0 && product.stock <= product.minStock;
         } else if (filterStockLevel === 'ok') {
           matchesStockLevel = product.stock > product.minStock;
+        } else if (filterStockLevel === 'runningOut') {
+          matchesStockLevel = isRunningOutSoon(product, stockCover.get(product.id), stockoutHorizonDays);
+        } else if (filterStockLevel === 'noSales') {
+          matchesStockLevel = product.stock > 0 && stockCover.get(product.id)?.daysOfCover === null;
         }
         
-        return matchesSearch && matchesCategory && matchesStockLevel;
+        const matchesAbcClass = filterAbcClass === 'all' || abcClasses.get(product.id) === filterAbcClass;
+        
+        return matchesSearch && matchesCategory && matchesStockLevel && matchesAbcClass;
       })
       .sort((a, b) => {
-        const aValue = a[sortField];
-        const bValue = b[sortField];
+        // Products that never run out at the current pace come last when sorting by cover
+        const getValue = (product: Product) => {
+          const cover = stockCover.get(product.id);
+          if (sortField === 'averageDailySales') return cover?.averageDailySales ?? 0;
+          if (sortField === 'daysOfCover' || sortField === 'stockoutDate') return cover?.daysOfCover ?? Infinity;
+          if (sortField === 'abcClass') return abcClasses.get(product.id) || 'C';
+          return product[sortField];
+        };
+        const aValue = getValue(a);
+        const bValue = getValue(b);
         
         if (sortDirection === 'asc') {
           return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
@@ -185,7 +370,18 @@ const StockModule: React.FC<StockModuleProps> = ({
           return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
         }
       });
-  }, [products, searchTerm, filterCategory, filterStockLevel, sortField, sortDirection]);
+  }, [
+    products,
+    searchTerm,
+    filterCategory,
+    filterStockLevel,
+    filterAbcClass,
+    sortField,
+    sortDirection,
+    stockCover,
+    stockoutHorizonDays,
+    abcClasses
+  ]);
 
   // Pagination logic
   const totalPages = Math.ceil(filteredProducts.length / itemsPerPage);
@@ -195,7 +391,7 @@ const StockModule: React.FC<StockModuleProps> = ({
 
   const categories = [...new Set(products.map(p => p.category))];
 
-  const handleSort = (field: keyof Product) => {
+  const handleSort = (field: StockSortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
@@ -206,12 +402,20 @@ const StockModule: React.FC<StockModuleProps> = ({
 
   const handleExport = () => {
     const exportData = filteredProducts.map(product => ({
+      SKU: product.sku || '',
+      EAN: (product.barcodes || []).join(', '),
       Name: product.name,
       Category: product.category,
       Price: product.price,
       Stock: product.stock,
       'Min Stock': product.minStock,
       'Quantity Sold': product.quantitySold || 0,
+      [`Ventes / jour (${coverWindowDays} j)`]: Math.round((stockCover.get(product.id)?.averageDailySales || 0) * 100) / 100,
+      'Jours de couverture': stockCover.get(product.id)?.daysOfCover ?? '',
+      'Rupture prévue': stockCover.get(product.id)?.stockoutDate
+        ? format(stockCover.get(product.id)!.stockoutDate!, 'dd/MM/yyyy')
+        : '',
+      [`Classe ABC (${STOCK_ABC_PERIOD_DAYS} j)`]: abcClasses.get(product.id) || 'C',
       Description: product.description || ''
     }));
     
@@ -222,6 +426,9 @@ const StockModule: React.FC<StockModuleProps> = ({
     setSearchTerm('');
     setFilterCategory('all');
     setFilterStockLevel('all');
+    setFilterAbcClass('all');
+    setCoverWindowDays(DEFAULT_COVER_WINDOW_DAYS);
+    setStockoutHorizonDays(DEFAULT_STOCKOUT_HORIZON_DAYS);
     setCurrentPage(1);
   };
 
@@ -283,12 +490,16 @@ const StockModule: React.FC<StockModuleProps> = ({
     }
   };
 
-  const handleUpdateProduct = async (updates: Partial<Product>) => {
+  const handleUpdateProduct = async (updates: Partial<Product>, stockChangeReason?: string) => {
     if (!editingProduct) return;
 
     setIsUpdating(true);
     try {
-      await onUpdateProduct(editingProduct.id, updates);
+      await onUpdateProduct(editingProduct.id, updates, {
+        type: 'adjustment',
+        reason: stockChangeReason || 'Modification manuelle de la fiche produit',
+        reference: editingProduct.id
+      });
       setShowEditModal(false);
       setEditingProduct(null);
       showNotification('success', 'Produit mis à jour avec succès');
@@ -300,6 +511,26 @@ const StockModule: React.FC<StockModuleProps> = ({
     }
   };
 
+  const handleAdjustStock = async (adjustment: StockAdjustmentInput) => {
+    if (!adjustingProduct || !onAdjustStock) return;
+
+    setIsUpdating(true);
+    try {
+      const success = await onAdjustStock(adjustingProduct.id, { ...adjustment, storeId: selectedStore?.id });
+      if (success) {
+        setAdjustingProduct(null);
+        showNotification('success', 'Ajustement de stock enregistré');
+      } else {
+        showNotification('error', 'Erreur lors de l\'ajustement du stock');
+      }
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      showNotification('error', 'Erreur lors de l\'ajustement du stock');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   // Delete product handler
   const handleDeleteProduct = (product: Product) => {
     setSelectedProducts(new Set([product.id]));
@@ -356,6 +587,23 @@ const StockModule: React.FC<StockModuleProps> = ({
     }
   };
 
+  // SKUs for the products without one, product ids on the sales linked by name only
+  const handleMigrateIdentity = async () => {
+    if (!onMigrateProductIdentity) return;
+
+    setIsUpdating(true);
+    const result = await onMigrateProductIdentity();
+    setIsUpdating(false);
+
+    if (!result) {
+      showNotification('error', 'Erreur lors de la migration des identifiants produits');
+    } else if (result.salesUnlinked > 0) {
+      showNotification('warning', `${result.skusAssigned} SKU attribués, ${result.salesLinked} ventes liées, ${result.salesUnlinked} ventes sans produit correspondant`);
+    } else {
+      showNotification('success', `${result.skusAssigned} SKU attribués, ${result.salesLinked} ventes liées`);
+    }
+  };
+
   // Calculate stock statistics
   const stockStats = useMemo(() => {
     const totalStock = products.reduce((sum, p) => sum + p.stock, 0);
@@ -385,6 +633,17 @@ const StockModule: React.FC<StockModuleProps> = ({
     }
   };
 
+  const renderDaysOfCover = (product: Product) => {
+    const daysOfCover = stockCover.get(product.id)?.daysOfCover ?? null;
+    if (daysOfCover === null) {
+      return <span className="text-gray-500" title={`Aucune vente sur les ${coverWindowDays} derniers jours`}>∞</span>;
+    }
+    const colorClass = daysOfCover === 0
+      ? 'text-red-400'
+      : daysOfCover <= stockoutHorizonDays ? 'text-orange-400' : 'text-gray-300';
+    return <span className={`font-medium ${colorClass}`}>{Math.floor(daysOfCover)} j</span>;
+  };
+
   // Render loading state
   if (loading) {
     return (
@@ -405,7 +664,13 @@ const StockModule: React.FC<StockModuleProps> = ({
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
         <div>
           <h1 className="text-3xl font-bold text-white mb-2">Gestion du Stock</h1>
-          <p className="text-gray-400">Gérez votre inventaire et suivez les niveaux de stock</p>
+          <p className="text-gray-400">
+            {selectedStore
+              ? `Stock du magasin ${selectedStore.name}`
+              : stores.length > 0
+                ? `Stock consolidé de ${stores.length} magasin(s)`
+                : 'Gérez votre inventaire et suivez les niveaux de stock'}
+          </p>
         </div>
         
         <div className="flex flex-wrap gap-3">
@@ -432,6 +697,101 @@ const StockModule: React.FC<StockModuleProps> = ({
             <Upload className="w-4 h-4 inline mr-2" />
             Import Stock
           </button>
+          
+          <button
+            onClick={() => setActiveTab('inventory')}
+            className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+              activeTab === 'inventory'
+                ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                : 'bg-gray-700/50 text-gray-400 hover:text-white'
+            }`}
+          >
+            <ClipboardList className="w-4 h-4 inline mr-2" />
+            Inventaire
+          </button>
+
+          <button
+            onClick={() => setActiveTab('valuation')}
+            className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+              activeTab === 'valuation'
+                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/30'
+                : 'bg-gray-700/50 text-gray-400 hover:text-white'
+            }`}
+          >
+            <Calculator className="w-4 h-4 inline mr-2" />
+            Valorisation
+          </button>
+
+          {onApplyMinStocks && (
+            <button
+              onClick={() => setActiveTab('forecast')}
+              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                activeTab === 'forecast'
+                  ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                  : 'bg-gray-700/50 text-gray-400 hover:text-white'
+              }`}
+            >
+              <TrendingUp className="w-4 h-4 inline mr-2" />
+              Réapprovisionnement
+            </button>
+          )}
+
+          {onUpdateProductFlags && (
+            <button
+              onClick={() => setActiveTab('deadStock')}
+              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                activeTab === 'deadStock'
+                  ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+                  : 'bg-gray-700/50 text-gray-400 hover:text-white'
+              }`}
+            >
+              <Archive className="w-4 h-4 inline mr-2" />
+              Stock dormant
+            </button>
+          )}
+
+          {onMergeProducts && onAddProductAliases && (
+            <button
+              onClick={() => setActiveTab('merge')}
+              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                activeTab === 'merge'
+                  ? 'bg-teal-500/20 text-teal-400 border border-teal-500/30'
+                  : 'bg-gray-700/50 text-gray-400 hover:text-white'
+              }`}
+            >
+              <Combine className="w-4 h-4 inline mr-2" />
+              Doublons et alias
+            </button>
+          )}
+
+          {onAddStore && onUpdateStore && onDeleteStore && (
+            <button
+              onClick={() => setActiveTab('stores')}
+              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                activeTab === 'stores'
+                  ? 'bg-indigo-500/20 text-indigo-400 border border-indigo-500/30'
+                  : 'bg-gray-700/50 text-gray-400 hover:text-white'
+              }`}
+            >
+              <StoreIcon className="w-4 h-4 inline mr-2" />
+              Magasins
+            </button>
+          )}
+
+          {onCreateStockTransfer && onUpdateStockTransfer && onDeleteStockTransfer &&
+            onShipStockTransfer && onReceiveStockTransfer && stores.length > 1 && (
+            <button
+              onClick={() => setActiveTab('transfers')}
+              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                activeTab === 'transfers'
+                  ? 'bg-indigo-500/20 text-indigo-400 border border-indigo-500/30'
+                  : 'bg-gray-700/50 text-gray-400 hover:text-white'
+              }`}
+            >
+              <ArrowLeftRight className="w-4 h-4 inline mr-2" />
+              Transferts
+            </button>
+          )}
         </div>
       </div>
 
@@ -479,6 +839,20 @@ const StockModule: React.FC<StockModuleProps> = ({
         </div>
       )}
 
+      {/* Full history could not be loaded: stock values are not reliable */}
+      {isStockOnPartialHistory && (
+        <div className="bg-orange-500/10 border border-orange-500/20 rounded-xl p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="text-orange-400 font-medium">Stock calculé sur un historique partiel</p>
+            <p className="text-gray-400">
+              L'historique complet des ventes n'a pas pu être chargé : les stocks affichés ne portent que sur les
+              {' '}{registerSales.length} ventes chargées et ne sont pas enregistrés.
+            </p>
+          </div>
+        </div>
+      )}
+
       {activeTab === 'list' ? (
         <>
           {/* Stock Statistics */}
@@ -586,6 +960,20 @@ const StockModule: React.FC<StockModuleProps> = ({
               <Package className="w-5 h-5" />
               <span>Auto-Sync Produits</span>
             </button>
+
+            {onMigrateProductIdentity && (
+              <button
+                onClick={handleMigrateIdentity}
+                disabled={isUpdating}
+                title="Attribue un SKU aux produits qui n'en ont pas et lie chaque vente à son produit"
+                className="bg-gradient-to-r from-indigo-500 to-violet-500 text-white font-semibold 
+                           py-3 px-6 rounded-xl hover:from-indigo-600 hover:to-violet-600 
+                           transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Link2 className="w-5 h-5" />
+                <span>Lier ventes et SKU</span>
+              </button>
+            )}
           </div>
 
           {/* Actions de sélection multiple */}
@@ -651,7 +1039,7 @@ const StockModule: React.FC<StockModuleProps> = ({
               </button>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
                 <input
@@ -686,7 +1074,47 @@ const StockModule: React.FC<StockModuleProps> = ({
                 <option value="out">Rupture de stock</option>
                 <option value="low">Stock faible</option>
                 <option value="ok">Stock OK</option>
+                <option value="runningOut">Rupture prévue sous {stockoutHorizonDays} jours</option>
+                <option value="noSales">En stock sans vente récente</option>
+              </select>
+
+              <select
+                value={filterAbcClass}
+                onChange={(e) => setFilterAbcClass(e.target.value as AbcClass | 'all')}
+                title={`Classes calculées sur le chiffre d'affaires des ${STOCK_ABC_PERIOD_DAYS} derniers jours`}
+                className="px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                           focus:outline-none focus:border-blue-500"
+              >
+                <option value="all">Toutes les classes ABC</option>
+                {ABC_CLASSES.map(abcClass => (
+                  <option key={abcClass} value={abcClass}>Classe {abcClass}</option>
+                ))}
               </select>
+
+              <select
+                value={coverWindowDays}
+                onChange={(e) => setCoverWindowDays(Number(e.target.value))}
+                title="Période utilisée pour la moyenne des ventes journalières"
+                className="px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                           focus:outline-none focus:border-blue-500"
+              >
+                {COVER_WINDOW_OPTIONS.map(days => (
+                  <option key={days} value={days}>Moyenne sur {days} jours</option>
+                ))}
+              </select>
+
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-400 text-sm whitespace-nowrap">Rupture sous</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={stockoutHorizonDays}
+                  onChange={(e) => setStockoutHorizonDays(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:border-blue-500"
+                />
+                <span className="text-gray-400 text-sm">jours</span>
+              </div>
             </div>
           </motion.div>
 
@@ -797,13 +1225,17 @@ const StockModule: React.FC<StockModuleProps> = ({
                       { key: 'price', label: 'Prix' },
                       { key: 'stock', label: 'Stock' },
                       { key: 'minStock', label: 'Stock Min' },
-                      { key: 'quantitySold', label: 'Vendu' }
+                      { key: 'quantitySold', label: 'Vendu' },
+                      { key: 'averageDailySales', label: 'Ventes / jour' },
+                      { key: 'daysOfCover', label: 'Couverture' },
+                      { key: 'stockoutDate', label: 'Rupture prévue' },
+                      { key: 'abcClass', label: 'ABC' }
                     ].map(({ key, label }) => (
                       <th
                         key={key}
                         className="text-left py-4 px-4 text-gray-400 font-medium cursor-pointer hover:text-white
                                    transition-colors duration-200"
-                        onClick={() => handleSort(key as keyof Product)}
+                        onClick={() => handleSort(key as StockSortField)}
                       >
                         <div className="flex items-center space-x-1">
                           <span>{label}</span>
@@ -837,7 +1269,30 @@ const StockModule: React.FC<StockModuleProps> = ({
                           )}
                         </button>
                       </td>
-                      <td className="py-4 px-4 text-white font-medium">{product.name}</td>
+                      <td className="py-4 px-4 text-white font-medium">
+                        <div className="flex items-center space-x-2">
+                          <span>{product.name}</span>
+                          {product.sku && (
+                            <span className="text-gray-500 text-xs font-mono">{product.sku}</span>
+                          )}
+                          {product.discontinued && (
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-gray-500/20 text-gray-300">Abandonné</span>
+                          )}
+                          {product.promotionFlag && (
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-amber-500/20 text-amber-400">Promotion</span>
+                          )}
+                          {isBundle(product) && (
+                            <span
+                              title={(product.bundleComponents || [])
+                                .map(c => `${c.quantity} × ${allProducts.find(p => p.id === c.productId)?.name || c.productId}`)
+                                .join(', ')}
+                              className="px-2 py-0.5 rounded-full text-xs bg-cyan-500/20 text-cyan-400"
+                            >
+                              Pack
+                            </span>
+                          )}
+                        </div>
+                      </td>
                       <td className="py-4 px-4">
                         <span className="bg-purple-500/20 text-purple-400 px-2 py-1 rounded-full text-xs font-medium">
                           {product.category}
@@ -846,11 +1301,46 @@ const StockModule: React.FC<StockModuleProps> = ({
                       <td className="py-4 px-4 text-gray-300">{formatCurrency(product.price)}</td>
                       <td className="py-4 px-4">
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStockStatusClass(product)}`}>
-                          {product.stock} unités
+                          {product.stock} {isBundle(product) ? 'réalisables' : 'unités'}
                         </span>
+                        {!selectedStore && storeScopes.length > 1 && (
+                          <span className="block text-gray-500 text-xs mt-1">
+                            {storeScopes
+                              .map(scope => `${stores.find(s => s.id === scope.storeId)?.name} : ${getStoreStock(product, scope)}`)
+                              .join(' · ')}
+                          </span>
+                        )}
+                        {onOrderQuantities.has(product.id) && (
+                          <span className="block text-blue-400 text-xs mt-1">
+                            +{onOrderQuantities.get(product.id)} en commande
+                          </span>
+                        )}
+                        {inTransitQuantities.has(product.id) && (
+                          <span className="block text-indigo-400 text-xs mt-1">
+                            +{inTransitQuantities.get(product.id)} en transit
+                          </span>
+                        )}
                       </td>
                       <td className="py-4 px-4 text-center text-gray-300">{product.minStock}</td>
                       <td className="py-4 px-4 text-center text-gray-300">{product.quantitySold || 0}</td>
+                      <td className="py-4 px-4 text-center text-gray-300">
+                        {(stockCover.get(product.id)?.averageDailySales || 0).toFixed(1)}
+                      </td>
+                      <td className="py-4 px-4 text-center">
+                        {renderDaysOfCover(product)}
+                      </td>
+                      <td className="py-4 px-4 text-center text-gray-300">
+                        {stockCover.get(product.id)?.stockoutDate
+                          ? format(stockCover.get(product.id)!.stockoutDate!, 'dd/MM/yyyy')
+                          : '—'}
+                      </td>
+                      <td className="py-4 px-4 text-center">
+                        <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-bold border ${
+                          ABC_CLASS_STYLES[abcClasses.get(product.id) || 'C']
+                        }`}>
+                          {abcClasses.get(product.id) || 'C'}
+                        </span>
+                      </td>
                       <td className="py-4 px-4">
                         <div className="flex space-x-2">
                           <button 
@@ -862,6 +1352,26 @@ const StockModule: React.FC<StockModuleProps> = ({
                             <Edit className="w-4 h-4" />
                           </button>
                           
+                          <button 
+                            onClick={() => setHistoryProduct(product)}
+                            className="p-2 bg-purple-500/20 text-purple-400 rounded-lg hover:bg-purple-500/30 
+                                       transition-all duration-200"
+                            title="Mouvements de stock"
+                          >
+                            <History className="w-4 h-4" />
+                          </button>
+                          
+                          {onAdjustStock && (
+                            <button 
+                              onClick={() => setAdjustingProduct(product)}
+                              className="p-2 bg-orange-500/20 text-orange-400 rounded-lg hover:bg-orange-500/30 
+                                         transition-all duration-200"
+                              title="Ajuster le stock"
+                            >
+                              <SlidersHorizontal className="w-4 h-4" />
+                            </button>
+                          )}
+                          
                           <button 
                             onClick={() => handleDeleteProduct(product)}
                             className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 
@@ -887,14 +1397,91 @@ const StockModule: React.FC<StockModuleProps> = ({
             </div>
           </motion.div>
         </>
-      ) : (
+      ) : activeTab === 'import' ? (
         <StockImportModule
-          products={products}
+          products={allProducts}
           onUpdateProduct={onUpdateProduct}
           onAddProduct={onAddProduct}
           onRefreshData={onRefreshData}
         />
-      )}
+      ) : activeTab === 'valuation' ? (
+        <StockValuationModule
+          products={products}
+          movements={stockMovements}
+          onNotify={showNotification}
+        />
+      ) : activeTab === 'forecast' ? (
+        onApplyMinStocks ? (
+          <ReorderForecastModule
+            products={products}
+            registerSales={registerSales}
+            suppliers={suppliers}
+            purchaseOrders={purchaseOrders}
+            onApplyMinStocks={onApplyMinStocks}
+            onNotify={showNotification}
+          />
+        ) : null
+      ) : activeTab === 'deadStock' ? (
+        onUpdateProductFlags ? (
+          <DeadStockModule
+            products={products}
+            registerSales={registerSales}
+            onUpdateFlags={onUpdateProductFlags}
+            onNotify={showNotification}
+          />
+        ) : null
+      ) : activeTab === 'merge' ? (
+        onMergeProducts && onAddProductAliases ? (
+          <ProductMergeModule
+            products={allProducts}
+            registerSales={allSales}
+            onMergeProducts={onMergeProducts}
+            onAddAliases={onAddProductAliases}
+            onNotify={showNotification}
+          />
+        ) : null
+      ) : activeTab === 'stores' ? (
+        onAddStore && onUpdateStore && onDeleteStore ? (
+          <StoresModule
+            stores={stores}
+            registerSales={allSales}
+            onAddStore={onAddStore}
+            onUpdateStore={onUpdateStore}
+            onDeleteStore={onDeleteStore}
+            onNotify={showNotification}
+          />
+        ) : null
+      ) : activeTab === 'transfers' ? (
+        onCreateStockTransfer && onUpdateStockTransfer && onDeleteStockTransfer &&
+          onShipStockTransfer && onReceiveStockTransfer ? (
+          <StockTransfersModule
+            products={allProducts}
+            stores={stores}
+            transfers={stockTransfers}
+            selectedStoreId={selectedStoreId}
+            onCreateTransfer={onCreateStockTransfer}
+            onUpdateTransfer={onUpdateStockTransfer}
+            onDeleteTransfer={onDeleteStockTransfer}
+            onShipTransfer={onShipStockTransfer}
+            onReceiveTransfer={onReceiveStockTransfer}
+            onNotify={showNotification}
+          />
+        ) : null
+      ) : onOpenInventorySession && onSaveInventoryCounts && onGetInventoryVariances &&
+          onPostInventorySession && onCancelInventorySession ? (
+        <InventoryCountModule
+          products={allProducts}
+          sessions={inventorySessions}
+          stores={stores}
+          selectedStoreId={selectedStoreId}
+          onOpenSession={onOpenInventorySession}
+          onSaveCounts={onSaveInventoryCounts}
+          onGetVariances={onGetInventoryVariances}
+          onPostSession={onPostInventorySession}
+          onCancelSession={onCancelInventorySession}
+          onNotify={showNotification}
+        />
+      ) : null}
 
       {/* Add Product Modal */}
       {showAddModal && (
@@ -903,7 +1490,9 @@ const StockModule: React.FC<StockModuleProps> = ({
           onClose={() => setShowAddModal(false)}
           onSave={handleSaveProduct}
           isLoading={isUpdating}
-          allSales={registerSales}
+          allSales={allSales}
+          allProducts={allProducts}
+          stores={stores}
         />
       )}
 
@@ -918,7 +1507,31 @@ const StockModule: React.FC<StockModuleProps> = ({
           }}
           onSave={handleUpdateProduct}
           isLoading={isUpdating}
-          allSales={registerSales}
+          allSales={allSales}
+          allProducts={allProducts}
+          stores={stores}
+        />
+      )}
+
+      {/* Stock Movements Modal */}
+      {historyProduct && (
+        <StockMovementsModal
+          product={historyProduct}
+          movements={stockMovements}
+          isOpen={!!historyProduct}
+          onClose={() => setHistoryProduct(null)}
+          onInitializeLedger={onInitializeStockLedger}
+        />
+      )}
+
+      {/* Stock Adjustment Modal */}
+      {adjustingProduct && (
+        <StockAdjustmentModal
+          product={adjustingProduct}
+          isOpen={!!adjustingProduct}
+          onClose={() => setAdjustingProduct(null)}
+          onSave={handleAdjustStock}
+          isLoading={isUpdating}
         />
       )}
 
@@ -0,0 +1,243 @@
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  History,
+  Calendar,
+  AlertTriangle,
+  RefreshCw,
+  Download
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { Product, StockMovement, StockMovementType } from '../types';
+import { calculateHistoricalStock, getProductStockTimeline } from '../utils/stockHistoryUtils';
+import { exportToExcel } from '../utils/excelUtils';
+
+interface StockMovementsModalProps {
+  product: Product;
+  movements: StockMovement[];
+  isOpen: boolean;
+  onClose: () => void;
+  onInitializeLedger?: (productIds: string[]) => Promise<number>;
+}
+
+const MOVEMENT_TYPE_LABELS: Record<StockMovementType, { label: string; className: string }> = {
+  initial: { label: 'Stock initial', className: 'bg-blue-500/20 text-blue-400' },
+  import: { label: 'Import', className: 'bg-green-500/20 text-green-400' },
+  sale: { label: 'Vente', className: 'bg-purple-500/20 text-purple-400' },
+  adjustment: { label: 'Ajustement', className: 'bg-orange-500/20 text-orange-400' },
+  deletion: { label: 'Suppression', className: 'bg-red-500/20 text-red-400' },
+  receipt: { label: 'Réception', className: 'bg-teal-500/20 text-teal-400' },
+  return: { label: 'Retour client', className: 'bg-cyan-500/20 text-cyan-400' },
+  transfer: { label: 'Transfert', className: 'bg-indigo-500/20 text-indigo-400' },
+  merge: { label: 'Fusion', className: 'bg-pink-500/20 text-pink-400' }
+};
+
+export function StockMovementsModal({
+  product,
+  movements,
+  isOpen,
+  onClose,
+  onInitializeLedger
+}: StockMovementsModalProps) {
+  const [stockDate, setStockDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [isInitializing, setIsInitializing] = useState(false);
+
+  const productMovements = useMemo(
+    () => movements.filter(movement =>
+      movement.productId === product.id || (product.mergedProductIds || []).includes(movement.productId)
+    ),
+    [movements, product.id, product.mergedProductIds]
+  );
+
+  // Running balance after each movement, newest first for display
+  const timeline = useMemo(() => {
+    if (productMovements.length === 0) return [];
+    const firstDate = productMovements.reduce(
+      (earliest, movement) => (movement.date < earliest ? movement.date : earliest),
+      productMovements[0].date
+    );
+    return getProductStockTimeline(product.id, productMovements, firstDate, new Date())
+      .filter(entry => entry.movement)
+      .reverse();
+  }, [productMovements, product.id]);
+
+  const stockAtDate = useMemo(() => {
+    if (!stockDate) return null;
+    return calculateHistoricalStock([product], productMovements, new Date(stockDate))[0];
+  }, [product, productMovements, stockDate]);
+
+  const ledgerStock = productMovements.reduce((sum, movement) => sum + movement.quantity, 0);
+  const isInconsistent = productMovements.length > 0 && Math.max(0, ledgerStock) !== product.stock;
+
+  const handleInitialize = async () => {
+    if (!onInitializeLedger) return;
+    setIsInitializing(true);
+    try {
+      await onInitializeLedger([product.id]);
+    } catch (error) {
+      console.error('Error initializing stock ledger:', error);
+    } finally {
+      setIsInitializing(false);
+    }
+  };
+
+  const handleExport = () => {
+    const exportData = timeline.map(({ movement, stock }) => ({
+      Date: format(movement!.date, 'dd/MM/yyyy HH:mm'),
+      Type: MOVEMENT_TYPE_LABELS[movement!.type].label,
+      Quantité: movement!.quantity,
+      'Stock après': stock,
+      Motif: movement!.reason || '',
+      Note: movement!.note || '',
+      Référence: movement!.reference || '',
+      Utilisateur: movement!.userName || ''
+    }));
+
+    exportToExcel(exportData, `mouvements-${product.name}-${format(new Date(), 'yyyy-MM-dd')}`);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-gray-800 border border-gray-700 rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-blue-500/20 rounded-full flex items-center justify-center">
+                <History className="w-5 h-5 text-blue-400" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-white">Mouvements de Stock</h3>
+                <p className="text-gray-400 text-sm">{product.name} • {product.category}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {productMovements.length === 0 ? (
+            <div className="text-center py-12 space-y-4">
+              <History className="w-12 h-12 text-gray-500 mx-auto" />
+              <p className="text-gray-400">Aucun mouvement enregistré pour ce produit</p>
+              {onInitializeLedger && (
+                <button
+                  onClick={handleInitialize}
+                  disabled={isInitializing}
+                  className="bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold py-2 px-4 rounded-xl
+                             hover:from-blue-600 hover:to-blue-700 transition-all duration-200
+                             disabled:opacity-50 inline-flex items-center space-x-2"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isInitializing ? 'animate-spin' : ''}`} />
+                  <span>Initialiser depuis le stock initial et les ventes</span>
+                </button>
+              )}
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-gray-700/30 rounded-xl p-4">
+                  <p className="text-gray-400 text-sm">Stock actuel</p>
+                  <p className="text-2xl font-bold text-white">{product.stock}</p>
+                </div>
+                <div className="bg-gray-700/30 rounded-xl p-4">
+                  <p className="text-gray-400 text-sm">Solde des mouvements</p>
+                  <p className="text-2xl font-bold text-white">{ledgerStock}</p>
+                </div>
+                <div className="bg-gray-700/30 rounded-xl p-4">
+                  <label className="text-gray-400 text-sm flex items-center">
+                    <Calendar className="w-4 h-4 mr-2" />
+                    Stock au
+                    <input
+                      type="date"
+                      value={stockDate}
+                      onChange={(e) => setStockDate(e.target.value)}
+                      className="ml-2 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-white text-xs"
+                    />
+                  </label>
+                  <p className="text-2xl font-bold text-white">{stockAtDate?.stockAtDate ?? '—'}</p>
+                </div>
+              </div>
+
+              {isInconsistent && (
+                <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-3 mb-6 flex items-start space-x-3">
+                  <AlertTriangle className="w-4 h-4 text-yellow-400 mt-0.5" />
+                  <span className="text-yellow-300 text-sm">
+                    Le solde des mouvements ne correspond pas au stock actuel calculé
+                  </span>
+                </div>
+              )}
+
+              {/* Movements */}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-700">
+                      <th className="text-left py-3 px-4 text-gray-400 font-medium">Date</th>
+                      <th className="text-left py-3 px-4 text-gray-400 font-medium">Type</th>
+                      <th className="text-right py-3 px-4 text-gray-400 font-medium">Quantité</th>
+                      <th className="text-right py-3 px-4 text-gray-400 font-medium">Stock après</th>
+                      <th className="text-left py-3 px-4 text-gray-400 font-medium">Motif</th>
+                      <th className="text-left py-3 px-4 text-gray-400 font-medium">Référence</th>
+                      <th className="text-left py-3 px-4 text-gray-400 font-medium">Utilisateur</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {timeline.map(({ movement, stock }) => (
+                      <tr key={movement!.id} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                        <td className="py-3 px-4 text-gray-300 text-sm">{format(movement!.date, 'dd/MM/yyyy HH:mm')}</td>
+                        <td className="py-3 px-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${MOVEMENT_TYPE_LABELS[movement!.type].className}`}>
+                            {MOVEMENT_TYPE_LABELS[movement!.type].label}
+                          </span>
+                        </td>
+                        <td className={`py-3 px-4 text-right font-medium ${movement!.quantity >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {movement!.quantity > 0 ? '+' : ''}{movement!.quantity}
+                        </td>
+                        <td className="py-3 px-4 text-right text-white">{stock}</td>
+                        <td className="py-3 px-4 text-gray-300 text-sm">
+                          {movement!.reason || '—'}
+                          {movement!.note && <p className="text-gray-500 text-xs">{movement!.note}</p>}
+                        </td>
+                        <td className="py-3 px-4 text-gray-400 text-xs font-mono">{movement!.reference || '—'}</td>
+                        <td className="py-3 px-4 text-gray-300 text-sm">{movement!.userName || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end mt-6">
+                <button
+                  onClick={handleExport}
+                  className="bg-gradient-to-r from-green-500 to-green-600 text-white font-semibold py-2 px-4 rounded-xl
+                             hover:from-green-600 hover:to-green-700 transition-all duration-200 flex items-center space-x-2"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Exporter</span>
+                </button>
+              </div>
+            </>
+          )}
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
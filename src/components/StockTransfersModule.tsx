@@ -0,0 +1,575 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeftRight, Plus, Edit, Trash2, Save, X, RefreshCw, Truck, PackageCheck, Info } from 'lucide-react';
+import { format } from 'date-fns';
+import { Product, StockTransfer, StockTransferLine, StockTransferStatus, Store } from '../types';
+import { ALL_STORES, getMainStore, getStoreScope, getStoreStock } from '../utils/storeUtils';
+import { getShippedQuantity, getTransferVariance } from '../utils/transferUtils';
+
+type TransferInput = Pick<StockTransfer, 'fromStoreId' | 'toStoreId' | 'lines' | 'notes'>;
+
+interface StockTransfersModuleProps {
+  products: Product[];
+  stores: Store[];
+  transfers: StockTransfer[];
+  selectedStoreId: string;
+  onCreateTransfer: (transfer: TransferInput) => Promise<StockTransfer | null>;
+  onUpdateTransfer: (id: string, updates: Pick<StockTransfer, 'lines' | 'notes'>) => Promise<boolean>;
+  onDeleteTransfer: (id: string) => Promise<boolean>;
+  onShipTransfer: (id: string, shippedQuantities: Record<string, number>) => Promise<boolean>;
+  onReceiveTransfer: (id: string, receivedQuantities: Record<string, number>) => Promise<boolean>;
+  onNotify: (type: 'success' | 'error' | 'warning', message: string) => void;
+}
+
+const STATUS_LABELS: Record<StockTransferStatus, { label: string; className: string }> = {
+  requested: { label: 'Demandé', className: 'bg-gray-500/20 text-gray-300' },
+  shipped: { label: 'En transit', className: 'bg-blue-500/20 text-blue-400' },
+  received: { label: 'Reçu', className: 'bg-green-500/20 text-green-400' }
+};
+
+const EMPTY_FORM = { fromStoreId: '', toStoreId: '', lines: [] as StockTransferLine[], notes: '', productId: '' };
+
+export function StockTransfersModule({
+  products,
+  stores,
+  transfers,
+  selectedStoreId,
+  onCreateTransfer,
+  onUpdateTransfer,
+  onDeleteTransfer,
+  onShipTransfer,
+  onReceiveTransfer,
+  onNotify
+}: StockTransfersModuleProps) {
+  // 'new' while creating a transfer, its id while editing a request
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  // Transfer being shipped or received, with the quantities typed per product
+  const [processing, setProcessing] = useState<{ transfer: StockTransfer; action: 'ship' | 'receive' } | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState<StockTransferStatus | 'all'>('all');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const sortedProducts = useMemo(() => [...products].sort((a, b) => a.name.localeCompare(b.name)), [products]);
+  const storeName = (id: string) => stores.find(s => s.id === id)?.name || 'Magasin supprimé';
+  const sourceScope = form.fromStoreId ? getStoreScope(stores, form.fromStoreId) : undefined;
+  const sourceStock = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    return product && sourceScope ? getStoreStock(product, sourceScope) : 0;
+  };
+
+  // Transfers leaving or reaching the selected store
+  const storeTransfers = selectedStoreId === ALL_STORES
+    ? transfers
+    : transfers.filter(t => t.fromStoreId === selectedStoreId || t.toStoreId === selectedStoreId);
+  const filteredTransfers = storeTransfers.filter(t => statusFilter === 'all' || t.status === statusFilter);
+
+  const startEditing = (transfer?: StockTransfer) => {
+    setProcessing(null);
+    setEditingId(transfer?.id || 'new');
+    if (transfer) {
+      setForm({ ...EMPTY_FORM, fromStoreId: transfer.fromStoreId, toStoreId: transfer.toStoreId, lines: transfer.lines, notes: transfer.notes || '' });
+      return;
+    }
+    const fromStoreId = stores.some(s => s.id === selectedStoreId) ? selectedStoreId : getMainStore(stores)?.id || '';
+    setForm({ ...EMPTY_FORM, fromStoreId, toStoreId: stores.find(s => s.id !== fromStoreId)?.id || '' });
+  };
+
+  const addLine = () => {
+    const product = products.find(p => p.id === form.productId);
+    if (!product || form.lines.some(line => line.productId === product.id)) return;
+    setForm(prev => ({
+      ...prev,
+      productId: '',
+      lines: [...prev.lines, {
+        productId: product.id,
+        productName: product.name,
+        category: product.category,
+        quantityRequested: 1
+      }]
+    }));
+  };
+
+  const setLineQuantity = (productId: string, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      lines: prev.lines.map(line =>
+        line.productId === productId ? { ...line, quantityRequested: Math.max(0, parseInt(value) || 0) } : line
+      )
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.fromStoreId || !form.toStoreId || form.fromStoreId === form.toStoreId) {
+      onNotify('error', 'Choisissez deux magasins différents');
+      return;
+    }
+    const lines = form.lines.filter(line => line.quantityRequested > 0);
+    if (lines.length === 0) {
+      onNotify('error', 'Ajoutez au moins un produit à transférer');
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      if (editingId === 'new') {
+        const created = await onCreateTransfer({
+          fromStoreId: form.fromStoreId,
+          toStoreId: form.toStoreId,
+          lines,
+          notes: form.notes.trim() || undefined
+        });
+        if (created) {
+          onNotify('success', `Transfert ${created.number} créé`);
+          setEditingId(null);
+        } else {
+          onNotify('error', 'Erreur lors de la création du transfert');
+        }
+      } else if (await onUpdateTransfer(editingId!, { lines, notes: form.notes.trim() || undefined })) {
+        onNotify('success', 'Transfert mis à jour');
+        setEditingId(null);
+      } else {
+        onNotify('error', 'Erreur lors de la mise à jour du transfert');
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDelete = async (transfer: StockTransfer) => {
+    if (!confirm(`Supprimer la demande de transfert ${transfer.number} ?`)) return;
+
+    setIsUpdating(true);
+    try {
+      if (await onDeleteTransfer(transfer.id)) {
+        onNotify('success', `Transfert ${transfer.number} supprimé`);
+      } else {
+        onNotify('error', 'Erreur lors de la suppression du transfert');
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Requested quantities are shipped by default, shipped quantities received by default
+  const startProcessing = (transfer: StockTransfer, action: 'ship' | 'receive') => {
+    setEditingId(null);
+    setProcessing({ transfer, action });
+    setQuantities(Object.fromEntries(transfer.lines.map(line => [
+      line.productId,
+      String(action === 'ship' ? line.quantityRequested : getShippedQuantity(line))
+    ])));
+  };
+
+  const handleProcess = async () => {
+    if (!processing) return;
+    const { transfer, action } = processing;
+    const typed: Record<string, number> = {};
+
+    for (const line of transfer.lines) {
+      const quantity = parseInt(quantities[line.productId] || '0');
+      if (isNaN(quantity) || quantity < 0) {
+        onNotify('error', `Quantité invalide pour ${line.productName}`);
+        return;
+      }
+      typed[line.productId] = quantity;
+    }
+    if (action === 'ship' && Object.values(typed).every(quantity => quantity === 0)) {
+      onNotify('error', 'Saisissez au moins une quantité expédiée');
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      const success = action === 'ship'
+        ? await onShipTransfer(transfer.id, typed)
+        : await onReceiveTransfer(transfer.id, typed);
+      if (!success) {
+        onNotify('error', action === 'ship' ? 'Erreur lors de l\'expédition' : 'Erreur lors de la réception');
+        return;
+      }
+
+      const variances = transfer.lines.filter(line => (typed[line.productId] ?? 0) !== getShippedQuantity(line));
+      if (action === 'receive' && variances.length > 0) {
+        onNotify('warning', `Transfert ${transfer.number} reçu : ${variances.length} écart(s) enregistré(s) en ajustement`);
+      } else {
+        onNotify('success', `Transfert ${transfer.number} ${action === 'ship' ? 'expédié' : 'reçu'}`);
+      }
+      setProcessing(null);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const totalUnits = (transfer: StockTransfer) =>
+    transfer.lines.reduce((sum, line) => sum + (transfer.status === 'requested' ? line.quantityRequested : getShippedQuantity(line)), 0);
+  const totalVariance = (transfer: StockTransfer) =>
+    transfer.lines.reduce((sum, line) => sum + getTransferVariance(line), 0);
+
+  if (stores.length < 2) {
+    return (
+      <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6 text-center text-gray-400">
+        <ArrowLeftRight className="w-8 h-8 mx-auto mb-3 text-gray-500" />
+        Créez au moins deux magasins pour transférer du stock de l'un à l'autre
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+      >
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center space-x-2 mb-1">
+              <ArrowLeftRight className="w-6 h-6 text-indigo-400" />
+              <span>Transferts entre magasins</span>
+            </h2>
+            <p className="text-gray-400 text-sm">
+              L'expédition sort les quantités du magasin d'origine ; elles restent en transit jusqu'à leur réception
+              par le magasin de destination.
+            </p>
+          </div>
+          {editingId === null && (
+            <button
+              onClick={() => startEditing()}
+              className="bg-indigo-500/20 text-indigo-400 border border-indigo-500/30 py-2 px-4 rounded-xl
+                         hover:bg-indigo-500/30 transition-all duration-200 flex items-center space-x-2 whitespace-nowrap"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Nouveau transfert</span>
+            </button>
+          )}
+        </div>
+
+        {editingId !== null && (
+          <div className="bg-gray-700/30 rounded-xl p-4 space-y-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Magasin d'origine</label>
+                <select
+                  value={form.fromStoreId}
+                  onChange={(e) => setForm(prev => ({ ...prev, fromStoreId: e.target.value }))}
+                  disabled={editingId !== 'new'}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-50"
+                >
+                  {stores.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Magasin de destination</label>
+                <select
+                  value={form.toStoreId}
+                  onChange={(e) => setForm(prev => ({ ...prev, toStoreId: e.target.value }))}
+                  disabled={editingId !== 'new'}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-50"
+                >
+                  {stores.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Produits</label>
+              <div className="flex space-x-2 mb-3">
+                <select
+                  value={form.productId}
+                  onChange={(e) => setForm(prev => ({ ...prev, productId: e.target.value }))}
+                  className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm
+                             focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                >
+                  <option value="">Choisir un produit…</option>
+                  {sortedProducts
+                    .filter(product => !form.lines.some(line => line.productId === product.id))
+                    .map(product => (
+                      <option key={product.id} value={product.id}>
+                        {product.name} ({sourceStock(product.id)} en stock)
+                      </option>
+                    ))}
+                </select>
+                <button
+                  onClick={addLine}
+                  disabled={!form.productId}
+                  className="px-3 py-2 bg-gray-700/50 text-gray-300 rounded-lg hover:text-white transition-all duration-200
+                             disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              {form.lines.length > 0 && (
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-700">
+                      <th className="text-left py-2 px-2 text-gray-400 text-sm font-medium">Produit</th>
+                      <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Stock d'origine</th>
+                      <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Quantité</th>
+                      <th className="py-2 px-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {form.lines.map(line => (
+                      <tr key={line.productId} className="border-b border-gray-700/50">
+                        <td className="py-2 px-2 text-white text-sm">{line.productName}</td>
+                        <td className={`py-2 px-2 text-center text-sm ${
+                          line.quantityRequested > sourceStock(line.productId) ? 'text-orange-400' : 'text-gray-300'
+                        }`}>
+                          {sourceStock(line.productId)}
+                        </td>
+                        <td className="py-2 px-2 text-center">
+                          <input
+                            type="number"
+                            min="0"
+                            value={line.quantityRequested}
+                            onChange={(e) => setLineQuantity(line.productId, e.target.value)}
+                            className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm text-center"
+                          />
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          <button
+                            onClick={() => setForm(prev => ({
+                              ...prev,
+                              lines: prev.lines.filter(l => l.productId !== line.productId)
+                            }))}
+                            className="p-1 text-gray-400 hover:text-red-400 transition-colors duration-200"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Notes</label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                           focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setEditingId(null)}
+                disabled={isUpdating}
+                className="px-4 py-2 bg-gray-600 text-white rounded-xl hover:bg-gray-500 transition-all duration-200
+                           disabled:opacity-50 flex items-center space-x-2"
+              >
+                <X className="w-4 h-4" />
+                <span>Annuler</span>
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isUpdating}
+                className="px-4 py-2 bg-indigo-500 text-white rounded-xl hover:bg-indigo-600 transition-all duration-200
+                           disabled:opacity-50 flex items-center space-x-2"
+              >
+                {isUpdating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Enregistrer</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {processing && (
+          <div className="bg-gray-700/30 rounded-xl p-4 space-y-4 mb-6">
+            <h3 className="text-white font-semibold flex items-center space-x-2">
+              {processing.action === 'ship'
+                ? <Truck className="w-5 h-5 text-blue-400" />
+                : <PackageCheck className="w-5 h-5 text-green-400" />}
+              <span>
+                {processing.action === 'ship' ? 'Expédition' : 'Réception'} {processing.transfer.number} :{' '}
+                {storeName(processing.transfer.fromStoreId)} → {storeName(processing.transfer.toStoreId)}
+              </span>
+            </h3>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-2 px-2 text-gray-400 text-sm font-medium">Produit</th>
+                  <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Demandé</th>
+                  {processing.action === 'receive' && (
+                    <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">Expédié</th>
+                  )}
+                  <th className="text-center py-2 px-2 text-gray-400 text-sm font-medium">
+                    {processing.action === 'ship' ? 'Expédié' : 'Reçu'}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {processing.transfer.lines.map(line => (
+                  <tr key={line.productId} className="border-b border-gray-700/50">
+                    <td className="py-2 px-2 text-white text-sm">{line.productName}</td>
+                    <td className="py-2 px-2 text-center text-gray-300 text-sm">{line.quantityRequested}</td>
+                    {processing.action === 'receive' && (
+                      <td className="py-2 px-2 text-center text-gray-300 text-sm">{getShippedQuantity(line)}</td>
+                    )}
+                    <td className="py-2 px-2 text-center">
+                      <input
+                        type="number"
+                        min="0"
+                        value={quantities[line.productId] ?? ''}
+                        onChange={(e) => setQuantities(prev => ({ ...prev, [line.productId]: e.target.value }))}
+                        className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm text-center"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-gray-500 text-xs">
+              {processing.action === 'ship'
+                ? `Les quantités expédiées sortent du stock de ${storeName(processing.transfer.fromStoreId)}.`
+                : `Les quantités expédiées entrent dans le stock de ${storeName(processing.transfer.toStoreId)} ; ` +
+                  'toute différence avec la quantité reçue est enregistrée en ajustement « Écart de transfert ».'}
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setProcessing(null)}
+                disabled={isUpdating}
+                className="px-4 py-2 bg-gray-600 text-white rounded-xl hover:bg-gray-500 transition-all duration-200
+                           disabled:opacity-50 flex items-center space-x-2"
+              >
+                <X className="w-4 h-4" />
+                <span>Annuler</span>
+              </button>
+              <button
+                onClick={handleProcess}
+                disabled={isUpdating}
+                className="px-4 py-2 bg-indigo-500 text-white rounded-xl hover:bg-indigo-600 transition-all duration-200
+                           disabled:opacity-50 flex items-center space-x-2"
+              >
+                {isUpdating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>{processing.action === 'ship' ? 'Valider l\'expédition' : 'Valider la réception'}</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {(['all', 'requested', 'shipped', 'received'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1 rounded-full text-sm transition-all duration-200 ${
+                statusFilter === status
+                  ? 'bg-indigo-500/20 text-indigo-300 border border-indigo-500/40'
+                  : 'bg-gray-700/50 text-gray-400 hover:text-white'
+              }`}
+            >
+              {status === 'all' ? 'Tous' : STATUS_LABELS[status].label}
+              {' '}({status === 'all' ? storeTransfers.length : storeTransfers.filter(t => t.status === status).length})
+            </button>
+          ))}
+        </div>
+
+        {filteredTransfers.length === 0 ? (
+          <p className="text-center py-6 text-gray-400">Aucun transfert</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Numéro</th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Trajet</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Produits</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Unités</th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Statut</th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Dernière étape</th>
+                  <th className="py-3 px-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {filteredTransfers.map(transfer => {
+                  const variance = totalVariance(transfer);
+                  const lastStep = transfer.receivedAt || transfer.shippedAt || transfer.createdAt;
+                  return (
+                    <tr key={transfer.id} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                      <td className="py-3 px-2 text-white font-mono text-sm">
+                        {transfer.number}
+                        {transfer.notes && <span className="block text-gray-500 text-xs font-sans">{transfer.notes}</span>}
+                      </td>
+                      <td className="py-3 px-2 text-gray-300">
+                        {storeName(transfer.fromStoreId)} → {storeName(transfer.toStoreId)}
+                      </td>
+                      <td className="py-3 px-2 text-center text-gray-300">{transfer.lines.length}</td>
+                      <td className="py-3 px-2 text-center text-white">
+                        {totalUnits(transfer)}
+                        {variance !== 0 && (
+                          <span className={`block text-xs ${variance < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                            Écart {variance > 0 ? '+' : ''}{variance}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-2">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[transfer.status].className}`}>
+                          {STATUS_LABELS[transfer.status].label}
+                        </span>
+                      </td>
+                      <td className="py-3 px-2 text-gray-400 text-sm">{format(lastStep, 'dd/MM/yyyy HH:mm')}</td>
+                      <td className="py-3 px-2 text-right whitespace-nowrap">
+                        {transfer.status === 'requested' && (
+                          <>
+                            <button
+                              onClick={() => startProcessing(transfer, 'ship')}
+                              disabled={isUpdating}
+                              title="Expédier"
+                              className="p-2 text-gray-400 hover:text-blue-400 transition-colors duration-200 disabled:opacity-50"
+                            >
+                              <Truck className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => startEditing(transfer)}
+                              disabled={isUpdating}
+                              className="p-2 text-gray-400 hover:text-blue-400 transition-colors duration-200 disabled:opacity-50"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(transfer)}
+                              disabled={isUpdating}
+                              className="p-2 text-gray-400 hover:text-red-400 transition-colors duration-200 disabled:opacity-50"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                        {transfer.status === 'shipped' && (
+                          <button
+                            onClick={() => startProcessing(transfer, 'receive')}
+                            disabled={isUpdating}
+                            title="Réceptionner"
+                            className="p-2 text-gray-400 hover:text-green-400 transition-colors duration-200 disabled:opacity-50"
+                          >
+                            <PackageCheck className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-gray-500 text-xs mt-4 flex items-start space-x-2">
+          <Info className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Le stock en transit apparaît dans la liste des produits du magasin de destination, et dans la vue
+            consolidée, jusqu'à la réception.
+          </span>
+        </p>
+      </motion.div>
+    </div>
+  );
+}
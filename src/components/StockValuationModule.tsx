@@ -0,0 +1,247 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Calculator, Calendar, Download, AlertTriangle, PieChart, Package } from 'lucide-react';
+import { format, endOfMonth, subMonths } from 'date-fns';
+import { Product, StockMovement } from '../types';
+import { calculateStockValuation, ValuationMethod, VALUATION_METHODS } from '../utils/stockValuationUtils';
+import { exportSheetsToExcel } from '../utils/excelUtils';
+
+interface StockValuationModuleProps {
+  products: Product[];
+  movements: StockMovement[];
+  onNotify: (type: 'success' | 'error' | 'warning', message: string) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function StockValuationModule({ products, movements, onNotify }: StockValuationModuleProps) {
+  // Month-end closing is the usual request: default to the end of last month
+  const [valuationDate, setValuationDate] = useState(format(endOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'));
+  const [method, setMethod] = useState<ValuationMethod>('wac');
+  const [selectedCategory, setSelectedCategory] = useState('all');
+
+  const report = useMemo(
+    () => calculateStockValuation(products, movements, new Date(`${valuationDate}T12:00:00`), method),
+    [products, movements, valuationDate, method]
+  );
+
+  const displayedProducts = selectedCategory === 'all'
+    ? report.products
+    : report.products.filter(valuation => valuation.category === selectedCategory);
+
+  const handleExport = () => {
+    try {
+      exportSheetsToExcel({
+        'Par catégorie': [
+          ...report.byCategory.map(category => ({
+            Catégorie: category.category,
+            Produits: category.products,
+            Quantité: category.quantity,
+            Valeur: round2(category.value)
+          })),
+          {
+            Catégorie: 'Total',
+            Produits: report.products.length,
+            Quantité: report.totalQuantity,
+            Valeur: round2(report.totalValue)
+          }
+        ],
+        'Par produit': report.products.map(valuation => ({
+          Produit: valuation.productName,
+          Catégorie: valuation.category,
+          Quantité: valuation.quantity,
+          'Coût unitaire': round2(valuation.unitCost),
+          Valeur: round2(valuation.value),
+          'Quantité non valorisée': valuation.unvaluedQuantity
+        }))
+      }, `valorisation-stock-${method}-${valuationDate}`);
+      onNotify('success', 'Valorisation exportée');
+    } catch (error) {
+      console.error('❌ Error exporting stock valuation:', error);
+      onNotify('error', 'Erreur lors de l\'export de la valorisation');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+              <Calculator className="w-6 h-6 text-emerald-400" />
+              <span>Valorisation du Stock</span>
+            </h2>
+            <p className="text-gray-400 text-sm">
+              Valeur du stock en fin de journée, reconstituée à partir des mouvements de stock
+            </p>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={report.products.length === 0}
+            className="bg-gradient-to-r from-emerald-500 to-emerald-600 text-white font-semibold py-2 px-4 rounded-xl
+                       hover:from-emerald-600 hover:to-emerald-700 transition-all duration-200
+                       disabled:opacity-50 flex items-center space-x-2"
+          >
+            <Download className="w-4 h-4" />
+            <span>Exporter XLSX</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">
+              <Calendar className="w-4 h-4 inline mr-2" />
+              Date de valorisation
+            </label>
+            <input
+              type="date"
+              value={valuationDate}
+              onChange={(e) => e.target.value && setValuationDate(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Méthode</label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as ValuationMethod)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              {(Object.keys(VALUATION_METHODS) as ValuationMethod[]).map(key => (
+                <option key={key} value={key}>{VALUATION_METHODS[key]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Catégorie</label>
+            <select
+              value={selectedCategory}
+              onChange={(e) => setSelectedCategory(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              <option value="all">Toutes les catégories</option>
+              {report.byCategory.map(category => (
+                <option key={category.category} value={category.category}>{category.category}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </motion.div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-gradient-to-br from-emerald-500/10 to-emerald-600/10 border border-emerald-500/20 rounded-xl p-4">
+          <p className="text-gray-400 text-sm">Valeur totale</p>
+          <p className="text-2xl font-bold text-white">{formatCurrency(report.totalValue)}</p>
+        </div>
+        <div className="bg-gradient-to-br from-blue-500/10 to-blue-600/10 border border-blue-500/20 rounded-xl p-4">
+          <p className="text-gray-400 text-sm">Unités en stock</p>
+          <p className="text-2xl font-bold text-white">{report.totalQuantity}</p>
+        </div>
+        <div className="bg-gradient-to-br from-orange-500/10 to-orange-600/10 border border-orange-500/20 rounded-xl p-4">
+          <p className="text-gray-400 text-sm">Produits sans coût connu</p>
+          <p className="text-2xl font-bold text-white">{report.unvaluedProducts}</p>
+        </div>
+      </div>
+
+      {report.unvaluedProducts > 0 && (
+        <div className="bg-orange-500/10 border border-orange-500/20 rounded-xl p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-gray-400">
+            Certaines quantités n'ont ni réception avec coût ni prix d'achat : elles sont comptées à 0 €.
+            Renseignez le prix d'achat des produits concernés pour compléter la valorisation.
+          </p>
+        </div>
+      )}
+
+      {/* By category */}
+      <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+          <PieChart className="w-5 h-5 text-emerald-400" />
+          <span>Par catégorie</span>
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="text-left py-3 px-2 text-gray-400 font-medium">Catégorie</th>
+                <th className="text-center py-3 px-2 text-gray-400 font-medium">Produits</th>
+                <th className="text-center py-3 px-2 text-gray-400 font-medium">Quantité</th>
+                <th className="text-right py-3 px-2 text-gray-400 font-medium">Valeur</th>
+                <th className="text-right py-3 px-2 text-gray-400 font-medium">% du total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.byCategory.map(category => (
+                <tr key={category.category} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                  <td className="py-3 px-2 text-white font-medium">{category.category}</td>
+                  <td className="py-3 px-2 text-center text-gray-300">{category.products}</td>
+                  <td className="py-3 px-2 text-center text-white">{category.quantity}</td>
+                  <td className="py-3 px-2 text-right text-emerald-400 font-semibold">{formatCurrency(category.value)}</td>
+                  <td className="py-3 px-2 text-right text-gray-300">
+                    {report.totalValue > 0 ? ((category.value / report.totalValue) * 100).toFixed(1) : '0.0'}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* By product */}
+      <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+          <Package className="w-5 h-5 text-blue-400" />
+          <span>Par produit ({displayedProducts.length})</span>
+        </h3>
+        {displayedProducts.length === 0 ? (
+          <p className="text-center py-8 text-gray-400">Aucun stock à cette date</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Produit</th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Catégorie</th>
+                  <th className="text-center py-3 px-2 text-gray-400 font-medium">Quantité</th>
+                  <th className="text-right py-3 px-2 text-gray-400 font-medium">Coût unitaire</th>
+                  <th className="text-right py-3 px-2 text-gray-400 font-medium">Valeur</th>
+                </tr>
+              </thead>
+              <tbody>
+                {displayedProducts.map(valuation => (
+                  <tr key={valuation.productId} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                    <td className="py-3 px-2 text-white font-medium">
+                      <div className="flex items-center space-x-2">
+                        <span>{valuation.productName}</span>
+                        {valuation.unvaluedQuantity > 0 && (
+                          <span title={`${valuation.unvaluedQuantity} unité(s) sans coût connu`}>
+                            <AlertTriangle className="w-4 h-4 text-orange-400" />
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-3 px-2 text-gray-300">{valuation.category}</td>
+                    <td className="py-3 px-2 text-center text-white">{valuation.quantity}</td>
+                    <td className="py-3 px-2 text-right text-gray-300">{formatCurrency(valuation.unitCost)}</td>
+                    <td className="py-3 px-2 text-right text-emerald-400 font-semibold">{formatCurrency(valuation.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Store as StoreIcon, Plus, Edit, Trash2, Save, X, RefreshCw, Info } from 'lucide-react';
+import { RegisterSale, Store } from '../types';
+import { findAssignedRegisters, getMainStore } from '../utils/storeUtils';
+
+type StoreInput = Omit<Store, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface StoresModuleProps {
+  stores: Store[];
+  registerSales: RegisterSale[];
+  onAddStore: (store: StoreInput) => Promise<boolean>;
+  onUpdateStore: (id: string, updates: Partial<StoreInput>) => Promise<boolean>;
+  onDeleteStore: (id: string) => Promise<boolean>;
+  onNotify: (type: 'success' | 'error' | 'warning', message: string) => void;
+}
+
+const EMPTY_FORM = { name: '', address: '', registers: [] as string[], newRegister: '' };
+
+export function StoresModule({
+  stores,
+  registerSales,
+  onAddStore,
+  onUpdateStore,
+  onDeleteStore,
+  onNotify
+}: StoresModuleProps) {
+  // 'new' while creating a store, its id while editing one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const mainStore = getMainStore(stores);
+  const knownRegisters = useMemo(
+    () => [...new Set([...registerSales.map(sale => sale.register), ...stores.flatMap(s => s.registers)])].sort(),
+    [registerSales, stores]
+  );
+  const unassignedRegisters = knownRegisters.filter(register => !stores.some(s => s.registers.includes(register)));
+  const formRegisters = [...new Set([...knownRegisters, ...form.registers])].sort();
+  const storeOfRegister = (register: string) =>
+    stores.find(s => s.id !== editingId && s.registers.includes(register));
+
+  const startEditing = (store?: Store) => {
+    setEditingId(store?.id || 'new');
+    setForm(store
+      ? { name: store.name, address: store.address || '', registers: store.registers, newRegister: '' }
+      : EMPTY_FORM);
+  };
+
+  const toggleRegister = (register: string) => {
+    setForm(prev => ({
+      ...prev,
+      registers: prev.registers.includes(register)
+        ? prev.registers.filter(r => r !== register)
+        : [...prev.registers, register]
+    }));
+  };
+
+  const addRegister = () => {
+    const register = form.newRegister.trim();
+    if (!register) return;
+    setForm(prev => ({
+      ...prev,
+      registers: prev.registers.includes(register) ? prev.registers : [...prev.registers, register],
+      newRegister: ''
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      onNotify('error', 'Le nom du magasin est requis');
+      return;
+    }
+    const taken = findAssignedRegisters(stores, form.registers, editingId === 'new' ? undefined : editingId || undefined);
+    if (taken.length > 0) {
+      onNotify('error', `Caisse(s) déjà rattachée(s) à un autre magasin : ${taken.join(', ')}`);
+      return;
+    }
+
+    const storeData: StoreInput = {
+      name: form.name.trim(),
+      address: form.address.trim() || undefined,
+      registers: [...form.registers].sort()
+    };
+
+    setIsUpdating(true);
+    try {
+      const success = editingId === 'new'
+        ? await onAddStore(storeData)
+        : await onUpdateStore(editingId!, storeData);
+      if (success) {
+        onNotify('success', editingId === 'new' ? `Magasin ${storeData.name} créé` : `Magasin ${storeData.name} mis à jour`);
+        setEditingId(null);
+      } else {
+        onNotify('error', 'Erreur lors de l\'enregistrement du magasin');
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDelete = async (store: Store) => {
+    const fallback = store.id === mainStore?.id ? stores[1] : mainStore;
+    const message = fallback
+      ? `Supprimer le magasin "${store.name}" ? Ses caisses, son stock initial et ses mouvements reviendront à ${fallback.name}.`
+      : `Supprimer le magasin "${store.name}" ? Le stock redeviendra un stock unique.`;
+    if (!confirm(message)) return;
+
+    setIsUpdating(true);
+    try {
+      if (await onDeleteStore(store.id)) {
+        onNotify('success', `Magasin ${store.name} supprimé`);
+      } else {
+        onNotify('error', 'Erreur lors de la suppression du magasin');
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6"
+      >
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center space-x-2 mb-1">
+              <StoreIcon className="w-6 h-6 text-indigo-400" />
+              <span>Magasins</span>
+            </h2>
+            <p className="text-gray-400 text-sm">
+              Chaque magasin regroupe ses caisses : leurs ventes et les mouvements saisis dans le magasin forment
+              son stock. Le sélecteur de la barre latérale passe d'un magasin à la vue consolidée.
+            </p>
+          </div>
+          {editingId === null && (
+            <button
+              onClick={() => startEditing()}
+              className="bg-indigo-500/20 text-indigo-400 border border-indigo-500/30 py-2 px-4 rounded-xl
+                         hover:bg-indigo-500/30 transition-all duration-200 flex items-center space-x-2 whitespace-nowrap"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Nouveau magasin</span>
+            </button>
+          )}
+        </div>
+
+        {editingId !== null && (
+          <div className="bg-gray-700/30 rounded-xl p-4 space-y-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Nom</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  placeholder="Boutique centre-ville"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Adresse</label>
+                <input
+                  type="text"
+                  value={form.address}
+                  onChange={(e) => setForm(prev => ({ ...prev, address: e.target.value }))}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Caisses</label>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {formRegisters.map(register => {
+                  const owner = storeOfRegister(register);
+                  const isSelected = form.registers.includes(register);
+                  return (
+                    <button
+                      key={register}
+                      onClick={() => toggleRegister(register)}
+                      disabled={!!owner}
+                      title={owner ? `Rattachée à ${owner.name}` : undefined}
+                      className={`px-3 py-1 rounded-full text-sm border transition-all duration-200 disabled:opacity-40 ${
+                        isSelected
+                          ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/40'
+                          : 'bg-gray-700/50 text-gray-400 border-gray-600 hover:text-white'
+                      }`}
+                    >
+                      {register}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={form.newRegister}
+                  onChange={(e) => setForm(prev => ({ ...prev, newRegister: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && addRegister()}
+                  className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm
+                             focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  placeholder="Autre caisse, telle qu'elle apparaît dans les ventes"
+                />
+                <button
+                  onClick={addRegister}
+                  className="px-3 py-2 bg-gray-700/50 text-gray-300 rounded-lg hover:text-white transition-all duration-200"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setEditingId(null)}
+                disabled={isUpdating}
+                className="px-4 py-2 bg-gray-600 text-white rounded-xl hover:bg-gray-500 transition-all duration-200
+                           disabled:opacity-50 flex items-center space-x-2"
+              >
+                <X className="w-4 h-4" />
+                <span>Annuler</span>
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isUpdating}
+                className="px-4 py-2 bg-indigo-500 text-white rounded-xl hover:bg-indigo-600 transition-all duration-200
+                           disabled:opacity-50 flex items-center space-x-2"
+              >
+                {isUpdating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Enregistrer</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {stores.length === 0 ? (
+          <p className="text-center py-6 text-gray-400">
+            Aucun magasin : le stock est géré comme un stock unique
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Magasin</th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Adresse</th>
+                  <th className="text-left py-3 px-2 text-gray-400 font-medium">Caisses</th>
+                  <th className="py-3 px-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {stores.map(store => (
+                  <tr key={store.id} className="border-b border-gray-700/50 hover:bg-gray-700/20">
+                    <td className="py-3 px-2 text-white font-medium">
+                      {store.name}
+                      {store.id === mainStore?.id && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-indigo-500/20 text-indigo-300">
+                          Principal
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 px-2 text-gray-300">{store.address || '-'}</td>
+                    <td className="py-3 px-2">
+                      <div className="flex flex-wrap gap-1">
+                        {store.registers.length === 0 ? (
+                          <span className="text-gray-500 text-sm">Aucune caisse</span>
+                        ) : store.registers.map(register => (
+                          <span key={register} className="px-2 py-0.5 rounded-full text-xs bg-gray-700 text-gray-300">
+                            {register}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-3 px-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => startEditing(store)}
+                        disabled={isUpdating || editingId !== null}
+                        className="p-2 text-gray-400 hover:text-blue-400 transition-colors duration-200 disabled:opacity-50"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(store)}
+                        disabled={isUpdating || editingId !== null}
+                        className="p-2 text-gray-400 hover:text-red-400 transition-colors duration-200 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {mainStore && (
+          <p className="text-gray-500 text-xs mt-4 flex items-start space-x-2">
+            <Info className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {mainStore.name}, le plus ancien magasin, reçoit le stock initial non réparti, les réceptions fournisseurs
+              et les ventes des caisses rattachées à aucun magasin
+              {unassignedRegisters.length > 0 && ` (${unassignedRegisters.join(', ')})`}.
+            </span>
+          </p>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Save, RefreshCw, Truck, Plus, Trash2 } from 'lucide-react';
+import { Product, Supplier, SupplierProduct } from '../types';
+
+type SupplierFormData = Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface SupplierEditModalProps {
+  supplier?: Supplier;
+  products: Product[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (supplier: SupplierFormData) => Promise<void>;
+  isLoading: boolean;
+}
+
+const emptySupplier: SupplierFormData = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  leadTimeDays: 7,
+  products: [],
+  notes: ''
+};
+
+export function SupplierEditModal({
+  supplier,
+  products,
+  isOpen,
+  onClose,
+  onSave,
+  isLoading
+}: SupplierEditModalProps) {
+  const [formData, setFormData] = useState<SupplierFormData>(emptySupplier);
+  const [productToAdd, setProductToAdd] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (supplier) {
+      setFormData({
+        name: supplier.name,
+        contactName: supplier.contactName || '',
+        email: supplier.email || '',
+        phone: supplier.phone || '',
+        address: supplier.address || '',
+        leadTimeDays: supplier.leadTimeDays,
+        products: supplier.products,
+        notes: supplier.notes || ''
+      });
+    } else {
+      setFormData(emptySupplier);
+    }
+    setErrors({});
+  }, [supplier, isOpen]);
+
+  const productsById = useMemo(() => new Map(products.map(product => [product.id, product])), [products]);
+  const availableProducts = products.filter(
+    product => !formData.products.some(supplierProduct => supplierProduct.productId === product.id)
+  );
+
+  const updateField = <K extends keyof SupplierFormData>(field: K, value: SupplierFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const updateSupplierProduct = (productId: string, updates: Partial<SupplierProduct>) => {
+    updateField('products', formData.products.map(supplierProduct =>
+      supplierProduct.productId === productId ? { ...supplierProduct, ...updates } : supplierProduct
+    ));
+  };
+
+  const handleAddProduct = () => {
+    if (!productToAdd) return;
+    updateField('products', [...formData.products, { productId: productToAdd, purchasePrice: 0 }]);
+    setProductToAdd('');
+  };
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    if (!formData.name.trim()) newErrors.name = 'Le nom du fournisseur est requis';
+    if (formData.leadTimeDays < 0) newErrors.leadTimeDays = 'Le délai doit être positif';
+    if (formData.email && !/^\S+@\S+\.\S+$/.test(formData.email)) newErrors.email = 'Email invalide';
+    if (formData.products.some(supplierProduct => supplierProduct.purchasePrice < 0)) {
+      newErrors.products = 'Les prix d\'achat doivent être positifs';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!validate()) return;
+    await onSave({
+      ...formData,
+      name: formData.name.trim(),
+      contactName: formData.contactName?.trim() || undefined,
+      email: formData.email?.trim() || undefined,
+      phone: formData.phone?.trim() || undefined,
+      address: formData.address?.trim() || undefined,
+      notes: formData.notes?.trim() || undefined
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = (field?: string) =>
+    `w-full px-4 py-2 bg-gray-700 border rounded-lg text-white placeholder-gray-400
+     focus:outline-none focus:ring-2 focus:ring-blue-500/20 ${
+       field && errors[field] ? 'border-red-500' : 'border-gray-600'
+     }`;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-gray-800 border border-gray-700 rounded-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-blue-500/20 rounded-full flex items-center justify-center">
+                <Truck className="w-5 h-5 text-blue-400" />
+              </div>
+              <h3 className="text-xl font-semibold text-white">
+                {supplier ? 'Modifier le Fournisseur' : 'Nouveau Fournisseur'}
+              </h3>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="text-gray-400 hover:text-white transition-colors duration-200"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {/* Contact */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Nom *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => updateField('name', e.target.value)}
+                  className={inputClassName('name')}
+                  placeholder="Ex : Grossiste Dupont"
+                />
+                {errors.name && <p className="text-red-400 text-sm mt-1">{errors.name}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Contact</label>
+                <input
+                  type="text"
+                  value={formData.contactName || ''}
+                  onChange={(e) => updateField('contactName', e.target.value)}
+                  className={inputClassName()}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Email</label>
+                <input
+                  type="email"
+                  value={formData.email || ''}
+                  onChange={(e) => updateField('email', e.target.value)}
+                  className={inputClassName('email')}
+                />
+                {errors.email && <p className="text-red-400 text-sm mt-1">{errors.email}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Téléphone</label>
+                <input
+                  type="tel"
+                  value={formData.phone || ''}
+                  onChange={(e) => updateField('phone', e.target.value)}
+                  className={inputClassName()}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Adresse</label>
+                <input
+                  type="text"
+                  value={formData.address || ''}
+                  onChange={(e) => updateField('address', e.target.value)}
+                  className={inputClassName()}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Délai de livraison (jours)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.leadTimeDays}
+                  onChange={(e) => updateField('leadTimeDays', parseInt(e.target.value) || 0)}
+                  className={inputClassName('leadTimeDays')}
+                />
+                {errors.leadTimeDays && <p className="text-red-400 text-sm mt-1">{errors.leadTimeDays}</p>}
+              </div>
+            </div>
+
+            {/* Default products */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Produits fournis</label>
+              <div className="flex space-x-2 mb-3">
+                <select
+                  value={productToAdd}
+                  onChange={(e) => setProductToAdd(e.target.value)}
+                  className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white
+                             focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                >
+                  <option value="">Sélectionner un produit...</option>
+                  {availableProducts.map(product => (
+                    <option key={product.id} value={product.id}>{product.name} ({product.category})</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddProduct}
+                  disabled={!productToAdd}
+                  className="px-3 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30
+                             transition-all duration-200 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+
+              {formData.products.length > 0 && (
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-700">
+                      <th className="text-left py-2 px-2 text-gray-400 text-sm font-medium">Produit</th>
+                      <th className="text-left py-2 px-2 text-gray-400 text-sm font-medium">Réf. fournisseur</th>
+                      <th className="text-right py-2 px-2 text-gray-400 text-sm font-medium">Prix d'achat (€)</th>
+                      <th className="py-2 px-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {formData.products.map(supplierProduct => (
+                      <tr key={supplierProduct.productId} className="border-b border-gray-700/50">
+                        <td className="py-2 px-2 text-white text-sm">
+                          {productsById.get(supplierProduct.productId)?.name || 'Produit supprimé'}
+                        </td>
+                        <td className="py-2 px-2">
+                          <input
+                            type="text"
+                            value={supplierProduct.supplierReference || ''}
+                            onChange={(e) => updateSupplierProduct(supplierProduct.productId, {
+                              supplierReference: e.target.value || undefined
+                            })}
+                            className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                          />
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={supplierProduct.purchasePrice}
+                            onChange={(e) => updateSupplierProduct(supplierProduct.productId, {
+                              purchasePrice: parseFloat(e.target.value) || 0
+                            })}
+                            className="w-28 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm text-right"
+                          />
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          <button
+                            onClick={() => updateField('products', formData.products.filter(
+                              p => p.productId !== supplierProduct.productId
+                            ))}
+                            className="p-1 text-red-400 hover:text-red-300"
+                            title="Retirer le produit"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {errors.products && <p className="text-red-400 text-sm mt-1">{errors.products}</p>}
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Notes</label>
+              <textarea
+                value={formData.notes || ''}
+                onChange={(e) => updateField('notes', e.target.value)}
+                rows={2}
+                className={inputClassName()}
+              />
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-8">
+            <button
+              onClick={handleSave}
+              disabled={isLoading}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-blue-600 hover:to-blue-700
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                         flex items-center justify-center space-x-2"
+            >
+              {isLoading ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              <span>{supplier ? 'Mettre à jour' : 'Ajouter le fournisseur'}</span>
+            </button>
+            <button
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-3 bg-gray-600 text-white font-semibold rounded-xl
+                         hover:bg-gray-500 transition-all duration-200"
+            >
+              Annuler
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, FileText, Printer, Download, AlertTriangle, RefreshCw } from 'lucide-react';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { RegisterSale } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { buildZReport, RegisterDay, ZReport, ZReportBreakdown, CASH_TOLERANCE } from '../utils/registerSessionUtils';
+import { exportSheetsToExcel } from '../utils/excelUtils';
+
+interface ZReportModalProps {
+  registerDay: RegisterDay;
+  isOpen: boolean;
+  onClose: () => void;
+  onListRegisterSales: (register: string, from: Date, to: Date) => Promise<RegisterSale[]>;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(amount);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function ZReportModal({ registerDay, isOpen, onClose, onListRegisterSales }: ZReportModalProps) {
+  const { t } = useLanguage();
+  const [report, setReport] = useState<ZReport | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  // Parent callbacks change on every render, only another register day should reload the sales
+  const listSalesRef = useRef(onListRegisterSales);
+  listSalesRef.current = onListRegisterSales;
+
+  useEffect(() => {
+    setReport(null);
+    setLoadFailed(false);
+
+    const day = new Date(`${registerDay.day}T12:00:00`);
+    listSalesRef.current(registerDay.register, startOfDay(day), endOfDay(day))
+      .then(sales => setReport(buildZReport(registerDay, sales)))
+      .catch(loadError => {
+        console.error('❌ Error loading Z-report sales:', loadError);
+        setLoadFailed(true);
+      });
+  }, [registerDay, isOpen]);
+
+  const summaryRows = (zReport: ZReport): Array<[string, string]> => [
+    [t('sessions.salesLines'), zReport.salesCount.toString()],
+    [t('sessions.itemsSold'), zReport.quantity.toString()],
+    [t('sessions.grossSales'), formatCurrency(zReport.grossSales)],
+    [t('sessions.refunds'), formatCurrency(-zReport.refunds)],
+    [t('sessions.otherOutflows'), formatCurrency(-zReport.otherOutflows)],
+    [t('sessions.netSales'), formatCurrency(zReport.netSales)],
+    [t('sessions.openingFloat'), formatCurrency(zReport.openingFloat)],
+    [t('sessions.expectedCash'), formatCurrency(zReport.expectedCash)],
+    [t('sessions.countedCash'), formatCurrency(zReport.countedCash)],
+    [t('sessions.discrepancy'), formatCurrency(zReport.discrepancy)]
+  ];
+
+  const title = `${t('sessions.zReport')} • ${registerDay.register} • ${format(new Date(`${registerDay.day}T12:00:00`), 'dd/MM/yyyy')}`;
+
+  const handlePrint = () => {
+    if (!report) return;
+
+    const table = (heading: string, rows: string[][]) => `
+      <h2>${escapeHtml(heading)}</h2>
+      <table>${rows.map(cells => `<tr>${cells.map((cell, i) =>
+        `<td${i > 0 ? ' class="num"' : ''}>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</table>`;
+    const breakdownRows = (rows: ZReportBreakdown[]) =>
+      rows.map(row => [row.key, row.quantity.toString(), formatCurrency(row.total)]);
+
+    const printWindow = window.open('', '_blank', 'width=480,height=720');
+    if (!printWindow) return;
+
+    printWindow.document.write(`<!DOCTYPE html><html><head><title>${escapeHtml(title)}</title><style>
+      body { font-family: monospace; font-size: 12px; margin: 16px; }
+      h1 { font-size: 16px; } h2 { font-size: 13px; margin-top: 16px; border-bottom: 1px dashed #000; }
+      table { width: 100%; border-collapse: collapse; } td { padding: 2px 0; } .num { text-align: right; }
+    </style></head><body>
+      <h1>${escapeHtml(title)}</h1>
+      ${report.sessions.map(session => `<div>${escapeHtml(
+        `${format(session.openedAt, 'HH:mm')} → ${session.closedAt ? format(session.closedAt, 'HH:mm') : '—'}` +
+        `${session.closedBy ? ` (${session.closedBy})` : ''}`
+      )}</div>`).join('')}
+      ${table(t('sessions.zReport'), summaryRows(report))}
+      ${table(t('sessions.byCategory'), breakdownRows(report.byCategory))}
+      ${table(t('sessions.bySeller'), breakdownRows(report.bySeller))}
+      ${table(t('sessions.cashCount'), Object.entries(report.closingCount)
+        .filter(([, quantity]) => quantity > 0)
+        .sort((a, b) => parseInt(b[0]) - parseInt(a[0]))
+        .map(([cents, quantity]) => [
+          formatCurrency(parseInt(cents) / 100),
+          quantity.toString(),
+          formatCurrency((parseInt(cents) * quantity) / 100)
+        ]))}
+    </body></html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+
+    const breakdownSheet = (rows: ZReportBreakdown[], keyLabel: string) => rows.map(row => ({
+      [keyLabel]: row.key,
+      [t('statistics.quantity')]: row.quantity,
+      [t('sessions.amount')]: round2(row.total)
+    }));
+
+    try {
+      exportSheetsToExcel({
+        [t('sessions.zReport')]: ([
+          ['sessions.register', report.register],
+          ['sessions.date', registerDay.day],
+          ['sessions.salesLines', report.salesCount],
+          ['sessions.itemsSold', report.quantity],
+          ['sessions.grossSales', round2(report.grossSales)],
+          ['sessions.refunds', round2(-report.refunds)],
+          ['sessions.otherOutflows', round2(-report.otherOutflows)],
+          ['sessions.netSales', round2(report.netSales)],
+          ['sessions.openingFloat', round2(report.openingFloat)],
+          ['sessions.expectedCash', round2(report.expectedCash)],
+          ['sessions.countedCash', round2(report.countedCash)],
+          ['sessions.discrepancy', round2(report.discrepancy)]
+        ] as Array<[string, string | number]>).map(([key, value]) => ({
+          [t('sessions.zReport')]: t(key),
+          [t('sessions.amount')]: value
+        })),
+        [t('sessions.byCategory')]: breakdownSheet(report.byCategory, t('statistics.category')),
+        [t('sessions.bySeller')]: breakdownSheet(report.bySeller, t('statistics.seller')),
+        [t('sessions.cashCount')]: Object.entries(report.closingCount)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([cents, quantity]) => ({
+            [t('sessions.denomination')]: parseInt(cents) / 100,
+            [t('sessions.count')]: quantity,
+            [t('sessions.amount')]: round2((parseInt(cents) * quantity) / 100)
+          }))
+      }, `rapport-z-${registerDay.register}-${registerDay.day}`);
+    } catch (exportError) {
+      console.error('❌ Error exporting Z-report:', exportError);
+    }
+  };
+
+  const renderBreakdown = (heading: string, rows: ZReportBreakdown[]) => (
+    <div>
+      <h4 className="text-white font-medium mb-2">{heading}</h4>
+      <table className="w-full text-sm">
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b border-slate-700/50">
+              <td className="py-1 text-slate-300">{row.key}</td>
+              <td className="py-1 text-center text-slate-400">{row.quantity}</td>
+              <td className="py-1 text-right text-white">{formatCurrency(row.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-slate-800 border border-slate-700 rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-blue-500/20 rounded-full flex items-center justify-center">
+                <FileText className="w-5 h-5 text-blue-400" />
+              </div>
+              <h3 className="text-xl font-semibold text-white">{title}</h3>
+            </div>
+            <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors duration-200">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {loadFailed && <p className="text-red-400 text-sm mb-4">{t('sessions.loadError')}</p>}
+
+          {!report && !loadFailed ? (
+            <div className="flex justify-center py-12">
+              <RefreshCw className="w-6 h-6 text-blue-400 animate-spin" />
+            </div>
+          ) : report && (
+            <div className="space-y-6">
+              <div className="space-y-1 text-sm text-slate-400">
+                {report.sessions.map(session => (
+                  <p key={session.id}>
+                    {format(session.openedAt, 'HH:mm')} → {session.closedAt ? format(session.closedAt, 'HH:mm') : '—'}
+                    {session.closedBy && ` • ${session.closedBy}`}
+                  </p>
+                ))}
+              </div>
+
+              <table className="w-full text-sm">
+                <tbody>
+                  {summaryRows(report).map(([label, value]) => (
+                    <tr key={label} className="border-b border-slate-700/50">
+                      <td className="py-2 text-slate-300">{label}</td>
+                      <td className={`py-2 text-right font-medium ${
+                        label === t('sessions.discrepancy') && Math.abs(report.discrepancy) >= CASH_TOLERANCE
+                          ? report.discrepancy < 0 ? 'text-red-400' : 'text-orange-400'
+                          : 'text-white'
+                      }`}>
+                        {value}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {report.salesOutsideSessions > 0 && (
+                <p className="text-orange-400 text-sm flex items-center space-x-2">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <span>{report.salesOutsideSessions} {t('sessions.outsideSessions')}</span>
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {renderBreakdown(t('sessions.byCategory'), report.byCategory)}
+                {renderBreakdown(t('sessions.bySeller'), report.bySeller)}
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={handlePrint}
+              disabled={!report}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-blue-600 hover:to-blue-700
+                         disabled:opacity-50 transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <Printer className="w-5 h-5" />
+              <span>{t('sessions.print')}</span>
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={!report}
+              className="flex-1 bg-gradient-to-r from-emerald-500 to-emerald-600 text-white font-semibold
+                         py-3 px-4 rounded-xl hover:from-emerald-600 hover:to-emerald-700
+                         disabled:opacity-50 transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <Download className="w-5 h-5" />
+              <span>{t('sessions.export')}</span>
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -1,79 +1,144 @@
 import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  ComposedChart,
+  ReferenceLine
+} from 'recharts';
 
 interface ChartProps {
   data: any[];
-  type: 'line' | 'bar';
+  type: 'line' | 'bar' | 'pareto';
   dataKey: string;
   xAxisKey: string;
   color?: string;
   title?: string;
+  // Pareto only: cumulative percentage drawn as a line over the bars, on a 0-100 right axis
+  cumulativeKey?: string;
+  valueLabel?: string;
+  cumulativeLabel?: string;
+  referenceLines?: number[];
+  lineColor?: string;
 }
 
-export function Chart({ data, type, dataKey, xAxisKey, color = '#00D4FF', title }: ChartProps) {
+export function Chart({
+  data,
+  type,
+  dataKey,
+  xAxisKey,
+  color = '#00D4FF',
+  title,
+  cumulativeKey,
+  valueLabel,
+  cumulativeLabel,
+  referenceLines = [],
+  lineColor = '#F59E0B'
+}: ChartProps) {
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
         <div className="bg-gray-800/90 backdrop-blur-xl border border-gray-700 rounded-xl p-3 shadow-xl">
           <p className="text-gray-300 text-sm">{label}</p>
-          <p className="text-white font-semibold">
-            {payload[0].name}: {payload[0].value.toLocaleString('fr-FR')}
-          </p>
+          {payload.map((entry: { dataKey: string; name: string; value: number }) => (
+            <p key={entry.dataKey} className="text-white font-semibold">
+              {entry.name}: {entry.value.toLocaleString('fr-FR', { maximumFractionDigits: 2 })}
+              {entry.dataKey === cumulativeKey && ' %'}
+            </p>
+          ))}
         </div>
       );
     }
     return null;
   };
 
+  const renderChart = () => {
+    if (type === 'pareto') {
+      return (
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          {/* One bar per product, labels would overlap */}
+          <XAxis dataKey={xAxisKey} stroke="#9CA3AF" fontSize={12} tick={false} />
+          <YAxis yAxisId="value" stroke="#9CA3AF" fontSize={12} />
+          <YAxis yAxisId="cumulative" orientation="right" domain={[0, 100]} stroke="#9CA3AF" fontSize={12} unit="%" />
+          <Tooltip content={<CustomTooltip />} />
+          <Bar yAxisId="value" dataKey={dataKey} name={valueLabel} fill={color} radius={[4, 4, 0, 0]} />
+          {cumulativeKey && (
+            <Line
+              yAxisId="cumulative"
+              type="monotone"
+              dataKey={cumulativeKey}
+              name={cumulativeLabel}
+              stroke={lineColor}
+              strokeWidth={2}
+              dot={false}
+            />
+          )}
+          {referenceLines.map(value => (
+            <ReferenceLine key={value} yAxisId="cumulative" y={value} stroke="#6B7280" strokeDasharray="4 4" />
+          ))}
+        </ComposedChart>
+      );
+    }
+
+    return type === 'line' ? (
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+        <XAxis
+          dataKey={xAxisKey}
+          stroke="#9CA3AF"
+          fontSize={12}
+        />
+        <YAxis
+          stroke="#9CA3AF"
+          fontSize={12}
+        />
+        <Tooltip content={<CustomTooltip />} />
+        <Line
+          type="monotone"
+          dataKey={dataKey}
+          stroke={color}
+          strokeWidth={3}
+          dot={{ fill: color, strokeWidth: 2, r: 4 }}
+          activeDot={{ r: 6, stroke: color, strokeWidth: 2 }}
+        />
+      </LineChart>
+    ) : (
+      <BarChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+        <XAxis
+          dataKey={xAxisKey}
+          stroke="#9CA3AF"
+          fontSize={12}
+        />
+        <YAxis
+          stroke="#9CA3AF"
+          fontSize={12}
+        />
+        <Tooltip content={<CustomTooltip />} />
+        <Bar
+          dataKey={dataKey}
+          fill={color}
+          radius={[4, 4, 0, 0]}
+        />
+      </BarChart>
+    );
+  };
+
   return (
     <div className="bg-gray-800/30 backdrop-blur-xl border border-gray-700 rounded-2xl p-6">
       {title && (
         <h3 className="text-lg font-semibold text-white mb-4">{title}</h3>
       )}
       <ResponsiveContainer width="100%" height={300}>
-        {type === 'line' ? (
-          <LineChart data={data}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-            <XAxis 
-              dataKey={xAxisKey} 
-              stroke="#9CA3AF"
-              fontSize={12}
-            />
-            <YAxis 
-              stroke="#9CA3AF"
-              fontSize={12}
-            />
-            <Tooltip content={<CustomTooltip />} />
-            <Line 
-              type="monotone" 
-              dataKey={dataKey} 
-              stroke={color}
-              strokeWidth={3}
-              dot={{ fill: color, strokeWidth: 2, r: 4 }}
-              activeDot={{ r: 6, stroke: color, strokeWidth: 2 }}
-            />
-          </LineChart>
-        ) : (
-          <BarChart data={data}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-            <XAxis 
-              dataKey={xAxisKey} 
-              stroke="#9CA3AF"
-              fontSize={12}
-            />
-            <YAxis 
-              stroke="#9CA3AF"
-              fontSize={12}
-            />
-            <Tooltip content={<CustomTooltip />} />
-            <Bar 
-              dataKey={dataKey} 
-              fill={color}
-              radius={[4, 4, 0, 0]}
-            />
-          </BarChart>
-        )}
+        {renderChart()}
       </ResponsiveContainer>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Database, AlertTriangle, History, Calendar } from 'lucide-react';
+import { format } from 'date-fns';
+import { SalesWindow } from '../../types';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { isSalesWindowPartial } from '../../utils/salesCalculations';
+
+interface SalesWindowBannerProps {
+  salesWindow: SalesWindow;
+  onLoadOlder: () => void;
+  onLoadUntil?: (date: Date) => void;
+  onChangeRange?: (range: { from?: Date; to?: Date }) => void;
+  requiredFrom?: Date; // Earliest sale date the current view relies on
+  className?: string;
+}
+
+export function SalesWindowBanner({
+  salesWindow,
+  onLoadOlder,
+  onLoadUntil,
+  onChangeRange,
+  requiredFrom,
+  className = ''
+}: SalesWindowBannerProps) {
+  const { t } = useLanguage();
+  const [rangeStart, setRangeStart] = useState(salesWindow.from ? format(salesWindow.from, 'yyyy-MM-dd') : '');
+  const [rangeEnd, setRangeEnd] = useState(salesWindow.to ? format(salesWindow.to, 'yyyy-MM-dd') : '');
+
+  const { loadedCount, totalCount, oldestLoaded, newestLoaded, hasMore, isLoadingMore } = salesWindow;
+  const isPartial = isSalesWindowPartial(salesWindow, requiredFrom);
+
+  const formatDate = (date?: Date) => (date ? format(date, 'dd/MM/yyyy') : '—');
+
+  const applyRange = () => {
+    onChangeRange?.({
+      from: rangeStart ? new Date(`${rangeStart}T00:00:00`) : undefined,
+      to: rangeEnd ? new Date(`${rangeEnd}T23:59:59.999`) : undefined
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`backdrop-blur-xl border rounded-xl p-4 ${
+        isPartial
+          ? 'bg-orange-500/10 border-orange-500/20'
+          : 'bg-slate-800/30 border-slate-700/50'
+      } ${className}`}
+    >
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+        <div className="flex items-start space-x-3">
+          {isPartial ? (
+            <AlertTriangle className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" />
+          ) : (
+            <Database className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
+          )}
+          <div className="text-sm">
+            <p className="text-white">
+              {loadedCount.toLocaleString()}
+              {totalCount !== null && ` / ${totalCount.toLocaleString()}`} {t('salesWindow.salesLoaded')}
+              {loadedCount > 0 && (
+                <span className="text-slate-400">
+                  {' '}{t('salesWindow.from')} {formatDate(oldestLoaded)} {t('salesWindow.to')} {formatDate(newestLoaded)}
+                </span>
+              )}
+            </p>
+            {(salesWindow.from || salesWindow.to) && (
+              <p className="text-slate-400 text-xs">
+                {t('salesWindow.range')} : {formatDate(salesWindow.from)} → {formatDate(salesWindow.to)}
+              </p>
+            )}
+            {isPartial && (
+              <p className="text-orange-400 text-xs mt-1">
+                {t('salesWindow.partialWarning')} {formatDate(oldestLoaded)} {t('salesWindow.notLoaded')}.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {onChangeRange && (
+            <div className="flex items-center space-x-2">
+              <Calendar className="w-4 h-4 text-slate-400" />
+              <input
+                type="date"
+                value={rangeStart}
+                onChange={(e) => setRangeStart(e.target.value)}
+                className="bg-slate-700/50 border border-slate-600 rounded-lg px-2 py-1 text-white text-xs
+                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="date"
+                value={rangeEnd}
+                onChange={(e) => setRangeEnd(e.target.value)}
+                className="bg-slate-700/50 border border-slate-600 rounded-lg px-2 py-1 text-white text-xs
+                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={applyRange}
+                className="px-3 py-1 bg-slate-700/50 text-slate-300 hover:text-white rounded-lg text-xs transition-all duration-200"
+              >
+                {t('salesWindow.applyRange')}
+              </button>
+            </div>
+          )}
+
+          {isPartial && requiredFrom && onLoadUntil && (
+            <button
+              onClick={() => onLoadUntil(requiredFrom)}
+              disabled={isLoadingMore}
+              className="px-3 py-1 bg-orange-500/20 text-orange-400 hover:bg-orange-500/30 rounded-lg text-xs
+                         transition-all duration-200 disabled:opacity-50"
+            >
+              {t('salesWindow.loadPeriod')}
+            </button>
+          )}
+
+          {hasMore && (
+            <button
+              onClick={onLoadOlder}
+              disabled={isLoadingMore}
+              className="flex items-center space-x-1 px-3 py-1 bg-blue-500/20 text-blue-400 hover:bg-blue-500/30
+                         rounded-lg text-xs transition-all duration-200 disabled:opacity-50"
+            >
+              <History className="w-3 h-3" />
+              <span>{isLoadingMore ? t('common.loading') : t('salesWindow.loadOlder')}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -11,20 +11,36 @@ import {
   PieChart,
   User,
   Shield,
-  CheckCircle
+  CheckCircle,
+  Truck,
+  Receipt,
+  Store as StoreIcon
 } from 'lucide-react';
+import { Store } from '../../types';
 import { useAuth } from '../../hooks/useAuth';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { LanguageSelector } from './LanguageSelector';
+import { ALL_STORES } from '../../utils/storeUtils';
 
 interface SidebarProps {
   isOpen: boolean;
   activeTab: string;
   onTabChange: (tab: string) => void;
   unreadAlerts: number;
+  stores?: Store[];
+  selectedStoreId?: string;
+  onStoreChange?: (storeId: string) => void;
 }
 
-export function Sidebar({ isOpen, activeTab, onTabChange, unreadAlerts }: SidebarProps) {
+export function Sidebar({
+  isOpen,
+  activeTab,
+  onTabChange,
+  unreadAlerts,
+  stores = [],
+  selectedStoreId = ALL_STORES,
+  onStoreChange
+}: SidebarProps) {
   const [showLogoutModal, setShowLogoutModal] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [logoutSuccess, setLogoutSuccess] = useState(false);
@@ -36,6 +52,8 @@ export function Sidebar({ isOpen, activeTab, onTabChange, unreadAlerts }: Sideba
     { id: 'dashboard', label: t('nav.dashboard'), icon: BarChart3 },
     { id: 'sales', label: t('nav.sales'), icon: ShoppingCart },
     { id: 'stock', label: t('nav.stock'), icon: Package },
+    { id: 'purchasing', label: t('nav.purchasing'), icon: Truck },
+    { id: 'expenses', label: t('nav.expenses'), icon: Receipt },
     { id: 'statistics', label: t('nav.analytics'), icon: PieChart },
     { id: 'import', label: t('nav.import'), icon: Upload },
   ];
@@ -101,6 +119,27 @@ export function Sidebar({ isOpen, activeTab, onTabChange, unreadAlerts }: Sideba
             <LanguageSelector />
           </div>
 
+          {/* Store Selector */}
+          {stores.length > 0 && onStoreChange && (
+            <div className="mb-6">
+              <label className="flex items-center space-x-2 text-xs text-slate-400 mb-2">
+                <StoreIcon className="w-3 h-3" />
+                <span>{t('sidebar.store')}</span>
+              </label>
+              <select
+                value={stores.some(store => store.id === selectedStoreId) ? selectedStoreId : ALL_STORES}
+                onChange={(e) => onStoreChange(e.target.value)}
+                className="w-full bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-white text-sm
+                           focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              >
+                <option value={ALL_STORES}>{t('sidebar.allStores')}</option>
+                {stores.map(store => (
+                  <option key={store.id} value={store.id}>{store.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* User Info */}
           <div className="mb-8 p-4 bg-slate-800/50 rounded-xl border border-slate-700/50">
             <div className="flex items-center space-x-3 mb-2">
@@ -1,32 +1,63 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   AlertTriangle, 
   ChevronDown, 
   Package, 
   TrendingDown,
+  Clock,
   X,
   ExternalLink
 } from 'lucide-react';
-import { Product } from '../../types';
+import { Product, RegisterSale, Store } from '../../types';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { calculateStockCover, isRunningOutSoon, StockCover, DEFAULT_STOCKOUT_HORIZON_DAYS } from '../../utils/stockCoverUtils';
+import { ALL_STORES, getStoreProducts, getStoreSales } from '../../utils/storeUtils';
 
 interface StockAlertsDropdownProps {
   products: Product[];
+  registerSales?: RegisterSale[];
+  horizonDays?: number;
   onProductClick?: (product: Product) => void;
   className?: string;
+  stores?: Store[];
+  storeId?: string; // Alerts on the stock of this store, consolidated by default
 }
 
-export function StockAlertsDropdown({ products, onProductClick, className = '' }: StockAlertsDropdownProps) {
+export function StockAlertsDropdown({
+  products: allProducts,
+  registerSales: allSales,
+  horizonDays = DEFAULT_STOCKOUT_HORIZON_DAYS,
+  onProductClick,
+  className = '',
+  stores = [],
+  storeId = ALL_STORES
+}: StockAlertsDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const { t } = useLanguage();
+
+  const products = useMemo(() => getStoreProducts(allProducts, stores, storeId), [allProducts, stores, storeId]);
+  const registerSales = useMemo(
+    () => allSales && getStoreSales(allSales, stores, storeId),
+    [allSales, stores, storeId]
+  );
+  const storeName = stores.find(store => store.id === storeId)?.name;
   
   // Filter products with stock alerts
   const lowStockProducts = products.filter(product => product.stock <= product.minStock);
   const outOfStockProducts = lowStockProducts.filter(product => product.stock === 0);
   const criticalStockProducts = lowStockProducts.filter(product => product.stock > 0);
+
+  // Still above their minimum but selling fast enough to run out within the horizon
+  const stockCover = useMemo(
+    () => registerSales ? calculateStockCover(products, registerSales) : new Map<string, StockCover>(),
+    [products, registerSales]
+  );
+  const runningOutProducts = products
+    .filter(product => product.stock > product.minStock && isRunningOutSoon(product, stockCover.get(product.id), horizonDays))
+    .sort((a, b) => (stockCover.get(a.id)?.daysOfCover ?? 0) - (stockCover.get(b.id)?.daysOfCover ?? 0));
   
-  const alertCount = lowStockProducts.length;
+  const alertCount = lowStockProducts.length + runningOutProducts.length;
 
   if (alertCount === 0) {
     return (
@@ -67,7 +98,9 @@ export function StockAlertsDropdown({ products, onProductClick, className = '' }
               <p className="text-red-400 text-xs">
                 {outOfStockProducts.length > 0 
                   ? `${outOfStockProducts.length} ${t('stockAlerts.outOfStock')}`
-                  : t('stockAlerts.lowStockItems')
+                  : criticalStockProducts.length > 0
+                    ? t('stockAlerts.lowStockItems')
+                    : `${t('stockAlerts.runningOut')} ${horizonDays} ${t('stockAlerts.days')}`
                 }
               </p>
             </div>
@@ -97,7 +130,9 @@ export function StockAlertsDropdown({ products, onProductClick, className = '' }
             <div className="flex items-center justify-between p-4 border-b border-slate-700/50">
               <div className="flex items-center space-x-2">
                 <AlertTriangle className="w-4 h-4 text-red-400" />
-                <h3 className="text-white font-medium text-sm">{t('stockAlerts.title')} ({alertCount})</h3>
+                <h3 className="text-white font-medium text-sm">
+                  {t('stockAlerts.title')} ({alertCount}){storeName && ` • ${storeName}`}
+                </h3>
               </div>
               <button
                 onClick={() => setIsOpen(false)}
@@ -147,7 +182,7 @@ export function StockAlertsDropdown({ products, onProductClick, className = '' }
 
               {/* Low Stock Section */}
               {criticalStockProducts.length > 0 && (
-                <div className="p-4">
+                <div className="p-4 border-b border-slate-700/30">
                   <div className="flex items-center space-x-2 mb-3">
                     <AlertTriangle className="w-4 h-4 text-orange-400" />
                     <h4 className="text-orange-400 font-medium text-sm">
@@ -180,6 +215,42 @@ export function StockAlertsDropdown({ products, onProductClick, className = '' }
                   </div>
                 </div>
               )}
+
+              {/* Running Out Soon Section */}
+              {runningOutProducts.length > 0 && (
+                <div className="p-4">
+                  <div className="flex items-center space-x-2 mb-3">
+                    <Clock className="w-4 h-4 text-yellow-400" />
+                    <h4 className="text-yellow-400 font-medium text-sm">
+                      {t('stockAlerts.runningOut')} {horizonDays} {t('stockAlerts.days')} ({runningOutProducts.length})
+                    </h4>
+                  </div>
+                  <div className="space-y-2">
+                    {runningOutProducts.map((product) => (
+                      <motion.div
+                        key={product.id}
+                        whileHover={{ x: 4 }}
+                        onClick={() => onProductClick?.(product)}
+                        className="flex items-center justify-between p-3 bg-yellow-500/10 border border-yellow-500/20 
+                                   rounded-lg cursor-pointer hover:bg-yellow-500/15 transition-all duration-200"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="text-white font-medium text-sm truncate">{product.name}</p>
+                          <p className="text-slate-400 text-xs">{product.category} • {product.stock} {t('stockAlerts.units')}</p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className="bg-yellow-500/30 text-yellow-300 px-2 py-1 rounded-full text-xs font-medium">
+                            ~{Math.floor(stockCover.get(product.id)?.daysOfCover ?? 0)} {t('stockAlerts.daysLeft')}
+                          </span>
+                          {onProductClick && (
+                            <ExternalLink className="w-3 h-3 text-slate-400" />
+                          )}
+                        </div>
+                      </motion.div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Footer */}
@@ -47,6 +47,8 @@ const translations = {
     'nav.dashboard': 'Tableau de Bord',
     'nav.sales': 'Ventes',
     'nav.stock': 'Stock',
+    'nav.purchasing': 'Achats',
+    'nav.expenses': 'Dépenses',
     'nav.statistics': 'Statistiques',
     'nav.analytics': 'Analyses',
     'nav.import': 'Import Données',
@@ -61,6 +63,9 @@ const translations = {
     'dashboard.totalSales': 'Total Ventes',
     'dashboard.revenue': 'Chiffre d\'Affaires',
     'dashboard.expenses': 'Dépenses',
+    'dashboard.grossMargin': 'Marge Brute',
+    'dashboard.marginRate': 'Taux de marge',
+    'dashboard.noCostPrice': 'Prix d\'achat non renseignés',
     'dashboard.productsSold': 'Produits Vendus',
     'dashboard.stockAlerts': 'Alertes Stock',
     'dashboard.topProducts': 'Top Produits',
@@ -87,6 +92,44 @@ const translations = {
     'dashboard.sales': 'ventes',
     'dashboard.items': 'articles',
 
+    // Sales targets
+    'targets.title': 'Objectifs de vente',
+    'targets.subtitle': 'Progression sur la période en cours',
+    'targets.manage': 'Gérer les objectifs',
+    'targets.none': 'Aucun objectif actif',
+    'targets.add': 'Ajouter un objectif',
+    'targets.edit': 'Modifier l\'objectif',
+    'targets.existing': 'Objectifs existants',
+    'targets.scope': 'Portée',
+    'targets.scope.overall': 'Toute la boutique',
+    'targets.scope.seller': 'Vendeur',
+    'targets.scope.register': 'Caisse',
+    'targets.scope.category': 'Catégorie',
+    'targets.period': 'Période',
+    'targets.period.daily': 'Quotidien',
+    'targets.period.weekly': 'Hebdomadaire',
+    'targets.period.monthly': 'Mensuel',
+    'targets.metric': 'Mesure',
+    'targets.metric.revenue': 'Chiffre d\'affaires',
+    'targets.metric.units': 'Unités vendues',
+    'targets.amount': 'Objectif',
+    'targets.active': 'Actif',
+    'targets.inactive': 'Inactif',
+    'targets.save': 'Enregistrer',
+    'targets.cancel': 'Annuler',
+    'targets.delete': 'Supprimer',
+    'targets.confirmDelete': 'Supprimer cet objectif ?',
+    'targets.status.reached': 'Atteint',
+    'targets.status.onTrack': 'Dans les temps',
+    'targets.status.behind': 'En retard',
+    'targets.expected': 'Attendu à ce stade',
+    'targets.projected': 'Projection fin de période',
+    'targets.units': 'unités',
+    'targets.invalidAmount': 'L\'objectif doit être supérieur à 0',
+    'targets.scopeValueRequired': 'Choisissez un vendeur, une caisse ou une catégorie',
+    'targets.saveError': 'Erreur lors de l\'enregistrement de l\'objectif',
+    'targets.partialHistory': 'Des ventes de la période ne sont pas chargées, la progression peut être sous-estimée',
+
     // Stock Alerts
     'stockAlerts.title': 'Alertes Stock',
     'stockAlerts.status': 'État du Stock',
@@ -98,6 +141,20 @@ const translations = {
     'stockAlerts.units': 'unités',
     'stockAlerts.clickToView': 'Cliquez sur les articles pour voir les détails',
     'stockAlerts.totalAlerts': 'Total alertes',
+    'stockAlerts.runningOut': 'Rupture prévue sous',
+    'stockAlerts.days': 'jours',
+    'stockAlerts.daysLeft': 'j restants',
+
+    // Sales window
+    'salesWindow.salesLoaded': 'ventes chargées',
+    'salesWindow.from': 'du',
+    'salesWindow.to': 'au',
+    'salesWindow.range': 'Période demandée',
+    'salesWindow.partialWarning': 'Calculs sur un sous-ensemble : les ventes antérieures au',
+    'salesWindow.notLoaded': 'ne sont pas chargées',
+    'salesWindow.loadOlder': 'Charger plus anciennes',
+    'salesWindow.loadPeriod': 'Charger toute la période',
+    'salesWindow.applyRange': 'Appliquer',
 
     // Login
     'login.title': 'Connexion',
@@ -141,6 +198,8 @@ const translations = {
     'sidebar.loggingOut': 'Déconnexion...',
     'sidebar.loggedOut': 'Déconnecté',
     'sidebar.redirecting': 'Redirection...',
+    'sidebar.store': 'Magasin',
+    'sidebar.allStores': 'Tous les magasins',
 
     // Statistics
     'statistics.title': 'Statistiques Avancées',
@@ -180,6 +239,150 @@ const translations = {
     'statistics.totalExpenses': 'Total Dépenses',
     'statistics.ofRevenue': 'du CA',
     'statistics.refundsWithdrawals': 'Remboursements et retraits',
+    'statistics.shrinkage': 'Démarque',
+    'statistics.shrinkageByReason': 'Démarque par Motif',
+    'statistics.shrinkageByCategory': 'Démarque par Catégorie',
+    'statistics.shrinkageLosses': 'Pertes',
+    'statistics.shrinkageGains': 'Corrections',
+    'statistics.shrinkageNet': 'Net',
+    'statistics.shrinkageValue': 'Valeur',
+    'statistics.shrinkageAdjustments': 'Ajustements',
+    'statistics.shrinkageReason': 'Motif',
+    'statistics.noShrinkage': 'Aucun ajustement de stock sur la période',
+    'statistics.grossMargin': 'Marge Brute',
+    'statistics.marginRate': 'Taux de Marge',
+    'statistics.noCostPrice': 'Aucun prix d\'achat renseigné',
+    'statistics.belowCost': 'Sous le coût',
+    'statistics.belowCostHint': 'Tickets vendus sous le prix d\'achat',
+    'statistics.returns': 'Retours',
+    'statistics.returnRate': 'Taux de retour',
+    'statistics.netResult': 'Résultat net',
+    'statistics.netResultHint': 'Chiffre d\'affaires net des retours − coût des ventes − dépenses',
+    'statistics.netRevenue': 'CA net',
+    'statistics.costOfGoods': 'Coût des ventes',
+    'statistics.byWeek': 'Par semaine',
+    'statistics.byMonth': 'Par mois',
+    'statistics.uncostedRevenueHint': 'CA de produits sans prix d\'achat, absent du coût des ventes',
+    'bundles.badge': 'Pack',
+    'bundles.title': 'Consommation des composants',
+    'bundles.subtitle': 'Unités des produits vendus seuls et consommées par les packs et kits vendus sur la période, retours exclus',
+    'bundles.component': 'Composant',
+    'bundles.direct': 'Vendus seuls',
+    'bundles.viaBundles': 'Via les packs',
+    'bundles.total': 'Total consommé',
+    'bundles.detail': 'Packs vendus × unités par pack',
+    'bundles.noData': 'Aucun composant consommé sur la période',
+    'heatmap.tab': 'Affluence',
+    'heatmap.title': 'Ventes par jour et par heure',
+    'heatmap.subtitle': 'Pour planifier les caisses aux heures d\'affluence, selon les filtres caisse, vendeur et catégorie',
+    'heatmap.averagePerDay': 'Moyenne par jour',
+    'heatmap.periodTotal': 'Total de la période',
+    'heatmap.partialTimes': 'des ventes n\'ont pas d\'heure : elles ne comptent que dans les totaux par jour',
+    'heatmap.noTimes': 'Les ventes importées n\'ont pas d\'heure, seule la répartition par jour de la semaine est disponible',
+    'heatmap.weekday.0': 'Lundi',
+    'heatmap.weekday.1': 'Mardi',
+    'heatmap.weekday.2': 'Mercredi',
+    'heatmap.weekday.3': 'Jeudi',
+    'heatmap.weekday.4': 'Vendredi',
+    'heatmap.weekday.5': 'Samedi',
+    'heatmap.weekday.6': 'Dimanche',
+    'heatmap.values': 'Valeurs',
+    'heatmap.deltaVsBaseline': 'Écart vs comparaison',
+    'comparison.compareTo': 'Comparer à',
+    'comparison.mode.previous': 'Période précédente',
+    'comparison.mode.lastYear': 'Année précédente',
+    'comparison.mode.custom': 'Période personnalisée',
+    'comparison.delta': 'Écart',
+    'comparison.vsBaseline': 'Écart avec la période de comparaison',
+    'comparison.new': 'nouveau',
+    'basket.tab': 'Paniers',
+    'basket.title': 'Analyse des paniers',
+    'basket.subtitle': 'Lignes de vente regroupées par ticket, retours exclus',
+    'basket.tickets': 'Tickets',
+    'basket.averageValue': 'Panier moyen',
+    'basket.averageItems': 'Articles par ticket',
+    'basket.averageProducts': 'Produits différents par ticket',
+    'basket.multiProductShare': 'Tickets multi-produits',
+    'basket.inferredHint': 'des tickets sont reconstitués sans numéro de ticket, à partir de la caisse, du vendeur et de lignes rapprochées',
+    'basket.associations': 'Produits achetés ensemble',
+    'basket.associationsHint': 'Support : part des tickets avec les deux produits • Confiance : part des tickets avec l\'un qui contiennent l\'autre • Lift > 1 : plus souvent ensemble que par hasard',
+    'basket.searchProduct': 'Filtrer par produit',
+    'basket.minTogether': 'Ensemble au moins',
+    'basket.noAssociations': 'Aucune paire de produits achetée ensemble assez souvent sur la période',
+    'basket.productA': 'Produit A',
+    'basket.productB': 'Produit B',
+    'basket.together': 'Tickets communs',
+    'basket.support': 'Support',
+    'basket.confidenceAB': 'Confiance A → B',
+    'basket.confidenceBA': 'Confiance B → A',
+    'basket.lift': 'Lift',
+    'abc.title': 'Classification ABC',
+    'abc.subtitle': 'Produits classés sur leur part cumulée de la période : A jusqu\'à 80 %, B jusqu\'à 95 %, C au-delà',
+    'abc.metric.revenue': 'Chiffre d\'affaires',
+    'abc.metric.margin': 'Marge brute',
+    'abc.metric.units': 'Unités vendues',
+    'abc.class': 'Classe',
+    'abc.allClasses': 'Toutes les classes',
+    'abc.products': 'produits',
+    'abc.ofTotal': 'du total',
+    'abc.share': 'Part',
+    'abc.cumulative': 'Part cumulée',
+    'abc.paretoTitle': 'Courbe de Pareto',
+    'abc.noData': 'Aucune vente de produit du catalogue sur la période',
+    'abc.catalogHint': 'Seuls les produits du catalogue sont classés, un produit sans vente est en classe C',
+    'statistics.sessions': 'Sessions de caisse',
+    'sessions.subtitle': 'Fond de caisse à l\'ouverture, comptage à la clôture et rapport Z',
+    'sessions.register': 'Caisse',
+    'sessions.openingFloat': 'Fond de caisse',
+    'sessions.open': 'Ouvrir la caisse',
+    'sessions.openSessions': 'Caisses ouvertes',
+    'sessions.noOpenSession': 'Aucune caisse ouverte',
+    'sessions.openedAt': 'Ouverte le',
+    'sessions.closedAt': 'Clôturée le',
+    'sessions.by': 'par',
+    'sessions.close': 'Clôturer',
+    'sessions.history': 'Clôtures par caisse et par jour',
+    'sessions.noHistory': 'Aucune session clôturée',
+    'sessions.date': 'Date',
+    'sessions.sessionCount': 'Sessions',
+    'sessions.expectedCash': 'Espèces attendues',
+    'sessions.countedCash': 'Espèces comptées',
+    'sessions.discrepancy': 'Écart',
+    'sessions.zReport': 'Rapport Z',
+    'sessions.closeTitle': 'Clôture de caisse',
+    'sessions.notes': 'Notes',
+    'sessions.loadingSales': 'Calcul des ventes de la session...',
+    'sessions.sessionSales': 'Ventes de la session',
+    'sessions.confirmClose': 'Valider la clôture',
+    'sessions.cancel': 'Annuler',
+    'sessions.opened': 'Caisse ouverte',
+    'sessions.openError': 'Impossible d\'ouvrir la caisse : une session est peut-être déjà ouverte',
+    'sessions.closed': 'Caisse clôturée',
+    'sessions.closeError': 'Erreur lors de la clôture de la caisse',
+    'sessions.invalidFloat': 'Le fond de caisse doit être un montant positif',
+    'sessions.grossSales': 'Ventes brutes',
+    'sessions.refunds': 'Retours clients',
+    'sessions.otherOutflows': 'Autres sorties',
+    'sessions.netSales': 'Total encaissé',
+    'sessions.salesLines': 'Lignes de vente',
+    'sessions.itemsSold': 'Articles vendus',
+    'sessions.byCategory': 'Par catégorie',
+    'sessions.bySeller': 'Par vendeur',
+    'sessions.cashCount': 'Comptage des espèces',
+    'sessions.denomination': 'Valeur',
+    'sessions.count': 'Nombre',
+    'sessions.amount': 'Montant',
+    'sessions.outsideSessions': 'ligne(s) de vente enregistrée(s) hors session',
+    'sessions.print': 'Imprimer',
+    'sessions.export': 'Exporter XLSX',
+    'sessions.loadError': 'Impossible de charger les ventes du jour',
+    'statistics.reason.casse': 'Casse',
+    'statistics.reason.vol': 'Vol',
+    'statistics.reason.peremption': 'Péremption',
+    'statistics.reason.consommation_interne': 'Consommation interne',
+    'statistics.reason.erreur_saisie': 'Erreur de saisie',
+    'statistics.reason.ecart_inventaire': 'Écart d\'inventaire',
+    'statistics.reason.ecart_transfert': 'Écart de transfert',
 
     // Table headers
     'table.product': 'Produit',
@@ -260,6 +463,8 @@ const translations = {
     'nav.dashboard': 'Dashboard',
     'nav.sales': 'Sales',
     'nav.stock': 'Stock',
+    'nav.purchasing': 'Purchasing',
+    'nav.expenses': 'Expenses',
     'nav.statistics': 'Statistics',
     'nav.analytics': 'Analytics',
     'nav.import': 'Import Data',
@@ -274,6 +479,9 @@ const translations = {
     'dashboard.totalSales': 'Total Sales',
     'dashboard.revenue': 'Revenue',
     'dashboard.expenses': 'Expenses',
+    'dashboard.grossMargin': 'Gross Margin',
+    'dashboard.marginRate': 'Margin rate',
+    'dashboard.noCostPrice': 'Cost prices not set',
     'dashboard.productsSold': 'Products Sold',
     'dashboard.stockAlerts': 'Stock Alerts',
     'dashboard.topProducts': 'Top Products',
@@ -300,6 +508,44 @@ const translations = {
     'dashboard.sales': 'sales',
     'dashboard.items': 'items',
 
+    // Sales targets
+    'targets.title': 'Sales targets',
+    'targets.subtitle': 'Progress over the current period',
+    'targets.manage': 'Manage targets',
+    'targets.none': 'No active target',
+    'targets.add': 'Add a target',
+    'targets.edit': 'Edit target',
+    'targets.existing': 'Existing targets',
+    'targets.scope': 'Scope',
+    'targets.scope.overall': 'Whole shop',
+    'targets.scope.seller': 'Seller',
+    'targets.scope.register': 'Register',
+    'targets.scope.category': 'Category',
+    'targets.period': 'Period',
+    'targets.period.daily': 'Daily',
+    'targets.period.weekly': 'Weekly',
+    'targets.period.monthly': 'Monthly',
+    'targets.metric': 'Measure',
+    'targets.metric.revenue': 'Revenue',
+    'targets.metric.units': 'Units sold',
+    'targets.amount': 'Target',
+    'targets.active': 'Active',
+    'targets.inactive': 'Inactive',
+    'targets.save': 'Save',
+    'targets.cancel': 'Cancel',
+    'targets.delete': 'Delete',
+    'targets.confirmDelete': 'Delete this target?',
+    'targets.status.reached': 'Reached',
+    'targets.status.onTrack': 'On track',
+    'targets.status.behind': 'Behind',
+    'targets.expected': 'Expected by now',
+    'targets.projected': 'End of period projection',
+    'targets.units': 'units',
+    'targets.invalidAmount': 'The target must be greater than 0',
+    'targets.scopeValueRequired': 'Choose a seller, a register or a category',
+    'targets.saveError': 'Error while saving the target',
+    'targets.partialHistory': 'Some sales of the period are not loaded, progress may be understated',
+
     // Stock Alerts
     'stockAlerts.title': 'Stock Alerts',
     'stockAlerts.status': 'Stock Status',
@@ -311,6 +557,20 @@ const translations = {
     'stockAlerts.units': 'units',
     'stockAlerts.clickToView': 'Click on items to view details',
     'stockAlerts.totalAlerts': 'Total alerts',
+    'stockAlerts.runningOut': 'Running out within',
+    'stockAlerts.days': 'days',
+    'stockAlerts.daysLeft': 'days left',
+
+    // Sales window
+    'salesWindow.salesLoaded': 'sales loaded',
+    'salesWindow.from': 'from',
+    'salesWindow.to': 'to',
+    'salesWindow.range': 'Requested range',
+    'salesWindow.partialWarning': 'Working on a subset: sales older than',
+    'salesWindow.notLoaded': 'are not loaded',
+    'salesWindow.loadOlder': 'Load older',
+    'salesWindow.loadPeriod': 'Load whole period',
+    'salesWindow.applyRange': 'Apply',
 
     // Login
     'login.title': 'Sign In',
@@ -354,6 +614,8 @@ const translations = {
     'sidebar.loggingOut': 'Logging out...',
     'sidebar.loggedOut': 'Logged Out',
     'sidebar.redirecting': 'Redirecting...',
+    'sidebar.store': 'Store',
+    'sidebar.allStores': 'All stores',
 
     // Statistics
     'statistics.title': 'Advanced Analytics',
@@ -393,6 +655,150 @@ const translations = {
     'statistics.totalExpenses': 'Total Expenses',
     'statistics.ofRevenue': 'of revenue',
     'statistics.refundsWithdrawals': 'Refunds & withdrawals',
+    'statistics.shrinkage': 'Shrinkage',
+    'statistics.shrinkageByReason': 'Shrinkage by Reason',
+    'statistics.shrinkageByCategory': 'Shrinkage by Category',
+    'statistics.shrinkageLosses': 'Losses',
+    'statistics.shrinkageGains': 'Corrections',
+    'statistics.shrinkageNet': 'Net',
+    'statistics.shrinkageValue': 'Value',
+    'statistics.shrinkageAdjustments': 'Adjustments',
+    'statistics.shrinkageReason': 'Reason',
+    'statistics.noShrinkage': 'No stock adjustment over the period',
+    'statistics.grossMargin': 'Gross Margin',
+    'statistics.marginRate': 'Margin Rate',
+    'statistics.noCostPrice': 'No cost price set',
+    'statistics.belowCost': 'Below cost',
+    'statistics.belowCostHint': 'Tickets sold below cost price',
+    'statistics.returns': 'Returns',
+    'statistics.returnRate': 'Return rate',
+    'statistics.netResult': 'Net result',
+    'statistics.netResultHint': 'Revenue net of returns − cost of goods sold − expenses',
+    'statistics.netRevenue': 'Net revenue',
+    'statistics.costOfGoods': 'Cost of goods sold',
+    'statistics.byWeek': 'By week',
+    'statistics.byMonth': 'By month',
+    'statistics.uncostedRevenueHint': 'Revenue of products without cost price, missing from cost of goods',
+    'bundles.badge': 'Bundle',
+    'bundles.title': 'Component consumption',
+    'bundles.subtitle': 'Units of the products sold on their own and consumed by the bundles and kits sold over the period, returns excluded',
+    'bundles.component': 'Component',
+    'bundles.direct': 'Sold alone',
+    'bundles.viaBundles': 'Through bundles',
+    'bundles.total': 'Total consumed',
+    'bundles.detail': 'Bundles sold × units per bundle',
+    'bundles.noData': 'No component consumed over the period',
+    'heatmap.tab': 'Peak hours',
+    'heatmap.title': 'Sales by day and hour',
+    'heatmap.subtitle': 'To staff registers at peak times, following the register, seller and category filters',
+    'heatmap.averagePerDay': 'Average per day',
+    'heatmap.periodTotal': 'Period total',
+    'heatmap.partialTimes': 'of sales have no time: they only count in the daily totals',
+    'heatmap.noTimes': 'Imported sales carry no time, only the day-of-week breakdown is available',
+    'heatmap.weekday.0': 'Monday',
+    'heatmap.weekday.1': 'Tuesday',
+    'heatmap.weekday.2': 'Wednesday',
+    'heatmap.weekday.3': 'Thursday',
+    'heatmap.weekday.4': 'Friday',
+    'heatmap.weekday.5': 'Saturday',
+    'heatmap.weekday.6': 'Sunday',
+    'heatmap.values': 'Values',
+    'heatmap.deltaVsBaseline': 'Change vs baseline',
+    'comparison.compareTo': 'Compare to',
+    'comparison.mode.previous': 'Previous period',
+    'comparison.mode.lastYear': 'Last year',
+    'comparison.mode.custom': 'Custom period',
+    'comparison.delta': 'Change',
+    'comparison.vsBaseline': 'Change against the comparison period',
+    'comparison.new': 'new',
+    'basket.tab': 'Baskets',
+    'basket.title': 'Basket analysis',
+    'basket.subtitle': 'Sale lines grouped by ticket, returns excluded',
+    'basket.tickets': 'Tickets',
+    'basket.averageValue': 'Average basket',
+    'basket.averageItems': 'Items per ticket',
+    'basket.averageProducts': 'Distinct products per ticket',
+    'basket.multiProductShare': 'Multi-product tickets',
+    'basket.inferredHint': 'of tickets are rebuilt without a ticket number, from register, seller and close lines',
+    'basket.associations': 'Frequently bought together',
+    'basket.associationsHint': 'Support: share of tickets with both products • Confidence: share of tickets with one that contain the other • Lift > 1: together more often than by chance',
+    'basket.searchProduct': 'Filter by product',
+    'basket.minTogether': 'Together at least',
+    'basket.noAssociations': 'No product pair bought together often enough over the period',
+    'basket.productA': 'Product A',
+    'basket.productB': 'Product B',
+    'basket.together': 'Shared tickets',
+    'basket.support': 'Support',
+    'basket.confidenceAB': 'Confidence A → B',
+    'basket.confidenceBA': 'Confidence B → A',
+    'basket.lift': 'Lift',
+    'abc.title': 'ABC Classification',
+    'abc.subtitle': 'Products ranked on their cumulative share of the period: A up to 80%, B up to 95%, C beyond',
+    'abc.metric.revenue': 'Revenue',
+    'abc.metric.margin': 'Gross margin',
+    'abc.metric.units': 'Units sold',
+    'abc.class': 'Class',
+    'abc.allClasses': 'All classes',
+    'abc.products': 'products',
+    'abc.ofTotal': 'of total',
+    'abc.share': 'Share',
+    'abc.cumulative': 'Cumulative share',
+    'abc.paretoTitle': 'Pareto curve',
+    'abc.noData': 'No sale of a catalog product over the period',
+    'abc.catalogHint': 'Only catalog products are classified, a product without sales is class C',
+    'statistics.sessions': 'Register sessions',
+    'sessions.subtitle': 'Opening float, closing count and Z-report',
+    'sessions.register': 'Register',
+    'sessions.openingFloat': 'Opening float',
+    'sessions.open': 'Open register',
+    'sessions.openSessions': 'Open registers',
+    'sessions.noOpenSession': 'No open register',
+    'sessions.openedAt': 'Opened on',
+    'sessions.closedAt': 'Closed on',
+    'sessions.by': 'by',
+    'sessions.close': 'Close',
+    'sessions.history': 'Closings by register and day',
+    'sessions.noHistory': 'No closed session',
+    'sessions.date': 'Date',
+    'sessions.sessionCount': 'Sessions',
+    'sessions.expectedCash': 'Expected cash',
+    'sessions.countedCash': 'Counted cash',
+    'sessions.discrepancy': 'Discrepancy',
+    'sessions.zReport': 'Z-report',
+    'sessions.closeTitle': 'Register closing',
+    'sessions.notes': 'Notes',
+    'sessions.loadingSales': 'Computing session sales...',
+    'sessions.sessionSales': 'Session sales',
+    'sessions.confirmClose': 'Confirm closing',
+    'sessions.cancel': 'Cancel',
+    'sessions.opened': 'Register opened',
+    'sessions.openError': 'Unable to open the register: a session may already be open',
+    'sessions.closed': 'Register closed',
+    'sessions.closeError': 'Error while closing the register',
+    'sessions.invalidFloat': 'The opening float must be a positive amount',
+    'sessions.grossSales': 'Gross sales',
+    'sessions.refunds': 'Customer returns',
+    'sessions.otherOutflows': 'Other outflows',
+    'sessions.netSales': 'Net takings',
+    'sessions.salesLines': 'Sale lines',
+    'sessions.itemsSold': 'Items sold',
+    'sessions.byCategory': 'By category',
+    'sessions.bySeller': 'By seller',
+    'sessions.cashCount': 'Cash count',
+    'sessions.denomination': 'Denomination',
+    'sessions.count': 'Count',
+    'sessions.amount': 'Amount',
+    'sessions.outsideSessions': 'sale line(s) recorded outside a session',
+    'sessions.print': 'Print',
+    'sessions.export': 'Export XLSX',
+    'sessions.loadError': 'Unable to load the sales of the day',
+    'statistics.reason.casse': 'Breakage',
+    'statistics.reason.vol': 'Theft',
+    'statistics.reason.peremption': 'Expiry',
+    'statistics.reason.consommation_interne': 'Internal use',
+    'statistics.reason.erreur_saisie': 'Entry error',
+    'statistics.reason.ecart_inventaire': 'Inventory variance',
+    'statistics.reason.ecart_transfert': 'Transfer variance',
 
     // Table headers
     'table.product': 'Product',
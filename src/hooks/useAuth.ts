@@ -1,5 +1,6 @@
 import { useState, useEffect, createContext, useContext } from 'react';
-import { auth, db, COLLECTIONS } from '../lib/firebase';
+import { auth } from '../lib/firebase';
+import { getDataStore } from '../lib/dataStore';
 import { 
   signInWithEmailAndPassword, 
   createUserWithEmailAndPassword,
@@ -8,7 +9,6 @@ import {
   updateProfile,
   User as FirebaseUser 
 } from 'firebase/auth';
-import { doc, setDoc, getDoc } from 'firebase/firestore';
 
 export interface User {
   id: string;
@@ -72,12 +72,11 @@ export function useAuthState(): AuthContextType {
   const convertFirebaseUser = async (firebaseUser: FirebaseUser, sessionStart?: Date): Promise<User> => {
     const now = new Date();
     
-    // Try to get user data from Firestore
+    // Try to get user data from the data store
     try {
-      const userDoc = await getDoc(doc(db, COLLECTIONS.USERS, firebaseUser.uid));
+      const userData = await getDataStore().users.get(firebaseUser.uid);
       
-      if (userDoc.exists()) {
-        const userData = userDoc.data();
+      if (userData) {
         return {
           id: firebaseUser.uid,
           name: userData.name || firebaseUser.displayName || 'Utilisateur',
@@ -88,7 +87,7 @@ export function useAuthState(): AuthContextType {
         };
       }
     } catch (error) {
-      console.warn('Could not fetch user data from Firestore:', error);
+      console.warn('Could not fetch user data from data store:', error);
     }
     
     // Fallback to Firebase user data
@@ -200,9 +199,10 @@ export function useAuthState(): AuthContextType {
           displayName: name
         });
 
-        // Store additional user data in Firestore
+        // Store additional user data in the data store
         try {
-          await setDoc(doc(db, COLLECTIONS.USERS, userCredential.user.uid), {
+          await getDataStore().users.save({
+            id: userCredential.user.uid,
             name,
             email,
             role,
@@ -210,7 +210,7 @@ export function useAuthState(): AuthContextType {
             lastLogin: new Date().toISOString()
           });
         } catch (firestoreError) {
-          console.warn('Could not save user data to Firestore:', firestoreError);
+          console.warn('Could not save user data to data store:', firestoreError);
           // Continue anyway - the user is created in Firebase Auth
         }
 
@@ -1,38 +1,142 @@
-import { useState, useEffect } from 'react';
-import { 
-  collection, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  getDocs, 
-  query, 
-  orderBy, 
-  where,
-  onSnapshot,
-  writeBatch,
-  Timestamp,
-  limit,
-  startAfter
-} from 'firebase/firestore';
-import { db, COLLECTIONS, FirestoreRegisterSale, FirestoreProduct } from '../lib/firebase';
-import { RegisterSale, Product, DashboardStats, Alert } from '../types';
-import { format, subDays, parseISO } from 'date-fns';
+import { useState, useEffect, useRef } from 'react';
+import { getDataStore, Unsubscribe, SalesDateRange } from '../lib/dataStore';
+import { generateMockSales, generateMockProducts } from '../lib/memoryDataStore';
+import {
+  RegisterSale,
+  Product,
+  DashboardStats,
+  Alert,
+  SalesWindow,
+  StockMovement,
+  StockMovementContext,
+  StockAdjustmentInput,
+  InventorySession,
+  Supplier,
+  PurchaseOrder,
+  SaleReturnInput,
+  ReturnCondition,
+  Expense,
+  RegisterSession,
+  CashCount,
+  SalesTarget,
+  Store,
+  StockTransfer
+} from '../types';
+import { format, parseISO, isValid, startOfDay } from 'date-fns';
 import { calculateStockFinal } from '../utils/calculateStockFinal';
+import { generateStockMovements, summarizeDailySales } from '../utils/stockHistoryUtils';
+import { ADJUSTMENT_REASONS } from '../utils/stockAdjustmentUtils';
+import { calculateInventoryVariances } from '../utils/inventoryUtils';
+import {
+  generatePurchaseOrderNumber,
+  getPurchaseOrderStatusAfterReceipt,
+  getRemainingQuantity
+} from '../utils/purchaseOrderUtils';
+import { getDuePriceUpdates } from '../utils/priceHistoryUtils';
+import { isReturn, getReturnedQuantity } from '../utils/returnUtils';
+import {
+  createProductIndex,
+  resolveSaleProduct,
+  generateSkus,
+  getProductSignature,
+  getSaleProductLinks,
+  normalizeAlias
+} from '../utils/productIdentityUtils';
+import { getCountedCash, getExpectedCash, isWithinSession } from '../utils/registerSessionUtils';
+import { findAssignedRegisters, getMainStore, getRegisterStore, getStoreScope } from '../utils/storeUtils';
+import { generateTransferNumber, getShippedQuantity, getTransferVariance } from '../utils/transferUtils';
+import { calculateBundleAvailability, getBundleSnapshot, getBundles, getSaleStockItems, isBundle } from '../utils/bundleUtils';
+import { planProductMerge } from '../utils/productMergeUtils';
+import { useAuth } from './useAuth';
+
+interface PendingStockMovement {
+  product: Pick<Product, 'id' | 'name' | 'category'>;
+  context: StockMovementContext;
+  quantity: number;
+}
+
+// Number of sales fetched by the live subscription and by each "load older" page
+const SALES_PAGE_SIZE = 500;
 
 export function useFirebaseData() {
   const [registerSales, setRegisterSales] = useState<RegisterSale[]>([]);
+  const [salesWindow, setSalesWindow] = useState<SalesWindow>({
+    loadedCount: 0,
+    totalCount: null,
+    hasMore: false,
+    isLoadingMore: false
+  });
+  const [isStockOnPartialHistory, setIsStockOnPartialHistory] = useState(false);
   const [products, setProducts] = useState<Product[]>([]);
+  const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+  const [inventorySessions, setInventorySessions] = useState<InventorySession[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [registerSessions, setRegisterSessions] = useState<RegisterSession[]>([]);
+  const [salesTargets, setSalesTargets] = useState<SalesTarget[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [stockTransfers, setStockTransfers] = useState<StockTransfer[]>([]);
   const [dashboardStats, setDashboardStats] = useState<DashboardStats | null>(null);
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [loading, setLoading] = useState(true);
   const [isRecalculating, setIsRecalculating] = useState(false);
+  const store = getDataStore();
+  const { user } = useAuth();
+  const salesUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const productsUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const movementsUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const inventoryUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const suppliersUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const ordersUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const expensesUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const registerSessionsUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const salesTargetsUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const storesUnsubscribeRef = useRef<Unsubscribe | null>(null);
+  const transfersUnsubscribeRef = useRef<Unsubscribe | null>(null);
+
+  // Loaded sales window: the live first page plus the older pages fetched on demand
+  const salesRangeRef = useRef<SalesDateRange>({});
+  const latestSalesRef = useRef<RegisterSale[]>([]);
+  const olderSalesRef = useRef<RegisterSale[]>([]);
+  const loadedSalesRef = useRef<RegisterSale[]>([]);
+  const totalSalesCountRef = useRef<number | null>(null);
+  const lastPageFullRef = useRef(false);
+  const isLoadingMoreRef = useRef(false);
+
+  // Sales history read for stock calculations, kept until this client writes sales
+  const stockSalesCacheRef = useRef<{ from?: Date; sales: RegisterSale[] } | null>(null);
 
   // Load initial data
   useEffect(() => {
     loadInitialData();
+
+    return () => {
+      salesUnsubscribeRef.current?.();
+      productsUnsubscribeRef.current?.();
+      movementsUnsubscribeRef.current?.();
+      inventoryUnsubscribeRef.current?.();
+      suppliersUnsubscribeRef.current?.();
+      ordersUnsubscribeRef.current?.();
+      expensesUnsubscribeRef.current?.();
+      registerSessionsUnsubscribeRef.current?.();
+      salesTargetsUnsubscribeRef.current?.();
+      storesUnsubscribeRef.current?.();
+      transfersUnsubscribeRef.current?.();
+    };
   }, []);
 
+  // Product fields the stock is calculated from, so that editing the initial stock, its date,
+  // its split between stores, a merge or a bundle composition recalculates the stock
+  const stockDefinitions = JSON.stringify(products.map(product => [
+    product.id,
+    product.initialStock,
+    product.initialStockDate,
+    product.initialStockByStore,
+    product.mergedProductIds,
+    product.bundleComponents
+  ]));
+
   // ✅ CRITICAL FIX: Recalculate product quantities whenever sales data changes
   useEffect(() => {
     if (registerSales.length >= 0 && products.length > 0) { // Changed condition to include 0 sales
@@ -44,7 +148,17 @@ export function useFirebaseData() {
       
       return () => clearTimeout(timer);
     }
-  }, [registerSales.length, products.length]); // Trigger on both sales and products changes
+  }, [registerSales.length, products.length, stockMovements.length, stores, stockDefinitions]); // Trigger on sales, stock settings of the products, adjustments and store changes
+
+  // ✅ NEW: Scheduled price changes become the current price once their effective date is reached
+  useEffect(() => {
+    const dueUpdates = getDuePriceUpdates(products);
+    if (dueUpdates.length === 0) return;
+
+    console.log(`💶 Applying ${dueUpdates.length} scheduled price changes`);
+    store.products.updateMany(dueUpdates.map(({ id, price }) => ({ id, updates: { price } })))
+      .catch(error => console.error('❌ Error applying scheduled price changes:', error));
+  }, [products, store.products]);
 
   const loadInitialData = async () => {
     setLoading(true);
@@ -54,6 +168,14 @@ export function useFirebaseData() {
       
       // Then load sales data (which can be larger)
       loadRegisterSales();
+      loadStockMovements();
+      loadInventorySessions();
+      loadPurchasing();
+      loadExpenses();
+      loadRegisterSessions();
+      loadSalesTargets();
+      loadStores();
+      loadStockTransfers();
     } catch (error) {
       console.error('Erreur lors du chargement des données:', error);
     } finally {
@@ -61,39 +183,71 @@ export function useFirebaseData() {
     }
   };
 
+  const hasMoreSales = () => {
+    const total = totalSalesCountRef.current;
+    return total !== null ? loadedSalesRef.current.length < total : lastPageFullRef.current;
+  };
+
+  const isFullSalesHistoryLoaded = () =>
+    !salesRangeRef.current.from && !salesRangeRef.current.to && !hasMoreSales();
+
+  // Merge the live page with the older pages and publish the resulting window
+  const applyLoadedSales = () => {
+    const latestIds = new Set(latestSalesRef.current.map(sale => sale.id));
+    const sales = [
+      ...latestSalesRef.current,
+      ...olderSalesRef.current.filter(sale => !latestIds.has(sale.id))
+    ];
+
+    loadedSalesRef.current = sales;
+    setRegisterSales(sales);
+    calculateDashboardStats(sales);
+    setSalesWindow(prev => ({
+      ...prev,
+      from: salesRangeRef.current.from,
+      to: salesRangeRef.current.to,
+      loadedCount: sales.length,
+      totalCount: totalSalesCountRef.current,
+      newestLoaded: sales[0]?.date,
+      oldestLoaded: sales[sales.length - 1]?.date,
+      hasMore: hasMoreSales()
+    }));
+  };
+
+  const refreshSalesCount = async () => {
+    try {
+      totalSalesCountRef.current = await store.sales.count(salesRangeRef.current);
+    } catch (error) {
+      console.error('Error counting sales:', error);
+      totalSalesCountRef.current = null;
+    }
+    applyLoadedSales();
+  };
+
   const loadRegisterSales = async () => {
     try {
-      const salesCollection = collection(db, COLLECTIONS.REGISTER_SALES);
-      // Limit initial query to most recent 500 sales for faster loading
-      const salesQuery = query(
-        salesCollection, 
-        orderBy('date', 'desc'),
-        limit(500)
-      );
-      
-      // Use onSnapshot for real-time updates instead of one-time fetch
-      return onSnapshot(salesQuery, (snapshot) => {
-        const sales: RegisterSale[] = [];
-        
-        snapshot.forEach((doc) => {
-          const data = doc.data() as FirestoreRegisterSale;
-          sales.push({
-            id: doc.id,
-            product: data.product,
-            category: data.category,
-            register: data.register,
-            date: parseISO(data.date),
-            seller: data.seller,
-            quantity: data.quantity,
-            price: data.price,
-            total: data.total,
-            created_at: data.createdAt ? parseISO(data.createdAt) : new Date()
-          });
-        });
+      // Replace any previous subscription so reloads do not stack listeners
+      salesUnsubscribeRef.current?.();
+      olderSalesRef.current = [];
+      latestSalesRef.current = [];
+
+      // Only the most recent page is live; older pages are fetched with loadOlderSales
+      salesUnsubscribeRef.current = store.sales.subscribe({ ...salesRangeRef.current, limit: SALES_PAGE_SIZE }, (sales) => {
+        console.log(`📊 Loaded ${sales.length} sales from ${store.kind} store`);
+
+        // A new sale pushes the oldest one out of the live page: keep it with the older pages
+        const pageEnd = sales[sales.length - 1];
+        if (pageEnd && olderSalesRef.current.length > 0) {
+          const ids = new Set(sales.map(sale => sale.id));
+          const pushedOut = latestSalesRef.current.filter(sale =>
+            !ids.has(sale.id) && sale.date.getTime() <= pageEnd.date.getTime()
+          );
+          olderSalesRef.current = [...pushedOut, ...olderSalesRef.current];
+        }
 
-        console.log(`📊 Loaded ${sales.length} sales from Firebase`);
-        setRegisterSales(sales);
-        calculateDashboardStats(sales);
+        latestSalesRef.current = sales;
+        lastPageFullRef.current = sales.length === SALES_PAGE_SIZE;
+        applyLoadedSales();
         setLoading(false);
       }, (error) => {
         console.error('Error loading sales:', error);
@@ -103,6 +257,8 @@ export function useFirebaseData() {
         calculateDashboardStats(mockSales);
         setLoading(false);
       });
+
+      refreshSalesCount();
     } catch (error) {
       console.error('Erreur lors du chargement des ventes:', error);
       // Fallback to mock data
@@ -112,32 +268,109 @@ export function useFirebaseData() {
     }
   };
 
+  // ✅ NEW: Fetch the next page of older sales in the current range
+  const loadOlderSales = async (): Promise<number> => {
+    const oldest = loadedSalesRef.current[loadedSalesRef.current.length - 1];
+    if (!oldest || isLoadingMoreRef.current || !hasMoreSales()) return 0;
+
+    isLoadingMoreRef.current = true;
+    setSalesWindow(prev => ({ ...prev, isLoadingMore: true }));
+
+    try {
+      const page = await store.sales.listPage(
+        { ...salesRangeRef.current, limit: SALES_PAGE_SIZE },
+        { date: oldest.date, id: oldest.id }
+      );
+      console.log(`📜 Loaded ${page.sales.length} older sales`);
+
+      olderSalesRef.current = [...olderSalesRef.current, ...page.sales];
+      lastPageFullRef.current = page.nextCursor !== null;
+      applyLoadedSales();
+      return page.sales.length;
+    } catch (error) {
+      console.error('❌ Error loading older sales:', error);
+      return 0;
+    } finally {
+      isLoadingMoreRef.current = false;
+      setSalesWindow(prev => ({ ...prev, isLoadingMore: false }));
+    }
+  };
+
+  // ✅ NEW: Keep loading older pages until the window reaches the given date
+  const loadSalesUntil = async (date: Date) => {
+    while (hasMoreSales()) {
+      const oldest = loadedSalesRef.current[loadedSalesRef.current.length - 1];
+      if (!oldest || oldest.date < date) break;
+
+      const loadedCount = await loadOlderSales();
+      if (loadedCount === 0) break;
+    }
+  };
+
+  // ✅ NEW: Restrict the sales feed to a date range (both bounds optional)
+  const setSalesDateRange = async (range: SalesDateRange) => {
+    salesRangeRef.current = range;
+    totalSalesCountRef.current = null;
+    await loadRegisterSales();
+  };
+
+  const invalidateStockSales = () => {
+    stockSalesCacheRef.current = null;
+  };
+
+  // Cached history with the loaded window laid over it, so sales added or removed
+  // by other clients in that window are taken into account
+  const withLoadedSales = (history: RegisterSale[], from?: Date) => {
+    const loaded = loadedSalesRef.current;
+    const oldest = loaded[loaded.length - 1];
+    if (!oldest) return history;
+
+    const to = salesRangeRef.current.to;
+    const loadedIds = new Set(loaded.map(sale => sale.id));
+    const isCoveredByWindow = (sale: RegisterSale) => sale.date > oldest.date && (!to || sale.date <= to);
+    return [
+      ...history.filter(sale => !loadedIds.has(sale.id) && !isCoveredByWindow(sale)),
+      ...loaded.filter(sale => !from || sale.date >= from)
+    ];
+  };
+
+  // Stock needs every sale since each product's initial stock date, whatever
+  // window is loaded for display. The history is read once, then again only when
+  // an older stock date needs more of it or after this client writes sales.
+  const loadSalesForStock = async (productsToCheck: Product[]): Promise<RegisterSale[] | null> => {
+    if (isFullSalesHistoryLoaded()) return registerSales;
+
+    const stockDates = productsToCheck.map(product =>
+      product.initialStockDate ? parseISO(product.initialStockDate) : null
+    );
+    const from = stockDates.every(date => date && isValid(date))
+      ? startOfDay(new Date(Math.min(...stockDates.map(date => date!.getTime()))))
+      : undefined;
+
+    const cached = stockSalesCacheRef.current;
+    if (cached && (!cached.from || (from && cached.from <= from))) {
+      return withLoadedSales(from ? cached.sales.filter(sale => sale.date >= from) : cached.sales, from);
+    }
+
+    try {
+      const sales = await store.sales.list({ from });
+      stockSalesCacheRef.current = { from, sales };
+      console.log(`📚 Loaded ${sales.length} sales${from ? ` since ${format(from, 'dd/MM/yyyy')}` : ''} for stock calculation`);
+      return withLoadedSales(sales, from);
+    } catch (error) {
+      console.error('❌ Error loading sales history for stock calculation:', error);
+      return null;
+    }
+  };
+
   const loadProducts = async () => {
     try {
-      const productsCollection = collection(db, COLLECTIONS.PRODUCTS);
-      // Use onSnapshot for real-time updates
-      return onSnapshot(
-        query(productsCollection, orderBy('name')),
-        (snapshot) => {
-          const products: Product[] = [];
-          
-          snapshot.forEach((doc) => {
-            const data = doc.data() as FirestoreProduct;
-            products.push({
-              id: doc.id,
-              name: data.name,
-              category: data.category,
-              price: data.price,
-              stock: data.stock,
-              initialStock: data.initialStock || data.stock,
-              initialStockDate: data.initialStockDate,
-              quantitySold: data.quantitySold || 0,
-              minStock: data.minStock,
-              description: data.description
-            });
-          });
-      
-          console.log(`📦 Loaded ${products.length} products from Firebase`);
+      productsUnsubscribeRef.current?.();
+
+      // Subscribe for real-time updates
+      productsUnsubscribeRef.current = store.products.subscribe(
+        (products) => {
+          console.log(`📦 Loaded ${products.length} products from ${store.kind} store`);
           setProducts(products);
         },
         (error) => {
@@ -152,64 +385,189 @@ export function useFirebaseData() {
     }
   };
 
-  // Enhanced product matching function
-  const normalizeProductName = (name: string): string => {
-    return name
-      .toLowerCase()
-      .trim()
-      .replace(/\s+/g, ' ') // Normalize spaces
-      .replace(/[^\w\s]/g, '') // Remove special characters except spaces
-      .replace(/\b(100s?|20s?|25s?)\b/g, '') // Remove common suffixes like 100S, 20, 25
-      .trim();
+  const loadStockMovements = () => {
+    movementsUnsubscribeRef.current?.();
+
+    movementsUnsubscribeRef.current = store.stockMovements.subscribe(
+      (movements) => {
+        console.log(`📒 Loaded ${movements.length} stock movements from ${store.kind} store`);
+        setStockMovements(movements);
+      },
+      (error) => {
+        console.error('Error loading stock movements:', error);
+      });
   };
 
-  const findMatchingProduct = (saleName: string, saleCategory: string, products: Product[]): Product | null => {
-    const normalizedSaleName = normalizeProductName(saleName);
-    const normalizedSaleCategory = saleCategory.toLowerCase().trim();
+  const loadInventorySessions = () => {
+    inventoryUnsubscribeRef.current?.();
 
-    // Try exact match first
-    let match = products.find(product => 
-      normalizeProductName(product.name) === normalizedSaleName &&
-      product.category.toLowerCase().trim() === normalizedSaleCategory
-    );
+    inventoryUnsubscribeRef.current = store.inventorySessions.subscribe(
+      (sessions) => {
+        console.log(`📋 Loaded ${sessions.length} inventory sessions from ${store.kind} store`);
+        setInventorySessions(sessions);
+      },
+      (error) => {
+        console.error('Error loading inventory sessions:', error);
+      });
+  };
+
+  const loadPurchasing = () => {
+    suppliersUnsubscribeRef.current?.();
+    ordersUnsubscribeRef.current?.();
+
+    suppliersUnsubscribeRef.current = store.suppliers.subscribe(
+      (suppliers) => {
+        console.log(`🚚 Loaded ${suppliers.length} suppliers from ${store.kind} store`);
+        setSuppliers(suppliers);
+      },
+      (error) => {
+        console.error('Error loading suppliers:', error);
+      });
 
-    if (match) return match;
+    ordersUnsubscribeRef.current = store.purchaseOrders.subscribe(
+      (orders) => {
+        console.log(`🧾 Loaded ${orders.length} purchase orders from ${store.kind} store`);
+        setPurchaseOrders(orders);
+      },
+      (error) => {
+        console.error('Error loading purchase orders:', error);
+      });
+  };
 
-    // Try partial match on product name with same category
-    match = products.find(product => {
-      const normalizedProductName = normalizeProductName(product.name);
-      const normalizedProductCategory = product.category.toLowerCase().trim();
-      
-      return (
-        normalizedProductCategory === normalizedSaleCategory &&
-        (normalizedProductName.includes(normalizedSaleName) || 
-         normalizedSaleName.includes(normalizedProductName))
-      );
-    });
+  const loadExpenses = () => {
+    expensesUnsubscribeRef.current?.();
+    expensesUnsubscribeRef.current = store.expenses.subscribe(
+      (expenses) => {
+        console.log(`💸 Loaded ${expenses.length} expenses from ${store.kind} store`);
+        setExpenses(expenses);
+      },
+      (error) => {
+        console.error('Error loading expenses:', error);
+      });
+  };
 
-    if (match) return match;
+  const loadRegisterSessions = () => {
+    registerSessionsUnsubscribeRef.current?.();
+    registerSessionsUnsubscribeRef.current = store.registerSessions.subscribe(
+      (sessions) => {
+        console.log(`🏧 Loaded ${sessions.length} register sessions from ${store.kind} store`);
+        setRegisterSessions(sessions);
+      },
+      (error) => {
+        console.error('Error loading register sessions:', error);
+      });
+  };
 
-    // Try fuzzy match - check if main words are present
-    match = products.find(product => {
-      const normalizedProductName = normalizeProductName(product.name);
-      const normalizedProductCategory = product.category.toLowerCase().trim();
-      
-      if (normalizedProductCategory !== normalizedSaleCategory) return false;
-      
-      const saleWords = normalizedSaleName.split(' ').filter(word => word.length > 2);
-      const productWords = normalizedProductName.split(' ').filter(word => word.length > 2);
-      
-      // Check if at least 70% of words match
-      const matchingWords = saleWords.filter(saleWord => 
-        productWords.some(productWord => 
-          productWord.includes(saleWord) || saleWord.includes(productWord)
-        )
-      );
-      
-      return matchingWords.length >= Math.ceil(saleWords.length * 0.7);
-    });
+  const loadSalesTargets = () => {
+    salesTargetsUnsubscribeRef.current?.();
+    salesTargetsUnsubscribeRef.current = store.salesTargets.subscribe(
+      (targets) => {
+        console.log(`🎯 Loaded ${targets.length} sales targets from ${store.kind} store`);
+        setSalesTargets(targets);
+      },
+      (error) => {
+        console.error('Error loading sales targets:', error);
+      });
+  };
+
+  const loadStores = () => {
+    storesUnsubscribeRef.current?.();
+    storesUnsubscribeRef.current = store.stores.subscribe(
+      (loadedStores) => {
+        console.log(`🏬 Loaded ${loadedStores.length} stores from ${store.kind} store`);
+        setStores(loadedStores);
+      },
+      (error) => {
+        console.error('Error loading stores:', error);
+      });
+  };
+
+  const loadStockTransfers = () => {
+    transfersUnsubscribeRef.current?.();
+    transfersUnsubscribeRef.current = store.stockTransfers.subscribe(
+      (transfers) => {
+        console.log(`🔁 Loaded ${transfers.length} stock transfers from ${store.kind} store`);
+        setStockTransfers(transfers);
+      },
+      (error) => {
+        console.error('Error loading stock transfers:', error);
+      });
+  };
+
+  // Ledger entries stamped with the current user; zero quantities are left out
+  const toStockMovements = (entries: PendingStockMovement[]): Omit<StockMovement, 'id'>[] =>
+    entries
+      .filter(entry => entry.quantity !== 0)
+      .map(({ product, context, quantity }) => ({
+        productId: product.id,
+        productName: product.name,
+        category: product.category,
+        type: context.type,
+        quantity,
+        date: context.date || new Date(),
+        reference: context.reference,
+        reason: context.reason,
+        reasonCode: context.reasonCode,
+        note: context.note,
+        unitCost: context.unitCost,
+        storeId: context.storeId,
+        userId: user?.id,
+        userName: user?.name,
+        createdAt: new Date()
+      }));
+
+  // ✅ NEW: Append entries to the stock ledger, stamped with the current user
+  const recordStockMovements = async (entries: PendingStockMovement[]): Promise<boolean> => {
+    const movements = toStockMovements(entries);
+    if (movements.length === 0) return true;
+
+    try {
+      await store.stockMovements.addMany(movements);
+      console.log(`📒 ${movements.length} stock movements recorded`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error recording stock movements:', error);
+      return false;
+    }
+  };
+
+  const getInitialStockDate = (product: Omit<Product, 'id'>) => {
+    const stockDate = product.initialStockDate ? parseISO(product.initialStockDate) : null;
+    return stockDate && isValid(stockDate) ? stockDate : new Date();
+  };
+
+  // Opening entries for newly created products
+  const recordInitialStock = (created: Product[], context?: StockMovementContext) =>
+    recordStockMovements(created.map(product => ({
+      product,
+      context: {
+        type: 'initial',
+        reason: 'Création du produit',
+        reference: product.id,
+        date: getInitialStockDate(product),
+        ...context
+      },
+      quantity: context?.quantity ?? (product.initialStock ?? product.stock)
+    })));
+
+  // Catalog product of a sale, joined on its product id first
+  const findSaleProduct = (sale: Pick<RegisterSale, 'product' | 'category' | 'productId' | 'productCode'>) =>
+    resolveSaleProduct(createProductIndex(products), sale);
+
+  // Ledger entries giving back or taking `quantity` items of a sale: its product, or the
+  // components of a bundle in the composition it was sold with
+  const getSaleStockEntries = (sale: RegisterSale, context: StockMovementContext, quantity: number): PendingStockMovement[] => {
+    const productIndex = createProductIndex(products);
+    const product = resolveSaleProduct(productIndex, sale);
+    return product
+      ? getSaleStockItems(sale, product, productIndex).map(item => ({ product: item.product, context, quantity: quantity * item.quantity }))
+      : [];
+  };
 
-    return match || null;
+  // Products without a SKU get the next free generated ones
+  const withSkus = <T extends Pick<Product, 'sku' | 'name'>>(newProducts: T[]): T[] => {
+    const skus = generateSkus([...products, ...newProducts], newProducts.filter(product => !product.sku).length);
+    return newProducts.map(product => product.sku ? product : { ...product, sku: skus.shift() });
   };
 
   // ✅ NEW: Auto-sync products from sales data
@@ -218,8 +576,12 @@ export function useFirebaseData() {
     summary: string;
   }> => {
     console.log('🔄 Starting auto-sync of products from sales data...');
-    
-    if (registerSales.length === 0) {
+
+    const historySales = isFullSalesHistoryLoaded()
+      ? registerSales
+      : await store.sales.list();
+
+    if (historySales.length === 0) {
       console.log('⚠️ No sales data available for sync');
       return { created: [], summary: 'Aucune donnée de vente disponible pour la synchronisation.' };
     }
@@ -235,9 +597,9 @@ export function useFirebaseData() {
       salesCount: number;
     }>();
 
-    registerSales.forEach(sale => {
+    historySales.forEach(sale => {
       // Create a unique key for each product-category combination
-      const productKey = `${sale.product.trim().toLowerCase()}|${sale.category.trim().toLowerCase()}`;
+      const productKey = getProductSignature(sale.product, sale.category);
       
       if (salesProductMap.has(productKey)) {
         const existing = salesProductMap.get(productKey)!;
@@ -267,8 +629,9 @@ export function useFirebaseData() {
       productKey: string;
     }> = [];
 
+    const productIndex = createProductIndex(products);
     salesProductMap.forEach((salesData, productKey) => {
-      const matchingProduct = findMatchingProduct(salesData.name, salesData.category, products);
+      const matchingProduct = resolveSaleProduct(productIndex, { product: salesData.name, category: salesData.category });
       
       if (!matchingProduct) {
         console.log(`❌ Missing product in stock: "${salesData.name}" (${salesData.category})`);
@@ -288,56 +651,37 @@ export function useFirebaseData() {
     }
 
     // Step 3: Create missing products
-    const createdProducts: Product[] = [];
-    const BATCH_SIZE = 200;
+    const newProducts: Omit<Product, 'id'>[] = withSkus(missingProducts.map(({ salesData }) => {
+      // Estimate initial stock based on sales data
+      const estimatedInitialStock = Math.max(salesData.totalQuantitySold, 10); // At least 10 or total sold
+      const currentStock = 0; // Default to 0 since we don't know current inventory
+      const minStock = Math.max(Math.ceil(salesData.totalQuantitySold / 10), 5); // 10% of sold or minimum 5
+
+      return {
+        name: salesData.name,
+        category: salesData.category,
+        price: Math.round(salesData.averagePrice * 100) / 100, // Round to 2 decimals
+        stock: currentStock,
+        initialStock: estimatedInitialStock,
+        quantitySold: salesData.totalQuantitySold,
+        minStock: minStock,
+        description: `Auto-créé depuis les ventes (${salesData.salesCount} ventes, première: ${salesData.firstSaleDate.toLocaleDateString('fr-FR')})`
+      };
+    }));
     
     try {
-      // Process in batches
-      for (let i = 0; i < missingProducts.length; i += BATCH_SIZE) {
-        const batch = missingProducts.slice(i, i + BATCH_SIZE);
-        const writeBatchRef = writeBatch(db);
-        const productsCollection = collection(db, COLLECTIONS.PRODUCTS);
-        
-        batch.forEach(({ salesData }) => {
-          const docRef = doc(productsCollection);
-          
-          // Estimate initial stock based on sales data
-          const estimatedInitialStock = Math.max(salesData.totalQuantitySold, 10); // At least 10 or total sold
-          const currentStock = 0; // Default to 0 since we don't know current inventory
-          const minStock = Math.max(Math.ceil(salesData.totalQuantitySold / 10), 5); // 10% of sold or minimum 5
-          
-          const newProduct: Omit<FirestoreProduct, 'id'> = {
-            name: salesData.name,
-            category: salesData.category,
-            price: Math.round(salesData.averagePrice * 100) / 100, // Round to 2 decimals
-            stock: currentStock,
-            initialStock: estimatedInitialStock,
-            quantitySold: salesData.totalQuantitySold,
-            minStock: minStock,
-            description: `Auto-créé depuis les ventes (${salesData.salesCount} ventes, première: ${salesData.firstSaleDate.toLocaleDateString('fr-FR')})`,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          };
-
-          writeBatchRef.set(docRef, newProduct);
-          
-          // Add to created products list for return
-          createdProducts.push({
-            id: docRef.id,
-            name: newProduct.name,
-            category: newProduct.category,
-            price: newProduct.price,
-            stock: newProduct.stock,
-            initialStock: newProduct.initialStock,
-            quantitySold: newProduct.quantitySold,
-            minStock: newProduct.minStock,
-            description: newProduct.description
-          });
-        });
-        
-        await writeBatchRef.commit();
-        console.log(`✅ Batch ${Math.floor(i / BATCH_SIZE) + 1} committed: ${batch.length} products created`);
-      }
+      // The store writes in batches and returns the created ids in order
+      const stored = await store.products.addMany(newProducts);
+      const createdProducts: Product[] = newProducts.map((product, index) => ({
+        ...product,
+        id: stored[index].id
+      }));
+      console.log(`✅ ${createdProducts.length} products created`);
+
+      await recordInitialStock(createdProducts, {
+        type: 'initial',
+        reason: 'Création automatique depuis les ventes'
+      });
 
       // Reload products to include the new ones
       await loadProducts();
@@ -398,7 +742,6 @@ export function useFirebaseData() {
 
   // ✅ ENHANCED: Recalculate all product quantities based on current sales
   const recalculateProductQuantities = async () => {
-    console.log(`🔄 Starting stock recalculation with ${registerSales.length} sales and ${products.length} products...`);
     setIsRecalculating(true);
     
     if (products.length === 0) {
@@ -406,6 +749,16 @@ export function useFirebaseData() {
       setIsRecalculating(false);
       return;
     }
+
+    // Without the full history the result is only shown, never persisted
+    const historySales = await loadSalesForStock(products);
+    const stockSales = historySales || registerSales;
+    const isPartial = historySales === null;
+    setIsStockOnPartialHistory(isPartial);
+    console.log(`🔄 Starting stock recalculation with ${stockSales.length} sales and ${products.length} products...`);
+    const storeScopes = stores.map(s => getStoreScope(stores, s.id)!);
+    const bundles = getBundles(products);
+    const catalogIndex = createProductIndex(products);
     
     // Process products in chunks to avoid UI freezing
     const CHUNK_SIZE = 50;
@@ -426,7 +779,7 @@ export function useFirebaseData() {
         setTimeout(() => {
           chunk.forEach((product, productIndex) => {
             const actualIndex = i * CHUNK_SIZE + productIndex;
-            const calculation = calculateStockFinal(product, registerSales);
+            const calculation = calculateStockFinal(product, stockSales, stockMovements, undefined, bundles, catalogIndex);
             
             // Ensure we have an initial stock value
             const initialStock = product.initialStock || product.stock + (product.quantitySold || 0);
@@ -434,12 +787,19 @@ export function useFirebaseData() {
             // Use calculated values from the new system
             const totalQuantitySold = calculation.validSales.reduce((sum, sale) => sum + sale.quantity, 0);
             const finalStock = calculation.finalStock;
+            const stockByStore = storeScopes.length > 0
+              ? Object.fromEntries(storeScopes.map(scope => [
+                scope.storeId,
+                calculateStockFinal({ ...product, initialStock }, stockSales, stockMovements, scope, bundles, catalogIndex).finalStock
+              ]))
+              : undefined;
             
             updatedProducts[actualIndex] = {
               ...product,
               initialStock,
               quantitySold: totalQuantitySold,
-              stock: finalStock
+              stock: finalStock,
+              stockByStore
             };
             
             // Log significant changes
@@ -457,40 +817,62 @@ export function useFirebaseData() {
       }
     }
 
+    // Bundles hold no stock of their own: they are available as long as their components are
+    const componentsById = new Map(updatedProducts.map(product => [product.id, product]));
+    updatedProducts.forEach((product, index) => {
+      if (!isBundle(product)) return;
+      const stockByStore = product.stockByStore && Object.fromEntries(Object.keys(product.stockByStore).map(storeId => [
+        storeId,
+        calculateBundleAvailability(product, id => componentsById.get(id)?.stockByStore?.[storeId] || 0)
+      ]));
+      updatedProducts[index] = {
+        ...product,
+        stock: calculateBundleAvailability(product, id => componentsById.get(id)?.stock || 0),
+        stockByStore
+      };
+    });
+
     // ✅ CRITICAL: Update local state immediately
     setProducts(updatedProducts);
 
-    // Update Firebase for products that changed using batch operations
+    if (isPartial) {
+      console.warn('⚠️ Stock computed on the loaded sales window only - not saved');
+      generateAlerts();
+      setIsRecalculating(false);
+      return;
+    }
+
+    // Persist products that changed using batch operations
     try {
-      const batch = writeBatch(db);
-      let hasChanges = false;
+      const changes: Array<{ id: string; updates: Partial<Product> }> = [];
 
       updatedProducts.forEach((updatedProduct, index) => {
         const originalProduct = products[index];
         if (originalProduct && 
             (originalProduct.quantitySold !== updatedProduct.quantitySold || 
              originalProduct.stock !== updatedProduct.stock ||
-             originalProduct.initialStock !== updatedProduct.initialStock)) {
-          
-          const productRef = doc(db, COLLECTIONS.PRODUCTS, updatedProduct.id);
-          batch.update(productRef, {
-            quantitySold: updatedProduct.quantitySold,
-            stock: updatedProduct.stock,
-            initialStock: updatedProduct.initialStock,
-            updatedAt: new Date().toISOString()
+             originalProduct.initialStock !== updatedProduct.initialStock ||
+             JSON.stringify(originalProduct.stockByStore) !== JSON.stringify(updatedProduct.stockByStore))) {
+          changes.push({
+            id: updatedProduct.id,
+            updates: {
+              quantitySold: updatedProduct.quantitySold,
+              stock: updatedProduct.stock,
+              initialStock: updatedProduct.initialStock,
+              ...(updatedProduct.stockByStore && { stockByStore: updatedProduct.stockByStore })
+            }
           });
-          hasChanges = true;
         }
       });
 
-      if (hasChanges) {
-        await batch.commit();
-        console.log('✅ Product quantities updated in Firebase');
+      if (changes.length > 0) {
+        await store.products.updateMany(changes);
+        console.log('✅ Product quantities updated in store');
       } else {
         console.log('ℹ️ No product quantity changes to save');
       }
     } catch (error) {
-      console.error('❌ Error updating product quantities in Firebase:', error);
+      console.error('❌ Error updating product quantities in store:', error);
     }
 
     // Regenerate alerts after stock changes
@@ -588,47 +970,29 @@ export function useFirebaseData() {
     try {
       console.log(`🔥 Starting batch import of ${sales.length} sales...`);
       
-      const BATCH_SIZE = 200;
-      const batches = [];
-      
-      // Split sales into batches of 200
-      for (let i = 0; i < sales.length; i += BATCH_SIZE) {
-        batches.push(sales.slice(i, i + BATCH_SIZE));
-      }
-      
-      console.log(`📦 Split into ${batches.length} batches of max ${BATCH_SIZE} rows each`);
-      
-      // Process each batch
-      for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-        const batch = batches[batchIndex];
-        console.log(`🔄 Processing batch ${batchIndex + 1}/${batches.length} (${batch.length} rows)...`);
-        
-        const writeBatchRef = writeBatch(db);
-        const salesCollection = collection(db, COLLECTIONS.REGISTER_SALES);
-        
-        // Add all sales in this batch to the write batch
-        batch.forEach(sale => {
-          const docRef = doc(salesCollection);
-          const saleData: Omit<FirestoreRegisterSale, 'id'> = {
-            product: sale.product,
-            category: sale.category,
-            register: sale.register,
-            date: sale.date.toISOString(),
-            seller: sale.seller,
-            quantity: sale.quantity,
-            price: sale.price,
-            total: sale.total,
-            createdAt: new Date().toISOString()
-          };
-          writeBatchRef.set(docRef, saleData);
-        });
-        
-        // Commit this batch
-        await writeBatchRef.commit();
-        console.log(`✅ Batch ${batchIndex + 1} committed successfully (${batch.length} sales)`);
-      }
+      // Every sale is linked to its catalog product before it is stored, bundles with their composition
+      const productIndex = createProductIndex(products);
+      const linkedSales = sales.map(sale => {
+        const product = resolveSaleProduct(productIndex, sale);
+        return product ? { ...sale, productId: product.id, ...getBundleSnapshot(product) } : sale;
+      });
+
+      // The store splits the write into batches of 200 rows
+      const created = await store.sales.addMany(linkedSales);
+      invalidateStockSales();
 
-      console.log(`🎉 All ${sales.length} sales imported successfully in ${batches.length} batches`);
+      console.log(`🎉 All ${sales.length} sales imported successfully`);
+
+      // One ledger entry per product, store and day of the import rather than one per line
+      const importReference = `sales-import-${Date.now()}`;
+      const dailySales = summarizeDailySales(created, productIndex, stores);
+      await recordStockMovements(dailySales.map(({ product, storeId, date, quantity }) => ({
+        product,
+        context: { type: 'sale', reason: 'Import des ventes', reference: importReference, date, storeId },
+        quantity
+      })));
+      const matchedCount = created.filter(sale => sale.productId).length;
+      console.log(`📒 Sales import ${importReference}: ${matchedCount}/${created.length} sales matched to a product`);
 
       // Reload sales data to ensure synchronization
       await loadRegisterSales();
@@ -637,8 +1001,8 @@ export function useFirebaseData() {
       console.log('✅ Sales import completed - quantities will be recalculated automatically');
       return true;
     } catch (error) {
-      console.error('❌ Error adding sales to Firebase:', error);
-      // Fallback: add locally if Firebase is not available
+      console.error('❌ Error adding sales to store:', error);
+      // Fallback: add locally if the store is not available
       const newSales = sales.map(sale => ({
         ...sale,
         id: Math.random().toString(36).substr(2, 9)
@@ -652,53 +1016,16 @@ export function useFirebaseData() {
   };
 
   // ✅ NEW: Batch import for products with 200 rows per batch
-  const addProducts = async (products: Omit<Product, 'id'>[]) => {
+  const addProducts = async (products: Omit<Product, 'id'>[], movement?: StockMovementContext) => {
     try {
       console.log(`🔥 Starting batch import of ${products.length} products...`);
       
-      const BATCH_SIZE = 200;
-      const batches = [];
-      
-      // Split products into batches of 200
-      for (let i = 0; i < products.length; i += BATCH_SIZE) {
-        batches.push(products.slice(i, i + BATCH_SIZE));
-      }
-      
-      console.log(`📦 Split into ${batches.length} batches of max ${BATCH_SIZE} rows each`);
-      
-      // Process each batch
-      for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-        const batch = batches[batchIndex];
-        console.log(`🔄 Processing batch ${batchIndex + 1}/${batches.length} (${batch.length} rows)...`);
-        
-        const writeBatchRef = writeBatch(db);
-        const productsCollection = collection(db, COLLECTIONS.PRODUCTS);
-        
-        // Add all products in this batch to the write batch
-        batch.forEach(product => {
-          const docRef = doc(productsCollection);
-          const productData: Omit<FirestoreProduct, 'id'> = {
-            name: product.name,
-            category: product.category,
-            price: product.price,
-            stock: product.stock,
-            initialStock: product.initialStock || product.stock,
-            initialStockDate: product.initialStockDate,
-            quantitySold: 0, // Always start with 0, will be calculated from sales
-            minStock: product.minStock,
-            description: product.description || '',
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          };
-          writeBatchRef.set(docRef, productData);
-        });
-        
-        // Commit this batch
-        await writeBatchRef.commit();
-        console.log(`✅ Batch ${batchIndex + 1} committed successfully (${batch.length} products)`);
-      }
+      // The store splits the write into batches of 200 rows
+      const created = await store.products.addMany(withSkus(products));
 
-      console.log(`🎉 All ${products.length} products imported successfully in ${batches.length} batches`);
+      console.log(`🎉 All ${products.length} products imported successfully`);
+
+      await recordInitialStock(created, movement);
 
       // Reload products data
       await loadProducts();
@@ -709,9 +1036,9 @@ export function useFirebaseData() {
       console.log('✅ Products import completed');
       return true;
     } catch (error) {
-      console.error('❌ Error adding products to Firebase:', error);
+      console.error('❌ Error adding products to store:', error);
       
-      // Fallback: add locally if Firebase is not available
+      // Fallback: add locally if the store is not available
       const newProducts = products.map(product => ({
         ...product,
         id: Math.random().toString(36).substr(2, 9),
@@ -727,24 +1054,11 @@ export function useFirebaseData() {
     }
   };
 
-  const addProduct = async (product: Omit<Product, 'id'>) => {
+  const addProduct = async (product: Omit<Product, 'id'>, movement?: StockMovementContext) => {
     try {
-      const productsCollection = collection(db, COLLECTIONS.PRODUCTS);
-      const productData: Omit<FirestoreProduct, 'id'> = {
-        name: product.name,
-        category: product.category,
-        price: product.price,
-        stock: product.stock,
-        initialStock: product.initialStock || product.stock,
-        initialStockDate: product.initialStockDate,
-        quantitySold: 0, // Always start with 0, will be calculated from sales
-        minStock: product.minStock,
-        description: product.description || '',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      await addDoc(productsCollection, productData);
+      const [productWithSku] = withSkus([product]);
+      const created = await store.products.add(productWithSku);
+      await recordInitialStock([created], movement);
       await loadProducts();
       
       // Recalculate quantities for the new product
@@ -766,16 +1080,36 @@ export function useFirebaseData() {
     }
   };
 
-  const updateProduct = async (id: string, updates: Partial<Product>) => {
+  // Stock change caused by an update, using the full sales history needed by both versions
+  const getStockChange = async (current: Product, updated: Product) => {
+    const history = (await loadSalesForStock([current, updated])) || registerSales;
+    const bundles = getBundles(products);
+    // The update may rename the product: unlinked sales then resolve through its new name
+    const before = calculateStockFinal(current, history, stockMovements, undefined, bundles, createProductIndex(products)).finalStock;
+    const updatedIndex = createProductIndex(products.map(product => product.id === updated.id ? updated : product));
+    const after = calculateStockFinal(updated, history, stockMovements, undefined, bundles, updatedIndex).finalStock;
+    return { after, quantity: after - before };
+  };
+
+  const updateProduct = async (id: string, updates: Partial<Product>, movement?: StockMovementContext) => {
+    const current = products.find(p => p.id === id);
+
     try {
-      const productRef = doc(db, COLLECTIONS.PRODUCTS, id);
-      const updateData: Partial<FirestoreProduct> = {
-        ...updates,
-        initialStockDate: updates.initialStockDate,
-        updatedAt: new Date().toISOString()
-      };
+      if (current && movement) {
+        let quantity = movement.quantity;
+        if (quantity === undefined) {
+          // Manual edits send a placeholder stock: derive the real one from the new configuration
+          const change = await getStockChange(current, { ...current, ...updates });
+          updates = { ...updates, stock: change.after };
+          quantity = change.quantity;
+        }
 
-      await updateDoc(productRef, updateData);
+        // The product and its ledger entry are written together
+        const movements = toStockMovements([{ product: current, context: movement, quantity }]);
+        await store.products.updateWithMovements(id, updates, movements);
+      } else {
+        await store.products.update(id, updates);
+      }
       
       // Update local state immediately
       setProducts(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
@@ -789,196 +1123,1127 @@ export function useFirebaseData() {
     }
   };
 
-  // ✅ NEW: Update sale function
-  const updateSale = async (id: string, updates: Partial<RegisterSale>): Promise<boolean> => {
+  // ✅ NEW: Accept reorder point suggestions as the minimum stock of several products at once
+  const applyMinStocks = async (changes: Array<{ productId: string; minStock: number }>): Promise<boolean> => {
+    if (changes.length === 0) return false;
+
     try {
-      const saleRef = doc(db, COLLECTIONS.REGISTER_SALES, id);
-      const updateData: Partial<FirestoreRegisterSale> = {};
-      
-      if (updates.product) updateData.product = updates.product;
-      if (updates.category) updateData.category = updates.category;
-      if (updates.register) updateData.register = updates.register;
-      if (updates.date) updateData.date = updates.date.toISOString();
-      if (updates.seller) updateData.seller = updates.seller;
-      if (updates.quantity !== undefined) updateData.quantity = updates.quantity;
-      if (updates.price !== undefined) updateData.price = updates.price;
-      if (updates.total !== undefined) updateData.total = updates.total;
-
-      await updateDoc(saleRef, updateData);
-      
-      // Update local state immediately
-      setRegisterSales(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
-      
-      console.log('✅ Sale updated successfully');
+      await store.products.updateMany(changes.map(({ productId, minStock }) => ({ id: productId, updates: { minStock } })));
+
+      const minStocks = new Map(changes.map(({ productId, minStock }) => [productId, minStock]));
+      setProducts(prev => prev.map(p => minStocks.has(p.id) ? { ...p, minStock: minStocks.get(p.id)! } : p));
+
+      await generateAlerts();
+      console.log(`📦 Minimum stock updated for ${changes.length} products`);
       return true;
     } catch (error) {
-      console.error('❌ Error updating sale:', error);
-      // Fallback: update locally
-      setRegisterSales(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+      console.error('❌ Error updating minimum stocks:', error);
       return false;
     }
   };
 
-  // ✅ FIXED: Categorize sales function - Now updates the actual category field WITHOUT reload
-  const categorizeSales = async (saleIds: string[], category: string, subcategory?: string): Promise<boolean> => {
+  // ✅ NEW: Mark dead stock as discontinued or flag it for a promotion, several products at once
+  const updateProductFlags = async (
+    productIds: string[],
+    flags: Pick<Product, 'discontinued' | 'promotionFlag'>
+  ): Promise<boolean> => {
+    if (productIds.length === 0) return false;
+
     try {
-      console.log(`🏷️ Categorizing ${saleIds.length} sales with category: ${category}${subcategory ? `, subcategory: ${subcategory}` : ''}`);
-      
-      const BATCH_SIZE = 200;
-      const batches = [];
-      
-      // Split into batches of 200
-      for (let i = 0; i < saleIds.length; i += BATCH_SIZE) {
-        batches.push(saleIds.slice(i, i + BATCH_SIZE));
-      }
-      
-      console.log(`📦 Split into ${batches.length} batches of max ${BATCH_SIZE} rows each`);
-      
-      // Process each batch
-      for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-        const batch = batches[batchIndex];
-        console.log(`🔄 Processing categorization batch ${batchIndex + 1}/${batches.length} (${batch.length} sales)...`);
-        
-        const writeBatchRef = writeBatch(db);
-        
-        batch.forEach(id => {
-          const saleRef = doc(db, COLLECTIONS.REGISTER_SALES, id);
-          
-          // ✅ CRITICAL FIX: Update the actual category field, not just metadata
-          const updateData: Partial<FirestoreRegisterSale> = {
-            category: category, // ✅ This is the key fix - update the actual category field
-            // Also store categorization metadata for tracking
-            category_metadata: {
-              category,
-              subcategory: subcategory || null,
-              categorized_at: new Date().toISOString(),
-              categorized_by: 'user'
-            }
-          };
-          
-          writeBatchRef.update(saleRef, updateData);
-        });
-        
-        await writeBatchRef.commit();
-        console.log(`✅ Categorization batch ${batchIndex + 1} committed successfully (${batch.length} sales)`);
-      }
-      
-      console.log(`🎉 All ${saleIds.length} sales categorized successfully`);
-      
-      // ✅ CRITICAL: Update local state immediately to reflect the changes
-      setRegisterSales(prev => prev.map(sale => 
-        saleIds.includes(sale.id) 
-          ? { ...sale, category: category } // Update the category in local state
-          : sale
-      ));
-      
-      // ✅ CRITICAL: Reload sales data to ensure synchronization with Firestore
-      // BUT DO NOT RELOAD THE ENTIRE APP - just refresh the data
-      console.log('🔄 Reloading sales data to reflect categorization changes...');
-      await loadRegisterSales();
-      
-      console.log('✅ Sales categorization completed successfully');
+      await store.products.updateMany(productIds.map(id => ({ id, updates: flags })));
+
+      const ids = new Set(productIds);
+      setProducts(prev => prev.map(p => ids.has(p.id) ? { ...p, ...flags } : p));
+
+      console.log(`🏷️ Flags updated for ${productIds.length} products:`, flags);
       return true;
     } catch (error) {
-      console.error('❌ Error categorizing sales:', error);
-      
-      // Fallback: update local state only
-      console.log('🔄 Fallback: Updating local state after categorization error...');
-      setRegisterSales(prev => prev.map(sale => 
-        saleIds.includes(sale.id) 
-          ? { ...sale, category: category }
-          : sale
-      ));
-      
+      console.error('❌ Error updating product flags:', error);
       return false;
     }
   };
 
-  const deleteProduct = async (id: string) => {
+  // ✅ NEW: Gives a SKU to every product and links every sale of the history to its product id
+  const migrateProductIdentity = async (): Promise<{ skusAssigned: number; salesLinked: number; salesUnlinked: number } | null> => {
     try {
-      const productRef = doc(db, COLLECTIONS.PRODUCTS, id);
-      await deleteDoc(productRef);
-      
-      // Update local state immediately
-      setProducts(prev => prev.filter(p => p.id !== id));
-      
-      await generateAlerts();
-      console.log('✅ Product deleted successfully');
+      const missingSku = products.filter(product => !product.sku);
+      const skus = generateSkus(products, missingSku.length);
+      const skuChanges = missingSku.map((product, index) => ({ id: product.id, updates: { sku: skus[index] } }));
+      if (skuChanges.length > 0) {
+        await store.products.updateMany(skuChanges);
+      }
+
+      const historySales = await store.sales.list();
+      const links = getSaleProductLinks(products, historySales);
+      if (links.length > 0) {
+        await store.sales.updateMany(links);
+        invalidateStockSales();
+      }
+
+      const linked = new Map(links.map(({ id, updates }) => [id, updates.productId]));
+      const salesUnlinked = historySales.filter(sale => !sale.productId && !linked.has(sale.id)).length;
+
+      const skusById = new Map(skuChanges.map(({ id, updates }) => [id, updates.sku]));
+      setProducts(prev => prev.map(p => skusById.has(p.id) ? { ...p, sku: skusById.get(p.id) } : p));
+      setRegisterSales(prev => prev.map(s => linked.has(s.id) ? { ...s, productId: linked.get(s.id) } : s));
+
+      console.log(`🔗 Identity migration: ${skuChanges.length} SKUs assigned, ${links.length} sales linked, ${salesUnlinked} without product`);
+      return { skusAssigned: skuChanges.length, salesLinked: links.length, salesUnlinked };
     } catch (error) {
-      console.error('❌ Error deleting product:', error);
-      setProducts(prev => prev.filter(p => p.id !== id));
-      await generateAlerts();
+      console.error('❌ Error migrating product identity:', error);
+      return null;
     }
   };
 
-  const deleteProducts = async (productIds: string[]) => {
+  // ✅ NEW: Registers other spellings of a product and links the sales sold under them
+  const addProductAliases = async (productId: string, names: string[]): Promise<number | null> => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return null;
+
+    const known = new Set([product.name, ...(product.aliases || [])].map(normalizeAlias));
+    const aliases = [...(product.aliases || []), ...names.map(name => name.trim()).filter(name => {
+      const isNew = name !== '' && !known.has(normalizeAlias(name));
+      known.add(normalizeAlias(name));
+      return isNew;
+    })];
+
     try {
-      const BATCH_SIZE = 200;
-      const batches = [];
-      
-      // Split into batches of 200
-      for (let i = 0; i < productIds.length; i += BATCH_SIZE) {
-        batches.push(productIds.slice(i, i + BATCH_SIZE));
-      }
-      
-      // Process each batch
-      for (const batch of batches) {
-        const writeBatchRef = writeBatch(db);
-        
-        batch.forEach(id => {
-          const productRef = doc(db, COLLECTIONS.PRODUCTS, id);
-          writeBatchRef.delete(productRef);
-        });
-        
-        await writeBatchRef.commit();
+      await store.products.update(productId, { aliases });
+      const updatedProducts = products.map(p => p.id === productId ? { ...p, aliases } : p);
+
+      const links = getSaleProductLinks(updatedProducts, await store.sales.list())
+        .filter(({ updates }) => updates.productId === productId);
+      if (links.length > 0) {
+        await store.sales.updateMany(links);
+        invalidateStockSales();
       }
-      
-      // Update local state immediately
-      setProducts(prev => prev.filter(p => !productIds.includes(p.id)));
-      
-      await generateAlerts();
-      console.log(`✅ ${productIds.length} products deleted successfully`);
-      return true;
+
+      const linked = new Set(links.map(({ id }) => id));
+      setProducts(updatedProducts);
+      setRegisterSales(prev => prev.map(s => linked.has(s.id) ? { ...s, productId } : s));
+
+      console.log(`🔗 ${aliases.length} aliases for ${product.name}, ${links.length} sales linked`);
+      return links.length;
     } catch (error) {
-      console.error('❌ Error deleting products:', error);
-      setProducts(prev => prev.filter(p => !productIds.includes(p.id)));
-      await generateAlerts();
+      console.error('❌ Error adding product aliases:', error);
+      return null;
+    }
+  };
+
+  // ✅ NEW: Merges duplicates into one product: sales, names, barcodes, stock and ledger history
+  const mergeProducts = async (targetId: string, sourceIds: string[]): Promise<boolean> => {
+    const target = products.find(p => p.id === targetId);
+    const sources = products.filter(p => sourceIds.includes(p.id) && p.id !== targetId);
+    if (!target || sources.length === 0) return false;
+
+    try {
+      const historySales = await store.sales.list();
+      const plan = planProductMerge(target, sources, products, historySales, stores);
+      const sourceIdSet = new Set(sources.map(source => source.id));
+
+      // The source's stock leaves it and reaches the target in the same store
+      const movements = toStockMovements(plan.mergedStock.flatMap(({ source, storeId, quantity }) => [
+        {
+          product: source,
+          context: { type: 'deletion', reason: `Fusion dans ${target.name}`, reference: target.id, storeId },
+          quantity: -quantity
+        },
+        {
+          product: target,
+          context: { type: 'merge', reason: `Fusion de ${source.name}`, reference: source.id, storeId },
+          quantity
+        }
+      ]));
+
+      await store.products.merge({
+        productUpdates: [{ id: targetId, updates: plan.updates }, ...plan.bundleChanges],
+        saleUpdates: plan.movedSales.map(sale => ({ id: sale.id, updates: { productId: targetId } })),
+        movements,
+        deletedProductIds: Array.from(sourceIdSet)
+      });
+      invalidateStockSales();
+
+      const movedIds = new Set(plan.movedSales.map(sale => sale.id));
+      const bundleUpdates = new Map(plan.bundleChanges.map(change => [change.id, change.updates]));
+      setProducts(prev => prev
+        .filter(p => !sourceIdSet.has(p.id))
+        .map(p => p.id === targetId ? { ...p, ...plan.updates } : bundleUpdates.has(p.id) ? { ...p, ...bundleUpdates.get(p.id) } : p));
+      setRegisterSales(prev => prev.map(s => movedIds.has(s.id) ? { ...s, productId: targetId } : s));
+
+      console.log(`🔀 ${sources.length} products merged into ${target.name}: ${plan.movedSales.length} sales, +${plan.addedInitialStock} initial stock`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error merging products:', error);
       return false;
     }
   };
 
-  // ✅ CRITICAL FIX: Enhanced deleteSales function with guaranteed stock recalculation
-  const deleteSales = async (saleIds: string[]) => {
+  // ✅ NEW: Manual stock adjustment with a reason code; the final stock is
+  // recalculated once the movement reaches the ledger
+  const adjustStock = async (productId: string, adjustment: StockAdjustmentInput): Promise<boolean> => {
+    const product = products.find(p => p.id === productId);
+    if (!product || adjustment.quantity === 0) return false;
+
+    console.log(`🔧 Adjusting ${product.name}: ${adjustment.quantity > 0 ? '+' : ''}${adjustment.quantity} (${adjustment.reasonCode})`);
+
+    return recordStockMovements([{
+      product,
+      context: {
+        type: 'adjustment',
+        reason: ADJUSTMENT_REASONS[adjustment.reasonCode],
+        reasonCode: adjustment.reasonCode,
+        note: adjustment.note,
+        reference: adjustment.reference || `adjustment-${Date.now()}`,
+        date: adjustment.date,
+        storeId: adjustment.storeId
+      },
+      quantity: adjustment.quantity
+    }]);
+  };
+
+  // ✅ NEW: Open an inventory count for every product of the selected categories
+  const openInventorySession = async (
+    session: Pick<InventorySession, 'name' | 'categories' | 'blind' | 'countDate' | 'storeId'>
+  ): Promise<InventorySession | null> => {
+    const categories = new Set(session.categories);
+    const lines = products
+      .filter(product => categories.has(product.category))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name))
+      .map(product => ({
+        productId: product.id,
+        productName: product.name,
+        category: product.category,
+        countedQuantity: null
+      }));
+
+    if (lines.length === 0) return null;
+
     try {
-      console.log(`🗑️ Starting deletion of ${saleIds.length} sales...`);
+      const created = await store.inventorySessions.create({
+        ...session,
+        status: 'open',
+        lines,
+        userId: user?.id,
+        userName: user?.name,
+        createdAt: new Date()
+      });
+      console.log(`📋 Inventory session opened: ${created.name} (${lines.length} products)`);
+      return created;
+    } catch (error) {
+      console.error('❌ Error opening inventory session:', error);
+      return null;
+    }
+  };
+
+  // ✅ NEW: Save counted quantities (null clears a count)
+  const saveInventoryCounts = async (
+    sessionId: string,
+    counts: Record<string, number | null>
+  ): Promise<boolean> => {
+    const session = inventorySessions.find(s => s.id === sessionId);
+    if (!session || session.status !== 'open') return false;
+
+    const lines = session.lines.map(line =>
+      line.productId in counts ? { ...line, countedQuantity: counts[line.productId] } : line
+    );
+
+    try {
+      await store.inventorySessions.update(sessionId, { lines });
+      return true;
+    } catch (error) {
+      console.error('❌ Error saving inventory counts:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Variance report against the expected stock at the count date,
+  // calculated on the full sales history
+  const getInventoryVariances = async (sessionId: string) => {
+    const session = inventorySessions.find(s => s.id === sessionId);
+    if (!session) return null;
+
+    const sessionProducts = products.filter(product =>
+      session.lines.some(line => line.productId === product.id)
+    );
+    const stockSales = await loadSalesForStock(sessionProducts);
+    if (!stockSales) return null;
+
+    const storeScope = session.storeId ? getStoreScope(stores, session.storeId) : undefined;
+    return calculateInventoryVariances(session, products, stockSales, stockMovements, storeScope);
+  };
+
+  // ✅ NEW: Post every counted variance as an adjustment in one step and close the session
+  const postInventorySession = async (sessionId: string): Promise<boolean> => {
+    const session = inventorySessions.find(s => s.id === sessionId);
+    if (!session || session.status !== 'open') return false;
+
+    const variances = await getInventoryVariances(sessionId);
+    if (!variances) return false;
+
+    const productsById = new Map(products.map(product => [product.id, product]));
+    const entries: PendingStockMovement[] = variances
+      .filter(variance => variance.counted !== null && variance.variance !== 0 && productsById.has(variance.productId))
+      .map(variance => ({
+        product: productsById.get(variance.productId)!,
+        context: {
+          type: 'adjustment',
+          reason: ADJUSTMENT_REASONS.ecart_inventaire,
+          reasonCode: 'ecart_inventaire',
+          note: `${session.name} : attendu ${variance.expected}, compté ${variance.counted}`,
+          reference: `inventory-${session.id}`,
+          date: session.countDate,
+          // A count of every store settles its variances in the main store
+          storeId: session.storeId || getMainStore(stores)?.id
+        },
+        quantity: variance.variance
+      }));
+
+    console.log(`📋 Posting inventory ${session.name}: ${entries.length} variances`);
+
+    const recorded = await recordStockMovements(entries);
+    if (!recorded) return false;
+
+    const variancesById = new Map(variances.map(variance => [variance.productId, variance]));
+    try {
+      await store.inventorySessions.update(sessionId, {
+        status: 'posted',
+        postedAt: new Date(),
+        lines: session.lines.map(line => ({
+          ...line,
+          expectedQuantity: variancesById.get(line.productId)?.expected,
+          unitPrice: productsById.get(line.productId)?.price
+        }))
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Error closing inventory session:', error);
+      return false;
+    }
+  };
+
+  const cancelInventorySession = async (sessionId: string): Promise<boolean> => {
+    try {
+      await store.inventorySessions.update(sessionId, { status: 'cancelled' });
+      return true;
+    } catch (error) {
+      console.error('❌ Error cancelling inventory session:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Supplier registry
+  const addSupplier = async (supplier: Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>): Promise<boolean> => {
+    try {
+      await store.suppliers.add({ ...supplier, createdAt: new Date(), updatedAt: new Date() });
+      console.log(`🚚 Supplier added: ${supplier.name}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error adding supplier:', error);
+      return false;
+    }
+  };
+
+  const updateSupplier = async (
+    id: string,
+    updates: Partial<Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<boolean> => {
+    try {
+      await store.suppliers.update(id, { ...updates, updatedAt: new Date() });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating supplier:', error);
+      return false;
+    }
+  };
+
+  const deleteSupplier = async (id: string): Promise<boolean> => {
+    if (purchaseOrders.some(order => order.supplierId === id)) {
+      console.warn('⚠️ Supplier has purchase orders and cannot be deleted');
+      return false;
+    }
+
+    try {
+      await store.suppliers.delete(id);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting supplier:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Purchase orders start as drafts
+  const createPurchaseOrder = async (
+    order: Pick<PurchaseOrder, 'supplierId' | 'lines' | 'expectedDate' | 'notes'>
+  ): Promise<PurchaseOrder | null> => {
+    const supplier = suppliers.find(s => s.id === order.supplierId);
+    if (!supplier) return null;
+
+    try {
+      const created = await store.purchaseOrders.add({
+        ...order,
+        number: generatePurchaseOrderNumber(purchaseOrders),
+        supplierName: supplier.name,
+        status: 'draft',
+        lines: order.lines.filter(line => line.quantityOrdered > 0),
+        userId: user?.id,
+        userName: user?.name,
+        createdAt: new Date()
+      });
+      console.log(`🧾 Purchase order created: ${created.number}`);
+      return created;
+    } catch (error) {
+      console.error('❌ Error creating purchase order:', error);
+      return null;
+    }
+  };
+
+  // Only drafts can be edited or deleted; sent orders are commitments to the supplier
+  const updatePurchaseOrder = async (
+    id: string,
+    updates: Pick<PurchaseOrder, 'lines' | 'expectedDate' | 'notes'>
+  ): Promise<boolean> => {
+    const order = purchaseOrders.find(o => o.id === id);
+    if (!order || order.status !== 'draft') return false;
+
+    try {
+      await store.purchaseOrders.update(id, {
+        ...updates,
+        lines: updates.lines.filter(line => line.quantityOrdered > 0)
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating purchase order:', error);
+      return false;
+    }
+  };
+
+  const deletePurchaseOrder = async (id: string): Promise<boolean> => {
+    const order = purchaseOrders.find(o => o.id === id);
+    if (!order || order.status !== 'draft') return false;
+
+    try {
+      await store.purchaseOrders.delete(id);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting purchase order:', error);
+      return false;
+    }
+  };
+
+  const sendPurchaseOrder = async (id: string): Promise<boolean> => {
+    const order = purchaseOrders.find(o => o.id === id);
+    if (!order || order.status !== 'draft' || order.lines.length === 0) return false;
+
+    try {
+      await store.purchaseOrders.update(id, { status: 'sent', sentAt: new Date() });
+      console.log(`📨 Purchase order sent: ${order.number}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error sending purchase order:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Goods receiving: received quantities enter the stock ledger with the
+  // order number as reference, then the order status follows what is left
+  const receivePurchaseOrder = async (
+    id: string,
+    receivedQuantities: Record<string, number>,
+    date: Date = new Date(),
+    storeId: string | undefined = getMainStore(stores)?.id
+  ): Promise<boolean> => {
+    const order = purchaseOrders.find(o => o.id === id);
+    if (!order || (order.status !== 'sent' && order.status !== 'partially_received')) return false;
+
+    const received = order.lines
+      .map(line => ({ line, quantity: Math.min(receivedQuantities[line.productId] || 0, getRemainingQuantity(line)) }))
+      .filter(({ quantity }) => quantity > 0);
+    if (received.length === 0) return false;
+
+    const entries: PendingStockMovement[] = received.map(({ line, quantity }) => ({
+      product: products.find(p => p.id === line.productId) || {
+        id: line.productId,
+        name: line.productName,
+        category: line.category
+      },
+      context: {
+        type: 'receipt',
+        reason: `Réception commande ${order.supplierName}`,
+        reference: order.number,
+        date,
+        unitCost: line.unitCost,
+        storeId
+      },
+      quantity
+    }));
+
+    console.log(`📥 Receiving ${order.number}: ${received.length} lines`);
+
+    const recorded = await recordStockMovements(entries);
+    if (!recorded) return false;
+
+    const lines = order.lines.map(line => {
+      const receipt = received.find(r => r.line.productId === line.productId);
+      return receipt ? { ...line, quantityReceived: line.quantityReceived + receipt.quantity } : line;
+    });
+
+    try {
+      await store.purchaseOrders.update(id, {
+        lines,
+        status: getPurchaseOrderStatusAfterReceipt(lines),
+        receivedAt: date
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating purchase order after receipt:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Operating expenses ledger, with an optional receipt or invoice file
+  const addExpense = async (
+    expense: Omit<Expense, 'id' | 'attachment' | 'userId' | 'userName' | 'createdAt' | 'updatedAt'>,
+    file?: File
+  ): Promise<boolean> => {
+    try {
+      const attachment = file ? await store.expenses.uploadAttachment(file) : undefined;
+      await store.expenses.add({
+        ...expense,
+        attachment,
+        userId: user?.id,
+        userName: user?.name,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      console.log(`💸 Expense added: ${expense.label} (${expense.amount}€)`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error adding expense:', error);
+      return false;
+    }
+  };
+
+  // A File replaces the attachment, null removes it, undefined keeps it
+  const updateExpense = async (
+    id: string,
+    updates: Partial<Omit<Expense, 'id' | 'attachment' | 'userId' | 'userName' | 'createdAt' | 'updatedAt'>>,
+    file?: File | null
+  ): Promise<boolean> => {
+    const previous = expenses.find(e => e.id === id);
+    if (!previous) return false;
+
+    try {
+      const changes: Partial<Omit<Expense, 'id'>> = { ...updates, updatedAt: new Date() };
+      if (file !== undefined) {
+        changes.attachment = file ? await store.expenses.uploadAttachment(file) : undefined;
+      }
+      await store.expenses.update(id, changes);
+
+      if (file !== undefined && previous.attachment) {
+        await store.expenses.deleteAttachment(previous.attachment).catch(error =>
+          console.warn('⚠️ Previous expense attachment could not be deleted:', error));
+      }
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating expense:', error);
+      return false;
+    }
+  };
+
+  const deleteExpense = async (id: string): Promise<boolean> => {
+    const expense = expenses.find(e => e.id === id);
+    if (!expense) return false;
+
+    try {
+      await store.expenses.delete(id);
+      if (expense.attachment) {
+        await store.expenses.deleteAttachment(expense.attachment).catch(error =>
+          console.warn('⚠️ Expense attachment could not be deleted:', error));
+      }
+      console.log(`🗑️ Expense deleted: ${expense.label}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting expense:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Sales of one register between two dates, read from the store so that
+  // cash counts do not depend on the loaded sales window
+  const listRegisterSales = async (register: string, from: Date, to: Date): Promise<RegisterSale[]> => {
+    const sales = await store.sales.list({ from, to });
+    return sales.filter(sale => sale.register === register);
+  };
+
+  // ✅ NEW: Register sessions: opening float, then closing count against the expected cash
+  const openRegisterSession = async (register: string, openingFloat: number, notes?: string): Promise<boolean> => {
+    if (registerSessions.some(session => session.register === register && session.status === 'open')) {
+      console.warn(`⚠️ A session is already open on ${register}`);
+      return false;
+    }
+
+    try {
+      await store.registerSessions.create({
+        register,
+        status: 'open',
+        openingFloat,
+        openedAt: new Date(),
+        openedBy: user?.name,
+        notes
+      });
+      console.log(`🏧 Register session opened on ${register} with ${openingFloat}€`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error opening register session:', error);
+      return false;
+    }
+  };
+
+  const closeRegisterSession = async (id: string, closingCount: CashCount, notes?: string): Promise<boolean> => {
+    const session = registerSessions.find(s => s.id === id);
+    if (!session || session.status !== 'open') return false;
+
+    try {
+      const closedAt = new Date();
+      const sessionSales = (await listRegisterSales(session.register, session.openedAt, closedAt))
+        .filter(sale => isWithinSession(sale, session, closedAt));
+      const expectedCash = getExpectedCash(session, sessionSales);
+      const countedCash = getCountedCash(closingCount);
+
+      await store.registerSessions.update(id, {
+        status: 'closed',
+        closedAt,
+        closedBy: user?.name,
+        closingCount,
+        salesCount: sessionSales.length,
+        salesTotal: expectedCash - session.openingFloat,
+        expectedCash,
+        countedCash,
+        notes: notes ?? session.notes
+      });
+      console.log(`🏧 Register session closed on ${session.register}: expected ${expectedCash}€, counted ${countedCash}€`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error closing register session:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Sales targets per seller, register, category or for the whole shop
+  const addSalesTarget = async (
+    target: Omit<SalesTarget, 'id' | 'userId' | 'userName' | 'createdAt' | 'updatedAt'>
+  ): Promise<boolean> => {
+    try {
+      await store.salesTargets.add({
+        ...target,
+        userId: user?.id,
+        userName: user?.name,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      console.log(`🎯 Sales target added: ${target.period} ${target.metric} ${target.amount} (${target.scopeValue || target.scope})`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error adding sales target:', error);
+      return false;
+    }
+  };
+
+  const updateSalesTarget = async (
+    id: string,
+    updates: Partial<Omit<SalesTarget, 'id' | 'userId' | 'userName' | 'createdAt' | 'updatedAt'>>
+  ): Promise<boolean> => {
+    try {
+      await store.salesTargets.update(id, { ...updates, updatedAt: new Date() });
+      console.log(`🎯 Sales target updated: ${id}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating sales target:', error);
+      return false;
+    }
+  };
+
+  const deleteSalesTarget = async (id: string): Promise<boolean> => {
+    try {
+      await store.salesTargets.delete(id);
+      console.log(`🗑️ Sales target deleted: ${id}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting sales target:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Stores and the registers they own; a register belongs to one store at most
+  const addStore = async (storeData: Omit<Store, 'id' | 'createdAt' | 'updatedAt'>): Promise<boolean> => {
+    if (findAssignedRegisters(stores, storeData.registers).length > 0) {
+      console.warn('⚠️ Some registers already belong to another store');
+      return false;
+    }
+
+    try {
+      await store.stores.add({ ...storeData, createdAt: new Date(), updatedAt: new Date() });
+      console.log(`🏬 Store added: ${storeData.name}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error adding store:', error);
+      return false;
+    }
+  };
+
+  const updateStore = async (
+    id: string,
+    updates: Partial<Omit<Store, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<boolean> => {
+    if (updates.registers && findAssignedRegisters(stores, updates.registers, id).length > 0) {
+      console.warn('⚠️ Some registers already belong to another store');
+      return false;
+    }
+
+    try {
+      await store.stores.update(id, { ...updates, updatedAt: new Date() });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating store:', error);
+      return false;
+    }
+  };
+
+  // The deleted store's registers, ledger entries and initial stock fall back to the main store
+  const deleteStore = async (id: string): Promise<boolean> => {
+    try {
+      await store.stores.delete(id);
+      console.log(`🗑️ Store deleted: ${id}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting store:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Stock transfers between stores start as requests
+  const createStockTransfer = async (
+    transfer: Pick<StockTransfer, 'fromStoreId' | 'toStoreId' | 'lines' | 'notes'>
+  ): Promise<StockTransfer | null> => {
+    const knownStores = [transfer.fromStoreId, transfer.toStoreId].every(id => stores.some(s => s.id === id));
+    if (!knownStores || transfer.fromStoreId === transfer.toStoreId) return null;
+
+    try {
+      const created = await store.stockTransfers.add({
+        ...transfer,
+        number: generateTransferNumber(stockTransfers),
+        status: 'requested',
+        lines: transfer.lines.filter(line => line.quantityRequested > 0),
+        userId: user?.id,
+        userName: user?.name,
+        createdAt: new Date()
+      });
+      console.log(`🔁 Stock transfer created: ${created.number}`);
+      return created;
+    } catch (error) {
+      console.error('❌ Error creating stock transfer:', error);
+      return null;
+    }
+  };
+
+  // Only requests can be edited or deleted; shipped goods have already left the source store
+  const updateStockTransfer = async (
+    id: string,
+    updates: Pick<StockTransfer, 'lines' | 'notes'>
+  ): Promise<boolean> => {
+    const transfer = stockTransfers.find(t => t.id === id);
+    if (!transfer || transfer.status !== 'requested') return false;
+
+    try {
+      await store.stockTransfers.update(id, {
+        ...updates,
+        lines: updates.lines.filter(line => line.quantityRequested > 0)
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating stock transfer:', error);
+      return false;
+    }
+  };
+
+  const deleteStockTransfer = async (id: string): Promise<boolean> => {
+    const transfer = stockTransfers.find(t => t.id === id);
+    if (!transfer || transfer.status !== 'requested') return false;
+
+    try {
+      await store.stockTransfers.delete(id);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting stock transfer:', error);
+      return false;
+    }
+  };
+
+  const getStoreName = (id: string) => stores.find(s => s.id === id)?.name || id;
+
+  const getTransferProduct = (line: StockTransfer['lines'][number]) =>
+    products.find(p => p.id === line.productId) || { id: line.productId, name: line.productName, category: line.category };
+
+  // ✅ NEW: Shipment takes the shipped quantities out of the source store; they stay
+  // in transit until the destination receives them
+  const shipStockTransfer = async (
+    id: string,
+    shippedQuantities: Record<string, number> = {},
+    date: Date = new Date()
+  ): Promise<boolean> => {
+    const transfer = stockTransfers.find(t => t.id === id);
+    if (!transfer || transfer.status !== 'requested') return false;
+
+    const lines = transfer.lines.map(line => ({
+      ...line,
+      quantityShipped: Math.max(0, shippedQuantities[line.productId] ?? line.quantityRequested)
+    }));
+    if (lines.every(line => line.quantityShipped === 0)) return false;
+
+    const entries: PendingStockMovement[] = lines.map(line => ({
+      product: getTransferProduct(line),
+      context: {
+        type: 'transfer',
+        reason: `Transfert vers ${getStoreName(transfer.toStoreId)}`,
+        reference: transfer.number,
+        date,
+        storeId: transfer.fromStoreId
+      },
+      quantity: -line.quantityShipped
+    }));
+
+    console.log(`🚚 Shipping ${transfer.number}: ${entries.length} lines`);
+
+    const recorded = await recordStockMovements(entries);
+    if (!recorded) return false;
+
+    try {
+      await store.stockTransfers.update(id, { lines, status: 'shipped', shippedAt: date });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating stock transfer after shipment:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Receipt adds the shipped quantities to the destination store; a different
+  // received quantity is posted there as a transfer variance adjustment
+  const receiveStockTransfer = async (
+    id: string,
+    receivedQuantities: Record<string, number> = {},
+    date: Date = new Date()
+  ): Promise<boolean> => {
+    const transfer = stockTransfers.find(t => t.id === id);
+    if (!transfer || transfer.status !== 'shipped') return false;
+
+    const lines = transfer.lines.map(line => ({
+      ...line,
+      quantityReceived: Math.max(0, receivedQuantities[line.productId] ?? getShippedQuantity(line))
+    }));
+
+    const entries: PendingStockMovement[] = lines.flatMap(line => [
+      {
+        product: getTransferProduct(line),
+        context: {
+          type: 'transfer',
+          reason: `Transfert depuis ${getStoreName(transfer.fromStoreId)}`,
+          reference: transfer.number,
+          date,
+          storeId: transfer.toStoreId
+        },
+        quantity: getShippedQuantity(line)
+      },
+      {
+        product: getTransferProduct(line),
+        context: {
+          type: 'adjustment',
+          reason: ADJUSTMENT_REASONS.ecart_transfert,
+          reasonCode: 'ecart_transfert',
+          reference: transfer.number,
+          date,
+          storeId: transfer.toStoreId
+        },
+        quantity: getTransferVariance(line)
+      }
+    ]);
+
+    console.log(`📥 Receiving ${transfer.number}: ${lines.length} lines`);
+
+    const recorded = await recordStockMovements(entries);
+    if (!recorded) return false;
+
+    try {
+      await store.stockTransfers.update(id, { lines, status: 'received', receivedAt: date });
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating stock transfer after receipt:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Update sale function
+  const updateSale = async (id: string, updates: Partial<RegisterSale>): Promise<boolean> => {
+    const original = loadedSalesRef.current.find(s => s.id === id);
+
+    // A renamed sale is linked again; empty when the new name matches no product
+    if (original && (updates.product || updates.category) && updates.productId === undefined) {
+      const product = findSaleProduct({ ...original, ...updates, productId: undefined });
+      updates = { ...updates, productId: product?.id ?? '' };
+      if (product?.id !== original.productId) {
+        updates = { ...updates, ...getBundleSnapshot(product || {}) };
+      }
+    }
+
+    try {
+      await store.sales.update(id, updates);
+      invalidateStockSales();
+
+      if (original) {
+        await recordSaleChange(original, { ...original, ...updates });
+      }
       
-      const BATCH_SIZE = 200;
-      const batches = [];
+      // Update local state immediately
+      setRegisterSales(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
       
-      // Split into batches of 200
-      for (let i = 0; i < saleIds.length; i += BATCH_SIZE) {
-        batches.push(saleIds.slice(i, i + BATCH_SIZE));
-      }
+      console.log('✅ Sale updated successfully');
+      return true;
+    } catch (error) {
+      console.error('❌ Error updating sale:', error);
+      // Fallback: update locally
+      setRegisterSales(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+      return false;
+    }
+  };
+
+  // An edited sale gives back the old quantity and takes the new one, possibly from another
+  // product or, when the register changed, another store
+  const recordSaleChange = async (original: RegisterSale, updated: RegisterSale) => {
+    const oldProduct = findSaleProduct(original);
+    const newProduct = findSaleProduct(updated);
+    const oldStoreId = getRegisterStore(stores, original.register)?.id;
+    const newStoreId = getRegisterStore(stores, updated.register)?.id;
+    const context = (storeId?: string): StockMovementContext => ({
+      type: 'adjustment',
+      reason: 'Modification de vente',
+      reference: original.id,
+      date: updated.date,
+      storeId
+    });
+
+    if (oldProduct && newProduct && oldProduct.id === newProduct.id && oldStoreId === newStoreId) {
+      await recordStockMovements(getSaleStockEntries(original, context(oldStoreId), original.quantity - updated.quantity));
+      return;
+    }
+
+    await recordStockMovements([
+      ...getSaleStockEntries(original, context(oldStoreId), original.quantity),
+      ...getSaleStockEntries(updated, context(newStoreId), -updated.quantity)
+    ]);
+  };
+
+  // Sellable returned units go back into stock through the ledger
+  const recordReturnRestock = async (returnSale: RegisterSale) => {
+    if (returnSale.returnCondition !== 'sellable') return true;
+
+    return recordStockMovements(getSaleStockEntries(returnSale, {
+      type: 'return',
+      reason: 'Retour client',
+      reference: returnSale.id,
+      date: returnSale.date,
+      storeId: getRegisterStore(stores, returnSale.register)?.id
+    }, Math.abs(returnSale.quantity)));
+  };
+
+  // ✅ NEW: Customer return against an existing sale, recorded as a refund line
+  const createSaleReturn = async (originalSaleId: string, input: SaleReturnInput): Promise<boolean> => {
+    const original = loadedSalesRef.current.find(s => s.id === originalSaleId);
+    if (!original || isReturn(original) || input.quantity <= 0) return false;
+
+    const returnable = original.quantity - getReturnedQuantity(original.id, loadedSalesRef.current);
+    if (input.quantity > returnable) {
+      console.warn(`⚠️ Cannot return ${input.quantity} units of ${original.product}: only ${returnable} left`);
+      return false;
+    }
+
+    try {
+      const [created] = await store.sales.addMany([{
+        id: '',
+        product: original.product,
+        category: original.category,
+        register: original.register,
+        date: input.date,
+        seller: original.seller,
+        quantity: input.quantity,
+        price: -Math.round((input.refundAmount / input.quantity) * 100) / 100,
+        total: -input.refundAmount,
+        type: 'return',
+        originalSaleId: original.id,
+        returnCondition: input.condition,
+        productId: original.productId,
+        bundleComponents: original.bundleComponents
+      }]);
+      invalidateStockSales();
+
+      console.log(`↩️ Return of ${input.quantity} × ${original.product} recorded (${input.condition})`);
+      await recordReturnRestock(created);
+      await loadRegisterSales();
+      return true;
+    } catch (error) {
+      console.error('❌ Error recording return:', error);
+      return false;
+    }
+  };
+
+  // ✅ NEW: Requalify an imported refund line as a customer return
+  const markSaleAsReturn = async (saleId: string, condition: ReturnCondition, originalSaleId?: string): Promise<boolean> => {
+    const sale = loadedSalesRef.current.find(s => s.id === saleId);
+    if (!sale || isReturn(sale) || sale.total >= 0) return false;
+
+    const updates: Partial<RegisterSale> = { type: 'return', returnCondition: condition, originalSaleId };
+
+    try {
+      await store.sales.update(saleId, updates);
+      invalidateStockSales();
+
+      // The line was imported as a sale: cancel its ledger entry before restocking
+      await recordStockMovements(getSaleStockEntries(sale, {
+        type: 'adjustment',
+        reason: 'Requalification en retour',
+        reference: sale.id,
+        date: sale.date,
+        storeId: getRegisterStore(stores, sale.register)?.id
+      }, sale.quantity));
+      await recordReturnRestock({ ...sale, ...updates });
+
+      setRegisterSales(prev => prev.map(s => s.id === saleId ? { ...s, ...updates } : s));
+      console.log(`↩️ Sale ${saleId} requalified as a ${condition} return`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error requalifying sale as return:', error);
+      return false;
+    }
+  };
+
+  // ✅ FIXED: Categorize sales function - Now updates the actual category field WITHOUT reload
+  const categorizeSales = async (saleIds: string[], category: string, subcategory?: string): Promise<boolean> => {
+    try {
+      console.log(`🏷️ Categorizing ${saleIds.length} sales with category: ${category}${subcategory ? `, subcategory: ${subcategory}` : ''}`);
       
-      console.log(`📦 Split deletion into ${batches.length} batches of max ${BATCH_SIZE} rows each`);
+      // ✅ CRITICAL FIX: The store updates the actual category field, not just metadata
+      await store.sales.categorize(saleIds, category, subcategory);
+      invalidateStockSales();
       
-      // Process each batch
-      for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-        const batch = batches[batchIndex];
-        console.log(`🔄 Processing deletion batch ${batchIndex + 1}/${batches.length} (${batch.length} sales)...`);
-        
-        const writeBatchRef = writeBatch(db);
-        
-        batch.forEach(id => {
-          const saleRef = doc(db, COLLECTIONS.REGISTER_SALES, id);
-          writeBatchRef.delete(saleRef);
-        });
-        
-        await writeBatchRef.commit();
-        console.log(`✅ Deletion batch ${batchIndex + 1} committed successfully (${batch.length} sales deleted)`);
-      }
+      console.log(`🎉 All ${saleIds.length} sales categorized successfully`);
       
-      console.log(`🎉 All ${saleIds.length} sales deleted successfully from Firebase`);
+      // ✅ CRITICAL: Update local state immediately to reflect the changes
+      setRegisterSales(prev => prev.map(sale => 
+        saleIds.includes(sale.id) 
+          ? { ...sale, category: category } // Update the category in local state
+          : sale
+      ));
+      
+      // ✅ CRITICAL: Reload sales data to ensure synchronization with Firestore
+      // BUT DO NOT RELOAD THE ENTIRE APP - just refresh the data
+      console.log('🔄 Reloading sales data to reflect categorization changes...');
+      await loadRegisterSales();
+      
+      console.log('✅ Sales categorization completed successfully');
+      return true;
+    } catch (error) {
+      console.error('❌ Error categorizing sales:', error);
+      
+      // Fallback: update local state only
+      console.log('🔄 Fallback: Updating local state after categorization error...');
+      setRegisterSales(prev => prev.map(sale => 
+        saleIds.includes(sale.id) 
+          ? { ...sale, category: category }
+          : sale
+      ));
+      
+      return false;
+    }
+  };
+
+  // Remaining stock leaves the books with the product
+  const recordProductDeletions = (productIds: string[]) =>
+    recordStockMovements(products
+      .filter(product => productIds.includes(product.id))
+      .map(product => ({
+        product,
+        context: { type: 'deletion', reason: 'Suppression du produit', reference: product.id },
+        quantity: -product.stock
+      })));
+
+  const deleteProduct = async (id: string) => {
+    try {
+      await recordProductDeletions([id]);
+      await store.products.deleteMany([id]);
+      
+      // Update local state immediately
+      setProducts(prev => prev.filter(p => p.id !== id));
+      
+      await generateAlerts();
+      console.log('✅ Product deleted successfully');
+    } catch (error) {
+      console.error('❌ Error deleting product:', error);
+      setProducts(prev => prev.filter(p => p.id !== id));
+      await generateAlerts();
+    }
+  };
+
+  const deleteProducts = async (productIds: string[]) => {
+    try {
+      await recordProductDeletions(productIds);
+      await store.products.deleteMany(productIds);
+      
+      // Update local state immediately
+      setProducts(prev => prev.filter(p => !productIds.includes(p.id)));
+      
+      await generateAlerts();
+      console.log(`✅ ${productIds.length} products deleted successfully`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting products:', error);
+      setProducts(prev => prev.filter(p => !productIds.includes(p.id)));
+      await generateAlerts();
+      return false;
+    }
+  };
+
+  // ✅ CRITICAL FIX: Enhanced deleteSales function with guaranteed stock recalculation
+  const deleteSales = async (saleIds: string[]) => {
+    try {
+      console.log(`🗑️ Starting deletion of ${saleIds.length} sales...`);
+
+      const deletedSales = loadedSalesRef.current.filter(sale => saleIds.includes(sale.id));
+      
+      await store.sales.deleteMany(saleIds);
+      invalidateStockSales();
+
+      // Deleting a sale gives its quantity back, effective at the sale date
+      const restocks: PendingStockMovement[] = [];
+      deletedSales.forEach(sale => {
+        const storeId = getRegisterStore(stores, sale.register)?.id;
+        if (isReturn(sale)) {
+          // A deleted sellable return takes its units back out of stock
+          if (sale.returnCondition === 'sellable') {
+            restocks.push(...getSaleStockEntries(
+              sale,
+              { type: 'return', reason: 'Suppression de retour', reference: sale.id, date: sale.date, storeId },
+              -Math.abs(sale.quantity)
+            ));
+          }
+        } else {
+          restocks.push(...getSaleStockEntries(
+            sale,
+            { type: 'deletion', reason: 'Suppression de vente', reference: sale.id, date: sale.date, storeId },
+            sale.quantity
+          ));
+        }
+      });
+      await recordStockMovements(restocks);
+      
+      console.log(`🎉 All ${saleIds.length} sales deleted successfully from ${store.kind} store`);
       
       // ✅ CRITICAL: Reload sales data to get the updated list
       console.log('🔄 Reloading sales data after deletion...');
@@ -1047,6 +2312,38 @@ export function useFirebaseData() {
     setAlerts(newAlerts);
   };
 
+  // ✅ NEW: Seed the ledger for products recorded before it existed
+  const initializeStockLedger = async (productIds?: string[]): Promise<number> => {
+    const productsWithHistory = new Set(stockMovements.map(movement => movement.productId));
+    const productsToSeed = products.filter(product =>
+      !productsWithHistory.has(product.id) && (!productIds || productIds.includes(product.id))
+    );
+
+    if (productsToSeed.length === 0) return 0;
+
+    const history = await loadSalesForStock(productsToSeed);
+    if (!history) {
+      throw new Error('Historique des ventes indisponible');
+    }
+
+    const seeded = generateStockMovements(productsToSeed, history, stores, createProductIndex(products));
+    const movements: PendingStockMovement[] = seeded.map(movement => ({
+      product: { id: movement.productId, name: movement.productName, category: movement.category },
+      context: {
+        type: movement.type,
+        reason: movement.reason || 'Reprise de l\'historique',
+        reference: movement.reference,
+        date: movement.date,
+        storeId: movement.storeId
+      },
+      quantity: movement.quantity
+    }));
+
+    await recordStockMovements(movements);
+    console.log(`📒 Stock ledger initialized for ${productsToSeed.length} products (${movements.length} movements)`);
+    return movements.length;
+  };
+
   const markAlertAsRead = (id: string) => {
     setAlerts(prev => prev.map(a => a.id === id ? { ...a, read: true } : a));
   };
@@ -1060,7 +2357,18 @@ export function useFirebaseData() {
 
   return {
     registerSales,
+    salesWindow, // ✅ NEW: Loaded slice of the sales history
+    isStockOnPartialHistory,
     products,
+    stockMovements, // ✅ NEW: Persisted stock ledger
+    inventorySessions, // ✅ NEW: Physical inventory counts
+    suppliers, // ✅ NEW: Supplier registry and purchase orders
+    purchaseOrders,
+    expenses, // ✅ NEW: Operating expenses ledger
+    registerSessions, // ✅ NEW: Cash register sessions
+    salesTargets, // ✅ NEW: Sales targets and goal tracking
+    stores, // ✅ NEW: Stores and per-store stock
+    stockTransfers, // ✅ NEW: Stock transfers between stores
     dashboardStats,
     alerts,
     loading,
@@ -1069,99 +2377,55 @@ export function useFirebaseData() {
     addProduct,
     addProducts, // ✅ NEW: Batch add products
     updateProduct,
+    adjustStock, // ✅ NEW: Manual stock adjustments with reason codes
+    applyMinStocks, // ✅ NEW: Reorder point suggestions
+    updateProductFlags, // ✅ NEW: Discontinued and promotion flags
+    migrateProductIdentity, // ✅ NEW: SKUs and product ids on sales
+    addProductAliases, // ✅ NEW: Alias registry of sale names
+    mergeProducts, // ✅ NEW: Duplicate products merge
+    openInventorySession,
+    saveInventoryCounts,
+    getInventoryVariances,
+    postInventorySession,
+    cancelInventorySession,
+    addSupplier,
+    updateSupplier,
+    deleteSupplier,
+    createPurchaseOrder,
+    updatePurchaseOrder,
+    deletePurchaseOrder,
+    sendPurchaseOrder,
+    receivePurchaseOrder,
+    addExpense,
+    updateExpense,
+    deleteExpense,
+    openRegisterSession,
+    closeRegisterSession,
+    listRegisterSales,
+    addSalesTarget,
+    updateSalesTarget,
+    deleteSalesTarget,
+    addStore,
+    updateStore,
+    deleteStore,
+    createStockTransfer,
+    updateStockTransfer,
+    deleteStockTransfer,
+    shipStockTransfer,
+    receiveStockTransfer,
     updateSale, // ✅ NEW: Update sale function
+    createSaleReturn, // ✅ NEW: Customer returns
+    markSaleAsReturn,
     categorizeSales, // ✅ FIXED: Now properly updates the category field WITHOUT reload
     deleteProduct,
     deleteProducts,
     deleteSales, // ✅ FIXED: Now properly recalculates stock automatically
     markAlertAsRead,
     refreshData,
+    initializeStockLedger,
+    loadOlderSales, // ✅ NEW: Cursor pagination of the sales feed
+    loadSalesUntil,
+    setSalesDateRange,
     autoSyncProductsFromSales // ✅ NEW: Auto-sync function
   };
 }
-
-// Mock data functions (same as before)
-function generateMockSales(): RegisterSale[] {
-  const products = ['Pain de mie', 'Lait UHT', 'Yaourt nature', 'Pommes', 'Bananes', 'Coca-Cola', 'Eau minérale'];
-  const categories = ['Alimentaire', 'Boisson', 'Fruits'];
-  const registers = ['Register1', 'Register2'];
-  const sellers = ['Marie Dupont', 'Jean Martin', 'Sophie Bernard', 'Pierre Durand'];
-
-  return Array.from({ length: 150 }, (_, i) => {
-    const product = products[Math.floor(Math.random() * products.length)];
-    const quantity = Math.floor(Math.random() * 5) + 1;
-    const price = Math.random() * 10 + 1;
-    
-    return {
-      id: `sale-${i}`,
-      product,
-      category: categories[Math.floor(Math.random() * categories.length)],
-      register: registers[Math.floor(Math.random() * registers.length)],
-      date: subDays(new Date(), Math.floor(Math.random() * 30)),
-      seller: sellers[Math.floor(Math.random() * sellers.length)],
-      quantity,
-      price: Math.round(price * 100) / 100,
-      total: Math.round(quantity * price * 100) / 100
-    };
-  });
-}
-
-function generateMockProducts(): Product[] {
-  return [
-    {
-      id: '1',
-      name: 'JELLY POP',
-      category: 'CONFISERIES',
-      price: 1.00,
-      stock: 45,
-      initialStock: 50,
-      quantitySold: 5,
-      minStock: 10,
-      description: 'Bonbons Jelly Pop'
-    },
-    {
-      id: '2',
-      name: 'SMARTIES',
-      category: 'CONFISERIES',
-      price: 1.00,
-      stock: 8,
-      initialStock: 20,
-      quantitySold: 12,
-      minStock: 15,
-      description: 'Bonbons Smarties'
-    },
-    {
-      id: '3',
-      name: 'COCA 1,5L',
-      category: 'BOISSONS',
-      price: 2.50,
-      stock: 25,
-      initialStock: 30,
-      quantitySold: 5,
-      minStock: 12,
-      description: 'Coca-Cola 1.5L'
-    },
-    {
-      id: '4',
-      name: 'Pain de mie',
-      category: 'Alimentaire',
-      price: 1.50,
-      stock: 30,
-      initialStock: 35,
-      quantitySold: 5,
-      minStock: 10,
-      description: 'Pain de mie complet'
-    },
-    {
-      id: '5',
-      name: 'Lait UHT',
-      category: 'Alimentaire',
-      price: 1.20,
-      stock: 5,
-      initialStock: 20,
-      quantitySold: 15,
-      minStock: 15,
-      description: 'Lait UHT demi-écrémé 1L'
-    }
-  ];
-}
\ No newline at end of file
@@ -0,0 +1,325 @@
+import {
+  RegisterSale,
+  Product,
+  Alert,
+  StockMovement,
+  InventorySession,
+  Supplier,
+  PurchaseOrder,
+  Expense,
+  ExpenseAttachment,
+  RegisterSession,
+  SalesTarget,
+  Store,
+  StockTransfer
+} from '../types';
+import { createFirestoreDataStore } from './firestoreDataStore';
+import { createMemoryDataStore } from './memoryDataStore';
+
+// Storage backends available at startup
+export type DataStoreKind = 'firestore' | 'memory';
+
+export type Unsubscribe = () => void;
+
+// Inclusive bounds on the sale date; an omitted bound is open-ended
+export interface SalesDateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface SalesQuery extends SalesDateRange {
+  limit: number;
+}
+
+/**
+ * Position after the last sale of a page. Sales are ordered by date then id,
+ * both descending, so the cursor is stable when several sales share a date.
+ */
+export interface SalesCursor {
+  date: Date;
+  id: string;
+}
+
+export interface SalesPage {
+  sales: RegisterSale[];
+  nextCursor: SalesCursor | null; // null when this was the last page
+}
+
+export interface SalesRepository {
+  subscribe(
+    query: SalesQuery,
+    onChange: (sales: RegisterSale[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  list(range?: SalesDateRange): Promise<RegisterSale[]>;
+  listPage(query: SalesQuery, cursor: SalesCursor | null): Promise<SalesPage>;
+  count(range?: SalesDateRange): Promise<number>;
+  addMany(sales: RegisterSale[]): Promise<RegisterSale[]>;
+  update(id: string, updates: Partial<RegisterSale>): Promise<void>;
+  updateMany(changes: Array<{ id: string; updates: Partial<RegisterSale> }>): Promise<void>;
+  categorize(ids: string[], category: string, subcategory?: string): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+}
+
+/**
+ * Writes of a product merge. The product updates, movements and deletions are applied
+ * together or not at all; the sale updates may follow separately, since a sale still
+ * linked to a merged product resolves to the product it was merged into.
+ */
+export interface ProductMergeWrite {
+  productUpdates: Array<{ id: string; updates: Partial<Product> }>;
+  saleUpdates: Array<{ id: string; updates: Partial<RegisterSale> }>;
+  movements: Omit<StockMovement, 'id'>[];
+  deletedProductIds: string[];
+}
+
+export interface ProductsRepository {
+  subscribe(
+    onChange: (products: Product[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  add(product: Omit<Product, 'id'>): Promise<Product>;
+  addMany(products: Omit<Product, 'id'>[]): Promise<Product[]>;
+  update(id: string, updates: Partial<Product>): Promise<void>;
+  updateMany(changes: Array<{ id: string; updates: Partial<Product> }>): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+  merge(write: ProductMergeWrite): Promise<void>;
+  // The product update and the ledger entries explaining its stock change, together or not at all
+  updateWithMovements(id: string, updates: Partial<Product>, movements: Omit<StockMovement, 'id'>[]): Promise<void>;
+}
+
+/**
+ * Append-only stock ledger: entries are never updated or deleted
+ */
+export interface StockMovementsRepository {
+  subscribe(
+    onChange: (movements: StockMovement[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  list(productId?: string): Promise<StockMovement[]>;
+  addMany(movements: Omit<StockMovement, 'id'>[]): Promise<StockMovement[]>;
+}
+
+export interface InventorySessionsRepository {
+  subscribe(
+    onChange: (sessions: InventorySession[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  create(session: Omit<InventorySession, 'id'>): Promise<InventorySession>;
+  update(id: string, updates: Partial<Omit<InventorySession, 'id'>>): Promise<void>;
+}
+
+export interface SuppliersRepository {
+  subscribe(
+    onChange: (suppliers: Supplier[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  add(supplier: Omit<Supplier, 'id'>): Promise<Supplier>;
+  update(id: string, updates: Partial<Omit<Supplier, 'id'>>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface PurchaseOrdersRepository {
+  subscribe(
+    onChange: (orders: PurchaseOrder[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  add(order: Omit<PurchaseOrder, 'id'>): Promise<PurchaseOrder>;
+  update(id: string, updates: Partial<Omit<PurchaseOrder, 'id'>>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface RegisterSessionsRepository {
+  subscribe(
+    onChange: (sessions: RegisterSession[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  create(session: Omit<RegisterSession, 'id'>): Promise<RegisterSession>;
+  update(id: string, updates: Partial<Omit<RegisterSession, 'id'>>): Promise<void>;
+}
+
+export interface ExpensesRepository {
+  subscribe(
+    onChange: (expenses: Expense[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  add(expense: Omit<Expense, 'id'>): Promise<Expense>;
+  update(id: string, updates: Partial<Omit<Expense, 'id'>>): Promise<void>;
+  delete(id: string): Promise<void>;
+  uploadAttachment(file: File): Promise<ExpenseAttachment>;
+  deleteAttachment(attachment: ExpenseAttachment): Promise<void>;
+}
+
+export interface SalesTargetsRepository {
+  subscribe(
+    onChange: (targets: SalesTarget[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  add(target: Omit<SalesTarget, 'id'>): Promise<SalesTarget>;
+  update(id: string, updates: Partial<Omit<SalesTarget, 'id'>>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Points of sale, oldest first: the first one is the main store
+ */
+export interface StoresRepository {
+  subscribe(
+    onChange: (stores: Store[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  add(store: Omit<Store, 'id'>): Promise<Store>;
+  update(id: string, updates: Partial<Omit<Store, 'id'>>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface StockTransfersRepository {
+  subscribe(
+    onChange: (transfers: StockTransfer[]) => void,
+    onError: (error: unknown) => void
+  ): Unsubscribe;
+  add(transfer: Omit<StockTransfer, 'id'>): Promise<StockTransfer>;
+  update(id: string, updates: Partial<Omit<StockTransfer, 'id'>>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface AlertsRepository {
+  list(): Promise<Alert[]>;
+  save(alert: Alert): Promise<void>;
+  markAsRead(id: string): Promise<void>;
+}
+
+export interface SettingsRepository {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+}
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string;
+  role: 'admin' | 'manager' | 'seller' | 'viewer';
+  createdAt: string; // ISO string
+  lastLogin?: string; // ISO string
+}
+
+export interface UsersRepository {
+  get(id: string): Promise<UserProfile | null>;
+  save(user: UserProfile): Promise<void>;
+}
+
+/**
+ * Interface for a clean product in the products_clean collection
+ */
+export interface CleanProduct {
+  id: string;
+  name: string;
+  category: string;
+  signature: string;
+  price: number;
+  stock: number;
+  initialStock?: number;
+  initialStockDate?: string;
+  quantitySold?: number;
+  minStock: number;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Interface for a clean sale in the register_sales_clean collection
+ */
+export interface CleanSale {
+  id: string;
+  product_id: string;
+  product_signature: string;
+  product: string;
+  category: string;
+  register: string;
+  date: string;
+  seller: string;
+  quantity: number;
+  price: number;
+  total: number;
+  createdAt: string;
+  cleaned: boolean;
+}
+
+export interface CleanDatabaseRepository {
+  findProductBySignature(signature: string): Promise<CleanProduct | null>;
+  getSalesForProduct(productId: string): Promise<CleanSale[]>;
+  saveBatch(products: CleanProduct[], sales: CleanSale[]): Promise<void>;
+}
+
+/**
+ * Typed repository layer used by hooks and utilities instead of talking to
+ * a storage SDK directly
+ */
+export interface DataStore {
+  kind: DataStoreKind;
+  sales: SalesRepository;
+  products: ProductsRepository;
+  stockMovements: StockMovementsRepository;
+  inventorySessions: InventorySessionsRepository;
+  suppliers: SuppliersRepository;
+  purchaseOrders: PurchaseOrdersRepository;
+  expenses: ExpensesRepository;
+  registerSessions: RegisterSessionsRepository;
+  salesTargets: SalesTargetsRepository;
+  stores: StoresRepository;
+  stockTransfers: StockTransfersRepository;
+  alerts: AlertsRepository;
+  settings: SettingsRepository;
+  users: UsersRepository;
+  clean: CleanDatabaseRepository;
+  generateId(): string;
+}
+
+const DATA_STORE_STORAGE_KEY = 'globalva_data_store';
+
+let currentStore: DataStore | null = null;
+
+/**
+ * Resolve the backend selected at startup: `?store=` URL parameter first,
+ * then the `VITE_DATA_STORE` env variable, then the saved preference
+ */
+export function resolveDataStoreKind(): DataStoreKind {
+  const candidates = [
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('store') : null,
+    import.meta.env.VITE_DATA_STORE,
+    typeof localStorage !== 'undefined' ? localStorage.getItem(DATA_STORE_STORAGE_KEY) : null
+  ];
+
+  const kind = candidates.find(candidate => candidate === 'firestore' || candidate === 'memory');
+  return (kind as DataStoreKind) || 'firestore';
+}
+
+export function createDataStore(kind: DataStoreKind): DataStore {
+  return kind === 'memory' ? createMemoryDataStore({ seedDemoData: true }) : createFirestoreDataStore();
+}
+
+/**
+ * Get the application data store, creating it on first use
+ */
+export function getDataStore(): DataStore {
+  if (!currentStore) {
+    currentStore = createDataStore(resolveDataStoreKind());
+    console.log(`🗄️ Using ${currentStore.kind} data store`);
+  }
+  return currentStore;
+}
+
+/**
+ * Replace the application data store (tests, emulator or demo harnesses)
+ */
+export function setDataStore(store: DataStore): void {
+  currentStore = store;
+}
+
+/**
+ * Persist the preferred backend; takes effect on next startup
+ */
+export function saveDataStorePreference(kind: DataStoreKind): void {
+  localStorage.setItem(DATA_STORE_STORAGE_KEY, kind);
+}
@@ -1,5 +1,5 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
 import { getAuth } from 'firebase/auth';
 import { getStorage } from 'firebase/storage';
 import { getAnalytics } from 'firebase/analytics';
@@ -24,6 +24,12 @@ export const auth = getAuth(app);
 export const storage = getStorage(app);
 export const analytics = getAnalytics(app);
 
+// Point Firestore at the local emulator when configured (e.g. "localhost:8080")
+if (import.meta.env.VITE_FIRESTORE_EMULATOR_HOST) {
+  const [emulatorHost, emulatorPort] = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST.split(':');
+  connectFirestoreEmulator(db, emulatorHost, Number(emulatorPort) || 8080);
+}
+
 
 // Configure auth settings for production
 auth.useDeviceLanguage(); // Use device language for auth UI
@@ -37,7 +43,16 @@ export const COLLECTIONS = {
   PRODUCTS: 'products',
   USERS: 'users',
   ALERTS: 'alerts',
-  SETTINGS: 'settings'
+  SETTINGS: 'settings',
+  STOCK_MOVEMENTS: 'stock_movements',
+  INVENTORY_SESSIONS: 'inventory_sessions',
+  SUPPLIERS: 'suppliers',
+  PURCHASE_ORDERS: 'purchase_orders',
+  EXPENSES: 'expenses',
+  REGISTER_SESSIONS: 'register_sessions',
+  SALES_TARGETS: 'sales_targets',
+  STORES: 'stores',
+  STOCK_TRANSFERS: 'stock_transfers'
 } as const;
 
 // Firestore data types
@@ -52,6 +67,13 @@ export interface FirestoreRegisterSale {
   price: number;
   total: number;
   createdAt: string; // ISO string
+  type?: 'sale' | 'return';
+  originalSaleId?: string;
+  returnCondition?: 'sellable' | 'defective';
+  ticketId?: string;
+  productId?: string;
+  productCode?: string;
+  bundleComponents?: Array<{ productId: string; quantity: number }>;
   // ✅ NEW: Categorization metadata field
   category_metadata?: {
     category: string;
@@ -63,15 +85,27 @@ export interface FirestoreRegisterSale {
 
 export interface FirestoreProduct {
   id: string;
+  sku?: string;
+  barcodes?: string[];
+  aliases?: string[];
+  mergedProductIds?: string[];
   name: string;
   category: string;
   price: number;
   stock: number; // Final quantity
+  stockByStore?: Record<string, number>;
   initialStock?: number; // Initial quantity from stock import
+  initialStockByStore?: Record<string, number>;
   initialStockDate?: string; // Effective date for initial stock (YYYY-MM-DD)
   quantitySold?: number; // Quantity sold from sales import
   minStock: number;
   description?: string;
+  costPrice?: number;
+  costPriceHistory?: { costPrice: number; effectiveDate: string }[];
+  priceHistory?: { price: number; effectiveDate: string; changedBy?: string; changedAt?: string }[];
+  discontinued?: boolean;
+  promotionFlag?: boolean;
+  bundleComponents?: Array<{ productId: string; quantity: number }>;
   createdAt: string; // ISO string
   updatedAt: string; // ISO string
 }
@@ -95,6 +129,179 @@ export interface FirestoreAlert {
   userId?: string;
 }
 
+export interface FirestoreStockMovement {
+  id: string;
+  productId: string;
+  productName: string;
+  category: string;
+  type: 'initial' | 'import' | 'sale' | 'adjustment' | 'deletion' | 'receipt' | 'return' | 'transfer' | 'merge';
+  quantity: number;
+  date: string; // ISO string
+  reference?: string;
+  description?: string;
+  reason?: string;
+  reasonCode?:
+    | 'casse'
+    | 'vol'
+    | 'peremption'
+    | 'consommation_interne'
+    | 'erreur_saisie'
+    | 'ecart_inventaire'
+    | 'ecart_transfert';
+  note?: string;
+  unitCost?: number;
+  storeId?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: string; // ISO string
+}
+
+export interface FirestoreInventorySession {
+  id: string;
+  name: string;
+  categories: string[];
+  blind: boolean;
+  status: 'open' | 'posted' | 'cancelled';
+  countDate: string; // ISO string
+  storeId?: string;
+  lines: Array<{
+    productId: string;
+    productName: string;
+    category: string;
+    countedQuantity: number | null;
+    expectedQuantity?: number;
+    unitPrice?: number;
+  }>;
+  userId?: string;
+  userName?: string;
+  createdAt: string; // ISO string
+  postedAt?: string; // ISO string
+}
+
+export interface FirestoreSupplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  leadTimeDays: number;
+  products: Array<{
+    productId: string;
+    purchasePrice: number;
+    supplierReference?: string;
+  }>;
+  notes?: string;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
+export interface FirestoreStore {
+  id: string;
+  name: string;
+  registers: string[];
+  address?: string;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
+export interface FirestoreStockTransfer {
+  id: string;
+  number: string;
+  fromStoreId: string;
+  toStoreId: string;
+  status: 'requested' | 'shipped' | 'received';
+  lines: Array<{
+    productId: string;
+    productName: string;
+    category: string;
+    quantityRequested: number;
+    quantityShipped?: number;
+    quantityReceived?: number;
+  }>;
+  notes?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: string; // ISO string
+  shippedAt?: string; // ISO string
+  receivedAt?: string; // ISO string
+}
+
+export interface FirestorePurchaseOrder {
+  id: string;
+  number: string;
+  supplierId: string;
+  supplierName: string;
+  status: 'draft' | 'sent' | 'partially_received' | 'received';
+  lines: Array<{
+    productId: string;
+    productName: string;
+    category: string;
+    quantityOrdered: number;
+    quantityReceived: number;
+    unitCost: number;
+  }>;
+  expectedDate?: string; // ISO string
+  notes?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: string; // ISO string
+  sentAt?: string; // ISO string
+  receivedAt?: string; // ISO string
+}
+
+export interface FirestoreRegisterSession {
+  id: string;
+  register: string;
+  status: 'open' | 'closed';
+  openingFloat: number;
+  openedAt: string; // ISO string
+  openedBy?: string;
+  closedAt?: string; // ISO string
+  closedBy?: string;
+  closingCount?: Record<string, number>;
+  salesCount?: number;
+  salesTotal?: number;
+  expectedCash?: number;
+  countedCash?: number;
+  notes?: string;
+}
+
+export interface FirestoreSalesTarget {
+  id: string;
+  scope: 'overall' | 'seller' | 'register' | 'category';
+  scopeValue?: string;
+  period: 'daily' | 'weekly' | 'monthly';
+  metric: 'revenue' | 'units';
+  amount: number;
+  active: boolean;
+  userId?: string;
+  userName?: string;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
+export interface FirestoreExpense {
+  id: string;
+  category: string;
+  label: string;
+  amount: number;
+  date: string; // ISO string
+  register?: string;
+  attachment?: {
+    name: string;
+    url: string;
+    path: string;
+  };
+  recurrence: 'none' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+  recurrenceEndDate?: string; // ISO string
+  notes?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
 // Environment configuration
 export const ENV_CONFIG = {
   isDevelopment: true,
@@ -124,4 +331,4 @@ export const PERFORMANCE_CONFIG = {
   syncSettings: {
     cacheSizeBytes: 40 * 1024 * 1024
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Firestore } from 'firebase/firestore';
+import { createFirestoreDataStore } from './firestoreDataStore';
+import type { ProductMergeWrite } from './dataStore';
+
+// Firestore write batches, recorded as they are committed; like Firestore, a batch refuses more than 500 writes
+const firestore = vi.hoisted(() => {
+  const committed: string[][] = [];
+  const state = { failNextCommit: false, nextId: 0 };
+
+  return {
+    committed,
+    state,
+    collection: (_db: unknown, path: string) => ({ path }),
+    doc: (parent: { path: string }, path?: string, id?: string) => {
+      const docId = id ?? `auto-${++state.nextId}`;
+      return { id: docId, path: `${path ?? parent.path}/${docId}` };
+    },
+    deleteField: () => 'deleteField',
+    writeBatch: () => {
+      const writes: string[] = [];
+      return {
+        set: (ref: { path: string }) => writes.push(`set ${ref.path}`),
+        update: (ref: { path: string }) => writes.push(`update ${ref.path}`),
+        delete: (ref: { path: string }) => writes.push(`delete ${ref.path}`),
+        commit: async () => {
+          if (state.failNextCommit) {
+            state.failNextCommit = false;
+            throw new Error('unavailable');
+          }
+          if (writes.length > 500) throw new Error('A write batch holds at most 500 writes');
+          committed.push(writes);
+        }
+      };
+    }
+  };
+});
+
+vi.mock('firebase/firestore', () => ({
+  collection: firestore.collection,
+  doc: firestore.doc,
+  deleteField: firestore.deleteField,
+  writeBatch: firestore.writeBatch
+}));
+
+vi.mock('./firebase', () => ({
+  db: {},
+  storage: {},
+  COLLECTIONS: { REGISTER_SALES: 'register_sales', PRODUCTS: 'products', STOCK_MOVEMENTS: 'stock_movements' }
+}));
+
+const mergeWrite = (salesCount: number): ProductMergeWrite => ({
+  productUpdates: [{ id: 'coca', updates: { aliases: ['Coca Cola 33cl'], mergedProductIds: ['coca-cola'], initialStock: 14 } }],
+  saleUpdates: Array.from({ length: salesCount }, (_, i) => ({ id: `s${i}`, updates: { productId: 'coca' } })),
+  movements: [
+    { productId: 'coca-cola', productName: 'Coca Cola 33cl', category: 'Boissons', type: 'deletion', quantity: -5, date: new Date() },
+    { productId: 'coca', productName: 'Coca 33cl', category: 'Boissons', type: 'merge', quantity: 5, date: new Date() }
+  ],
+  deletedProductIds: ['coca-cola']
+});
+
+describe('Firestore data store', () => {
+  beforeEach(() => {
+    firestore.committed.length = 0;
+    firestore.state.failNextCommit = false;
+  });
+
+  it('merges a product with more sales than a write batch holds', async () => {
+    const store = createFirestoreDataStore({} as Firestore);
+
+    await store.products.merge(mergeWrite(1200));
+
+    const [productBatch, ...saleBatches] = firestore.committed;
+    expect(productBatch).toEqual([
+      'update products/coca',
+      expect.stringMatching(/^set stock_movements\//),
+      expect.stringMatching(/^set stock_movements\//),
+      'delete products/coca-cola'
+    ]);
+    expect(saleBatches.every(batch => batch.length <= 500)).toBe(true);
+    expect(new Set(saleBatches.flat()).size).toBe(1200);
+  });
+
+  it('relinks no sale when the product and stock writes fail', async () => {
+    const store = createFirestoreDataStore({} as Firestore);
+    firestore.state.failNextCommit = true;
+
+    await expect(store.products.merge(mergeWrite(600))).rejects.toThrow('unavailable');
+    expect(firestore.committed).toEqual([]);
+  });
+
+  it('writes a product update and its stock movement in one batch', async () => {
+    const store = createFirestoreDataStore({} as Firestore);
+    const adjustment = { productId: 'coca', productName: 'Coca 33cl', category: 'Boissons', type: 'adjustment' as const, quantity: 4, date: new Date() };
+
+    await store.products.updateWithMovements('coca', { stock: 12 }, [adjustment]);
+    firestore.state.failNextCommit = true;
+    await expect(store.products.updateWithMovements('coca', { stock: 16 }, [adjustment])).rejects.toThrow('unavailable');
+
+    expect(firestore.committed).toEqual([['update products/coca', expect.stringMatching(/^set stock_movements\//)]]);
+  });
+});
@@ -0,0 +1,1031 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  orderBy,
+  where,
+  limit,
+  startAfter,
+  documentId,
+  getCountFromServer,
+  onSnapshot,
+  writeBatch,
+  DocumentReference,
+  DocumentData,
+  Firestore,
+  WriteBatch,
+  QueryConstraint
+} from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { parseISO } from 'date-fns';
+import {
+  db,
+  storage,
+  COLLECTIONS,
+  FirestoreRegisterSale,
+  FirestoreProduct,
+  FirestoreAlert,
+  FirestoreStockMovement,
+  FirestoreInventorySession,
+  FirestoreSupplier,
+  FirestorePurchaseOrder,
+  FirestoreExpense,
+  FirestoreRegisterSession,
+  FirestoreSalesTarget,
+  FirestoreStore,
+  FirestoreStockTransfer
+} from './firebase';
+import {
+  RegisterSale,
+  Product,
+  Alert,
+  StockMovement,
+  InventorySession,
+  Supplier,
+  PurchaseOrder,
+  Expense,
+  RegisterSession,
+  SalesTarget,
+  Store,
+  StockTransfer
+} from '../types';
+import type { DataStore, CleanProduct, CleanSale, UserProfile, SalesDateRange, SalesQuery, SalesCursor } from './dataStore';
+
+// Firestore limits a write batch to 500 operations; stay well below it
+const BATCH_SIZE = 200;
+
+const CLEAN_COLLECTIONS = {
+  PRODUCTS: 'products_clean',
+  REGISTER_SALES: 'register_sales_clean'
+} as const;
+
+function toRegisterSale(id: string, data: FirestoreRegisterSale): RegisterSale {
+  return {
+    id,
+    product: data.product,
+    category: data.category,
+    subcategory: data.category_metadata?.subcategory || undefined,
+    register: data.register,
+    date: parseISO(data.date),
+    seller: data.seller,
+    quantity: data.quantity,
+    price: data.price,
+    total: data.total,
+    created_at: data.createdAt ? parseISO(data.createdAt) : new Date(),
+    type: data.type,
+    originalSaleId: data.originalSaleId,
+    returnCondition: data.returnCondition,
+    ticketId: data.ticketId,
+    productId: data.productId,
+    productCode: data.productCode,
+    bundleComponents: data.bundleComponents
+  };
+}
+
+function toProduct(id: string, data: FirestoreProduct): Product {
+  return {
+    id,
+    sku: data.sku,
+    barcodes: data.barcodes,
+    aliases: data.aliases,
+    mergedProductIds: data.mergedProductIds,
+    name: data.name,
+    category: data.category,
+    price: data.price,
+    stock: data.stock,
+    stockByStore: data.stockByStore,
+    initialStock: data.initialStock || data.stock,
+    initialStockByStore: data.initialStockByStore,
+    initialStockDate: data.initialStockDate,
+    quantitySold: data.quantitySold || 0,
+    minStock: data.minStock,
+    description: data.description,
+    costPrice: data.costPrice,
+    costPriceHistory: data.costPriceHistory,
+    priceHistory: data.priceHistory,
+    discontinued: data.discontinued,
+    promotionFlag: data.promotionFlag,
+    bundleComponents: data.bundleComponents
+  };
+}
+
+function toFirestoreProduct(product: Omit<Product, 'id'>): Omit<FirestoreProduct, 'id'> {
+  return {
+    sku: product.sku,
+    barcodes: product.barcodes,
+    aliases: product.aliases,
+    mergedProductIds: product.mergedProductIds,
+    name: product.name,
+    category: product.category,
+    price: product.price,
+    stock: product.stock,
+    stockByStore: product.stockByStore,
+    initialStock: product.initialStock || product.stock,
+    initialStockByStore: product.initialStockByStore,
+    initialStockDate: product.initialStockDate,
+    quantitySold: 0, // Always start with 0, will be calculated from sales
+    minStock: product.minStock,
+    description: product.description || '',
+    costPrice: product.costPrice,
+    costPriceHistory: product.costPriceHistory,
+    priceHistory: product.priceHistory,
+    discontinued: product.discontinued,
+    promotionFlag: product.promotionFlag,
+    bundleComponents: product.bundleComponents,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+function toStockMovement(id: string, data: FirestoreStockMovement): StockMovement {
+  return {
+    id,
+    productId: data.productId,
+    productName: data.productName,
+    category: data.category,
+    type: data.type,
+    quantity: data.quantity,
+    date: parseISO(data.date),
+    reference: data.reference,
+    description: data.description,
+    reason: data.reason,
+    reasonCode: data.reasonCode,
+    note: data.note,
+    unitCost: data.unitCost,
+    storeId: data.storeId,
+    userId: data.userId,
+    userName: data.userName,
+    createdAt: parseISO(data.createdAt)
+  };
+}
+
+function toFirestoreStockMovement(movement: Omit<StockMovement, 'id'>): Omit<FirestoreStockMovement, 'id'> {
+  return {
+    ...movement,
+    date: movement.date.toISOString(),
+    createdAt: (movement.createdAt || new Date()).toISOString()
+  };
+}
+
+function toInventorySession(id: string, data: FirestoreInventorySession): InventorySession {
+  return {
+    id,
+    name: data.name,
+    categories: data.categories || [],
+    blind: data.blind,
+    status: data.status,
+    countDate: parseISO(data.countDate),
+    storeId: data.storeId,
+    lines: data.lines || [],
+    userId: data.userId,
+    userName: data.userName,
+    createdAt: parseISO(data.createdAt),
+    postedAt: data.postedAt ? parseISO(data.postedAt) : undefined
+  };
+}
+
+function toFirestoreInventoryUpdate(
+  updates: Partial<Omit<InventorySession, 'id'>>
+): Partial<FirestoreInventorySession> {
+  const { countDate, createdAt, postedAt, lines, ...rest } = updates;
+  return {
+    ...rest,
+    // Firestore rejects undefined values nested in arrays
+    ...(lines && { lines: lines.map(line => withoutUndefined(line) as FirestoreInventorySession['lines'][number]) }),
+    ...(countDate && { countDate: countDate.toISOString() }),
+    ...(createdAt && { createdAt: createdAt.toISOString() }),
+    ...(postedAt && { postedAt: postedAt.toISOString() })
+  };
+}
+
+function toSupplier(id: string, data: FirestoreSupplier): Supplier {
+  return {
+    id,
+    name: data.name,
+    contactName: data.contactName,
+    email: data.email,
+    phone: data.phone,
+    address: data.address,
+    leadTimeDays: data.leadTimeDays || 0,
+    products: data.products || [],
+    notes: data.notes,
+    createdAt: parseISO(data.createdAt),
+    updatedAt: parseISO(data.updatedAt)
+  };
+}
+
+function toFirestoreSupplierUpdate(updates: Partial<Omit<Supplier, 'id'>>): Partial<FirestoreSupplier> {
+  const { createdAt, updatedAt, products, ...rest } = updates;
+  return {
+    ...rest,
+    ...(products && { products: products.map(product => withoutUndefined(product) as FirestoreSupplier['products'][number]) }),
+    ...(createdAt && { createdAt: createdAt.toISOString() }),
+    ...(updatedAt && { updatedAt: updatedAt.toISOString() })
+  };
+}
+
+function toPurchaseOrder(id: string, data: FirestorePurchaseOrder): PurchaseOrder {
+  return {
+    id,
+    number: data.number,
+    supplierId: data.supplierId,
+    supplierName: data.supplierName,
+    status: data.status,
+    lines: data.lines || [],
+    expectedDate: data.expectedDate ? parseISO(data.expectedDate) : undefined,
+    notes: data.notes,
+    userId: data.userId,
+    userName: data.userName,
+    createdAt: parseISO(data.createdAt),
+    sentAt: data.sentAt ? parseISO(data.sentAt) : undefined,
+    receivedAt: data.receivedAt ? parseISO(data.receivedAt) : undefined
+  };
+}
+
+function toFirestorePurchaseOrderUpdate(
+  updates: Partial<Omit<PurchaseOrder, 'id'>>
+): Partial<FirestorePurchaseOrder> {
+  const { expectedDate, createdAt, sentAt, receivedAt, ...rest } = updates;
+  return {
+    ...rest,
+    ...(expectedDate && { expectedDate: expectedDate.toISOString() }),
+    ...(createdAt && { createdAt: createdAt.toISOString() }),
+    ...(sentAt && { sentAt: sentAt.toISOString() }),
+    ...(receivedAt && { receivedAt: receivedAt.toISOString() })
+  };
+}
+
+function toSaleUpdate(updates: Partial<RegisterSale>): Partial<FirestoreRegisterSale> {
+  const updateData: Partial<FirestoreRegisterSale> = {};
+
+  if (updates.product) updateData.product = updates.product;
+  if (updates.category) updateData.category = updates.category;
+  if (updates.register) updateData.register = updates.register;
+  if (updates.date) updateData.date = updates.date.toISOString();
+  if (updates.seller) updateData.seller = updates.seller;
+  if (updates.quantity !== undefined) updateData.quantity = updates.quantity;
+  if (updates.price !== undefined) updateData.price = updates.price;
+  if (updates.total !== undefined) updateData.total = updates.total;
+  if (updates.type) updateData.type = updates.type;
+  if (updates.originalSaleId) updateData.originalSaleId = updates.originalSaleId;
+  if (updates.returnCondition) updateData.returnCondition = updates.returnCondition;
+  if (updates.ticketId) updateData.ticketId = updates.ticketId;
+  if (updates.productId !== undefined) updateData.productId = updates.productId;
+  if (updates.productCode) updateData.productCode = updates.productCode;
+  if (updates.bundleComponents) updateData.bundleComponents = updates.bundleComponents;
+
+  return updateData;
+}
+
+/**
+ * Sale dates are stored as ISO strings, which compare lexicographically in date order
+ */
+function dateRangeConstraints(range: SalesDateRange = {}): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [];
+  if (range.from) constraints.push(where('date', '>=', range.from.toISOString()));
+  if (range.to) constraints.push(where('date', '<=', range.to.toISOString()));
+  return constraints;
+}
+
+/**
+ * Newest first, with the document id as tie-breaker so cursors never skip
+ * sales that share the same date
+ */
+function salesPageConstraints(salesQuery: SalesQuery, cursor: SalesCursor | null = null): QueryConstraint[] {
+  return [
+    ...dateRangeConstraints(salesQuery),
+    orderBy('date', 'desc'),
+    orderBy(documentId(), 'desc'),
+    ...(cursor ? [startAfter(cursor.date.toISOString(), cursor.id)] : []),
+    limit(salesQuery.limit)
+  ];
+}
+
+function toRegisterSession(id: string, data: FirestoreRegisterSession): RegisterSession {
+  return {
+    id,
+    register: data.register,
+    status: data.status,
+    openingFloat: data.openingFloat || 0,
+    openedAt: parseISO(data.openedAt),
+    openedBy: data.openedBy,
+    closedAt: data.closedAt ? parseISO(data.closedAt) : undefined,
+    closedBy: data.closedBy,
+    closingCount: data.closingCount,
+    salesCount: data.salesCount,
+    salesTotal: data.salesTotal,
+    expectedCash: data.expectedCash,
+    countedCash: data.countedCash,
+    notes: data.notes
+  };
+}
+
+function toFirestoreRegisterSessionUpdate(
+  updates: Partial<Omit<RegisterSession, 'id'>>
+): Partial<FirestoreRegisterSession> {
+  const { openedAt, closedAt, ...rest } = updates;
+  return {
+    ...rest,
+    ...(openedAt && { openedAt: openedAt.toISOString() }),
+    ...(closedAt && { closedAt: closedAt.toISOString() })
+  };
+}
+
+function toExpense(id: string, data: FirestoreExpense): Expense {
+  return {
+    id,
+    category: data.category,
+    label: data.label,
+    amount: data.amount || 0,
+    date: parseISO(data.date),
+    register: data.register,
+    attachment: data.attachment,
+    recurrence: data.recurrence || 'none',
+    recurrenceEndDate: data.recurrenceEndDate ? parseISO(data.recurrenceEndDate) : undefined,
+    notes: data.notes,
+    userId: data.userId,
+    userName: data.userName,
+    createdAt: parseISO(data.createdAt),
+    updatedAt: parseISO(data.updatedAt)
+  };
+}
+
+function toFirestoreExpenseUpdate(updates: Partial<Omit<Expense, 'id'>>): Partial<FirestoreExpense> {
+  const { date, recurrenceEndDate, createdAt, updatedAt, ...rest } = updates;
+  return {
+    ...rest,
+    ...(date && { date: date.toISOString() }),
+    ...(recurrenceEndDate && { recurrenceEndDate: recurrenceEndDate.toISOString() }),
+    ...(createdAt && { createdAt: createdAt.toISOString() }),
+    ...(updatedAt && { updatedAt: updatedAt.toISOString() })
+  };
+}
+
+function toSalesTarget(id: string, data: FirestoreSalesTarget): SalesTarget {
+  return {
+    id,
+    scope: data.scope || 'overall',
+    scopeValue: data.scopeValue,
+    period: data.period,
+    metric: data.metric,
+    amount: data.amount || 0,
+    active: data.active !== false,
+    userId: data.userId,
+    userName: data.userName,
+    createdAt: parseISO(data.createdAt),
+    updatedAt: parseISO(data.updatedAt)
+  };
+}
+
+function toFirestoreSalesTargetUpdate(updates: Partial<Omit<SalesTarget, 'id'>>): Partial<FirestoreSalesTarget> {
+  const { createdAt, updatedAt, ...rest } = updates;
+  return {
+    ...rest,
+    ...(createdAt && { createdAt: createdAt.toISOString() }),
+    ...(updatedAt && { updatedAt: updatedAt.toISOString() })
+  };
+}
+
+function toStore(id: string, data: FirestoreStore): Store {
+  return {
+    id,
+    name: data.name,
+    registers: data.registers || [],
+    address: data.address,
+    createdAt: parseISO(data.createdAt),
+    updatedAt: parseISO(data.updatedAt)
+  };
+}
+
+function toFirestoreStoreUpdate(updates: Partial<Omit<Store, 'id'>>): Partial<FirestoreStore> {
+  const { createdAt, updatedAt, ...rest } = updates;
+  return {
+    ...rest,
+    ...(createdAt && { createdAt: createdAt.toISOString() }),
+    ...(updatedAt && { updatedAt: updatedAt.toISOString() })
+  };
+}
+
+function toStockTransfer(id: string, data: FirestoreStockTransfer): StockTransfer {
+  return {
+    id,
+    number: data.number,
+    fromStoreId: data.fromStoreId,
+    toStoreId: data.toStoreId,
+    status: data.status,
+    lines: data.lines || [],
+    notes: data.notes,
+    userId: data.userId,
+    userName: data.userName,
+    createdAt: parseISO(data.createdAt),
+    shippedAt: data.shippedAt ? parseISO(data.shippedAt) : undefined,
+    receivedAt: data.receivedAt ? parseISO(data.receivedAt) : undefined
+  };
+}
+
+function toFirestoreStockTransferUpdate(
+  updates: Partial<Omit<StockTransfer, 'id'>>
+): Partial<FirestoreStockTransfer> {
+  const { createdAt, shippedAt, receivedAt, ...rest } = updates;
+  return {
+    ...rest,
+    ...(createdAt && { createdAt: createdAt.toISOString() }),
+    ...(shippedAt && { shippedAt: shippedAt.toISOString() }),
+    ...(receivedAt && { receivedAt: receivedAt.toISOString() })
+  };
+}
+
+/**
+ * Firestore rejects `undefined` field values, so drop them before writing
+ */
+function withoutUndefined<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Product changes for updateDoc: a field set to undefined is removed from the
+ * document, so optional values such as the cost price can be cleared
+ */
+function toFirestoreProductUpdate(updates: Partial<Product>): DocumentData {
+  return {
+    ...Object.fromEntries(
+      Object.entries(updates).map(([field, value]) => [field, value === undefined ? deleteField() : value])
+    ),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Split items into write batches of BATCH_SIZE operations and commit them sequentially
+ */
+async function commitInBatches<T>(
+  firestore: Firestore,
+  items: T[],
+  write: (batch: WriteBatch, item: T) => void
+): Promise<void> {
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const batch = writeBatch(firestore);
+    items.slice(i, i + BATCH_SIZE).forEach(item => write(batch, item));
+    await batch.commit();
+  }
+}
+
+/**
+ * Data store backed by Cloud Firestore (production and emulator)
+ */
+export function createFirestoreDataStore(firestore: Firestore = db): DataStore {
+  const newDocRef = (collectionName: string): DocumentReference<DocumentData> =>
+    doc(collection(firestore, collectionName));
+
+  return {
+    kind: 'firestore',
+
+    generateId: () => newDocRef(COLLECTIONS.PRODUCTS).id,
+
+    sales: {
+      subscribe(salesQuery, onChange, onError) {
+        const q = query(
+          collection(firestore, COLLECTIONS.REGISTER_SALES),
+          ...salesPageConstraints(salesQuery)
+        );
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toRegisterSale(d.id, d.data() as FirestoreRegisterSale)));
+        }, onError);
+      },
+
+      async list(range) {
+        const q = query(collection(firestore, COLLECTIONS.REGISTER_SALES), ...dateRangeConstraints(range));
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(d => toRegisterSale(d.id, d.data() as FirestoreRegisterSale));
+      },
+
+      async listPage(salesQuery, cursor) {
+        const q = query(
+          collection(firestore, COLLECTIONS.REGISTER_SALES),
+          ...salesPageConstraints(salesQuery, cursor)
+        );
+        const snapshot = await getDocs(q);
+        const sales = snapshot.docs.map(d => toRegisterSale(d.id, d.data() as FirestoreRegisterSale));
+        const last = sales[sales.length - 1];
+
+        return {
+          sales,
+          nextCursor: sales.length === salesQuery.limit && last ? { date: last.date, id: last.id } : null
+        };
+      },
+
+      async count(range) {
+        const q = query(collection(firestore, COLLECTIONS.REGISTER_SALES), ...dateRangeConstraints(range));
+        const snapshot = await getCountFromServer(q);
+        return snapshot.data().count;
+      },
+
+      async addMany(sales) {
+        const created: RegisterSale[] = [];
+
+        await commitInBatches(firestore, sales, (batch, sale) => {
+          const docRef = newDocRef(COLLECTIONS.REGISTER_SALES);
+          const saleData: Omit<FirestoreRegisterSale, 'id'> = {
+            product: sale.product,
+            category: sale.category,
+            register: sale.register,
+            date: sale.date.toISOString(),
+            seller: sale.seller,
+            quantity: sale.quantity,
+            price: sale.price,
+            total: sale.total,
+            createdAt: new Date().toISOString(),
+            type: sale.type,
+            originalSaleId: sale.originalSaleId,
+            returnCondition: sale.returnCondition,
+            ticketId: sale.ticketId,
+            productId: sale.productId,
+            productCode: sale.productCode,
+            bundleComponents: sale.bundleComponents
+          };
+          batch.set(docRef, withoutUndefined(saleData));
+          created.push(toRegisterSale(docRef.id, { id: docRef.id, ...saleData }));
+        });
+
+        return created;
+      },
+
+      async update(id, updates) {
+        await updateDoc(doc(firestore, COLLECTIONS.REGISTER_SALES, id), toSaleUpdate(updates));
+      },
+
+      async updateMany(changes) {
+        await commitInBatches(firestore, changes, (batch, { id, updates }) => {
+          batch.update(doc(firestore, COLLECTIONS.REGISTER_SALES, id), toSaleUpdate(updates));
+        });
+      },
+
+      async categorize(ids, category, subcategory) {
+        await commitInBatches(firestore, ids, (batch, id) => {
+          const updateData: Partial<FirestoreRegisterSale> = {
+            category, // Update the actual category field, not just metadata
+            // Also store categorization metadata for tracking
+            category_metadata: {
+              category,
+              subcategory: subcategory || null,
+              categorized_at: new Date().toISOString(),
+              categorized_by: 'user'
+            }
+          };
+          batch.update(doc(firestore, COLLECTIONS.REGISTER_SALES, id), updateData);
+        });
+      },
+
+      async deleteMany(ids) {
+        await commitInBatches(firestore, ids, (batch, id) => {
+          batch.delete(doc(firestore, COLLECTIONS.REGISTER_SALES, id));
+        });
+      }
+    },
+
+    products: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.PRODUCTS), orderBy('name'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toProduct(d.id, d.data() as FirestoreProduct)));
+        }, onError);
+      },
+
+      async add(product) {
+        const docRef = newDocRef(COLLECTIONS.PRODUCTS);
+        const productData = toFirestoreProduct(product);
+        await setDoc(docRef, withoutUndefined(productData));
+        return toProduct(docRef.id, { id: docRef.id, ...productData });
+      },
+
+      async addMany(products) {
+        const created: Product[] = [];
+
+        await commitInBatches(firestore, products, (batch, product) => {
+          const docRef = newDocRef(COLLECTIONS.PRODUCTS);
+          const productData = toFirestoreProduct(product);
+          batch.set(docRef, withoutUndefined(productData));
+          created.push(toProduct(docRef.id, { id: docRef.id, ...productData }));
+        });
+
+        return created;
+      },
+
+      async update(id, updates) {
+        await updateDoc(doc(firestore, COLLECTIONS.PRODUCTS, id), toFirestoreProductUpdate(updates));
+      },
+
+      async updateMany(changes) {
+        await commitInBatches(firestore, changes, (batch, { id, updates }) => {
+          batch.update(doc(firestore, COLLECTIONS.PRODUCTS, id), toFirestoreProductUpdate(updates));
+        });
+      },
+
+      async deleteMany(ids) {
+        await commitInBatches(firestore, ids, (batch, id) => {
+          batch.delete(doc(firestore, COLLECTIONS.PRODUCTS, id));
+        });
+      },
+
+      async merge({ productUpdates, saleUpdates, movements, deletedProductIds }) {
+        // Products, stock credit and ledger in one small batch: a failed merge leaves no credited stock behind
+        const batch = writeBatch(firestore);
+        productUpdates.forEach(({ id, updates }) => {
+          batch.update(doc(firestore, COLLECTIONS.PRODUCTS, id), toFirestoreProductUpdate(updates));
+        });
+        movements.forEach(movement => {
+          batch.set(newDocRef(COLLECTIONS.STOCK_MOVEMENTS), withoutUndefined(toFirestoreStockMovement(movement)));
+        });
+        deletedProductIds.forEach(id => {
+          batch.delete(doc(firestore, COLLECTIONS.PRODUCTS, id));
+        });
+        await batch.commit();
+
+        // Then the sales, as many as there are: until relinked they resolve to the target
+        // through its merged product ids, and relinking again is harmless
+        await commitInBatches(firestore, saleUpdates, (saleBatch, { id, updates }) => {
+          saleBatch.update(doc(firestore, COLLECTIONS.REGISTER_SALES, id), toSaleUpdate(updates));
+        });
+      },
+
+      async updateWithMovements(id, updates, movements) {
+        const batch = writeBatch(firestore);
+        batch.update(doc(firestore, COLLECTIONS.PRODUCTS, id), toFirestoreProductUpdate(updates));
+        movements.forEach(movement => {
+          batch.set(newDocRef(COLLECTIONS.STOCK_MOVEMENTS), withoutUndefined(toFirestoreStockMovement(movement)));
+        });
+        await batch.commit();
+      }
+    },
+
+    stockMovements: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.STOCK_MOVEMENTS), orderBy('date'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toStockMovement(d.id, d.data() as FirestoreStockMovement)));
+        }, onError);
+      },
+
+      async list(productId) {
+        const q = productId
+          ? query(collection(firestore, COLLECTIONS.STOCK_MOVEMENTS), where('productId', '==', productId))
+          : collection(firestore, COLLECTIONS.STOCK_MOVEMENTS);
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+          .map(d => toStockMovement(d.id, d.data() as FirestoreStockMovement))
+          .sort((a, b) => a.date.getTime() - b.date.getTime());
+      },
+
+      async addMany(movements) {
+        const created: StockMovement[] = [];
+
+        await commitInBatches(firestore, movements, (batch, movement) => {
+          const docRef = newDocRef(COLLECTIONS.STOCK_MOVEMENTS);
+          const movementData = toFirestoreStockMovement(movement);
+          batch.set(docRef, withoutUndefined(movementData));
+          created.push(toStockMovement(docRef.id, { id: docRef.id, ...movementData }));
+        });
+
+        return created;
+      }
+    },
+
+    inventorySessions: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.INVENTORY_SESSIONS), orderBy('createdAt', 'desc'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toInventorySession(d.id, d.data() as FirestoreInventorySession)));
+        }, onError);
+      },
+
+      async create(session) {
+        const docRef = newDocRef(COLLECTIONS.INVENTORY_SESSIONS);
+        const sessionData = {
+          ...toFirestoreInventoryUpdate(session),
+          id: docRef.id
+        } as FirestoreInventorySession;
+        await setDoc(docRef, withoutUndefined(sessionData));
+        return toInventorySession(docRef.id, sessionData);
+      },
+
+      async update(id, updates) {
+        await updateDoc(
+          doc(firestore, COLLECTIONS.INVENTORY_SESSIONS, id),
+          withoutUndefined(toFirestoreInventoryUpdate(updates))
+        );
+      }
+    },
+
+    suppliers: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.SUPPLIERS), orderBy('name'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toSupplier(d.id, d.data() as FirestoreSupplier)));
+        }, onError);
+      },
+
+      async add(supplier) {
+        const docRef = newDocRef(COLLECTIONS.SUPPLIERS);
+        const supplierData = { ...toFirestoreSupplierUpdate(supplier), id: docRef.id } as FirestoreSupplier;
+        await setDoc(docRef, withoutUndefined(supplierData));
+        return toSupplier(docRef.id, supplierData);
+      },
+
+      async update(id, updates) {
+        await updateDoc(
+          doc(firestore, COLLECTIONS.SUPPLIERS, id),
+          withoutUndefined(toFirestoreSupplierUpdate(updates))
+        );
+      },
+
+      async delete(id) {
+        await deleteDoc(doc(firestore, COLLECTIONS.SUPPLIERS, id));
+      }
+    },
+
+    purchaseOrders: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.PURCHASE_ORDERS), orderBy('createdAt', 'desc'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toPurchaseOrder(d.id, d.data() as FirestorePurchaseOrder)));
+        }, onError);
+      },
+
+      async add(order) {
+        const docRef = newDocRef(COLLECTIONS.PURCHASE_ORDERS);
+        const orderData = { ...toFirestorePurchaseOrderUpdate(order), id: docRef.id } as FirestorePurchaseOrder;
+        await setDoc(docRef, withoutUndefined(orderData));
+        return toPurchaseOrder(docRef.id, orderData);
+      },
+
+      async update(id, updates) {
+        await updateDoc(
+          doc(firestore, COLLECTIONS.PURCHASE_ORDERS, id),
+          withoutUndefined(toFirestorePurchaseOrderUpdate(updates))
+        );
+      },
+
+      async delete(id) {
+        await deleteDoc(doc(firestore, COLLECTIONS.PURCHASE_ORDERS, id));
+      }
+    },
+
+    expenses: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.EXPENSES), orderBy('date', 'desc'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toExpense(d.id, d.data() as FirestoreExpense)));
+        }, onError);
+      },
+
+      async add(expense) {
+        const docRef = newDocRef(COLLECTIONS.EXPENSES);
+        const expenseData = { ...toFirestoreExpenseUpdate(expense), id: docRef.id } as FirestoreExpense;
+        await setDoc(docRef, withoutUndefined(expenseData));
+        return toExpense(docRef.id, expenseData);
+      },
+
+      async update(id, updates) {
+        const data: DocumentData = withoutUndefined(toFirestoreExpenseUpdate(updates));
+        // An explicitly cleared optional field must be removed from the document
+        (['register', 'attachment', 'recurrenceEndDate', 'notes'] as const).forEach(field => {
+          if (field in updates && updates[field] === undefined) data[field] = deleteField();
+        });
+        await updateDoc(doc(firestore, COLLECTIONS.EXPENSES, id), data);
+      },
+
+      async delete(id) {
+        await deleteDoc(doc(firestore, COLLECTIONS.EXPENSES, id));
+      },
+
+      async uploadAttachment(file) {
+        const path = `expenses/${Date.now()}-${file.name}`;
+        const fileRef = ref(storage, path);
+        await uploadBytes(fileRef, file);
+        return { name: file.name, url: await getDownloadURL(fileRef), path };
+      },
+
+      async deleteAttachment(attachment) {
+        await deleteObject(ref(storage, attachment.path));
+      }
+    },
+
+    registerSessions: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.REGISTER_SESSIONS), orderBy('openedAt', 'desc'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toRegisterSession(d.id, d.data() as FirestoreRegisterSession)));
+        }, onError);
+      },
+
+      async create(session) {
+        const docRef = newDocRef(COLLECTIONS.REGISTER_SESSIONS);
+        const sessionData = {
+          ...toFirestoreRegisterSessionUpdate(session),
+          id: docRef.id
+        } as FirestoreRegisterSession;
+        await setDoc(docRef, withoutUndefined(sessionData));
+        return toRegisterSession(docRef.id, sessionData);
+      },
+
+      async update(id, updates) {
+        await updateDoc(
+          doc(firestore, COLLECTIONS.REGISTER_SESSIONS, id),
+          withoutUndefined(toFirestoreRegisterSessionUpdate(updates))
+        );
+      }
+    },
+
+    salesTargets: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.SALES_TARGETS), orderBy('createdAt', 'asc'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toSalesTarget(d.id, d.data() as FirestoreSalesTarget)));
+        }, onError);
+      },
+
+      async add(target) {
+        const docRef = newDocRef(COLLECTIONS.SALES_TARGETS);
+        const targetData = {
+          ...toFirestoreSalesTargetUpdate(target),
+          id: docRef.id
+        } as FirestoreSalesTarget;
+        await setDoc(docRef, withoutUndefined(targetData));
+        return toSalesTarget(docRef.id, targetData);
+      },
+
+      async update(id, updates) {
+        const data: DocumentData = withoutUndefined(toFirestoreSalesTargetUpdate(updates));
+        // Switching a target back to 'overall' clears its scope value
+        if ('scopeValue' in updates && updates.scopeValue === undefined) data.scopeValue = deleteField();
+        await updateDoc(doc(firestore, COLLECTIONS.SALES_TARGETS, id), data);
+      },
+
+      async delete(id) {
+        await deleteDoc(doc(firestore, COLLECTIONS.SALES_TARGETS, id));
+      }
+    },
+
+    stores: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.STORES), orderBy('createdAt', 'asc'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toStore(d.id, d.data() as FirestoreStore)));
+        }, onError);
+      },
+
+      async add(storeData) {
+        const docRef = newDocRef(COLLECTIONS.STORES);
+        const data = { ...toFirestoreStoreUpdate(storeData), id: docRef.id } as FirestoreStore;
+        await setDoc(docRef, withoutUndefined(data));
+        return toStore(docRef.id, data);
+      },
+
+      async update(id, updates) {
+        await updateDoc(doc(firestore, COLLECTIONS.STORES, id), withoutUndefined(toFirestoreStoreUpdate(updates)));
+      },
+
+      async delete(id) {
+        await deleteDoc(doc(firestore, COLLECTIONS.STORES, id));
+      }
+    },
+
+    stockTransfers: {
+      subscribe(onChange, onError) {
+        const q = query(collection(firestore, COLLECTIONS.STOCK_TRANSFERS), orderBy('createdAt', 'desc'));
+
+        return onSnapshot(q, (snapshot) => {
+          onChange(snapshot.docs.map(d => toStockTransfer(d.id, d.data() as FirestoreStockTransfer)));
+        }, onError);
+      },
+
+      async add(transfer) {
+        const docRef = newDocRef(COLLECTIONS.STOCK_TRANSFERS);
+        const transferData = { ...toFirestoreStockTransferUpdate(transfer), id: docRef.id } as FirestoreStockTransfer;
+        await setDoc(docRef, withoutUndefined(transferData));
+        return toStockTransfer(docRef.id, transferData);
+      },
+
+      async update(id, updates) {
+        await updateDoc(
+          doc(firestore, COLLECTIONS.STOCK_TRANSFERS, id),
+          withoutUndefined(toFirestoreStockTransferUpdate(updates))
+        );
+      },
+
+      async delete(id) {
+        await deleteDoc(doc(firestore, COLLECTIONS.STOCK_TRANSFERS, id));
+      }
+    },
+
+    alerts: {
+      async list() {
+        const snapshot = await getDocs(collection(firestore, COLLECTIONS.ALERTS));
+        return snapshot.docs.map(d => {
+          const data = d.data() as FirestoreAlert;
+          return {
+            id: d.id,
+            type: data.type,
+            message: data.message,
+            severity: data.severity,
+            timestamp: parseISO(data.timestamp),
+            read: data.read
+          };
+        });
+      },
+
+      async save(alert: Alert) {
+        await setDoc(doc(firestore, COLLECTIONS.ALERTS, alert.id), {
+          type: alert.type,
+          message: alert.message,
+          severity: alert.severity,
+          timestamp: alert.timestamp.toISOString(),
+          read: alert.read
+        });
+      },
+
+      async markAsRead(id) {
+        await setDoc(doc(firestore, COLLECTIONS.ALERTS, id), { read: true }, { merge: true });
+      }
+    },
+
+    settings: {
+      async get<T>(key: string) {
+        const snapshot = await getDoc(doc(firestore, COLLECTIONS.SETTINGS, key));
+        return snapshot.exists() ? (snapshot.data().value as T) : null;
+      },
+
+      async set<T>(key: string, value: T) {
+        await setDoc(doc(firestore, COLLECTIONS.SETTINGS, key), {
+          value,
+          updatedAt: new Date().toISOString()
+        });
+      }
+    },
+
+    users: {
+      async get(id) {
+        const snapshot = await getDoc(doc(firestore, COLLECTIONS.USERS, id));
+        return snapshot.exists() ? ({ id, ...snapshot.data() } as UserProfile) : null;
+      },
+
+      async save({ id, ...user }) {
+        await setDoc(doc(firestore, COLLECTIONS.USERS, id), withoutUndefined(user));
+      }
+    },
+
+    clean: {
+      async findProductBySignature(signature) {
+        const productQuery = query(
+          collection(firestore, CLEAN_COLLECTIONS.PRODUCTS),
+          where('signature', '==', signature)
+        );
+        const snapshot = await getDocs(productQuery);
+
+        if (snapshot.empty) return null;
+        return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() } as CleanProduct;
+      },
+
+      async getSalesForProduct(productId) {
+        const salesQuery = query(
+          collection(firestore, CLEAN_COLLECTIONS.REGISTER_SALES),
+          where('product_id', '==', productId)
+        );
+        const snapshot = await getDocs(salesQuery);
+
+        return snapshot.docs.map(d => ({ id: d.id, ...d.data() })) as CleanSale[];
+      },
+
+      async saveBatch(products, sales) {
+        const batch = writeBatch(firestore);
+
+        products.forEach(({ id, ...product }) => {
+          batch.set(doc(firestore, CLEAN_COLLECTIONS.PRODUCTS, id), withoutUndefined(product));
+        });
+        sales.forEach(({ id, ...sale }) => {
+          batch.set(doc(firestore, CLEAN_COLLECTIONS.REGISTER_SALES, id), sale);
+        });
+
+        await batch.commit();
+      }
+    }
+  };
+}
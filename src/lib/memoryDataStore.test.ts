@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Product } from '../types';
+import { makeProduct, makeSale } from '../test/fixtures';
+import { createMemoryDataStore } from './memoryDataStore';
+
+const sale = makeSale({ product: 'Coca Cola 33cl', productId: 'coca-cola' });
+
+describe('memory data store', () => {
+  it('applies the writes of a product merge together', async () => {
+    const store = createMemoryDataStore({
+      products: [makeProduct(), makeProduct({ id: 'coca-cola', name: 'Coca Cola 33cl' })],
+      sales: [sale]
+    });
+
+    await store.products.merge({
+      productUpdates: [{ id: 'coca', updates: { aliases: ['Coca Cola 33cl'] } }],
+      saleUpdates: [{ id: 's1', updates: { productId: 'coca' } }],
+      movements: [{ productId: 'coca', productName: 'Coca 33cl', category: 'Boissons', type: 'merge', quantity: 4, date: new Date() }],
+      deletedProductIds: ['coca-cola']
+    });
+
+    let products: Product[] = [];
+    store.products.subscribe(list => { products = list; }, () => {})();
+    expect(products.map(product => [product.id, product.aliases])).toEqual([['coca', ['Coca Cola 33cl']]]);
+    expect((await store.sales.list()).map(sale => sale.productId)).toEqual(['coca']);
+    expect((await store.stockMovements.list('coca')).map(movement => movement.quantity)).toEqual([4]);
+  });
+
+  it('keeps the subcategory of categorized sales', async () => {
+    const store = createMemoryDataStore({ products: [], sales: [sale] });
+
+    await store.sales.categorize(['s1'], 'Sodas', 'Canettes');
+    expect((await store.sales.list())[0]).toMatchObject({ category: 'Sodas', subcategory: 'Canettes' });
+
+    await store.sales.categorize(['s1'], 'Boissons');
+    expect((await store.sales.list())[0].subcategory).toBeUndefined();
+  });
+
+  it('pages through sales sharing a date without skipping or repeating any', async () => {
+    const sameDay = new Date(2024, 1, 1, 12);
+    const store = createMemoryDataStore({
+      products: [],
+      sales: [
+        makeSale({ id: 'a', date: sameDay }),
+        makeSale({ id: 'b', date: sameDay }),
+        makeSale({ id: 'c', date: sameDay }),
+        makeSale({ id: 'older', date: new Date(2024, 0, 31) }),
+        makeSale({ id: 'out', date: new Date(2024, 0, 1) })
+      ]
+    });
+    const query = { limit: 2, from: new Date(2024, 0, 15) };
+
+    const first = await store.sales.listPage(query, null);
+    const second = await store.sales.listPage(query, first.nextCursor);
+
+    expect(first.sales.map(sale => sale.id)).toEqual(['c', 'b']);
+    expect(first.nextCursor).toEqual({ date: sameDay, id: 'b' });
+    expect(second.sales.map(sale => sale.id)).toEqual(['a', 'older']);
+    expect((await store.sales.listPage(query, second.nextCursor)).nextCursor).toBeNull();
+  });
+});
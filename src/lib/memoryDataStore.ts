@@ -0,0 +1,654 @@
+import { subDays } from 'date-fns';
+import {
+  RegisterSale,
+  Product,
+  Alert,
+  StockMovement,
+  InventorySession,
+  Supplier,
+  PurchaseOrder,
+  Expense,
+  RegisterSession,
+  SalesTarget,
+  Store,
+  StockTransfer
+} from '../types';
+import type { DataStore, CleanProduct, CleanSale, UserProfile, SalesDateRange, SalesCursor } from './dataStore';
+
+interface MemoryDataStoreOptions {
+  sales?: RegisterSale[];
+  products?: Product[];
+  seedDemoData?: boolean;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Same ordering as the Firestore store: newest first, id as tie-breaker
+const compareSalesDesc = (a: RegisterSale, b: RegisterSale) =>
+  b.date.getTime() - a.date.getTime() || b.id.localeCompare(a.id);
+
+const isInRange = (sale: RegisterSale, range: SalesDateRange = {}) =>
+  (!range.from || sale.date >= range.from) && (!range.to || sale.date <= range.to);
+
+const isAfterCursor = (sale: RegisterSale, cursor: SalesCursor) =>
+  sale.date.getTime() < cursor.date.getTime() ||
+  (sale.date.getTime() === cursor.date.getTime() && sale.id.localeCompare(cursor.id) < 0);
+
+/**
+ * Data store kept in memory, used for demo mode and test harnesses.
+ * Subscribers are notified synchronously after every write.
+ */
+export function createMemoryDataStore(options: MemoryDataStoreOptions = {}): DataStore {
+  let sales: RegisterSale[] = options.sales
+    ? [...options.sales]
+    : options.seedDemoData ? generateMockSales() : [];
+  let products: Product[] = options.products
+    ? [...options.products]
+    : options.seedDemoData ? generateMockProducts() : [];
+  let stockMovements: StockMovement[] = [];
+  let inventorySessions: InventorySession[] = [];
+  let suppliers: Supplier[] = [];
+  let purchaseOrders: PurchaseOrder[] = [];
+  let expenses: Expense[] = [];
+  let registerSessions: RegisterSession[] = [];
+  let salesTargets: SalesTarget[] = [];
+  let stores: Store[] = [];
+  let stockTransfers: StockTransfer[] = [];
+  const alerts = new Map<string, Alert>();
+  const settings = new Map<string, unknown>();
+  const users = new Map<string, UserProfile>();
+  const cleanProducts = new Map<string, CleanProduct>();
+  const cleanSales = new Map<string, CleanSale>();
+
+  const salesListeners = new Set<() => void>();
+  const productsListeners = new Set<() => void>();
+  const movementsListeners = new Set<() => void>();
+  const inventoryListeners = new Set<() => void>();
+  const suppliersListeners = new Set<() => void>();
+  const ordersListeners = new Set<() => void>();
+  const expensesListeners = new Set<() => void>();
+  const registerSessionsListeners = new Set<() => void>();
+  const salesTargetsListeners = new Set<() => void>();
+  const storesListeners = new Set<() => void>();
+  const transfersListeners = new Set<() => void>();
+
+  const notifySales = () => salesListeners.forEach(listener => listener());
+  const notifyProducts = () => productsListeners.forEach(listener => listener());
+  const notifyMovements = () => movementsListeners.forEach(listener => listener());
+  const notifyInventory = () => inventoryListeners.forEach(listener => listener());
+  const notifySuppliers = () => suppliersListeners.forEach(listener => listener());
+  const notifyOrders = () => ordersListeners.forEach(listener => listener());
+  const notifyExpenses = () => expensesListeners.forEach(listener => listener());
+  const notifyRegisterSessions = () => registerSessionsListeners.forEach(listener => listener());
+  const notifySalesTargets = () => salesTargetsListeners.forEach(listener => listener());
+  const notifyStores = () => storesListeners.forEach(listener => listener());
+  const notifyTransfers = () => transfersListeners.forEach(listener => listener());
+
+  return {
+    kind: 'memory',
+
+    generateId,
+
+    sales: {
+      subscribe(salesQuery, onChange) {
+        const listener = () => {
+          onChange(
+            sales
+              .filter(sale => isInRange(sale, salesQuery))
+              .sort(compareSalesDesc)
+              .slice(0, salesQuery.limit)
+          );
+        };
+        salesListeners.add(listener);
+        listener();
+        return () => {
+          salesListeners.delete(listener);
+        };
+      },
+
+      async list(range) {
+        return sales.filter(sale => isInRange(sale, range));
+      },
+
+      async listPage(salesQuery, cursor) {
+        const page = sales
+          .filter(sale => isInRange(sale, salesQuery) && (!cursor || isAfterCursor(sale, cursor)))
+          .sort(compareSalesDesc)
+          .slice(0, salesQuery.limit);
+        const last = page[page.length - 1];
+
+        return {
+          sales: page,
+          nextCursor: page.length === salesQuery.limit && last ? { date: last.date, id: last.id } : null
+        };
+      },
+
+      async count(range) {
+        return sales.filter(sale => isInRange(sale, range)).length;
+      },
+
+      async addMany(newSales) {
+        const created = newSales.map(sale => ({ ...sale, id: generateId(), created_at: new Date() }));
+        sales = [...sales, ...created];
+        notifySales();
+        return created;
+      },
+
+      async update(id, updates) {
+        sales = sales.map(sale => sale.id === id ? { ...sale, ...updates } : sale);
+        notifySales();
+      },
+
+      async updateMany(changes) {
+        const updatesById = new Map(changes.map(({ id, updates }) => [id, updates]));
+        sales = sales.map(sale => updatesById.has(sale.id) ? { ...sale, ...updatesById.get(sale.id) } : sale);
+        notifySales();
+      },
+
+      async categorize(ids, category, subcategory) {
+        const idSet = new Set(ids);
+        // Like the Firestore metadata, a categorization without subcategory clears the previous one
+        sales = sales.map(sale => idSet.has(sale.id) ? { ...sale, category, subcategory: subcategory || undefined } : sale);
+        notifySales();
+      },
+
+      async deleteMany(ids) {
+        const idSet = new Set(ids);
+        sales = sales.filter(sale => !idSet.has(sale.id));
+        notifySales();
+      }
+    },
+
+    products: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...products].sort((a, b) => a.name.localeCompare(b.name)));
+        };
+        productsListeners.add(listener);
+        listener();
+        return () => {
+          productsListeners.delete(listener);
+        };
+      },
+
+      async add(product) {
+        const created: Product = {
+          ...product,
+          id: generateId(),
+          initialStock: product.initialStock || product.stock,
+          quantitySold: 0
+        };
+        products = [...products, created];
+        notifyProducts();
+        return created;
+      },
+
+      async addMany(newProducts) {
+        const created = newProducts.map(product => ({
+          ...product,
+          id: generateId(),
+          initialStock: product.initialStock || product.stock,
+          quantitySold: 0
+        }));
+        products = [...products, ...created];
+        notifyProducts();
+        return created;
+      },
+
+      async update(id, updates) {
+        products = products.map(product => product.id === id ? { ...product, ...updates } : product);
+        notifyProducts();
+      },
+
+      async updateMany(changes) {
+        const updatesById = new Map(changes.map(({ id, updates }) => [id, updates]));
+        products = products.map(product =>
+          updatesById.has(product.id) ? { ...product, ...updatesById.get(product.id) } : product
+        );
+        notifyProducts();
+      },
+
+      async deleteMany(ids) {
+        const idSet = new Set(ids);
+        products = products.filter(product => !idSet.has(product.id));
+        notifyProducts();
+      },
+
+      async merge({ productUpdates, saleUpdates, movements, deletedProductIds }) {
+        const productUpdatesById = new Map(productUpdates.map(({ id, updates }) => [id, updates]));
+        const saleUpdatesById = new Map(saleUpdates.map(({ id, updates }) => [id, updates]));
+        const deletedIds = new Set(deletedProductIds);
+
+        products = products
+          .filter(product => !deletedIds.has(product.id))
+          .map(product => productUpdatesById.has(product.id) ? { ...product, ...productUpdatesById.get(product.id) } : product);
+        sales = sales.map(sale => saleUpdatesById.has(sale.id) ? { ...sale, ...saleUpdatesById.get(sale.id) } : sale);
+        stockMovements = [
+          ...stockMovements,
+          ...movements.map(movement => ({ ...movement, id: generateId(), createdAt: movement.createdAt || new Date() }))
+        ];
+
+        notifyProducts();
+        notifySales();
+        notifyMovements();
+      },
+
+      async updateWithMovements(id, updates, movements) {
+        products = products.map(product => product.id === id ? { ...product, ...updates } : product);
+        stockMovements = [
+          ...stockMovements,
+          ...movements.map(movement => ({ ...movement, id: generateId(), createdAt: movement.createdAt || new Date() }))
+        ];
+
+        notifyProducts();
+        notifyMovements();
+      }
+    },
+
+    stockMovements: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...stockMovements].sort((a, b) => a.date.getTime() - b.date.getTime()));
+        };
+        movementsListeners.add(listener);
+        listener();
+        return () => {
+          movementsListeners.delete(listener);
+        };
+      },
+
+      async list(productId) {
+        return stockMovements
+          .filter(movement => !productId || movement.productId === productId)
+          .sort((a, b) => a.date.getTime() - b.date.getTime());
+      },
+
+      async addMany(newMovements) {
+        const created = newMovements.map(movement => ({
+          ...movement,
+          id: generateId(),
+          createdAt: movement.createdAt || new Date()
+        }));
+        stockMovements = [...stockMovements, ...created];
+        notifyMovements();
+        return created;
+      }
+    },
+
+    inventorySessions: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...inventorySessions].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+        };
+        inventoryListeners.add(listener);
+        listener();
+        return () => {
+          inventoryListeners.delete(listener);
+        };
+      },
+
+      async create(session) {
+        const created = { ...session, id: generateId() };
+        inventorySessions = [...inventorySessions, created];
+        notifyInventory();
+        return created;
+      },
+
+      async update(id, updates) {
+        inventorySessions = inventorySessions.map(session => session.id === id ? { ...session, ...updates } : session);
+        notifyInventory();
+      }
+    },
+
+    suppliers: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...suppliers].sort((a, b) => a.name.localeCompare(b.name)));
+        };
+        suppliersListeners.add(listener);
+        listener();
+        return () => {
+          suppliersListeners.delete(listener);
+        };
+      },
+
+      async add(supplier) {
+        const created = { ...supplier, id: generateId() };
+        suppliers = [...suppliers, created];
+        notifySuppliers();
+        return created;
+      },
+
+      async update(id, updates) {
+        suppliers = suppliers.map(supplier => supplier.id === id ? { ...supplier, ...updates } : supplier);
+        notifySuppliers();
+      },
+
+      async delete(id) {
+        suppliers = suppliers.filter(supplier => supplier.id !== id);
+        notifySuppliers();
+      }
+    },
+
+    purchaseOrders: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...purchaseOrders].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+        };
+        ordersListeners.add(listener);
+        listener();
+        return () => {
+          ordersListeners.delete(listener);
+        };
+      },
+
+      async add(order) {
+        const created = { ...order, id: generateId() };
+        purchaseOrders = [...purchaseOrders, created];
+        notifyOrders();
+        return created;
+      },
+
+      async update(id, updates) {
+        purchaseOrders = purchaseOrders.map(order => order.id === id ? { ...order, ...updates } : order);
+        notifyOrders();
+      },
+
+      async delete(id) {
+        purchaseOrders = purchaseOrders.filter(order => order.id !== id);
+        notifyOrders();
+      }
+    },
+
+    expenses: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...expenses].sort((a, b) => b.date.getTime() - a.date.getTime()));
+        };
+        expensesListeners.add(listener);
+        listener();
+        return () => {
+          expensesListeners.delete(listener);
+        };
+      },
+
+      async add(expense) {
+        const created = { ...expense, id: generateId() };
+        expenses = [...expenses, created];
+        notifyExpenses();
+        return created;
+      },
+
+      async update(id, updates) {
+        expenses = expenses.map(expense => expense.id === id ? { ...expense, ...updates } : expense);
+        notifyExpenses();
+      },
+
+      async delete(id) {
+        expenses = expenses.filter(expense => expense.id !== id);
+        notifyExpenses();
+      },
+
+      // Files only live for the session, like the rest of the in-memory data
+      async uploadAttachment(file) {
+        const url = URL.createObjectURL(file);
+        return { name: file.name, url, path: url };
+      },
+
+      async deleteAttachment(attachment) {
+        URL.revokeObjectURL(attachment.path);
+      }
+    },
+
+    registerSessions: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...registerSessions].sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime()));
+        };
+        registerSessionsListeners.add(listener);
+        listener();
+        return () => {
+          registerSessionsListeners.delete(listener);
+        };
+      },
+
+      async create(session) {
+        const created = { ...session, id: generateId() };
+        registerSessions = [...registerSessions, created];
+        notifyRegisterSessions();
+        return created;
+      },
+
+      async update(id, updates) {
+        registerSessions = registerSessions.map(session => session.id === id ? { ...session, ...updates } : session);
+        notifyRegisterSessions();
+      }
+    },
+
+    salesTargets: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...salesTargets].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()));
+        };
+        salesTargetsListeners.add(listener);
+        listener();
+        return () => {
+          salesTargetsListeners.delete(listener);
+        };
+      },
+
+      async add(target) {
+        const created = { ...target, id: generateId() };
+        salesTargets = [...salesTargets, created];
+        notifySalesTargets();
+        return created;
+      },
+
+      async update(id, updates) {
+        salesTargets = salesTargets.map(target => target.id === id ? { ...target, ...updates } : target);
+        notifySalesTargets();
+      },
+
+      async delete(id) {
+        salesTargets = salesTargets.filter(target => target.id !== id);
+        notifySalesTargets();
+      }
+    },
+
+    stores: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...stores].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()));
+        };
+        storesListeners.add(listener);
+        listener();
+        return () => {
+          storesListeners.delete(listener);
+        };
+      },
+
+      async add(storeData) {
+        const created = { ...storeData, id: generateId() };
+        stores = [...stores, created];
+        notifyStores();
+        return created;
+      },
+
+      async update(id, updates) {
+        stores = stores.map(existing => existing.id === id ? { ...existing, ...updates } : existing);
+        notifyStores();
+      },
+
+      async delete(id) {
+        stores = stores.filter(existing => existing.id !== id);
+        notifyStores();
+      }
+    },
+
+    stockTransfers: {
+      subscribe(onChange) {
+        const listener = () => {
+          onChange([...stockTransfers].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+        };
+        transfersListeners.add(listener);
+        listener();
+        return () => {
+          transfersListeners.delete(listener);
+        };
+      },
+
+      async add(transfer) {
+        const created = { ...transfer, id: generateId() };
+        stockTransfers = [...stockTransfers, created];
+        notifyTransfers();
+        return created;
+      },
+
+      async update(id, updates) {
+        stockTransfers = stockTransfers.map(transfer => transfer.id === id ? { ...transfer, ...updates } : transfer);
+        notifyTransfers();
+      },
+
+      async delete(id) {
+        stockTransfers = stockTransfers.filter(transfer => transfer.id !== id);
+        notifyTransfers();
+      }
+    },
+
+    alerts: {
+      async list() {
+        return Array.from(alerts.values());
+      },
+
+      async save(alert) {
+        alerts.set(alert.id, alert);
+      },
+
+      async markAsRead(id) {
+        const alert = alerts.get(id);
+        if (alert) alerts.set(id, { ...alert, read: true });
+      }
+    },
+
+    settings: {
+      async get<T>(key: string) {
+        return settings.has(key) ? (settings.get(key) as T) : null;
+      },
+
+      async set<T>(key: string, value: T) {
+        settings.set(key, value);
+      }
+    },
+
+    users: {
+      async get(id) {
+        return users.get(id) || null;
+      },
+
+      async save(user) {
+        users.set(user.id, user);
+      }
+    },
+
+    clean: {
+      async findProductBySignature(signature) {
+        return Array.from(cleanProducts.values()).find(product => product.signature === signature) || null;
+      },
+
+      async getSalesForProduct(productId) {
+        return Array.from(cleanSales.values()).filter(sale => sale.product_id === productId);
+      },
+
+      async saveBatch(newProducts, newSales) {
+        newProducts.forEach(product => cleanProducts.set(product.id, product));
+        newSales.forEach(sale => cleanSales.set(sale.id, sale));
+      }
+    }
+  };
+}
+
+// Mock data used for demo mode and as a fallback when the backend is unreachable
+export function generateMockSales(): RegisterSale[] {
+  const products = ['Pain de mie', 'Lait UHT', 'Yaourt nature', 'Pommes', 'Bananes', 'Coca-Cola', 'Eau minérale'];
+  const categories = ['Alimentaire', 'Boisson', 'Fruits'];
+  const registers = ['Register1', 'Register2'];
+  const sellers = ['Marie Dupont', 'Jean Martin', 'Sophie Bernard', 'Pierre Durand'];
+
+  return Array.from({ length: 150 }, (_, i) => {
+    const product = products[Math.floor(Math.random() * products.length)];
+    const quantity = Math.floor(Math.random() * 5) + 1;
+    const price = Math.random() * 10 + 1;
+
+    return {
+      id: `sale-${i}`,
+      product,
+      category: categories[Math.floor(Math.random() * categories.length)],
+      register: registers[Math.floor(Math.random() * registers.length)],
+      date: subDays(new Date(), Math.floor(Math.random() * 30)),
+      seller: sellers[Math.floor(Math.random() * sellers.length)],
+      quantity,
+      price: Math.round(price * 100) / 100,
+      total: Math.round(quantity * price * 100) / 100
+    };
+  });
+}
+
+export function generateMockProducts(): Product[] {
+  return [
+    {
+      id: '1',
+      name: 'JELLY POP',
+      category: 'CONFISERIES',
+      price: 1.00,
+      stock: 45,
+      initialStock: 50,
+      quantitySold: 5,
+      minStock: 10,
+      description: 'Bonbons Jelly Pop'
+    },
+    {
+      id: '2',
+      name: 'SMARTIES',
+      category: 'CONFISERIES',
+      price: 1.00,
+      stock: 8,
+      initialStock: 20,
+      quantitySold: 12,
+      minStock: 15,
+      description: 'Bonbons Smarties'
+    },
+    {
+      id: '3',
+      name: 'COCA 1,5L',
+      category: 'BOISSONS',
+      price: 2.50,
+      stock: 25,
+      initialStock: 30,
+      quantitySold: 5,
+      minStock: 12,
+      description: 'Coca-Cola 1.5L'
+    },
+    {
+      id: '4',
+      name: 'Pain de mie',
+      category: 'Alimentaire',
+      price: 1.50,
+      stock: 30,
+      initialStock: 35,
+      quantitySold: 5,
+      minStock: 10,
+      description: 'Pain de mie complet'
+    },
+    {
+      id: '5',
+      name: 'Lait UHT',
+      category: 'Alimentaire',
+      price: 1.20,
+      stock: 5,
+      initialStock: 20,
+      quantitySold: 15,
+      minStock: 15,
+      description: 'Lait UHT demi-écrémé 1L'
+    }
+  ];
+}
@@ -0,0 +1,50 @@
+import { Product, RegisterSale, StockMovement, Store } from '../types';
+
+/**
+ * Shared test data: a canned product, sale and movement that each test overrides as needed
+ */
+export const makeProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 'coca',
+  name: 'Coca 33cl',
+  category: 'Boissons',
+  price: 1.5,
+  stock: 0,
+  minStock: 0,
+  ...overrides
+});
+
+// The total follows the quantity and price unless given
+export const makeSale = (overrides: Partial<RegisterSale> = {}): RegisterSale => {
+  const quantity = overrides.quantity ?? 1;
+  const price = overrides.price ?? 1.5;
+
+  return {
+    id: 's1',
+    product: 'Coca 33cl',
+    category: 'Boissons',
+    register: 'Caisse 1',
+    date: new Date(2024, 1, 1),
+    seller: 'Alice',
+    quantity,
+    price,
+    total: quantity * price,
+    ...overrides
+  };
+};
+
+export const makeMovement = (overrides: Partial<StockMovement> = {}): StockMovement => ({
+  id: 'm1',
+  productId: 'coca',
+  productName: 'Coca 33cl',
+  category: 'Boissons',
+  type: 'adjustment',
+  quantity: 0,
+  date: new Date(2024, 1, 1),
+  ...overrides
+});
+
+// Two stores: the main one with register 1, the port with register 2
+export const stores: Store[] = [
+  { id: 'main', name: 'Centre', registers: ['Caisse 1'], createdAt: new Date(2023, 0, 1), updatedAt: new Date(2023, 0, 1) },
+  { id: 'port', name: 'Port', registers: ['Caisse 2'], createdAt: new Date(2023, 5, 1), updatedAt: new Date(2023, 5, 1) }
+];
@@ -2,6 +2,7 @@ export interface RegisterSale {
   id: string;
   product: string;
   category: string;
+  subcategory?: string; // Set when the sale is categorized by hand
   register: string;
   date: Date;
   seller: string;
@@ -9,12 +10,44 @@ export interface RegisterSale {
   price: number;
   total: number;
   created_at?: Date;
+  type?: SaleType; // Missing on regular sales
+  originalSaleId?: string; // Sale being returned, when known
+  returnCondition?: ReturnCondition;
+  ticketId?: string; // Receipt number from the register export, when it has one
+  productId?: string; // Catalog product, resolved at import or by the identity migration
+  productCode?: string; // SKU or EAN barcode from the register export, when it has one
+  bundleComponents?: BundleComponent[]; // Composition of the bundle sold, frozen at sale time; empty for other products
+}
+
+export type SaleType = 'sale' | 'return';
+
+// Sellable returns go back into stock, defective ones do not
+export type ReturnCondition = 'sellable' | 'defective';
+
+export interface SaleReturnInput {
+  quantity: number; // Units returned (positive)
+  refundAmount: number; // Amount given back to the customer (positive)
+  condition: ReturnCondition;
+  date: Date;
+}
+
+// Slice of the sales history currently loaded in memory
+export interface SalesWindow {
+  from?: Date; // Requested range start (open-ended when undefined)
+  to?: Date; // Requested range end (open-ended when undefined)
+  loadedCount: number;
+  totalCount: number | null; // Sales matching the range in the store, when known
+  oldestLoaded?: Date;
+  newestLoaded?: Date;
+  hasMore: boolean; // Older sales in the range are not loaded yet
+  isLoadingMore: boolean;
 }
 
 export interface ImportPreview {
   data: RegisterSale[];
   duplicates: RegisterSale[];
   errors: ImportError[];
+  priceMismatches?: PriceMismatch[]; // Unit prices differing from the product price on the sale date
   totals: {
     byProduct: { [key: string]: { quantity: number; revenue: number } };
     bySeller: { [key: string]: { quantity: number; revenue: number } };
@@ -23,6 +56,14 @@ export interface ImportPreview {
   };
 }
 
+// Imported sale whose unit price differs from the product price valid on its date
+export interface PriceMismatch {
+  sale: RegisterSale;
+  productName: string;
+  expectedPrice: number;
+  actualPrice: number;
+}
+
 export interface ImportError {
   row: number;
   field: string;
@@ -32,15 +73,312 @@ export interface ImportError {
 
 export interface Product {
   id: string;
+  sku?: string; // Unique, assigned on creation or by the identity migration
+  barcodes?: string[]; // EAN codes scanned at the register
+  aliases?: string[]; // Other spellings of the name in the register exports
+  mergedProductIds?: string[]; // Duplicates merged into this product, their ledger entries keep their id
   name: string;
   category: string;
   price: number;
   stock: number; // Final quantity (calculated)
+  stockByStore?: Record<string, number>; // Final quantity per store id (calculated)
   initialStock?: number; // Initial quantity from stock import
+  initialStockByStore?: Record<string, number>; // Share of the initial stock placed in each store, by store id
   initialStockDate?: string; // Effective date for initial stock (YYYY-MM-DD)
   quantitySold?: number; // Quantity sold from sales import
   minStock: number;
   description?: string;
+  costPrice?: number; // Current purchase/cost price
+  costPriceHistory?: CostPriceChange[]; // Past cost prices, so old sales keep their margin
+  priceHistory?: PriceChange[]; // Selling prices by effective date, including scheduled ones
+  discontinued?: boolean; // No longer reordered, the remaining stock is sold off
+  promotionFlag?: boolean; // Slow mover picked for a promotion
+  bundleComponents?: BundleComponent[]; // Set on packs and kits: each sale consumes the components' stock
+}
+
+// Product consumed by the sale of a bundle, e.g. 6 × "Coca 33cl" per "Pack 6 Coca"
+export interface BundleComponent {
+  productId: string;
+  quantity: number; // Units consumed per bundle sold
+}
+
+// A selling price applying from effectiveDate onwards
+export interface PriceChange {
+  price: number;
+  effectiveDate: string; // YYYY-MM-DD
+  changedBy?: string; // Name of the user who recorded the change
+  changedAt?: string; // ISO string
+}
+
+// A cost price applying to sales from effectiveDate onwards
+export interface CostPriceChange {
+  costPrice: number;
+  effectiveDate: string; // YYYY-MM-DD
+}
+
+export type StockMovementType =
+  | 'initial'
+  | 'import'
+  | 'sale'
+  | 'adjustment'
+  | 'deletion'
+  | 'receipt'
+  | 'return'
+  | 'transfer'
+  | 'merge'; // Stock of a merged product moved into the product it was merged into
+
+// Reason codes for manual stock adjustments (shrinkage and corrections)
+export type AdjustmentReasonCode =
+  | 'casse'
+  | 'vol'
+  | 'peremption'
+  | 'consommation_interne'
+  | 'erreur_saisie'
+  | 'ecart_inventaire' // Posted from an inventory count session
+  | 'ecart_transfert'; // Posted when a transfer is received with a different quantity
+
+// Entry of the persisted stock ledger (stock_movements collection)
+export interface StockMovement {
+  id: string;
+  productId: string;
+  productName: string;
+  category: string;
+  type: StockMovementType;
+  quantity: number; // Positive for additions, negative for removals
+  date: Date; // Effective date of the movement
+  reference?: string; // Sale ID, import batch ID, product ID, etc.
+  description?: string;
+  reason?: string;
+  reasonCode?: AdjustmentReasonCode; // Set on manual adjustments, which count in the final stock
+  note?: string;
+  unitCost?: number; // Purchase cost of received units, used for stock valuation
+  storeId?: string; // Store whose stock moved, the main store when unset
+  userId?: string;
+  userName?: string;
+  createdAt?: Date; // When the entry was recorded
+}
+
+export interface StockAdjustmentInput {
+  quantity: number; // Signed: negative removes stock
+  reasonCode: AdjustmentReasonCode;
+  note?: string;
+  date: Date; // Effective date
+  reference?: string;
+  storeId?: string;
+}
+
+export type InventorySessionStatus = 'open' | 'posted' | 'cancelled';
+
+export interface InventoryCountLine {
+  productId: string;
+  productName: string;
+  category: string;
+  countedQuantity: number | null; // null until the product has been counted
+  expectedQuantity?: number; // Frozen when the session is posted
+  unitPrice?: number; // Frozen when the session is posted
+}
+
+// Physical count of the shelves for a set of categories
+export interface InventorySession {
+  id: string;
+  name: string;
+  categories: string[];
+  blind: boolean; // Hide the expected stock while counting
+  status: InventorySessionStatus;
+  countDate: Date; // Expected stock is calculated at this timestamp
+  storeId?: string; // Store counted, every store when unset
+  lines: InventoryCountLine[];
+  userId?: string;
+  userName?: string;
+  createdAt: Date;
+  postedAt?: Date;
+}
+
+export interface InventoryVariance {
+  productId: string;
+  productName: string;
+  category: string;
+  expected: number;
+  counted: number | null;
+  variance: number; // counted - expected, 0 while not counted
+  value: number; // Variance valued at the product price
+}
+
+// What a caller knows about a stock-affecting action; the product, user and
+// signed quantity are filled in when the movement is recorded
+export interface StockMovementContext {
+  type: StockMovementType;
+  reason: string;
+  reference?: string;
+  quantity?: number; // Signed quantity when known, otherwise derived from the stock change
+  date?: Date;
+  reasonCode?: AdjustmentReasonCode;
+  note?: string;
+  unitCost?: number;
+  storeId?: string;
+}
+
+// Product a supplier delivers by default, with its purchase conditions
+export interface SupplierProduct {
+  productId: string;
+  purchasePrice: number;
+  supplierReference?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  leadTimeDays: number; // Usual delay between order and delivery
+  products: SupplierProduct[];
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  category: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number; // Purchase price at order time
+}
+
+export interface PurchaseOrder {
+  id: string;
+  number: string; // Human readable, also used as the stock movement reference
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: Date; // Order date + supplier lead time by default
+  notes?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: Date;
+  sentAt?: Date;
+  receivedAt?: Date; // Last receipt
+}
+
+// Point of sale owning a set of registers; the sales of its registers and the
+// ledger entries tagged with its id make up its stock
+export interface Store {
+  id: string;
+  name: string;
+  registers: string[]; // Register names as they appear on the sales
+  address?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type StockTransferStatus = 'requested' | 'shipped' | 'received';
+
+export interface StockTransferLine {
+  productId: string;
+  productName: string;
+  category: string;
+  quantityRequested: number;
+  quantityShipped?: number; // Set when the transfer is shipped
+  quantityReceived?: number; // Set when the transfer is received
+}
+
+// Goods moved from one store to another: the source stock goes down on shipment,
+// the destination stock goes up on receipt
+export interface StockTransfer {
+  id: string;
+  number: string; // Human readable, also used as the stock movement reference
+  fromStoreId: string;
+  toStoreId: string;
+  status: StockTransferStatus;
+  lines: StockTransferLine[];
+  notes?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: Date;
+  shippedAt?: Date;
+  receivedAt?: Date;
+}
+
+export type RegisterSessionStatus = 'open' | 'closed';
+
+// Number of notes and coins counted, keyed by denomination in cents
+export type CashCount = Record<string, number>;
+
+export interface RegisterSession {
+  id: string;
+  register: string;
+  status: RegisterSessionStatus;
+  openingFloat: number; // Cash in the drawer at opening
+  openedAt: Date;
+  openedBy?: string;
+  closedAt?: Date;
+  closedBy?: string;
+  closingCount?: CashCount;
+  // Frozen at closing from the sales of the register during the session
+  salesCount?: number;
+  salesTotal?: number;
+  expectedCash?: number; // Opening float + sales total
+  countedCash?: number;
+  notes?: string;
+}
+
+export type ExpenseRecurrence = 'none' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface ExpenseAttachment {
+  name: string;
+  url: string;
+  path: string; // Location in file storage, used to delete the file
+}
+
+export interface Expense {
+  id: string;
+  category: string;
+  label: string;
+  amount: number; // Positive amount paid per occurrence
+  date: Date; // Payment date, first occurrence of a recurring expense
+  register?: string; // Unset for costs shared by the whole shop
+  attachment?: ExpenseAttachment;
+  recurrence: ExpenseRecurrence;
+  recurrenceEndDate?: Date; // Last possible occurrence, open-ended when unset
+  notes?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One payment of an expense, recurring expenses yield one per period
+export interface ExpenseOccurrence {
+  expense: Expense;
+  date: Date;
+  amount: number;
+}
+
+export type SalesTargetPeriod = 'daily' | 'weekly' | 'monthly';
+
+export type SalesTargetMetric = 'revenue' | 'units';
+
+// 'overall' covers every sale of the shop
+export type SalesTargetScope = 'overall' | 'seller' | 'register' | 'category';
+
+export interface SalesTarget {
+  id: string;
+  scope: SalesTargetScope;
+  scopeValue?: string; // Seller, register or category name, unset for 'overall'
+  period: SalesTargetPeriod;
+  metric: SalesTargetMetric;
+  amount: number; // Revenue in euros or units to sell per period
+  active: boolean;
+  userId?: string;
+  userName?: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface DashboardStats {
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { makeProduct, makeSale } from '../test/fixtures';
+import { calculateAbcClassification, getAbcValue, summarizeAbcClasses } from './abcUtils';
+
+const products = ['p1', 'p2', 'p3', 'p4', 'p5'].map(id => makeProduct({ id, name: id }));
+const revenue = { p1: 70, p2: 15, p3: 10, p4: 5 };
+const sales = Object.entries(revenue).map(([id, quantity]) => makeSale({ id, product: id, productId: id, quantity, price: 1 }));
+
+describe('ABC classification', () => {
+  it('classifies on the cumulative share, the product crossing a threshold staying above', () => {
+    const rows = calculateAbcClassification(products, sales);
+
+    expect(rows.map(row => [row.product.id, row.abcClass, row.cumulativeShare])).toEqual([
+      ['p1', 'A', 0.7],
+      ['p2', 'A', 0.85],
+      ['p3', 'B', 0.95],
+      ['p4', 'C', 1],
+      ['p5', 'C', 1]
+    ]);
+    expect(summarizeAbcClasses(rows).map(summary => [summary.abcClass, summary.products, summary.share])).toEqual([
+      ['A', 2, 0.85],
+      ['B', 1, 0.1],
+      ['C', 2, 0.05]
+    ]);
+  });
+
+  it('values the margin at the cost of the sale date, without a cost adding nothing', () => {
+    const coca = makeProduct({ costPriceHistory: [{ costPrice: 1, effectiveDate: '2024-01-01' }, { costPrice: 2, effectiveDate: '2024-03-01' }] });
+    const cocaSales = [
+      makeSale({ id: 'feb', quantity: 2, price: 3 }),
+      makeSale({ id: 'mar', quantity: 1, price: 3, date: new Date(2024, 2, 5) }),
+      makeSale({ id: 'refund', type: 'return', quantity: -1, price: 3 })
+    ];
+
+    expect(getAbcValue('margin', coca, cocaSales)).toBe(5);
+    expect(getAbcValue('margin', makeProduct(), cocaSales)).toBe(0);
+    expect(getAbcValue('units', coca, cocaSales)).toBe(3);
+  });
+});
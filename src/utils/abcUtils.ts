@@ -0,0 +1,98 @@
+import { Product, RegisterSale } from '../types';
+import { ProductIndex, createProductIndex, getProductSales } from './productIdentityUtils';
+import { getCostPriceAt } from './marginUtils';
+
+export type AbcClass = 'A' | 'B' | 'C';
+export type AbcMetric = 'revenue' | 'margin' | 'units';
+
+export const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C'];
+export const ABC_METRICS: AbcMetric[] = ['revenue', 'margin', 'units'];
+
+// Cumulative share of the metric reached by the A, then the A and B products
+export const A_CLASS_THRESHOLD = 0.8;
+export const B_CLASS_THRESHOLD = 0.95;
+
+// Period classified in the Stock module, which has no date filter of its own
+export const STOCK_ABC_PERIOD_DAYS = 90;
+
+export interface AbcRow {
+  product: Product;
+  value: number; // Metric over the period, negative margins count as 0
+  share: number; // Of the total, 0 to 1
+  cumulativeShare: number; // Including this product
+  abcClass: AbcClass;
+}
+
+export interface AbcSummary {
+  abcClass: AbcClass;
+  products: number;
+  value: number;
+  share: number;
+}
+
+/**
+ * Value of the positive sales of a product, returns are left out like in the product statistics
+ */
+export function getAbcValue(metric: AbcMetric, product: Product, sales: RegisterSale[]): number {
+  const value = sales
+    .filter(sale => sale.total >= 0)
+    .reduce((sum, sale) => {
+      switch (metric) {
+        case 'revenue':
+          return sum + sale.total;
+        case 'units':
+          return sum + sale.quantity;
+        case 'margin': {
+          // Sales without a known cost add no margin rather than their whole revenue
+          const unitCost = getCostPriceAt(product, sale.date);
+          return unitCost === null ? sum : sum + sale.total - unitCost * sale.quantity;
+        }
+      }
+    }, 0);
+  return Math.max(0, value);
+}
+
+/**
+ * Ranks the products by the metric and classifies them on the cumulative share:
+ * A up to A_CLASS_THRESHOLD, B up to B_CLASS_THRESHOLD, C for the rest and for products without value.
+ * The product crossing a threshold stays in the upper class.
+ * When only part of the catalog is classified, pass the index of the whole catalog.
+ */
+export function calculateAbcClassification(
+  products: Product[],
+  sales: RegisterSale[],
+  metric: AbcMetric = 'revenue',
+  productIndex: ProductIndex = createProductIndex(products)
+): AbcRow[] {
+  const valued = products
+    .map(product => ({ product, value: getAbcValue(metric, product, getProductSales(product, sales, productIndex)) }))
+    .sort((a, b) => b.value - a.value || a.product.name.localeCompare(b.product.name));
+  const total = valued.reduce((sum, row) => sum + row.value, 0);
+
+  let cumulative = 0;
+  return valued.map(({ product, value }) => {
+    const previousShare = total > 0 ? cumulative / total : 1;
+    cumulative += value;
+
+    let abcClass: AbcClass = 'C';
+    if (value > 0 && previousShare < A_CLASS_THRESHOLD) abcClass = 'A';
+    else if (value > 0 && previousShare < B_CLASS_THRESHOLD) abcClass = 'B';
+
+    return {
+      product,
+      value,
+      share: total > 0 ? value / total : 0,
+      cumulativeShare: total > 0 ? cumulative / total : 0,
+      abcClass
+    };
+  });
+}
+
+export function summarizeAbcClasses(rows: AbcRow[]): AbcSummary[] {
+  const total = rows.reduce((sum, row) => sum + row.value, 0);
+  return ABC_CLASSES.map(abcClass => {
+    const classRows = rows.filter(row => row.abcClass === abcClass);
+    const value = classRows.reduce((sum, row) => sum + row.value, 0);
+    return { abcClass, products: classRows.length, value, share: total > 0 ? value / total : 0 };
+  });
+}
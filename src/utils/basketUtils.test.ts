@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { makeSale } from '../test/fixtures';
+import { calculateBasketMetrics, calculateProductAssociations, groupSalesIntoTickets } from './basketUtils';
+
+const at = (hours: number, minutes: number, seconds = 0) => new Date(2024, 1, 1, hours, minutes, seconds);
+
+describe('groupSalesIntoTickets', () => {
+  it('groups by ticket number, otherwise by register and seller within a couple of minutes', () => {
+    const sales = [
+      makeSale({ id: 'n1', ticketId: 'T1', date: at(9, 0) }),
+      makeSale({ id: 'n2', ticketId: 'T1', date: at(9, 3), product: 'Chips' }),
+      makeSale({ id: 'a1', date: at(10, 0) }),
+      makeSale({ id: 'a2', date: at(10, 1, 30), product: 'Chips' }),
+      makeSale({ id: 'a3', date: at(10, 5) }),
+      makeSale({ id: 'b1', date: at(10, 0, 30), seller: 'Bob' }),
+      makeSale({ id: 'midnight', date: new Date(2024, 1, 2) }),
+      makeSale({ id: 'return', date: at(10, 0, 10), type: 'return', quantity: -1 })
+    ];
+
+    const tickets = groupSalesIntoTickets(sales);
+
+    expect(tickets.map(ticket => [ticket.key, ticket.lines.map(line => line.id), ticket.inferred])).toEqual([
+      ['Caisse 1|T1', ['n1', 'n2'], false],
+      ['a1', ['a1', 'a2'], true],
+      ['b1', ['b1'], true],
+      ['a3', ['a3'], true],
+      ['midnight', ['midnight'], true]
+    ]);
+    expect(calculateBasketMetrics(tickets)).toMatchObject({ tickets: 5, averageItems: 1.4, multiProductShare: 0.4, inferredShare: 0.8 });
+  });
+});
+
+describe('calculateProductAssociations', () => {
+  it('measures how much more often products are bought together than by chance', () => {
+    const ticket = (id: string, products: string[]) =>
+      groupSalesIntoTickets(products.map((product, i) => makeSale({ id: `${id}-${i}`, ticketId: id, product })))[0];
+    const tickets = [ticket('1', ['Coca', 'Chips']), ticket('2', ['Chips', 'Coca']), ticket('3', ['Coca']), ticket('4', ['Fanta'])];
+
+    const associations = calculateProductAssociations(tickets);
+
+    expect(associations).toHaveLength(1);
+    expect(associations[0]).toMatchObject({ productA: 'Chips', productB: 'Coca', count: 2, support: 0.5, confidenceAB: 1 });
+    expect(associations[0].confidenceBA).toBeCloseTo(2 / 3);
+    expect(associations[0].lift).toBeCloseTo(4 / 3);
+  });
+});
@@ -0,0 +1,161 @@
+import { RegisterSale } from '../types';
+import { isReturn } from './returnUtils';
+
+// Lines of the same register and seller closer than this belong to the same inferred ticket
+export const INFERRED_TICKET_GAP_MINUTES = 2;
+
+// Pairs bought together fewer times than this are left out of the associations
+export const DEFAULT_MIN_PAIR_COUNT = 2;
+
+export interface Ticket {
+  key: string;
+  register: string;
+  seller: string;
+  date: Date; // First line
+  lines: RegisterSale[];
+  items: number; // Units
+  value: number;
+  inferred: boolean; // Grouped on timestamps, the sales had no ticket number
+}
+
+export interface BasketMetrics {
+  tickets: number;
+  averageValue: number;
+  averageItems: number;
+  averageDistinctProducts: number;
+  multiProductShare: number; // Tickets with at least two different products, 0 to 1
+  inferredShare: number; // Tickets grouped without a ticket number, 0 to 1
+}
+
+export interface ProductAssociation {
+  productA: string;
+  productB: string;
+  count: number; // Tickets containing both
+  support: number; // Share of all tickets containing both
+  confidenceAB: number; // Share of the tickets with A that also contain B
+  confidenceBA: number;
+  lift: number; // Above 1 when bought together more often than by chance
+}
+
+// Imports without a time of day put every sale at midnight, timestamps tell nothing then
+export const hasTimeOfDay = (date: Date) =>
+  date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0 || date.getMilliseconds() !== 0;
+
+const createTicket = (key: string, lines: RegisterSale[], inferred: boolean): Ticket => ({
+  key,
+  register: lines[0].register,
+  seller: lines[0].seller,
+  date: lines.reduce((first, line) => line.date < first ? line.date : first, lines[0].date),
+  lines,
+  items: lines.reduce((sum, line) => sum + line.quantity, 0),
+  value: lines.reduce((sum, line) => sum + line.total, 0),
+  inferred
+});
+
+/**
+ * Groups sale lines into tickets: by ticket number when the import provided one, otherwise
+ * by register and seller for lines less than INFERRED_TICKET_GAP_MINUTES apart.
+ * Lines without a time of day stay a ticket of their own. Returns and other negative lines are left out.
+ */
+export function groupSalesIntoTickets(sales: RegisterSale[]): Ticket[] {
+  const tickets: Ticket[] = [];
+  const numbered = new Map<string, RegisterSale[]>();
+  const unnumbered: RegisterSale[] = [];
+
+  sales
+    .filter(sale => sale.total >= 0 && !isReturn(sale))
+    .forEach(sale => {
+      if (sale.ticketId) {
+        const key = `${sale.register}|${sale.ticketId}`;
+        if (!numbered.has(key)) numbered.set(key, []);
+        numbered.get(key)!.push(sale);
+      } else if (hasTimeOfDay(sale.date)) {
+        unnumbered.push(sale);
+      } else {
+        tickets.push(createTicket(sale.id, [sale], true));
+      }
+    });
+
+  numbered.forEach((lines, key) => tickets.push(createTicket(key, lines, false)));
+
+  const maxGap = INFERRED_TICKET_GAP_MINUTES * 60 * 1000;
+  let current: RegisterSale[] = [];
+  [...unnumbered]
+    .sort((a, b) =>
+      a.register.localeCompare(b.register) || a.seller.localeCompare(b.seller) || a.date.getTime() - b.date.getTime())
+    .forEach(sale => {
+      const previous = current[current.length - 1];
+      if (previous && (previous.register !== sale.register || previous.seller !== sale.seller ||
+          sale.date.getTime() - previous.date.getTime() > maxGap)) {
+        tickets.push(createTicket(current[0].id, current, true));
+        current = [];
+      }
+      current.push(sale);
+    });
+  if (current.length > 0) tickets.push(createTicket(current[0].id, current, true));
+
+  return tickets.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function countTicketsBy(tickets: Ticket[], key: (ticket: Ticket) => string): Map<string, number> {
+  return tickets.reduce((counts, ticket) => {
+    counts.set(key(ticket), (counts.get(key(ticket)) || 0) + 1);
+    return counts;
+  }, new Map<string, number>());
+}
+
+export function calculateBasketMetrics(tickets: Ticket[]): BasketMetrics {
+  const count = tickets.length;
+  const distinctProducts = tickets.map(ticket => new Set(ticket.lines.map(line => line.product)).size);
+
+  return {
+    tickets: count,
+    averageValue: count > 0 ? tickets.reduce((sum, ticket) => sum + ticket.value, 0) / count : 0,
+    averageItems: count > 0 ? tickets.reduce((sum, ticket) => sum + ticket.items, 0) / count : 0,
+    averageDistinctProducts: count > 0 ? distinctProducts.reduce((sum, products) => sum + products, 0) / count : 0,
+    multiProductShare: count > 0 ? distinctProducts.filter(products => products >= 2).length / count : 0,
+    inferredShare: count > 0 ? tickets.filter(ticket => ticket.inferred).length / count : 0
+  };
+}
+
+/**
+ * Products frequently bought together, strongest lift first
+ */
+export function calculateProductAssociations(
+  tickets: Ticket[],
+  minCount: number = DEFAULT_MIN_PAIR_COUNT
+): ProductAssociation[] {
+  const productCounts = new Map<string, number>();
+  const pairCounts = new Map<string, { productA: string; productB: string; count: number }>();
+
+  tickets.forEach(ticket => {
+    const products = [...new Set(ticket.lines.map(line => line.product))].sort();
+    products.forEach((productA, i) => {
+      productCounts.set(productA, (productCounts.get(productA) || 0) + 1);
+      products.slice(i + 1).forEach(productB => {
+        const key = `${productA}|${productB}`;
+        const pair = pairCounts.get(key) || { productA, productB, count: 0 };
+        pair.count += 1;
+        pairCounts.set(key, pair);
+      });
+    });
+  });
+
+  const total = tickets.length;
+  return Array.from(pairCounts.values())
+    .filter(pair => pair.count >= minCount)
+    .map(({ productA, productB, count }) => {
+      const countA = productCounts.get(productA)!;
+      const countB = productCounts.get(productB)!;
+      return {
+        productA,
+        productB,
+        count,
+        support: count / total,
+        confidenceAB: count / countA,
+        confidenceBA: count / countB,
+        lift: (count * total) / (countA * countB)
+      };
+    })
+    .sort((a, b) => b.lift - a.lift || b.count - a.count);
+}
@@ -0,0 +1,139 @@
+import { BundleComponent, Product, RegisterSale } from '../types';
+import { isReturn } from './returnUtils';
+import { ProductIndex, createProductIndex, resolveSaleProduct } from './productIdentityUtils';
+
+export interface BundleConsumptionRow {
+  product: Product;
+  directQuantity: number; // Units sold on their own
+  bundleQuantity: number; // Units consumed by the bundles sold
+  totalQuantity: number;
+  byBundle: Array<{ bundle: Product; bundlesSold: number; unitsPerBundle: number; quantity: number }>;
+}
+
+export const isBundle = (product: Pick<Product, 'bundleComponents'>) => (product.bundleComponents || []).length > 0;
+
+export const getBundles = (products: Product[]) => products.filter(isBundle);
+
+/**
+ * Composition frozen on a sale of the product when it is a bundle, so that editing the bundle
+ * later does not change the stock its past sales consumed
+ */
+export const getBundleSnapshot = (product: Pick<Product, 'bundleComponents'>): Pick<RegisterSale, 'bundleComponents'> =>
+  ({ bundleComponents: isBundle(product) ? product.bundleComponents : [] });
+
+/**
+ * Components a sale consumed: the composition frozen on it, or the current one of the bundle
+ * for sales recorded before compositions were kept on sales
+ */
+export const getSaleComponents = (
+  sale: Pick<RegisterSale, 'bundleComponents'>,
+  bundle?: Pick<Product, 'bundleComponents'> | null
+): BundleComponent[] =>
+  (sale.bundleComponents ?? bundle?.bundleComponents ?? []).filter(component => component.quantity > 0);
+
+/**
+ * Products whose stock a sale of the product takes, with the units per item sold: the
+ * product itself, or the components of a bundle. Components no longer in the catalog
+ * are left out; merged ones count for the product they were merged into.
+ */
+export function getSaleStockItems(
+  sale: Pick<RegisterSale, 'bundleComponents'>,
+  product: Product,
+  productIndex: ProductIndex
+): Array<{ product: Product; quantity: number }> {
+  const components = getSaleComponents(sale, product);
+  if (components.length === 0) return [{ product, quantity: 1 }];
+
+  return components.flatMap(component => {
+    const componentProduct = productIndex.byId.get(component.productId) || productIndex.byMergedId.get(component.productId);
+    return componentProduct ? [{ product: componentProduct, quantity: component.quantity }] : [];
+  });
+}
+
+/**
+ * Components with the merged products replaced by the product they were merged into
+ */
+export function replaceBundleComponents(
+  components: BundleComponent[],
+  replacedIds: Set<string>,
+  productId: string
+): BundleComponent[] {
+  const quantities = new Map<string, number>();
+  components.forEach(component => {
+    const id = replacedIds.has(component.productId) ? productId : component.productId;
+    quantities.set(id, (quantities.get(id) || 0) + component.quantity);
+  });
+  return Array.from(quantities, ([id, quantity]) => ({ productId: id, quantity }));
+}
+
+/**
+ * Bundles that can be put together from the components' stock
+ */
+export function calculateBundleAvailability(bundle: Product, getComponentStock: (productId: string) => number): number {
+  const components = (bundle.bundleComponents || []).filter(component => component.quantity > 0);
+  if (components.length === 0) return 0;
+  return Math.max(0, Math.min(...components.map(component =>
+    Math.floor(getComponentStock(component.productId) / component.quantity)
+  )));
+}
+
+/**
+ * Units of each component sold directly and consumed through bundles over the given sales,
+ * for the products used in at least one bundle sold or defined. Bundle sales consume the
+ * composition they were sold with. Returns are left out.
+ */
+export function calculateComponentConsumption(sales: RegisterSale[], products: Product[]): BundleConsumptionRow[] {
+  const bundles = getBundles(products);
+  if (bundles.length === 0 && !sales.some(sale => sale.bundleComponents?.length)) return [];
+
+  const index = createProductIndex(products);
+  const soldByProduct = new Map<string, number>();
+  const rows = new Map<string, BundleConsumptionRow>();
+  const getRow = (product: Product) => rows.get(product.id) || {
+    product,
+    directQuantity: 0,
+    bundleQuantity: 0,
+    totalQuantity: 0,
+    byBundle: []
+  };
+
+  // Components of the current bundles are listed even when none was sold
+  bundles.forEach(bundle => {
+    (bundle.bundleComponents || []).forEach(component => {
+      const product = index.byId.get(component.productId);
+      if (product) rows.set(product.id, getRow(product));
+    });
+  });
+
+  sales
+    .filter(sale => !isReturn(sale))
+    .forEach(sale => {
+      const bundle = resolveSaleProduct(index, sale);
+      if (!bundle) return;
+      if (getSaleComponents(sale, bundle).length === 0) {
+        soldByProduct.set(bundle.id, (soldByProduct.get(bundle.id) || 0) + sale.quantity);
+        return;
+      }
+
+      getSaleStockItems(sale, bundle, index).forEach(({ product, quantity: unitsPerBundle }) => {
+        const row = getRow(product);
+        const quantity = sale.quantity * unitsPerBundle;
+        const line = row.byBundle.find(entry => entry.bundle.id === bundle.id && entry.unitsPerBundle === unitsPerBundle);
+        if (line) {
+          line.bundlesSold += sale.quantity;
+          line.quantity += quantity;
+        } else {
+          row.byBundle.push({ bundle, bundlesSold: sale.quantity, unitsPerBundle, quantity });
+        }
+        row.bundleQuantity += quantity;
+        rows.set(product.id, row);
+      });
+    });
+
+  return Array.from(rows.values())
+    .map(row => {
+      const directQuantity = soldByProduct.get(row.product.id) || 0;
+      return { ...row, directQuantity, totalQuantity: directQuantity + row.bundleQuantity };
+    })
+    .sort((a, b) => b.totalQuantity - a.totalQuantity);
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { Product, RegisterSale, StockMovement } from '../types';
+import { makeMovement, makeProduct, makeSale, stores } from '../test/fixtures';
+import { calculateStockFinal } from './calculateStockFinal';
+import { getStoreScope } from './storeUtils';
+
+const coca = (overrides: Partial<Product> = {}) =>
+  makeProduct({ initialStock: 20, initialStockDate: '2024-01-10', minStock: 5, ...overrides });
+
+const sale = (id: string, overrides: Partial<RegisterSale> = {}) =>
+  makeSale({ id, productId: 'coca', date: new Date(2024, 0, 15), ...overrides });
+
+const movement = (id: string, overrides: Partial<StockMovement> = {}) =>
+  makeMovement({ id, date: new Date(2024, 0, 20), ...overrides });
+
+describe('calculateStockFinal', () => {
+  it('ignores sales and movements before the initial stock date', () => {
+    const result = calculateStockFinal(
+      coca(),
+      [sale('old', { date: new Date(2024, 0, 5), quantity: 4 }), sale('new', { quantity: 3 })],
+      [
+        movement('before', { type: 'receipt', quantity: 10, date: new Date(2024, 0, 2) }),
+        movement('after', { type: 'receipt', quantity: 6 })
+      ]
+    );
+
+    expect(result.finalStock).toBe(23);
+    expect(result.validSales.map(sale => sale.id)).toEqual(['new']);
+    expect(result.ignoredSales.map(sale => sale.id)).toEqual(['old']);
+    expect(result.hasInconsistentStock).toBe(true);
+  });
+
+  it('only counts adjustments with a reason code', () => {
+    const result = calculateStockFinal(coca(), [], [
+      movement('casse', { quantity: -2, reasonCode: 'casse' }),
+      movement('config', { quantity: 50 })
+    ]);
+
+    expect(result.finalStock).toBe(18);
+    expect(result.adjustedQuantity).toBe(-2);
+  });
+
+  it('floors the final stock at zero but keeps the balance', () => {
+    const result = calculateStockFinal(coca({ initialStock: 2 }), [sale('s1', { quantity: 5 })]);
+
+    expect(result.finalStock).toBe(0);
+    expect(result.balance).toBe(-3);
+  });
+
+  describe('with a store scope', () => {
+    const main = getStoreScope(stores, 'main')!;
+    const port = getStoreScope(stores, 'port')!;
+    const product = coca({ initialStockByStore: { port: 8 } });
+
+    it('splits the initial stock, the main store keeping what is not placed elsewhere', () => {
+      expect(calculateStockFinal(product, [], [], main).finalStock).toBe(12);
+      expect(calculateStockFinal(product, [], [], port).finalStock).toBe(8);
+    });
+
+    it('counts the sales of each store registers, unknown registers going to the main store', () => {
+      const sales = [
+        sale('s1', { register: 'Caisse 1', quantity: 2 }),
+        sale('s2', { register: 'Caisse 2', quantity: 3 }),
+        sale('s3', { register: 'Caisse inconnue', quantity: 1 })
+      ];
+
+      expect(calculateStockFinal(product, sales, [], main).finalStock).toBe(9);
+      expect(calculateStockFinal(product, sales, [], port).finalStock).toBe(5);
+    });
+
+    it('applies movements to their store, untagged ones to the main store', () => {
+      const movements = [
+        movement('out', { type: 'transfer', quantity: -4, storeId: 'main' }),
+        movement('in', { type: 'transfer', quantity: 4, storeId: 'port' }),
+        movement('receipt', { type: 'receipt', quantity: 5 }),
+        movement('deleted-store', { type: 'receipt', quantity: 1, storeId: 'closed' })
+      ];
+
+      expect(calculateStockFinal(product, [], movements, main).finalStock).toBe(14);
+      expect(calculateStockFinal(product, [], movements, port).finalStock).toBe(12);
+    });
+
+    it('adds up to the consolidated stock', () => {
+      const sales = [sale('s1', { register: 'Caisse 2', quantity: 3 }), sale('s2', { quantity: 2 })];
+      const movements = [movement('m1', { type: 'transfer', quantity: -1, storeId: 'port' })];
+
+      const consolidated = calculateStockFinal(product, sales, movements).finalStock;
+      const byStore = [main, port].map(scope => calculateStockFinal(product, sales, movements, scope).finalStock);
+      expect(byStore[0] + byStore[1]).toBe(consolidated);
+    });
+  });
+
+  describe('with bundles', () => {
+    const pack = coca({
+      id: 'pack',
+      name: 'Pack 6 Coca',
+      initialStock: 0,
+      bundleComponents: [{ productId: 'coca', quantity: 6 }]
+    });
+    const packSale = (id: string, overrides: Partial<RegisterSale> = {}) =>
+      sale(id, { product: 'Pack 6 Coca', productId: 'pack', ...overrides });
+
+    it('consumes the components of the bundles sold', () => {
+      const result = calculateStockFinal(
+        coca(),
+        [sale('s1', { quantity: 2 }), packSale('p1', { quantity: 1 })],
+        [],
+        undefined,
+        [pack]
+      );
+
+      expect(result.bundleConsumption).toBe(6);
+      expect(result.finalStock).toBe(12);
+    });
+
+    it('ignores bundle sales before the stock date and returns', () => {
+      const result = calculateStockFinal(
+        coca(),
+        [
+          packSale('p1', { date: new Date(2024, 0, 5) }),
+          packSale('p2', { type: 'return', quantity: -1, total: -9 })
+        ],
+        [],
+        undefined,
+        [pack]
+      );
+
+      expect(result.bundleConsumption).toBe(0);
+      expect(result.finalStock).toBe(20);
+    });
+
+    it('consumes the components in the store where the bundle was sold', () => {
+      const product = coca({ initialStockByStore: { port: 8 } });
+      const sales = [packSale('p1', { register: 'Caisse 2' })];
+
+      expect(calculateStockFinal(product, sales, [], getStoreScope(stores, 'main'), [pack]).finalStock).toBe(12);
+      expect(calculateStockFinal(product, sales, [], getStoreScope(stores, 'port'), [pack]).finalStock).toBe(2);
+    });
+
+    it('consumes the composition a bundle was sold with, not its current one', () => {
+      const edited = { ...pack, bundleComponents: [{ productId: 'coca', quantity: 12 }] };
+      const sales = [
+        packSale('p1', { bundleComponents: [{ productId: 'coca', quantity: 6 }] }),
+        packSale('p2', { bundleComponents: [] })
+      ];
+
+      expect(calculateStockFinal(coca(), sales, [], undefined, [edited]).bundleConsumption).toBe(6);
+    });
+
+    it('counts the components merged into the product', () => {
+      const sales = [packSale('p1', { bundleComponents: [{ productId: 'coca-cola', quantity: 6 }] })];
+
+      expect(calculateStockFinal(coca({ mergedProductIds: ['coca-cola'] }), sales).finalStock).toBe(14);
+    });
+  });
+});
@@ -1,10 +1,19 @@
-import { Product, RegisterSale } from '../types';
+import { Product, RegisterSale, StockMovement } from '../types';
 import { format, parseISO, isAfter, isBefore, startOfDay, isValid } from 'date-fns';
+import { affectsFinalStock } from './stockAdjustmentUtils';
+import { isReturn } from './returnUtils';
+import { ProductIndex, createProductIndex, getProductSales, resolveSaleProduct } from './productIdentityUtils';
+import { StoreScope, getStoreInitialStock, isMovementInStore, isSaleInStore } from './storeUtils';
+import { getBundles, getSaleComponents } from './bundleUtils';
 
 export interface StockCalculationResult {
   finalStock: number;
+  balance: number; // Final stock before flooring at zero, negative when more left than was stocked
   validSales: RegisterSale[];
   ignoredSales: RegisterSale[];
+  validAdjustments: StockMovement[]; // Adjustments and receipts applied to the final stock
+  adjustedQuantity: number; // Signed sum of the valid adjustments
+  bundleConsumption: number; // Units consumed by the valid sales of bundles containing the product
   hasInconsistentStock: boolean;
   warningMessage?: string;
 }
@@ -17,65 +26,116 @@ export interface StockValidationWarning {
 
 /**
  * Calculate final stock for a product considering initial stock date
- * Sales before the initial stock date are ignored in the calculation
+ * Sales, adjustments and receipts before the initial stock date are ignored in the calculation
+ * With a store scope, only the store's share of the initial stock, its registers' sales
+ * and its ledger entries count
+ * Bundle sales consume the product when it was one of their components at sale time;
+ * sales recorded before compositions were kept on sales use the given bundles' composition
+ * Sales are matched to products through the catalog index; without one, only the
+ * product and the bundles are known
  */
 export function calculateStockFinal(
   product: Product, 
-  allSales: RegisterSale[]
+  allSales: RegisterSale[],
+  stockMovements: StockMovement[] = [],
+  storeScope?: StoreScope,
+  bundles: Product[] = [],
+  productIndex: ProductIndex = createProductIndex([product, ...bundles])
 ): StockCalculationResult {
+  // Default values
+  const initialStock = storeScope ? getStoreInitialStock(product, storeScope) : product.initialStock || 0;
+  const initialStockDate = product.initialStockDate;
+
+  // Parse initial stock date
+  let stockDateStart: Date | null = null;
+  if (initialStockDate) {
+    let stockDate: Date;
+    try {
+      stockDate = parseISO(initialStockDate);
+      if (!isValid(stockDate)) {
+        // Fallback to current date if invalid
+        stockDate = new Date();
+      }
+    } catch (error) {
+      // Fallback to current date if parsing fails
+      stockDate = new Date();
+    }
+    stockDateStart = startOfDay(stockDate);
+  }
+
+  // Movements before the stock date are already included in the initial stock
+  const validAdjustments = stockMovements.filter(movement =>
+    movement.productId === product.id &&
+    affectsFinalStock(movement) &&
+    (!storeScope || isMovementInStore(storeScope, movement)) &&
+    (!stockDateStart || !isBefore(movement.date, stockDateStart))
+  );
+  const adjustedQuantity = validAdjustments.reduce((sum, movement) => sum + movement.quantity, 0);
+
   // Early return for performance if no sales
   if (allSales.length === 0) {
     return {
-      finalStock: product.initialStock || 0,
+      finalStock: Math.max(0, initialStock + adjustedQuantity),
+      balance: initialStock + adjustedQuantity,
       validSales: [],
       ignoredSales: [],
+      validAdjustments,
+      adjustedQuantity,
+      bundleConsumption: 0,
       hasInconsistentStock: false
     };
   }
-
-  // Default values
-  const initialStock = product.initialStock || 0;
-  const initialStockDate = product.initialStockDate;
   
-  // Find all sales for this product
-  const productSales = findProductSalesOptimized(product, allSales);
+  // Find all sales for this product; returns come back through the ledger when sellable
+  const isStockSale = (sale: RegisterSale) => !isReturn(sale) && (!storeScope || isSaleInStore(storeScope, sale));
+  const productSales = getProductSales(product, allSales, productIndex).filter(isStockSale);
+
+  // Bundle sales, as the units of this product they consumed; a component since merged
+  // into this product counts for it
+  const bundlesById = new Map(bundles.map(bundle => [bundle.id, bundle]));
+  const isThisProduct = (id: string) => id === product.id || (product.mergedProductIds || []).includes(id);
+  const consumptionSales = allSales.filter(isStockSale).flatMap(sale => {
+    const bundle = !sale.bundleComponents && bundles.length > 0
+      ? bundlesById.get(resolveSaleProduct(productIndex, sale)?.id ?? '')
+      : undefined;
+    const unitsPerBundle = getSaleComponents(sale, bundle)
+      .filter(component => isThisProduct(component.productId))
+      .reduce((sum, component) => sum + component.quantity, 0);
+    return unitsPerBundle > 0 ? [{ ...sale, quantity: sale.quantity * unitsPerBundle }] : [];
+  });
+  const sumQuantity = (sales: RegisterSale[]) => sales.reduce((sum, sale) => sum + sale.quantity, 0);
   
   // Early return if no product sales found
-  if (productSales.length === 0) {
+  if (productSales.length === 0 && consumptionSales.length === 0) {
     return {
-      finalStock: initialStock,
+      finalStock: Math.max(0, initialStock + adjustedQuantity),
+      balance: initialStock + adjustedQuantity,
       validSales: [],
       ignoredSales: [],
+      validAdjustments,
+      adjustedQuantity,
+      bundleConsumption: 0,
       hasInconsistentStock: false
     };
   }
   
   // If no initial stock date is set, use all sales (legacy behavior)
-  if (!initialStockDate) {
-    const totalSold = productSales.reduce((sum, sale) => sum + sale.quantity, 0);
+  if (!stockDateStart) {
+    const totalSold = sumQuantity(productSales);
+    const bundleConsumption = sumQuantity(consumptionSales);
+    const balance = initialStock - totalSold - bundleConsumption + adjustedQuantity;
     return {
-      finalStock: Math.max(0, initialStock - totalSold),
+      finalStock: Math.max(0, balance),
+      balance,
       validSales: productSales,
       ignoredSales: [],
+      validAdjustments,
+      adjustedQuantity,
+      bundleConsumption,
       hasInconsistentStock: false
     };
   }
   
-  // Parse the initial stock date
-  let stockDate: Date;
-  try {
-    stockDate = parseISO(initialStockDate);
-    if (!isValid(stockDate)) {
-      // Fallback to current date if invalid
-      stockDate = new Date();
-    }
-  } catch (error) {
-    // Fallback to current date if parsing fails
-    stockDate = new Date();
-  }
-  
-  const stockDateStart = startOfDay(stockDate);
-  
   // Separate sales before and after the stock date
   const salesBeforeStockDate: RegisterSale[] = [];
   const salesAfterStockDate: RegisterSale[] = [];
@@ -89,8 +149,9 @@ export function calculateStockFinal(
   });
   
   // Calculate final stock using only sales after the stock date
-  const validSoldQuantity = salesAfterStockDate.reduce((sum, sale) => sum + sale.quantity, 0);
-  const finalStock = Math.max(0, initialStock - validSoldQuantity);
+  const validSoldQuantity = sumQuantity(salesAfterStockDate);
+  const bundleConsumption = sumQuantity(consumptionSales.filter(sale => !isBefore(sale.date, stockDateStart)));
+  const balance = initialStock - validSoldQuantity - bundleConsumption + adjustedQuantity;
   
   // Determine if there are inconsistencies
   const hasInconsistentStock = salesBeforeStockDate.length > 0;
@@ -102,58 +163,25 @@ export function calculateStockFinal(
   }
   
   return {
-    finalStock,
+    finalStock: Math.max(0, balance),
+    balance,
     validSales: salesAfterStockDate,
     ignoredSales: salesBeforeStockDate,
+    validAdjustments,
+    adjustedQuantity,
+    bundleConsumption,
     hasInconsistentStock,
     warningMessage
   };
 }
 
-/**
- * Find all sales that match a specific product
- */
-function findProductSalesOptimized(product: Product, allSales: RegisterSale[]): RegisterSale[] {
-  const normalizeString = (str: string) => 
-    str.toLowerCase().trim().replace(/\s+/g, ' ');
-
-  const normalizedProductName = normalizeString(product.name);
-  const normalizedProductCategory = normalizeString(product.category);
-  
-  // Create a product signature for faster matching
-  const productSignature = `${normalizedProductName}|${normalizedProductCategory}`;
-
-  // First pass: exact match using signature (much faster)
-  const exactMatches = allSales.filter(sale => {
-    const normalizedSaleName = normalizeString(sale.product);
-    const normalizedSaleCategory = normalizeString(sale.category);
-    const saleSignature = `${normalizedSaleName}|${normalizedSaleCategory}`;
-    
-    return saleSignature === productSignature;
-  });
-  
-  // If we found exact matches, return them immediately
-  if (exactMatches.length > 0) {
-    return exactMatches;
-  }
-  
-  // Second pass: fuzzy match only if no exact matches found
-  return allSales.filter(sale => {
-    const normalizedSaleName = normalizeString(sale.product);
-    const normalizedSaleCategory = normalizeString(sale.category);
-    
-    return normalizedSaleCategory === normalizedProductCategory && 
-           (normalizedSaleName.includes(normalizedProductName) || 
-            normalizedProductName.includes(normalizedSaleName));
-  });
-}
-
 /**
  * Validate stock configuration and return warnings
  */
 export function validateStockConfiguration(
   product: Product, 
-  allSales: RegisterSale[]
+  allSales: RegisterSale[],
+  productIndex: ProductIndex = createProductIndex([product])
 ): StockValidationWarning[] {
   const warnings: StockValidationWarning[] = [];
   
@@ -180,7 +208,7 @@ export function validateStockConfiguration(
   }
   
   // Check for sales before stock date
-  const productSales = findProductSales(product, allSales);
+  const productSales = getProductSales(product, allSales, productIndex);
   const salesBeforeStockDate = productSales.filter(sale => 
     isBefore(sale.date, startOfDay(stockDate))
   );
@@ -202,7 +230,8 @@ export function validateStockConfiguration(
  */
 export function calculateAggregatedStockStats(
   products: Product[],
-  allSales: RegisterSale[]
+  allSales: RegisterSale[],
+  stockMovements: StockMovement[] = []
 ): {
   totalProducts: number;
   totalStock: number;
@@ -216,9 +245,11 @@ export function calculateAggregatedStockStats(
   let outOfStock = 0;
   let lowStock = 0;
   let inconsistentStock = 0;
+  const bundles = getBundles(products);
+  const productIndex = createProductIndex(products);
   
   products.forEach(product => {
-    const calculation = calculateStockFinal(product, allSales);
+    const calculation = calculateStockFinal(product, allSales, stockMovements, undefined, bundles, productIndex);
     
     totalStock += calculation.finalStock;
     totalSold += calculation.validSales.reduce((sum, sale) => sum + sale.quantity, 0);
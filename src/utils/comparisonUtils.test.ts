@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { endOfDay, startOfDay } from 'date-fns';
+import { makeSale } from '../test/fixtures';
+import { calculateDelta, getComparisonBounds, sumBy } from './comparisonUtils';
+
+// Week from Monday 5 to Sunday 11 February 2024
+const start = startOfDay(new Date(2024, 1, 5));
+const end = endOfDay(new Date(2024, 1, 11));
+
+describe('comparison baselines', () => {
+  it('compares with the same length right before', () => {
+    expect(getComparisonBounds('previous', start, end)).toEqual({
+      start: startOfDay(new Date(2024, 0, 29)),
+      end: endOfDay(new Date(2024, 1, 4))
+    });
+  });
+
+  it('compares with 52 weeks earlier, on the same weekdays', () => {
+    const { start: baselineStart } = getComparisonBounds('lastYear', start, end);
+
+    expect(baselineStart).toEqual(startOfDay(new Date(2023, 1, 6)));
+    expect(baselineStart.getDay()).toBe(start.getDay());
+  });
+
+  it('uses whole days of a custom range, the previous period without one', () => {
+    const custom = { start: new Date(2023, 11, 24, 15), end: new Date(2023, 11, 31, 9) };
+
+    expect(getComparisonBounds('custom', start, end, custom)).toEqual({
+      start: startOfDay(new Date(2023, 11, 24)),
+      end: endOfDay(new Date(2023, 11, 31))
+    });
+    expect(getComparisonBounds('custom', start, end)).toEqual(getComparisonBounds('previous', start, end));
+  });
+
+  it('gives the change against the baseline, without a percentage from zero', () => {
+    expect(calculateDelta(150, 120)).toEqual({ absolute: 30, percentage: 25 });
+    expect(calculateDelta(-50, -100)).toEqual({ absolute: 50, percentage: 50 });
+    expect(calculateDelta(10, 0)).toEqual({ absolute: 10, percentage: null });
+  });
+
+  it('sums the rows to compare by key', () => {
+    const sales = [makeSale({ quantity: 2 }), makeSale({ seller: 'Bob' }), makeSale({ quantity: 1 })];
+
+    expect(sumBy(sales, sale => sale.seller, sale => sale.total)).toEqual(new Map([['Alice', 4.5], ['Bob', 1.5]]));
+  });
+});
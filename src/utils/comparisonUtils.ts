@@ -0,0 +1,62 @@
+import { subDays, startOfDay, endOfDay } from 'date-fns';
+
+export type ComparisonMode = 'previous' | 'lastYear' | 'custom';
+
+export const COMPARISON_MODES: ComparisonMode[] = ['previous', 'lastYear', 'custom'];
+
+export interface PeriodBounds {
+  start: Date;
+  end: Date;
+}
+
+export interface Delta {
+  absolute: number;
+  percentage: number | null; // null when the baseline is 0
+}
+
+/**
+ * Baseline period the selected one is compared to:
+ * - previous: the same length right before
+ * - lastYear: 52 weeks earlier, so every day falls on the same weekday
+ * - custom: the given range
+ */
+export function getComparisonBounds(
+  mode: ComparisonMode,
+  start: Date,
+  end: Date,
+  custom?: PeriodBounds
+): PeriodBounds {
+  switch (mode) {
+    case 'previous': {
+      // The end is the last millisecond of the period, which lasts one millisecond more than end − start
+      const periodLength = end.getTime() - start.getTime() + 1;
+      return {
+        start: new Date(start.getTime() - periodLength),
+        end: new Date(start.getTime() - 1)
+      };
+    }
+    case 'lastYear':
+      return { start: subDays(start, 364), end: subDays(end, 364) };
+    case 'custom':
+      return custom
+        ? { start: startOfDay(custom.start), end: endOfDay(custom.end) }
+        : getComparisonBounds('previous', start, end);
+  }
+}
+
+export function calculateDelta(current: number, baseline: number): Delta {
+  return {
+    absolute: current - baseline,
+    percentage: baseline !== 0 ? ((current - baseline) / Math.abs(baseline)) * 100 : null
+  };
+}
+
+/**
+ * Sum of a value by key, to compare table rows against the baseline
+ */
+export function sumBy<T>(items: T[], key: (item: T) => string, value: (item: T) => number): Map<string, number> {
+  return items.reduce((sums, item) => {
+    sums.set(key(item), (sums.get(key(item)) || 0) + value(item));
+    return sums;
+  }, new Map<string, number>());
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { subDays } from 'date-fns';
+import { makeProduct, makeSale } from '../test/fixtures';
+import { calculateDeadStock } from './deadStockUtils';
+
+const now = new Date(2024, 5, 1);
+
+describe('calculateDeadStock', () => {
+  it('lists the unsold and slow products in stock, largest value tied up first', () => {
+    const products = [
+      makeProduct({ id: 'dead', name: 'Dead', stock: 10, costPrice: 2 }),
+      makeProduct({ id: 'slow', name: 'Slow', stock: 40, costPrice: 1 }),
+      makeProduct({ id: 'fast', name: 'Fast', stock: 5, costPrice: 1 }),
+      makeProduct({ id: 'empty', name: 'Empty', stock: 0 })
+    ];
+    const sales = [
+      makeSale({ id: 'old', product: 'Dead', productId: 'dead', date: subDays(now, 120), quantity: 5 }),
+      makeSale({ id: 'return', product: 'Dead', productId: 'dead', date: subDays(now, 10), type: 'return', quantity: -1 }),
+      makeSale({ id: 'slow', product: 'Slow', productId: 'slow', date: subDays(now, 20), quantity: 3 }),
+      makeSale({ id: 'fast', product: 'Fast', productId: 'fast', date: subDays(now, 5), quantity: 30 })
+    ];
+
+    const rows = calculateDeadStock(products, sales, 90, 2, now);
+
+    expect(rows.map(row => [row.product.id, row.status, row.soldInPeriod, row.valueTiedUp])).toEqual([
+      ['slow', 'slow', 3, 40],
+      ['dead', 'dead', 0, 20]
+    ]);
+    expect(rows[0].monthlyVelocity).toBe(1);
+    expect(rows[1]).toMatchObject({ lastSaleDate: subDays(now, 120), daysSinceLastSale: 120 });
+  });
+});
@@ -0,0 +1,69 @@
+import { differenceInCalendarDays, startOfDay, subDays } from 'date-fns';
+import { Product, RegisterSale } from '../types';
+import { createProductIndex, getProductSales } from './productIdentityUtils';
+import { getCostPriceAt } from './marginUtils';
+import { isReturn } from './returnUtils';
+
+export const DEAD_STOCK_PERIOD_OPTIONS = [30, 60, 90, 180, 365];
+export const DEFAULT_DEAD_STOCK_PERIOD_DAYS = 90;
+
+// Units per 30 days under which a product still selling is a slow mover
+export const DEFAULT_SLOW_MOVER_THRESHOLD = 2;
+
+export type DeadStockStatus = 'dead' | 'slow';
+
+export interface DeadStockRow {
+  product: Product;
+  status: DeadStockStatus;
+  soldInPeriod: number;
+  monthlyVelocity: number; // Units per 30 days over the period
+  lastSaleDate: Date | null; // Among the loaded sales
+  daysSinceLastSale: number | null;
+  unitCost: number | null;
+  valueTiedUp: number; // Stock on hand at the current cost price, 0 when no cost is known
+}
+
+/**
+ * Products with stock on hand that did not sell over the last `periodDays` days (dead stock)
+ * or sold fewer than `slowThreshold` units per 30 days (slow movers), largest value tied up first
+ */
+export function calculateDeadStock(
+  products: Product[],
+  sales: RegisterSale[],
+  periodDays: number = DEFAULT_DEAD_STOCK_PERIOD_DAYS,
+  slowThreshold: number = DEFAULT_SLOW_MOVER_THRESHOLD,
+  now: Date = new Date()
+): DeadStockRow[] {
+  const periodStart = subDays(startOfDay(now), periodDays);
+  const index = createProductIndex(products);
+
+  return products
+    .filter(product => product.stock > 0)
+    .map(product => {
+      // Returns bring stock back, they are not a sign of demand
+      const productSales = getProductSales(product, sales, index)
+        .filter(sale => sale.total >= 0 && !isReturn(sale));
+      const soldInPeriod = productSales
+        .filter(sale => sale.date >= periodStart)
+        .reduce((sum, sale) => sum + sale.quantity, 0);
+      const lastSaleDate = productSales.reduce<Date | null>(
+        (latest, sale) => !latest || sale.date > latest ? sale.date : latest,
+        null
+      );
+      const unitCost = getCostPriceAt(product, now);
+      const monthlyVelocity = (soldInPeriod / periodDays) * 30;
+
+      return {
+        product,
+        status: (soldInPeriod <= 0 ? 'dead' : 'slow') as DeadStockStatus,
+        soldInPeriod,
+        monthlyVelocity,
+        lastSaleDate,
+        daysSinceLastSale: lastSaleDate ? differenceInCalendarDays(now, lastSaleDate) : null,
+        unitCost,
+        valueTiedUp: unitCost !== null ? unitCost * product.stock : 0
+      };
+    })
+    .filter(row => row.status === 'dead' || row.monthlyVelocity < slowThreshold)
+    .sort((a, b) => b.valueTiedUp - a.valueTiedUp || b.product.stock - a.product.stock);
+}
@@ -19,6 +19,22 @@ export function exportToExcel(data: any[], filename: string) {
   }
 }
 
+// One worksheet per entry, in insertion order
+export function exportSheetsToExcel(sheets: Record<string, Record<string, unknown>[]>, filename: string) {
+  try {
+    const workbook = XLSX.utils.book_new();
+
+    Object.entries(sheets).forEach(([name, data]) => {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(data), name);
+    });
+
+    XLSX.writeFile(workbook, `${filename}.xlsx`);
+  } catch (error) {
+    console.error('Error exporting to Excel:', error);
+    throw new Error('Erreur lors de l\'export Excel');
+  }
+}
+
 export function importFromExcel(file: File): Promise<any[]> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
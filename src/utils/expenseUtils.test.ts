@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Expense } from '../types';
+import { makeSale } from '../test/fixtures';
+import { calculateNetResultByPeriod, getExpenseOccurrences, sumExpenseOccurrences } from './expenseUtils';
+
+const expense = (id: string, overrides: Partial<Expense> = {}): Expense => ({
+  id,
+  category: 'Loyer',
+  label: id,
+  amount: 100,
+  date: new Date(2024, 0, 31),
+  recurrence: 'none',
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+  ...overrides
+});
+
+describe('getExpenseOccurrences', () => {
+  it('expands recurring expenses from their first date, without drifting at month ends', () => {
+    const rent = expense('rent', { recurrence: 'monthly' });
+
+    const occurrences = getExpenseOccurrences([rent], new Date(2024, 1, 1), new Date(2024, 3, 30));
+
+    expect(occurrences.map(occurrence => occurrence.date)).toEqual([
+      new Date(2024, 3, 30),
+      new Date(2024, 2, 31),
+      new Date(2024, 1, 29)
+    ]);
+    expect(sumExpenseOccurrences(occurrences)).toBe(300);
+  });
+
+  it('stops at the end of the recurrence and keeps one-off expenses in range', () => {
+    const expenses = [
+      expense('weekly', { recurrence: 'weekly', date: new Date(2024, 1, 1), recurrenceEndDate: new Date(2024, 1, 15) }),
+      expense('one-off', { date: new Date(2024, 1, 10), register: 'Caisse 2' }),
+      expense('before', { date: new Date(2024, 0, 10) })
+    ];
+
+    const occurrences = getExpenseOccurrences(expenses, new Date(2024, 1, 1), new Date(2024, 1, 29));
+
+    expect(occurrences.map(occurrence => occurrence.expense.id)).toEqual(['weekly', 'one-off', 'weekly', 'weekly']);
+    expect(getExpenseOccurrences(expenses, new Date(2024, 1, 1), new Date(2024, 1, 29), 'Caisse 2')).toHaveLength(1);
+  });
+});
+
+describe('calculateNetResultByPeriod', () => {
+  it('takes the cost of goods and the expenses off the revenue net of refunds', () => {
+    const sales = [
+      makeSale({ id: 'jan', date: new Date(2024, 0, 10), quantity: 10 }),
+      makeSale({ id: 'uncosted', date: new Date(2024, 0, 12), product: 'Inconnu', price: 5 }),
+      makeSale({ id: 'refund', date: new Date(2024, 0, 15), type: 'return', quantity: -2 }),
+      makeSale({ id: 'old-expense', date: new Date(2024, 0, 20), quantity: 1, total: -50 }),
+      makeSale({ id: 'feb', date: new Date(2024, 1, 5), quantity: 4 })
+    ];
+    const resolveCost = (sale: { product: string }) => sale.product === 'Coca 33cl' ? 0.5 : null;
+    const occurrences = [{ expense: expense('rent'), date: new Date(2024, 0, 31), amount: 10 }];
+
+    const periods = calculateNetResultByPeriod(sales, occurrences, resolveCost, new Date(2024, 0, 1), new Date(2024, 1, 29), 'month');
+
+    expect(periods.map(period => [period.label, period.revenue, period.costOfGoods, period.uncostedRevenue, period.expenses, period.netResult]))
+      .toEqual([
+        ['01/2024', 17, 5, 5, 10, 2],
+        ['02/2024', 6, 2, 0, 0, 4]
+      ]);
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  addWeeks,
+  addMonths,
+  addYears,
+  startOfDay,
+  endOfDay,
+  startOfWeek,
+  startOfMonth,
+  eachWeekOfInterval,
+  eachMonthOfInterval,
+  format,
+  isAfter
+} from 'date-fns';
+import { Expense, ExpenseOccurrence, ExpenseRecurrence, RegisterSale } from '../types';
+import { isReturn } from './returnUtils';
+
+export const EXPENSE_CATEGORIES = [
+  'Loyer',
+  'Électricité',
+  'Eau',
+  'Internet / Téléphone',
+  'Assurance',
+  'Salaires',
+  'Factures fournisseurs',
+  'Marketing',
+  'Entretien',
+  'Taxes',
+  'Autre'
+];
+
+export const RECURRENCE_LABELS: Record<ExpenseRecurrence, string> = {
+  none: 'Ponctuelle',
+  weekly: 'Chaque semaine',
+  monthly: 'Chaque mois',
+  quarterly: 'Chaque trimestre',
+  yearly: 'Chaque année'
+};
+
+export type NetResultGranularity = 'week' | 'month';
+
+export interface NetResultPeriod {
+  label: string;
+  start: Date;
+  revenue: number; // Sales minus customer refunds
+  costOfGoods: number; // Cost of the sales whose product has a known cost price
+  uncostedRevenue: number; // Sales with no known cost, their cost is missing from costOfGoods
+  expenses: number;
+  netResult: number;
+}
+
+// Occurrence n of an expense, always computed from the first date so month ends do not drift
+const getNthOccurrence = (expense: Expense, n: number): Date => {
+  switch (expense.recurrence) {
+    case 'weekly':
+      return addWeeks(expense.date, n);
+    case 'monthly':
+      return addMonths(expense.date, n);
+    case 'quarterly':
+      return addMonths(expense.date, n * 3);
+    case 'yearly':
+      return addYears(expense.date, n);
+    default:
+      return expense.date;
+  }
+};
+
+/**
+ * Payments falling between two dates (inclusive), recurring expenses expanded
+ * into one occurrence per period. With a register, only its own expenses are kept.
+ */
+export function getExpenseOccurrences(
+  expenses: Expense[],
+  from: Date,
+  to: Date,
+  register?: string
+): ExpenseOccurrence[] {
+  const start = startOfDay(from);
+  const end = endOfDay(to);
+
+  return expenses
+    .filter(expense => !register || expense.register === register)
+    .flatMap(expense => {
+      const last = expense.recurrenceEndDate && isAfter(end, expense.recurrenceEndDate)
+        ? endOfDay(expense.recurrenceEndDate)
+        : end;
+      const occurrences: ExpenseOccurrence[] = [];
+
+      for (let n = 0; ; n++) {
+        const date = getNthOccurrence(expense, n);
+        if (isAfter(date, last)) break;
+        if (!isAfter(start, date)) {
+          occurrences.push({ expense, date, amount: expense.amount });
+        }
+        if (expense.recurrence === 'none') break;
+      }
+
+      return occurrences;
+    })
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+export function sumExpenseOccurrences(occurrences: ExpenseOccurrence[]): number {
+  return occurrences.reduce((sum, occurrence) => sum + occurrence.amount, 0);
+}
+
+/**
+ * Net result per week or month: revenue − cost of goods − expenses.
+ * Negative lines that are not customer returns are ignored, real costs come from the expense ledger.
+ */
+export function calculateNetResultByPeriod(
+  sales: RegisterSale[],
+  occurrences: ExpenseOccurrence[],
+  resolveCost: (sale: RegisterSale) => number | null,
+  from: Date,
+  to: Date,
+  granularity: NetResultGranularity
+): NetResultPeriod[] {
+  const start = startOfDay(from);
+  const end = endOfDay(to);
+  const periodStartOf = (date: Date) =>
+    granularity === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+  const keyOf = (date: Date) => format(periodStartOf(date), 'yyyy-MM-dd');
+
+  const periodStarts = granularity === 'week'
+    ? eachWeekOfInterval({ start, end }, { weekStartsOn: 1 })
+    : eachMonthOfInterval({ start, end });
+
+  const periods = new Map<string, NetResultPeriod>(periodStarts.map(periodStart => [
+    format(periodStart, 'yyyy-MM-dd'),
+    {
+      label: granularity === 'week'
+        ? `Sem. du ${format(isAfter(start, periodStart) ? start : periodStart, 'dd/MM/yyyy')}`
+        : format(periodStart, 'MM/yyyy'),
+      start: periodStart,
+      revenue: 0,
+      costOfGoods: 0,
+      uncostedRevenue: 0,
+      expenses: 0,
+      netResult: 0
+    }
+  ]));
+
+  sales.forEach(sale => {
+    const period = periods.get(keyOf(sale.date));
+    if (!period) return;
+
+    if (isReturn(sale)) {
+      period.revenue += sale.total;
+    } else if (sale.total >= 0) {
+      period.revenue += sale.total;
+      const unitCost = resolveCost(sale);
+      if (unitCost === null) {
+        period.uncostedRevenue += sale.total;
+      } else {
+        period.costOfGoods += unitCost * sale.quantity;
+      }
+    }
+  });
+
+  occurrences.forEach(occurrence => {
+    const period = periods.get(keyOf(occurrence.date));
+    if (period) period.expenses += occurrence.amount;
+  });
+
+  return Array.from(periods.values()).map(period => ({
+    ...period,
+    netResult: period.revenue - period.costOfGoods - period.expenses
+  }));
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { addDays } from 'date-fns';
+import { Supplier } from '../types';
+import { makeProduct, makeSale } from '../test/fixtures';
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  buildDailyDemand,
+  calculateProductForecasts,
+  calculateWeekdayFactors,
+  getProductLeadTime
+} from './forecastUtils';
+
+// Monday 5 February 2024
+const monday = new Date(2024, 1, 5);
+
+const supplier = (id: string, leadTimeDays: number, productIds: string[]): Supplier => ({
+  id,
+  name: id,
+  leadTimeDays,
+  products: productIds.map(productId => ({ productId, purchasePrice: 0.6 })),
+  createdAt: monday,
+  updatedAt: monday
+});
+
+describe('demand forecast', () => {
+  it('counts the units sold per day, leaving out returns and negative lines', () => {
+    const sales = [
+      makeSale({ id: 'a', date: addDays(monday, 0), quantity: 2 }),
+      makeSale({ id: 'b', date: addDays(monday, 2), quantity: 3 }),
+      makeSale({ id: 'r', date: addDays(monday, 2), type: 'return', quantity: -1 }),
+      makeSale({ id: 'x', date: addDays(monday, 1), quantity: 1, total: -4 }),
+      makeSale({ id: 'late', date: addDays(monday, 3) })
+    ];
+
+    expect(buildDailyDemand(sales, monday, 3)).toEqual([2, 0, 3]);
+  });
+
+  it('weighs the weekdays once two weeks of history are known', () => {
+    const saturdays = [0, 0, 0, 0, 0, 7, 0, 0, 0, 0, 0, 0, 7, 0];
+
+    expect(calculateWeekdayFactors(saturdays, monday)[6]).toBe(7);
+    expect(calculateWeekdayFactors(saturdays, monday)[1]).toBe(0);
+    expect(calculateWeekdayFactors(saturdays.slice(0, 7), monday)).toEqual(new Array(7).fill(1));
+  });
+
+  it('uses the shortest lead time of the suppliers of the product', () => {
+    const suppliers = [supplier('slow', 10, ['coca']), supplier('fast', 3, ['coca']), supplier('other', 1, ['chips'])];
+
+    expect(getProductLeadTime(makeProduct(), suppliers)).toBe(3);
+    expect(getProductLeadTime(makeProduct({ id: 'fanta' }), suppliers)).toBe(DEFAULT_LEAD_TIME_DAYS);
+  });
+
+  it('suggests a reorder point and an order from a steady demand', () => {
+    const sales = Array.from({ length: 28 }, (_, day) => makeSale({ id: `s${day}`, date: addDays(monday, day), quantity: 2 }));
+
+    const [forecast] = calculateProductForecasts(
+      [makeProduct({ stock: 5 })],
+      sales,
+      [supplier('fast', 3, ['coca'])],
+      new Map([['coca', 1]]),
+      addDays(monday, 28)
+    );
+
+    expect(forecast.historyDays).toBe(28);
+    expect(forecast.dailyDemand).toBeCloseTo(2);
+    expect(forecast.safetyStock).toBe(0);
+    expect(forecast.reorderPoint).toBe(6);
+    expect(forecast.needsReorder).toBe(true);
+    expect(forecast.suggestedOrderQuantity).toBe(6 + 28 - 6);
+  });
+});
@@ -0,0 +1,169 @@
+import { addDays, differenceInCalendarDays, startOfDay, subDays } from 'date-fns';
+import { Product, RegisterSale, Supplier } from '../types';
+import { createProductIndex, getProductSales } from './productIdentityUtils';
+import { isReturn } from './returnUtils';
+
+// Eight full weeks give every weekday the same weight
+export const FORECAST_HISTORY_DAYS = 56;
+
+// Weight of the latest day in the exponentially smoothed demand level
+export const SMOOTHING_ALPHA = 0.2;
+
+// Used for products no supplier delivers yet
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+// About 95% of lead times covered by the safety stock, for normally distributed demand
+export const SAFETY_FACTOR = 1.65;
+
+// Days of demand an order should cover once the reorder point is reached
+export const ORDER_COVER_DAYS = 14;
+
+// Weekday factors need at least two occurrences of each weekday
+const MIN_SEASONAL_HISTORY_DAYS = 14;
+
+export interface ProductForecast {
+  product: Product;
+  historyDays: number;
+  soldQuantity: number; // Units sold over the history
+  dailyDemand: number; // Forecast average over the next week
+  weekdayFactors: number[]; // By getDay() index, 1 = an average day
+  demandStdDev: number;
+  leadTimeDays: number;
+  leadTimeDemand: number;
+  safetyStock: number;
+  reorderPoint: number; // Suggested minStock
+  onOrder: number;
+  needsReorder: boolean; // Stock plus open orders at or below the reorder point
+  suggestedOrderQuantity: number;
+}
+
+/**
+ * Shortest lead time among the suppliers that deliver the product
+ */
+export function getProductLeadTime(product: Product, suppliers: Supplier[]): number {
+  const leadTimes = suppliers
+    .filter(supplier => supplier.products.some(supplierProduct => supplierProduct.productId === product.id))
+    .map(supplier => supplier.leadTimeDays);
+  return leadTimes.length > 0 ? Math.min(...leadTimes) : DEFAULT_LEAD_TIME_DAYS;
+}
+
+/**
+ * Units sold per day from `from`, returns and negative lines excluded: they are not demand
+ */
+export function buildDailyDemand(sales: RegisterSale[], from: Date, days: number): number[] {
+  const series = new Array<number>(days).fill(0);
+  sales
+    .filter(sale => sale.total >= 0 && !isReturn(sale))
+    .forEach(sale => {
+      const index = differenceInCalendarDays(sale.date, from);
+      if (index >= 0 && index < days) series[index] += sale.quantity;
+    });
+  return series;
+}
+
+export function calculateWeekdayFactors(series: number[], from: Date): number[] {
+  if (series.length < MIN_SEASONAL_HISTORY_DAYS) return new Array<number>(7).fill(1);
+
+  const sums = new Array<number>(7).fill(0);
+  const counts = new Array<number>(7).fill(0);
+  series.forEach((quantity, index) => {
+    const weekday = addDays(from, index).getDay();
+    sums[weekday] += quantity;
+    counts[weekday] += 1;
+  });
+
+  const mean = series.reduce((sum, quantity) => sum + quantity, 0) / series.length;
+  return sums.map((sum, weekday) => mean > 0 && counts[weekday] > 0 ? (sum / counts[weekday]) / mean : 1);
+}
+
+/**
+ * Exponential smoothing of the demand once the weekday effect is removed
+ */
+export function smoothDemandLevel(series: number[], factors: number[], from: Date, alpha: number = SMOOTHING_ALPHA): number {
+  if (series.length === 0) return 0;
+
+  let level = series.reduce((sum, quantity) => sum + quantity, 0) / series.length;
+  series.forEach((quantity, index) => {
+    const factor = factors[addDays(from, index).getDay()];
+    // Weekdays without any sale tell nothing about the level
+    if (factor > 0) level = alpha * (quantity / factor) + (1 - alpha) * level;
+  });
+  return level;
+}
+
+/**
+ * First day of a history of `days` full days ending before `historyEnd`,
+ * moved forward to the oldest sale provided when less history is loaded
+ */
+export function getHistoryStart(sales: RegisterSale[], historyEnd: Date, days: number): Date {
+  const oldestSale = sales.reduce<Date | undefined>(
+    (oldest, sale) => !oldest || sale.date < oldest ? sale.date : oldest,
+    undefined
+  );
+  const defaultStart = subDays(historyEnd, days);
+  return oldestSale && startOfDay(oldestSale) > defaultStart ? startOfDay(oldestSale) : defaultStart;
+}
+
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * Daily demand forecast, reorder point and order quantity for each product.
+ * History stops yesterday since today is not over, and starts no earlier than the oldest sale provided.
+ */
+export function calculateProductForecasts(
+  products: Product[],
+  sales: RegisterSale[],
+  suppliers: Supplier[],
+  onOrder: Map<string, number>,
+  now: Date = new Date()
+): ProductForecast[] {
+  const historyEnd = startOfDay(now);
+  const historyStart = getHistoryStart(sales, historyEnd, FORECAST_HISTORY_DAYS);
+  const historyDays = Math.max(0, differenceInCalendarDays(historyEnd, historyStart));
+  const index = createProductIndex(products);
+
+  return products.map(product => {
+    const series = buildDailyDemand(getProductSales(product, sales, index), historyStart, historyDays);
+    const factors = calculateWeekdayFactors(series, historyStart);
+    const level = smoothDemandLevel(series, factors, historyStart);
+    // Weekday swings are already in the forecast, only what they leave unexplained needs a safety stock
+    const mean = series.length > 0 ? series.reduce((sum, quantity) => sum + quantity, 0) / series.length : 0;
+    const demandStdDev = standardDeviation(series.map((quantity, index) =>
+      quantity - mean * factors[addDays(historyStart, index).getDay()]));
+
+    const leadTimeDays = getProductLeadTime(product, suppliers);
+    const forecastFor = (days: number) => Array.from({ length: days }, (_, i) =>
+      level * factors[addDays(historyEnd, i).getDay()]).reduce((sum, quantity) => sum + quantity, 0);
+
+    const leadTimeDemand = forecastFor(leadTimeDays);
+    const safetyStock = Math.ceil(SAFETY_FACTOR * demandStdDev * Math.sqrt(leadTimeDays));
+    const reorderPoint = Math.ceil(leadTimeDemand + safetyStock);
+
+    const productOnOrder = onOrder.get(product.id) || 0;
+    const position = product.stock + productOnOrder;
+    const needsReorder = reorderPoint > 0 && position <= reorderPoint;
+
+    return {
+      product,
+      historyDays,
+      soldQuantity: series.reduce((sum, quantity) => sum + quantity, 0),
+      dailyDemand: forecastFor(7) / 7,
+      weekdayFactors: factors,
+      demandStdDev,
+      leadTimeDays,
+      leadTimeDemand,
+      safetyStock,
+      reorderPoint,
+      onOrder: productOnOrder,
+      needsReorder,
+      // Back up to the reorder point plus the demand of the next cover period
+      suggestedOrderQuantity: needsReorder
+        ? Math.max(0, Math.ceil(reorderPoint + level * ORDER_COVER_DAYS - position))
+        : 0
+    };
+  });
+}
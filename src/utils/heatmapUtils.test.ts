@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { makeSale } from '../test/fixtures';
+import { calculateSalesHeatmap, countWeekdayOccurrences } from './heatmapUtils';
+
+// Thursday 1 and 8 February, Monday 5 February 2024
+const sales = [
+  makeSale({ id: 'thu-10', date: new Date(2024, 1, 1, 10, 15), quantity: 2 }),
+  makeSale({ id: 'next-thu-10', date: new Date(2024, 1, 8, 10, 45) }),
+  makeSale({ id: 'thu-18', date: new Date(2024, 1, 1, 18) }),
+  makeSale({ id: 'mon-untimed', date: new Date(2024, 1, 5), quantity: 4 }),
+  makeSale({ id: 'return', date: new Date(2024, 1, 1, 10, 30), type: 'return', quantity: -1 })
+];
+
+describe('calculateSalesHeatmap', () => {
+  it('places the timed sales by weekday from Monday and hour, the others in the weekday totals only', () => {
+    const heatmap = calculateSalesHeatmap(sales, 'units');
+
+    expect(heatmap.cells[3][10]).toBe(3);
+    expect(heatmap.cells[3][18]).toBe(1);
+    expect(heatmap.weekdayTotals).toEqual([4, 0, 0, 4, 0, 0, 0]);
+    expect(heatmap.hourTotals[10]).toBe(3);
+    expect(heatmap).toMatchObject({ maxCell: 3, timedShare: 0.5, firstHour: 10, lastHour: 18 });
+  });
+
+  it('averages each weekday over its occurrences in the period', () => {
+    const occurrences = countWeekdayOccurrences(new Date(2024, 1, 1), new Date(2024, 1, 11));
+    const heatmap = calculateSalesHeatmap(sales, 'revenue', occurrences);
+
+    expect(occurrences).toEqual([1, 1, 1, 2, 2, 2, 2]);
+    expect(heatmap.cells[3][10]).toBe(2.25);
+    expect(heatmap.weekdayTotals[0]).toBe(6);
+  });
+});
@@ -0,0 +1,81 @@
+import { differenceInCalendarDays, addDays, startOfDay } from 'date-fns';
+import { RegisterSale } from '../types';
+import { isReturn } from './returnUtils';
+import { hasTimeOfDay } from './basketUtils';
+
+export type HeatmapMetric = 'revenue' | 'units';
+
+export interface SalesHeatmap {
+  cells: number[][]; // [weekday][hour], weekday 0 = Monday
+  weekdayTotals: number[]; // Including the sales without a time of day
+  hourTotals: number[];
+  maxCell: number;
+  timedShare: number; // Share of the metric carried by sales with a time of day, 0 to 1
+  firstHour: number; // Hour range holding sales, to keep the grid compact
+  lastHour: number;
+}
+
+// Monday first, like the sales targets weeks
+export const toWeekdayIndex = (date: Date) => (date.getDay() + 6) % 7;
+
+/**
+ * How many times each weekday occurs between two dates, both included
+ */
+export function countWeekdayOccurrences(from: Date, to: Date): number[] {
+  const counts = new Array<number>(7).fill(0);
+  const start = startOfDay(from);
+  const days = differenceInCalendarDays(to, start) + 1;
+  for (let i = 0; i < days; i++) {
+    counts[toWeekdayIndex(addDays(start, i))] += 1;
+  }
+  return counts;
+}
+
+/**
+ * Revenue or units of the positive sales by weekday and hour. Sales without a time of day
+ * only count in the weekday totals. With `weekdayOccurrences` every value is an average per day.
+ */
+export function calculateSalesHeatmap(
+  sales: RegisterSale[],
+  metric: HeatmapMetric,
+  weekdayOccurrences?: number[]
+): SalesHeatmap {
+  const cells = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const weekdayTotals = new Array<number>(7).fill(0);
+  let timedValue = 0;
+  let totalValue = 0;
+
+  sales
+    .filter(sale => sale.total >= 0 && !isReturn(sale))
+    .forEach(sale => {
+      const value = metric === 'revenue' ? sale.total : sale.quantity;
+      const weekday = toWeekdayIndex(sale.date);
+      weekdayTotals[weekday] += value;
+      totalValue += value;
+      if (hasTimeOfDay(sale.date)) {
+        cells[weekday][sale.date.getHours()] += value;
+        timedValue += value;
+      }
+    });
+
+  if (weekdayOccurrences) {
+    weekdayOccurrences.forEach((occurrences, weekday) => {
+      const divisor = Math.max(1, occurrences);
+      weekdayTotals[weekday] /= divisor;
+      cells[weekday] = cells[weekday].map(value => value / divisor);
+    });
+  }
+
+  const hourTotals = Array.from({ length: 24 }, (_, hour) => cells.reduce((sum, row) => sum + row[hour], 0));
+  const activeHours = hourTotals.map((value, hour) => value > 0 ? hour : -1).filter(hour => hour >= 0);
+
+  return {
+    cells,
+    weekdayTotals,
+    hourTotals,
+    maxCell: Math.max(0, ...cells.flat()),
+    timedShare: totalValue > 0 ? timedValue / totalValue : 0,
+    firstHour: activeHours.length > 0 ? activeHours[0] : 0,
+    lastHour: activeHours.length > 0 ? activeHours[activeHours.length - 1] : 23
+  };
+}
@@ -1,5 +1,6 @@
-import { RegisterSale, ImportPreview, ImportError } from '../types';
+import { RegisterSale, ImportPreview, ImportError, Product } from '../types';
 import { parseISO, isValid } from 'date-fns';
+import { findPriceMismatches } from './priceHistoryUtils';
 
 export interface ImportColumn {
   product: string;
@@ -85,7 +86,26 @@ function cleanColumnName(name: string): string {
     'cost': 'Amount',
     'cout': 'Amount',
     'value': 'Amount',
-    'valeur': 'Amount'
+    'valeur': 'Amount',
+
+    // Optional ticket number variations
+    'ticket': 'Ticket',
+    'receipt': 'Ticket',
+    'recu': 'Ticket',
+    'transaction': 'Ticket',
+    'facture': 'Ticket',
+
+    // Optional SKU or barcode variations, matched exactly before "produit" catches them
+    'sku': 'Code',
+    'ean': 'Code',
+    'gencod': 'Code',
+    'barcode': 'Code',
+    'code barre': 'Code',
+    'codebarre': 'Code',
+    'code produit': 'Code',
+    'code article': 'Code',
+    'reference': 'Code',
+    'code': 'Code'
   };
   
   // Check for exact match first
@@ -162,7 +182,8 @@ function createDuplicateKey(sale: RegisterSale): string {
 // ✅ NEW: Enhanced duplicate detection that compares against existing sales
 export function validateAndProcessImportWithExistingData(
   rawData: any[], 
-  existingSales: RegisterSale[] = []
+  existingSales: RegisterSale[] = [],
+  products: Product[] = []
 ): ImportPreview {
   const requiredColumns = ['Product', 'Category', 'Register', 'Date', 'Seller', 'Quantity', 'Amount'];
   const validSales: RegisterSale[] = [];
@@ -241,7 +262,9 @@ export function validateAndProcessImportWithExistingData(
     errorMessage += `  - Date: "Date", "Jour"\n`;
     errorMessage += `  - Seller: "Vendeur", "Employé", "Caissier"\n`;
     errorMessage += `  - Quantity: "Quantité", "Qty", "Qté"\n`;
-    errorMessage += `  - Amount: "Montant", "Prix", "Price"`;
+    errorMessage += `  - Amount: "Montant", "Prix", "Price"\n`;
+    errorMessage += `  - Ticket (optionnel): "N° ticket", "Reçu", "Transaction"\n`;
+    errorMessage += `  - Code (optionnel): "SKU", "EAN", "Code barre", "Référence"`;
 
     errors.push({
       row: 1,
@@ -416,6 +439,18 @@ export function validateAndProcessImportWithExistingData(
         }
       }
 
+      // Ticket number - Optional, sales are grouped on timestamps without it
+      const ticketField = reverseMapping.Ticket ? row[reverseMapping.Ticket] : '';
+      if (ticketField !== undefined && ticketField !== null && ticketField.toString().trim()) {
+        sale.ticketId = ticketField.toString().trim();
+      }
+
+      // SKU or barcode - Optional, links the sale to its product even when the name differs
+      const codeField = reverseMapping.Code ? row[reverseMapping.Code] : '';
+      if (codeField !== undefined && codeField !== null && codeField.toString().trim()) {
+        sale.productCode = codeField.toString().trim();
+      }
+
       // Check if sale is complete
       if (sale.product && sale.category && sale.register && sale.date && 
           sale.seller && sale.quantity && sale.total !== undefined && sale.price !== undefined) {
@@ -480,10 +515,17 @@ export function validateAndProcessImportWithExistingData(
   // Calculate totals using the Amount column directly
   const totals = calculateTotals(validSales);
 
+  // ✅ NEW: Compare each unit price with the product price valid on the sale date
+  const priceMismatches = findPriceMismatches(validSales, products);
+  if (priceMismatches.length > 0) {
+    console.log(`💶 ${priceMismatches.length} sales with a unit price differing from the product price`);
+  }
+
   return {
     data: validSales,
     duplicates,
     errors,
+    priceMismatches,
     totals
   };
 }
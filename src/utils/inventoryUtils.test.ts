@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { InventorySession } from '../types';
+import { makeMovement, makeProduct, makeSale, stores } from '../test/fixtures';
+import { calculateExpectedStockAt, calculateInventoryVariances, summarizeInventoryVariances } from './inventoryUtils';
+import { getStoreScope } from './storeUtils';
+
+const product = makeProduct({
+  id: 'riz',
+  name: 'Riz 1kg',
+  category: 'Épicerie',
+  price: 2,
+  initialStock: 10,
+  initialStockDate: '2024-03-01',
+  minStock: 2
+});
+
+const sale = (id: string, date: Date, quantity: number, register = 'Caisse 1') =>
+  makeSale({ id, product: 'Riz 1kg', category: 'Épicerie', productId: 'riz', register, date, quantity, price: 2 });
+
+const makeSession = (lines: InventorySession['lines']): InventorySession => ({
+  id: 'inv-1',
+  name: 'Inventaire mars',
+  categories: ['Épicerie'],
+  blind: true,
+  status: 'open',
+  countDate: new Date(2024, 2, 10, 20, 0),
+  lines,
+  createdAt: new Date(2024, 2, 10)
+});
+
+const line = (countedQuantity: number | null, overrides: Partial<InventorySession['lines'][number]> = {}) => ({
+  productId: 'riz',
+  productName: 'Riz 1kg',
+  category: 'Épicerie',
+  countedQuantity,
+  ...overrides
+});
+
+describe('calculateExpectedStockAt', () => {
+  it('leaves out sales and movements recorded after the count', () => {
+    const sales = [sale('s1', new Date(2024, 2, 5), 3), sale('s2', new Date(2024, 2, 12), 4)];
+    const movements = [makeMovement({
+      productId: 'riz',
+      productName: 'Riz 1kg',
+      category: 'Épicerie',
+      type: 'receipt',
+      quantity: 6,
+      date: new Date(2024, 2, 11)
+    })];
+
+    expect(calculateExpectedStockAt(product, sales, movements, new Date(2024, 2, 10, 20, 0))).toBe(7);
+  });
+
+  it('is not floored at zero when more was sold than stocked', () => {
+    const sales = [sale('s1', new Date(2024, 2, 5), 13)];
+
+    expect(calculateExpectedStockAt(product, sales, [], new Date(2024, 2, 10))).toBe(-3);
+  });
+
+  it('only counts the store when given a store scope', () => {
+    const placed = { ...product, initialStockByStore: { port: 4 } };
+    const sales = [sale('s1', new Date(2024, 2, 5), 1), sale('s2', new Date(2024, 2, 5), 3, 'Caisse 2')];
+
+    expect(calculateExpectedStockAt(placed, sales, [], new Date(2024, 2, 10), [], getStoreScope(stores, 'main'))).toBe(5);
+    expect(calculateExpectedStockAt(placed, sales, [], new Date(2024, 2, 10), [], getStoreScope(stores, 'port'))).toBe(1);
+  });
+});
+
+describe('calculateInventoryVariances', () => {
+  const sales = [sale('s1', new Date(2024, 2, 5), 3)];
+
+  it('compares the counted quantity to the expected stock', () => {
+    const [variance] = calculateInventoryVariances(makeSession([line(5)]), [product], sales, []);
+
+    expect(variance).toMatchObject({ expected: 7, counted: 5, variance: -2, value: -4 });
+  });
+
+  it('brings a negative balance back to the counted quantity', () => {
+    const oversold = [sale('s1', new Date(2024, 2, 5), 12)];
+    const [variance] = calculateInventoryVariances(makeSession([line(1)]), [product], oversold, []);
+
+    expect(variance.expected).toBe(-2);
+    expect(variance.variance).toBe(3);
+  });
+
+  it('keeps the expected quantity and price frozen at posting', () => {
+    const session = makeSession([line(5, { expectedQuantity: 9, unitPrice: 1.5 })]);
+    const [variance] = calculateInventoryVariances(session, [product], sales, []);
+
+    expect(variance).toMatchObject({ expected: 9, variance: -4, value: -6 });
+  });
+
+  it('reports uncounted lines without a variance', () => {
+    const [variance] = calculateInventoryVariances(makeSession([line(null)]), [product], sales, []);
+
+    expect(variance.variance).toBe(0);
+  });
+});
+
+describe('summarizeInventoryVariances', () => {
+  it('totals missing and surplus units and separates uncounted lines', () => {
+    const summary = summarizeInventoryVariances([
+      { productId: 'a', productName: 'A', category: 'X', expected: 5, counted: 3, variance: -2, value: -4 },
+      { productId: 'b', productName: 'B', category: 'X', expected: 5, counted: 6, variance: 1, value: 3 },
+      { productId: 'c', productName: 'C', category: 'X', expected: 5, counted: 5, variance: 0, value: 0 },
+      { productId: 'd', productName: 'D', category: 'X', expected: 5, counted: null, variance: 0, value: 0 }
+    ]);
+
+    expect(summary).toEqual({ counted: 3, uncounted: 1, linesWithVariance: 2, missingUnits: 2, surplusUnits: 1, netValue: -1 });
+  });
+});
@@ -0,0 +1,82 @@
+import { isAfter } from 'date-fns';
+import { InventorySession, InventoryVariance, Product, RegisterSale, StockMovement } from '../types';
+import { calculateStockFinal } from './calculateStockFinal';
+import { getBundles } from './bundleUtils';
+import { StoreScope } from './storeUtils';
+import { ProductIndex, createProductIndex } from './productIdentityUtils';
+
+/**
+ * Expected stock of a product at a given timestamp: sales and adjustments
+ * recorded after it are left out of the calculation. The balance is not floored
+ * at zero, so the variance posted brings the ledger back to the counted quantity.
+ */
+export function calculateExpectedStockAt(
+  product: Product,
+  allSales: RegisterSale[],
+  stockMovements: StockMovement[],
+  date: Date,
+  bundles: Product[] = [],
+  storeScope?: StoreScope,
+  productIndex?: ProductIndex
+): number {
+  const salesAtDate = allSales.filter(sale => !isAfter(sale.date, date));
+  const movementsAtDate = stockMovements.filter(movement => !isAfter(movement.date, date));
+  return calculateStockFinal(product, salesAtDate, movementsAtDate, storeScope, bundles, productIndex).balance;
+}
+
+/**
+ * Compare counted quantities against the expected stock at the count date,
+ * in the counted store when the session has one.
+ * Posted sessions keep the expected values frozen at posting time.
+ */
+export function calculateInventoryVariances(
+  session: InventorySession,
+  products: Product[],
+  allSales: RegisterSale[],
+  stockMovements: StockMovement[],
+  storeScope?: StoreScope
+): InventoryVariance[] {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const bundles = getBundles(products);
+  const productIndex = createProductIndex(products);
+
+  return session.lines.map(line => {
+    const product = productsById.get(line.productId);
+    const expected = line.expectedQuantity ?? (
+      product ? calculateExpectedStockAt(product, allSales, stockMovements, session.countDate, bundles, storeScope, productIndex) : 0
+    );
+    const unitPrice = line.unitPrice ?? product?.price ?? 0;
+    const variance = line.countedQuantity === null ? 0 : line.countedQuantity - expected;
+
+    return {
+      productId: line.productId,
+      productName: line.productName,
+      category: line.category,
+      expected,
+      counted: line.countedQuantity,
+      variance,
+      value: variance * unitPrice
+    };
+  });
+}
+
+/**
+ * Totals of a variance report; uncounted lines are reported separately
+ */
+export function summarizeInventoryVariances(variances: InventoryVariance[]) {
+  return variances.reduce(
+    (summary, variance) => {
+      if (variance.counted === null) {
+        summary.uncounted += 1;
+        return summary;
+      }
+      summary.counted += 1;
+      if (variance.variance < 0) summary.missingUnits += Math.abs(variance.variance);
+      if (variance.variance > 0) summary.surplusUnits += variance.variance;
+      if (variance.variance !== 0) summary.linesWithVariance += 1;
+      summary.netValue += variance.value;
+      return summary;
+    },
+    { counted: 0, uncounted: 0, linesWithVariance: 0, missingUnits: 0, surplusUnits: 0, netValue: 0 }
+  );
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { Product } from '../types';
+import { makeProduct, makeSale } from '../test/fixtures';
+import { calculateGrossMargin, getCostPriceAt, isSoldBelowCost, withCostPriceHistory } from './marginUtils';
+
+const coca = makeProduct({
+  costPrice: 0.8,
+  costPriceHistory: [
+    { costPrice: 0.6, effectiveDate: '2024-01-01' },
+    { costPrice: 0.8, effectiveDate: '2024-03-01' }
+  ]
+});
+
+describe('cost price history', () => {
+  it('applies the latest change effective on the day, the oldest one before any', () => {
+    expect(getCostPriceAt(coca, new Date(2023, 11, 31))).toBe(0.6);
+    expect(getCostPriceAt(coca, new Date(2024, 1, 29))).toBe(0.6);
+    expect(getCostPriceAt(coca, new Date(2024, 2, 1))).toBe(0.8);
+    expect(getCostPriceAt(makeProduct(), new Date())).toBeNull();
+  });
+
+  it('keeps the previous cost as the oldest entry and replaces a change of the same day', () => {
+    const previous = makeProduct({ costPrice: 0.5 });
+
+    const first = withCostPriceHistory<Partial<Product>>({ costPrice: 0.7 }, previous, '2024-02-01');
+    const second = withCostPriceHistory<Partial<Product>>({ costPrice: 0.75 }, { ...previous, ...first }, '2024-02-01');
+
+    expect(first.costPriceHistory).toEqual([
+      { costPrice: 0.5, effectiveDate: '1970-01-01' },
+      { costPrice: 0.7, effectiveDate: '2024-02-01' }
+    ]);
+    expect(second.costPriceHistory!.map(change => change.costPrice)).toEqual([0.5, 0.75]);
+    expect(withCostPriceHistory({ costPrice: 0.5, name: 'Coca' }, previous)).toEqual({ costPrice: 0.5, name: 'Coca' });
+  });
+});
+
+describe('calculateGrossMargin', () => {
+  it('costs each sale at its date and leaves out refunds and unknown products', () => {
+    const sales = [
+      makeSale({ id: 'feb', quantity: 2, date: new Date(2024, 1, 10) }),
+      makeSale({ id: 'mar', quantity: 1, date: new Date(2024, 2, 10) }),
+      makeSale({ id: 'unknown', product: 'Inconnu', price: 4 }),
+      makeSale({ id: 'refund', quantity: -1, type: 'return' })
+    ];
+
+    const margin = calculateGrossMargin(sales, [coca]);
+
+    expect(margin.revenue).toBe(8.5);
+    expect(margin.coveredRevenue).toBe(4.5);
+    expect(margin.cost).toBeCloseTo(2);
+    expect(margin.margin).toBeCloseTo(2.5);
+    expect(margin.marginRate).toBeCloseTo(55.56, 2);
+  });
+
+  it('flags sales below their unit cost', () => {
+    expect(isSoldBelowCost(makeSale({ quantity: 2, total: 1 }), 0.6)).toBe(true);
+    expect(isSoldBelowCost(makeSale(), 0.6)).toBe(false);
+    expect(isSoldBelowCost(makeSale(), null)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { format } from 'date-fns';
+import { Product, RegisterSale, CostPriceChange } from '../types';
+import { createProductIndex, resolveSaleProduct } from './productIdentityUtils';
+
+export interface MarginTotals {
+  revenue: number;
+  cost: number; // Cost of the sales whose product has a known cost price
+  coveredRevenue: number; // Revenue of those same sales
+}
+
+export interface GrossMargin {
+  margin: number;
+  marginRate: number | null; // Percentage of covered revenue, null when no cost is known
+}
+
+/**
+ * Cost price applying on a given day: the latest change effective on or before
+ * that day, otherwise the oldest known one (sales predating any recorded cost)
+ */
+export function getCostPriceAt(product: Product, date: Date): number | null {
+  const history = [...(product.costPriceHistory || [])]
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+  if (history.length === 0) {
+    return product.costPrice ?? null;
+  }
+
+  const day = format(date, 'yyyy-MM-dd');
+  const applicable = history.filter(change => change.effectiveDate <= day);
+  return (applicable.length > 0 ? applicable[applicable.length - 1] : history[0]).costPrice;
+}
+
+/**
+ * Records a cost price change in the product history. Existing products without
+ * history keep their previous cost as the oldest entry so past margins are unchanged.
+ */
+export function withCostPriceHistory<T extends Partial<Product>>(
+  updates: T,
+  previous?: Product,
+  effectiveDate: string = format(new Date(), 'yyyy-MM-dd')
+): T {
+  if (updates.costPrice === undefined || updates.costPrice === previous?.costPrice) {
+    return updates;
+  }
+
+  let history: CostPriceChange[] = [...(previous?.costPriceHistory || [])];
+  if (history.length === 0 && previous?.costPrice !== undefined) {
+    history.push({ costPrice: previous.costPrice, effectiveDate: '1970-01-01' });
+  }
+
+  history = history.filter(change => change.effectiveDate !== effectiveDate);
+  history.push({ costPrice: updates.costPrice, effectiveDate });
+  history.sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+  return { ...updates, costPriceHistory: history };
+}
+
+/**
+ * Resolves the unit cost of a sale from its catalog product (id, code, name and
+ * category, then alias); sales matching no product have no known cost
+ */
+export function createSaleCostResolver(products: Product[]) {
+  const index = createProductIndex(products);
+
+  return (sale: RegisterSale): number | null => {
+    const product = resolveSaleProduct(index, sale);
+    return product ? getCostPriceAt(product, sale.date) : null;
+  };
+}
+
+export function emptyMarginTotals(): MarginTotals {
+  return { revenue: 0, cost: 0, coveredRevenue: 0 };
+}
+
+export function addSaleToMargin(totals: MarginTotals, sale: RegisterSale, unitCost: number | null) {
+  totals.revenue += sale.total;
+  if (unitCost !== null) {
+    totals.cost += unitCost * sale.quantity;
+    totals.coveredRevenue += sale.total;
+  }
+}
+
+export function getGrossMargin(totals: MarginTotals): GrossMargin {
+  const margin = totals.coveredRevenue - totals.cost;
+  return {
+    margin,
+    marginRate: totals.coveredRevenue > 0 ? (margin / totals.coveredRevenue) * 100 : null
+  };
+}
+
+/**
+ * Gross margin of the positive sales (refunds and expenses are excluded)
+ */
+export function calculateGrossMargin(sales: RegisterSale[], products: Product[]): GrossMargin & MarginTotals {
+  const resolveCost = createSaleCostResolver(products);
+  const totals = emptyMarginTotals();
+
+  sales
+    .filter(sale => sale.total >= 0)
+    .forEach(sale => addSaleToMargin(totals, sale, resolveCost(sale)));
+
+  return { ...totals, ...getGrossMargin(totals) };
+}
+
+export function isSoldBelowCost(sale: RegisterSale, unitCost: number | null): boolean {
+  return unitCost !== null && sale.quantity > 0 && sale.total / sale.quantity < unitCost;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { Product } from '../types';
+import { makeProduct, makeSale } from '../test/fixtures';
+import { findPriceMismatches, getDuePriceUpdates, getPriceAt, getScheduledPriceChanges, withPriceHistory } from './priceHistoryUtils';
+
+const coca = makeProduct({
+  price: 1.5,
+  priceHistory: [
+    { price: 1.2, effectiveDate: '2024-01-01' },
+    { price: 1.5, effectiveDate: '2024-03-01' },
+    { price: 1.8, effectiveDate: '2024-06-01' }
+  ]
+});
+
+describe('price history', () => {
+  it('gives the price valid on a day, the current price without history', () => {
+    expect(getPriceAt(coca, new Date(2024, 1, 29))).toBe(1.2);
+    expect(getPriceAt(coca, new Date(2024, 2, 1))).toBe(1.5);
+    expect(getPriceAt(makeProduct({ price: 2 }), new Date(2020, 0, 1))).toBe(2);
+  });
+
+  it('lists the changes after today and the ones that became due', () => {
+    const today = new Date(2024, 3, 15);
+
+    expect(getScheduledPriceChanges(coca, today).map(change => change.price)).toEqual([1.8]);
+    expect(getDuePriceUpdates([coca], today)).toEqual([]);
+    expect(getDuePriceUpdates([coca], new Date(2024, 5, 1))).toEqual([{ id: 'coca', price: 1.8 }]);
+  });
+
+  it('only schedules a future price, keeping the previous one as the oldest entry', () => {
+    const previous = makeProduct({ price: 1.5 });
+
+    const past = withPriceHistory<Partial<Product>>({ price: 1.6 }, previous, '2020-01-01', 'Alice');
+    const future = withPriceHistory<Partial<Product>>({ price: 2 }, previous, '2999-01-01');
+
+    expect(past.price).toBe(1.6);
+    expect(past.priceHistory!.map(change => [change.price, change.effectiveDate, change.changedBy])).toEqual([
+      [1.5, '1970-01-01', undefined],
+      [1.6, '2020-01-01', 'Alice']
+    ]);
+    expect(future.price).toBe(1.5);
+    expect(future.priceHistory!.map(change => change.price)).toEqual([1.5, 2]);
+  });
+});
+
+describe('findPriceMismatches', () => {
+  it('checks each sale against the price of its date, within the tolerance', () => {
+    const sales = [
+      makeSale({ id: 'old-price', date: new Date(2024, 1, 10), price: 1.2 }),
+      makeSale({ id: 'rounded', date: new Date(2024, 2, 10), price: 1.49 }),
+      makeSale({ id: 'discount', date: new Date(2024, 2, 10), price: 1 }),
+      makeSale({ id: 'refund', date: new Date(2024, 2, 10), quantity: -1, price: 1 })
+    ];
+
+    expect(findPriceMismatches(sales, [coca]).map(mismatch => [mismatch.sale.id, mismatch.expectedPrice])).toEqual([
+      ['discount', 1.5]
+    ]);
+  });
+});
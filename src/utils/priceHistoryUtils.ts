@@ -0,0 +1,95 @@
+import { format } from 'date-fns';
+import { Product, PriceChange, PriceMismatch, RegisterSale } from '../types';
+import { createProductIndex, resolveSaleProduct } from './productIdentityUtils';
+
+// Sale unit prices within this relative gap of the expected price are accepted (rounding, small discounts)
+export const PRICE_TOLERANCE = 0.02;
+
+const sortByEffectiveDate = (history: PriceChange[]) =>
+  [...history].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+/**
+ * Selling price valid on a given day. Products without history only know their current price.
+ */
+export function getPriceAt(product: Product, date: Date): number {
+  const day = format(date, 'yyyy-MM-dd');
+  const applicable = sortByEffectiveDate(product.priceHistory || [])
+    .filter(change => change.effectiveDate <= day);
+
+  return applicable.length > 0 ? applicable[applicable.length - 1].price : product.price;
+}
+
+/**
+ * Price changes scheduled after today, soonest first
+ */
+export function getScheduledPriceChanges(product: Product, today: Date = new Date()): PriceChange[] {
+  const day = format(today, 'yyyy-MM-dd');
+  return sortByEffectiveDate(product.priceHistory || []).filter(change => change.effectiveDate > day);
+}
+
+/**
+ * Records a price change effective from a date. A change in the future is only
+ * scheduled: the product keeps its current price until that day.
+ */
+export function withPriceHistory<T extends Partial<Product>>(
+  updates: T,
+  previous: Product | undefined,
+  effectiveDate: string,
+  changedBy?: string
+): T {
+  if (updates.price === undefined) return updates;
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  if (previous && updates.price === getPriceAt(previous, new Date(`${effectiveDate}T12:00:00`))) {
+    return { ...updates, price: previous.price };
+  }
+
+  let history: PriceChange[] = [...(previous?.priceHistory || [])];
+  if (history.length === 0 && previous) {
+    // Sales recorded before the history existed were made at the previous price
+    history.push({ price: previous.price, effectiveDate: '1970-01-01' });
+  }
+
+  history = history.filter(change => change.effectiveDate !== effectiveDate);
+  history.push({ price: updates.price, effectiveDate, changedBy, changedAt: new Date().toISOString() });
+  history = sortByEffectiveDate(history);
+
+  const current = history.filter(change => change.effectiveDate <= today);
+  return {
+    ...updates,
+    price: current.length > 0 ? current[current.length - 1].price : updates.price,
+    priceHistory: history
+  };
+}
+
+/**
+ * Products whose scheduled price has become effective but is not yet their current price
+ */
+export function getDuePriceUpdates(products: Product[], today: Date = new Date()): Array<{ id: string; price: number }> {
+  return products
+    .filter(product => product.priceHistory && product.priceHistory.length > 0)
+    .map(product => ({ id: product.id, price: getPriceAt(product, today), current: product.price }))
+    .filter(({ price, current }) => price !== current)
+    .map(({ id, price }) => ({ id, price }));
+}
+
+/**
+ * Sales whose unit price differs from the product price valid on the sale date.
+ * Refunds and lines without a matching product are not checked.
+ */
+export function findPriceMismatches(sales: RegisterSale[], products: Product[]): PriceMismatch[] {
+  const index = createProductIndex(products);
+
+  return sales.flatMap(sale => {
+    const product = resolveSaleProduct(index, sale);
+    if (!product || sale.total < 0 || sale.quantity <= 0) return [];
+
+    const expectedPrice = getPriceAt(product, sale.date);
+    if (expectedPrice <= 0) return [];
+
+    const gap = Math.abs(sale.price - expectedPrice) / expectedPrice;
+    return gap > PRICE_TOLERANCE
+      ? [{ sale, productName: product.name, expectedPrice, actualPrice: sale.price }]
+      : [];
+  });
+}
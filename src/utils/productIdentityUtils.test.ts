@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Product } from '../types';
+import { makeProduct, makeSale } from '../test/fixtures';
+import { createProductIndex, getProductSales, resolveSaleProduct } from './productIdentityUtils';
+import { findPriceMismatches } from './priceHistoryUtils';
+import { createSaleCostResolver } from './marginUtils';
+
+const product = (id: string, name: string, overrides: Partial<Product> = {}) => makeProduct({ id, name, ...overrides });
+
+const coca = product('coca', 'Coca 33cl', { sku: 'PRD-000001', barcodes: ['5449000000996'], costPrice: 0.6 });
+const zero = product('zero', 'Coca Zero 33cl', { aliases: ['COCA ZERO CAN'], costPrice: 0.7 });
+const fanta = product('fanta', 'Fanta 33cl', { category: 'Sodas', costPrice: 0.5 });
+const products = [coca, zero, fanta];
+const index = createProductIndex(products);
+
+describe('resolveSaleProduct', () => {
+  it('uses the product id first', () => {
+    expect(resolveSaleProduct(index, makeSale({ productId: 'zero' }))?.id).toBe('zero');
+  });
+
+  it('falls back to the SKU or barcode when the product id is unknown', () => {
+    expect(resolveSaleProduct(index, makeSale({ productId: 'deleted', product: 'X', productCode: ' 5449 0000 00996 ' }))?.id).toBe('coca');
+    expect(resolveSaleProduct(index, makeSale({ product: 'X', productCode: 'prd-000001' }))?.id).toBe('coca');
+  });
+
+  it('follows a merged product to the product it was merged into', () => {
+    const merged = createProductIndex([{ ...coca, mergedProductIds: ['coca-cola'] }, zero]);
+
+    expect(resolveSaleProduct(merged, makeSale({ productId: 'coca-cola', product: 'Coca Cola 33cl' }))?.id).toBe('coca');
+  });
+
+  it('matches the exact name and category, ignoring case and spacing', () => {
+    expect(resolveSaleProduct(index, makeSale({ product: '  coca   33CL ' }))?.id).toBe('coca');
+  });
+
+  it('matches a registered alias in any category', () => {
+    expect(resolveSaleProduct(index, makeSale({ product: 'Coca zero can', category: 'Divers' }))?.id).toBe('zero');
+  });
+
+  it('never matches on the name alone or a partial name', () => {
+    expect(resolveSaleProduct(index, makeSale({ product: 'Fanta 33cl', category: 'Boissons' }))).toBeNull();
+    expect(resolveSaleProduct(index, makeSale({ product: 'Coca' }))).toBeNull();
+  });
+});
+
+describe('getProductSales', () => {
+  it('keeps linked sales with their product even when the name matches another one', () => {
+    const sales = [
+      makeSale({ id: 'linked', productId: 'zero' }),
+      makeSale({ id: 'unlinked' }),
+      makeSale({ id: 'alias', product: 'COCA ZERO CAN' })
+    ];
+
+    expect(getProductSales(coca, sales, index).map(sale => sale.id)).toEqual(['unlinked']);
+    expect(getProductSales(zero, sales, index).map(sale => sale.id)).toEqual(['linked', 'alias']);
+  });
+
+  it('counts a sale for one product only, its code winning over the name of another', () => {
+    const sale = makeSale({ product: 'Coca Zero 33cl', productCode: '5449000000996' });
+
+    expect(getProductSales(coca, [sale], index)).toHaveLength(1);
+    expect(getProductSales(zero, [sale], index)).toHaveLength(0);
+  });
+
+  it('falls back to the name of a sale linked to a deleted product', () => {
+    const sale = makeSale({ productId: 'deleted', product: 'Fanta 33cl', category: 'Sodas' });
+
+    expect(getProductSales(fanta, [sale], index)).toHaveLength(1);
+  });
+});
+
+describe('sale product resolution in reports', () => {
+  it('checks prices against the product resolved by alias or code', () => {
+    const sales = [
+      makeSale({ id: 'alias', product: 'COCA ZERO CAN', price: 2, total: 2 }),
+      makeSale({ id: 'code', product: 'Inconnu', productCode: '5449000000996', price: 1.5, total: 1.5 }),
+      makeSale({ id: 'name-only', product: 'Fanta 33cl', price: 3, total: 3 })
+    ];
+
+    expect(findPriceMismatches(sales, products).map(mismatch => [mismatch.sale.id, mismatch.productName])).toEqual([
+      ['alias', 'Coca Zero 33cl']
+    ]);
+  });
+
+  it('costs sales through the same resolution, without a name-only fallback', () => {
+    const resolveCost = createSaleCostResolver(products);
+
+    expect(resolveCost(makeSale({ product: 'COCA ZERO CAN' }))).toBe(0.7);
+    expect(resolveCost(makeSale({ productId: 'coca', product: 'Renamed' }))).toBe(0.6);
+    expect(resolveCost(makeSale({ product: 'Fanta 33cl', category: 'Boissons' }))).toBeNull();
+  });
+});
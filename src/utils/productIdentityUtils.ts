@@ -0,0 +1,231 @@
+import { Product, RegisterSale } from '../types';
+import { isReturn } from './returnUtils';
+
+const SKU_PREFIX = 'PRD-';
+const SKU_DIGITS = 6;
+
+// Names this close (in typos) within a category are proposed as duplicates
+const MAX_DUPLICATE_DISTANCE = 2;
+const MIN_FUZZY_NAME_LENGTH = 6;
+
+export interface ProductIndex {
+  byId: Map<string, Product>;
+  byCode: Map<string, Product>; // SKU and EAN barcodes, normalized
+  bySignature: Map<string, Product>;
+  byAlias: Map<string, Product>; // Sale names registered as aliases, any category
+  byMergedId: Map<string, Product>; // Ids of the products merged into another one
+}
+
+export interface ProductSalesSummary {
+  product: Product;
+  salesCount: number;
+  soldQuantity: number;
+}
+
+export interface UnmatchedSaleName {
+  name: string;
+  category: string;
+  salesCount: number;
+  soldQuantity: number;
+}
+
+const normalize = (value: string) => value.toLowerCase().trim().replace(/\s+/g, ' ');
+
+export const normalizeProductCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+/**
+ * Name and category key, only used for sales not yet linked to a product id
+ */
+export const getProductSignature = (name: string, category: string) => `${normalize(name)}|${normalize(category)}`;
+
+export const normalizeAlias = (name: string) => normalize(name);
+
+/**
+ * Loose name used to spot duplicates: no accents, case, punctuation or pack size ("x2")
+ */
+export const getDuplicateKey = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\bx\s*\d+\b|\b\d+\s*x\b/g, '')
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Next free SKU after the highest generated one, e.g. PRD-000042
+ */
+export function generateSkus(products: Pick<Product, 'sku'>[], count: number): string[] {
+  const highest = products.reduce((max, product) => {
+    const match = product.sku?.match(/^PRD-(\d+)$/);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+
+  return Array.from({ length: count }, (_, i) => `${SKU_PREFIX}${String(highest + i + 1).padStart(SKU_DIGITS, '0')}`);
+}
+
+export function createProductIndex(products: Product[]): ProductIndex {
+  const index: ProductIndex = {
+    byId: new Map(),
+    byCode: new Map(),
+    bySignature: new Map(),
+    byAlias: new Map(),
+    byMergedId: new Map()
+  };
+
+  products.forEach(product => {
+    index.byId.set(product.id, product);
+    [product.sku, ...(product.barcodes || [])].forEach(code => {
+      if (code && code.trim() !== '' && !index.byCode.has(normalizeProductCode(code))) {
+        index.byCode.set(normalizeProductCode(code), product);
+      }
+    });
+    const signature = getProductSignature(product.name, product.category);
+    if (!index.bySignature.has(signature)) index.bySignature.set(signature, product);
+    (product.aliases || []).forEach(alias => {
+      if (!index.byAlias.has(normalizeAlias(alias))) index.byAlias.set(normalizeAlias(alias), product);
+    });
+    (product.mergedProductIds || []).forEach(id => {
+      if (!index.byMergedId.has(id)) index.byMergedId.set(id, product);
+    });
+  });
+
+  return index;
+}
+
+/**
+ * Catalog product of a sale: its product id, or the product it was merged into, then the
+ * SKU or barcode from the import, then the exact name and category, then a registered alias.
+ * Never a partial name, so "Coca" does not absorb "Coca Zero".
+ */
+export function resolveSaleProduct(
+  index: ProductIndex,
+  sale: Pick<RegisterSale, 'product' | 'category' | 'productId' | 'productCode'>
+): Product | null {
+  if (sale.productId) {
+    const linked = index.byId.get(sale.productId) || index.byMergedId.get(sale.productId);
+    if (linked) return linked;
+  }
+  if (sale.productCode) {
+    const byCode = index.byCode.get(normalizeProductCode(sale.productCode));
+    if (byCode) return byCode;
+  }
+  return index.bySignature.get(getProductSignature(sale.product, sale.category)) ||
+    index.byAlias.get(normalizeAlias(sale.product)) ||
+    null;
+}
+
+/**
+ * Sales sold as the given product: each sale is resolved once through the index, so it
+ * counts for a single product and a sale linked to a deleted product falls back to its
+ * code or name. The index must cover the whole catalog, not only the products reported on.
+ */
+export function getProductSales(product: Pick<Product, 'id'>, sales: RegisterSale[], index: ProductIndex): RegisterSale[] {
+  return sales.filter(sale => resolveSaleProduct(index, sale)?.id === product.id);
+}
+
+/**
+ * Product id to store on each sale that is not linked to a catalog product yet (or was linked
+ * to a deleted or merged one) and now resolves to a product
+ */
+export function getSaleProductLinks(
+  products: Product[],
+  sales: RegisterSale[]
+): Array<{ id: string; updates: Pick<RegisterSale, 'productId'> }> {
+  const index = createProductIndex(products);
+
+  return sales
+    .filter(sale => !sale.productId || !index.byId.has(sale.productId))
+    .map(sale => ({ sale, product: resolveSaleProduct(index, sale) }))
+    .filter(({ sale, product }) => product && product.id !== sale.productId)
+    .map(({ sale, product }) => ({ id: sale.id, updates: { productId: product!.id } }));
+}
+
+/**
+ * Grouping key of a sale in reports: its catalog product id, or the name and category
+ * when it matches no product
+ */
+export const getSaleProductKey = (index: ProductIndex, sale: RegisterSale) =>
+  resolveSaleProduct(index, sale)?.id ?? getProductSignature(sale.product, sale.category);
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Groups of catalog products that are probably the same one: same loose name, or a couple
+ * of typos apart in the same category. Most sold first in each group.
+ */
+export function findDuplicateGroups(products: Product[], sales: RegisterSale[]): ProductSalesSummary[][] {
+  const parent = new Map(products.map(product => [product.id, product.id]));
+  const find = (id: string): string => (parent.get(id) === id ? id : find(parent.get(id)!));
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  const keys = new Map(products.map(product => [product.id, getDuplicateKey(product.name)]));
+  const byKey = new Map<string, string>();
+  products.forEach(product => {
+    const key = keys.get(product.id)!;
+    if (byKey.has(key)) union(product.id, byKey.get(key)!);
+    else byKey.set(key, product.id);
+  });
+
+  products.forEach((a, i) => {
+    const keyA = keys.get(a.id)!;
+    if (keyA.length < MIN_FUZZY_NAME_LENGTH) return;
+    products.slice(i + 1).forEach(b => {
+      const keyB = keys.get(b.id)!;
+      if (normalize(a.category) !== normalize(b.category) || keyB.length < MIN_FUZZY_NAME_LENGTH) return;
+      if (Math.abs(keyA.length - keyB.length) > MAX_DUPLICATE_DISTANCE) return;
+      if (editDistance(keyA, keyB) <= MAX_DUPLICATE_DISTANCE) union(a.id, b.id);
+    });
+  });
+
+  const groups = new Map<string, Product[]>();
+  products.forEach(product => {
+    const root = find(product.id);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(product);
+  });
+
+  const index = createProductIndex(products);
+  const summarize = (product: Product): ProductSalesSummary => {
+    const productSales = getProductSales(product, sales, index).filter(sale => !isReturn(sale));
+    return {
+      product,
+      salesCount: productSales.length,
+      soldQuantity: productSales.reduce((sum, sale) => sum + sale.quantity, 0)
+    };
+  };
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => group.map(summarize).sort((a, b) => b.salesCount - a.salesCount))
+    .sort((a, b) => b.reduce((sum, row) => sum + row.salesCount, 0) - a.reduce((sum, row) => sum + row.salesCount, 0));
+}
+
+/**
+ * Sale names that resolve to no catalog product, most frequent first
+ */
+export function findUnmatchedSaleNames(products: Product[], sales: RegisterSale[]): UnmatchedSaleName[] {
+  const index = createProductIndex(products);
+  const names = new Map<string, UnmatchedSaleName>();
+
+  sales
+    .filter(sale => !isReturn(sale) && !resolveSaleProduct(index, sale))
+    .forEach(sale => {
+      const key = normalizeAlias(sale.product);
+      const row = names.get(key) || { name: sale.product.trim(), category: sale.category, salesCount: 0, soldQuantity: 0 };
+      row.salesCount += 1;
+      row.soldQuantity += sale.quantity;
+      names.set(key, row);
+    });
+
+  return Array.from(names.values()).sort((a, b) => b.salesCount - a.salesCount);
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { Product, RegisterSale, StockMovement } from '../types';
+import { makeProduct, makeSale, stores } from '../test/fixtures';
+import { planProductMerge } from './productMergeUtils';
+import { calculateStockFinal } from './calculateStockFinal';
+import { getStoreScope } from './storeUtils';
+
+const product = (id: string, name: string, overrides: Partial<Product> = {}) =>
+  makeProduct({ id, name, initialStock: 0, initialStockDate: '2024-01-01', ...overrides });
+
+const sale = (id: string, name: string, productId: string | undefined, overrides: Partial<RegisterSale> = {}) =>
+  makeSale({ id, product: name, productId, ...overrides });
+
+const scopes = stores.map(store => getStoreScope(stores, store.id)!);
+
+// Stock of the merged target once the plan is applied: updates, relinked sales, bundles and merge movements
+function stockAfterMerge(target: Product, sources: Product[], products: Product[], sales: RegisterSale[]) {
+  const plan = planProductMerge(target, sources, products, sales, stores);
+  const merged = { ...target, ...plan.updates };
+  const moved = new Map(plan.movedSales.map(sale => [sale.id, sale]));
+  const relinked = sales.map(sale => moved.get(sale.id) || sale);
+  const bundles = products
+    .filter(product => product.bundleComponents)
+    .map(bundle => ({ ...bundle, ...plan.bundleChanges.find(change => change.id === bundle.id)?.updates }));
+  const movements: StockMovement[] = plan.mergedStock.map(({ storeId, quantity }, index) => ({
+    id: `merge-${index}`,
+    productId: target.id,
+    productName: target.name,
+    category: target.category,
+    type: 'merge',
+    quantity,
+    date: new Date(2024, 2, 1),
+    storeId
+  }));
+
+  return {
+    plan,
+    total: calculateStockFinal(merged, relinked, movements, undefined, bundles).finalStock,
+    byStore: scopes.map(scope => calculateStockFinal(merged, relinked, movements, scope, bundles).finalStock)
+  };
+}
+
+describe('planProductMerge', () => {
+  const target = product('coca', 'Coca 33cl', { initialStock: 10, stock: 8, stockByStore: { main: 8, port: 0 } });
+  const source = product('coca-cola', 'Coca Cola 33cl', {
+    initialStock: 9,
+    initialStockByStore: { port: 5 },
+    stock: 5,
+    stockByStore: { main: 3, port: 2 }
+  });
+  const sales = [
+    sale('t1', 'Coca 33cl', 'coca', { quantity: 2 }),
+    sale('s1', 'Coca Cola 33cl', 'coca-cola'),
+    sale('s2', 'Coca Cola 33cl', 'coca-cola', { register: 'Caisse 2', quantity: 3 })
+  ];
+
+  it('moves only the current stock of the source, store by store', () => {
+    const { plan } = stockAfterMerge(target, [source], [target, source], sales);
+
+    expect(plan.mergedStock.map(({ storeId, quantity }) => [storeId, quantity])).toEqual([['main', 3], ['port', 2]]);
+    expect(plan.movedSales.map(sale => [sale.id, sale.productId])).toEqual([['s1', 'coca'], ['s2', 'coca']]);
+  });
+
+  it('counts the relinked sales only once', () => {
+    const { plan, total, byStore } = stockAfterMerge(target, [source], [target, source], sales);
+
+    expect(total).toBe(8 + 5);
+    expect(byStore).toEqual([8 + 3, 0 + 2]);
+    expect(plan.updates.initialStock).toBe(10 + 4);
+    expect(plan.updates.initialStockByStore).toEqual({ port: 3 });
+  });
+
+  it('leaves sales the target already counts with the target', () => {
+    const unlinked = sale('u1', 'Coca 33cl', undefined);
+    const aliased = { ...source, aliases: ['Coca 33cl'] };
+    const { plan } = stockAfterMerge(target, [aliased], [target, aliased], [...sales, unlinked]);
+
+    expect(plan.movedSales.map(sale => sale.id)).not.toContain('u1');
+  });
+
+  it('takes over the names, barcodes and merged ids without duplicates', () => {
+    const withCodes = { ...target, aliases: ['COCA CANETTE'], barcodes: ['5449000000996'] };
+    const other = product('coca-2', 'Coca canette', { barcodes: ['5449000000996', '5449000131805'], mergedProductIds: ['old'] });
+    const { plan } = stockAfterMerge(withCodes, [source, other], [withCodes, source, other], sales);
+
+    expect(plan.updates.aliases).toEqual(['COCA CANETTE', 'Coca Cola 33cl']);
+    expect(plan.updates.barcodes).toEqual(['5449000000996', '5449000131805']);
+    expect(plan.updates.mergedProductIds).toEqual(['coca-cola', 'coca-2', 'old']);
+  });
+
+  it('points the bundles at the target and counts their past sales once', () => {
+    const pack = product('pack', 'Pack 6 Coca Cola', { bundleComponents: [{ productId: 'coca-cola', quantity: 6 }] });
+    const sourceWithPack = { ...source, stock: 2, stockByStore: { main: 0, port: 2 } };
+    const packSales = [...sales, sale('p1', 'Pack 6 Coca Cola', 'pack')];
+    const { plan, total } = stockAfterMerge(target, [sourceWithPack], [target, sourceWithPack, pack], packSales);
+
+    expect(plan.bundleChanges).toEqual([{ id: 'pack', updates: { bundleComponents: [{ productId: 'coca', quantity: 6 }] } }]);
+    expect(total).toBe(8 + 2);
+  });
+});
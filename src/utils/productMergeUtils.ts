@@ -0,0 +1,108 @@
+import { Product, RegisterSale, Store } from '../types';
+import { calculateStockFinal } from './calculateStockFinal';
+import { createProductIndex, getProductSales, normalizeAlias } from './productIdentityUtils';
+import { getBundles, replaceBundleComponents } from './bundleUtils';
+import { StoreScope, getStoreScope, getStoreStock } from './storeUtils';
+
+export interface MergedStock {
+  source: Product;
+  storeId?: string;
+  quantity: number; // Current stock of the source in the store, moved into the target
+}
+
+export interface ProductMergePlan {
+  updates: Partial<Product>; // Target product
+  bundleChanges: Array<{ id: string; updates: Partial<Product> }>;
+  movedSales: RegisterSale[]; // Source sales, relinked to the target
+  mergedStock: MergedStock[];
+  addedInitialStock: number;
+}
+
+const sumQuantity = (sales: RegisterSale[]) => sales.reduce((sum, sale) => sum + sale.quantity, 0);
+
+/**
+ * Changes made by merging the sources into the target. The target takes over their names,
+ * barcodes and sales, and their current stock store by store. The relinked sales and the
+ * bundle sales it now counts were already taken out of that stock, so its initial stock
+ * grows by the same quantities in each store and they are only counted once.
+ */
+export function planProductMerge(
+  target: Product,
+  sources: Product[],
+  products: Product[],
+  sales: RegisterSale[],
+  stores: Store[] = []
+): ProductMergePlan {
+  const sourceIds = new Set(sources.map(source => source.id));
+  const index = createProductIndex(products);
+
+  // Each sale resolves to a single product: sales the target already counts (same name,
+  // not linked yet) stay out of the transfer
+  const salesBySource = new Map(sources.map(source => [
+    source.id,
+    getProductSales(source, sales, index).map(sale => ({ ...sale, productId: target.id }))
+  ]));
+  const movedSales = Array.from(salesBySource.values()).flat();
+
+  const bundles = getBundles(products);
+  const scopes: Array<StoreScope | undefined> = stores.length > 0
+    ? stores.map(store => getStoreScope(stores, store.id))
+    : [undefined];
+
+  const mergedStock: MergedStock[] = [];
+  const countedByStore = new Map<string, number>();
+  let addedInitialStock = 0;
+  sources.forEach(source => {
+    scopes.forEach(scope => {
+      const countedSold = sumQuantity(calculateStockFinal(target, salesBySource.get(source.id)!, [], scope, [], index).validSales);
+      // Bundles made with the source consume the target from now on
+      const asSource = { ...target, id: source.id, mergedProductIds: source.mergedProductIds };
+      const countedBundles = calculateStockFinal(asSource, sales, [], scope, bundles, index).bundleConsumption;
+      const counted = countedSold + countedBundles;
+      addedInitialStock += counted;
+      if (scope && !scope.isMain && counted !== 0) {
+        countedByStore.set(scope.storeId, (countedByStore.get(scope.storeId) || 0) + counted);
+      }
+
+      const quantity = scope ? getStoreStock(source, scope) : source.stock;
+      if (quantity !== 0) {
+        mergedStock.push({ source, storeId: scope?.storeId, quantity });
+      }
+    });
+  });
+
+  const known = new Set([target.name, ...(target.aliases || [])].map(normalizeAlias));
+  const aliases = [...(target.aliases || [])];
+  sources.flatMap(source => [source.name, ...(source.aliases || [])]).forEach(name => {
+    if (!known.has(normalizeAlias(name))) {
+      known.add(normalizeAlias(name));
+      aliases.push(name);
+    }
+  });
+
+  // The main store holds whatever is not placed in another store
+  const initialStockByStore = { ...(target.initialStockByStore || {}) };
+  countedByStore.forEach((quantity, storeId) => {
+    initialStockByStore[storeId] = (initialStockByStore[storeId] || 0) + quantity;
+  });
+
+  const updates: Partial<Product> = {
+    aliases,
+    barcodes: Array.from(new Set([...(target.barcodes || []), ...sources.flatMap(source => source.barcodes || [])])),
+    mergedProductIds: [
+      ...(target.mergedProductIds || []),
+      ...sources.flatMap(source => [source.id, ...(source.mergedProductIds || [])])
+    ],
+    initialStock: (target.initialStock || 0) + addedInitialStock,
+    ...(countedByStore.size > 0 && { initialStockByStore })
+  };
+
+  const bundleChanges = bundles
+    .filter(bundle => !sourceIds.has(bundle.id) && bundle.bundleComponents!.some(c => sourceIds.has(c.productId)))
+    .map(bundle => ({
+      id: bundle.id,
+      updates: { bundleComponents: replaceBundleComponents(bundle.bundleComponents!, sourceIds, target.id) }
+    }));
+
+  return { updates, bundleChanges, movedSales, mergedStock, addedInitialStock };
+}
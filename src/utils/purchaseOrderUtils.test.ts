@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { PurchaseOrder, PurchaseOrderLine, Supplier } from '../types';
+import { makeProduct } from '../test/fixtures';
+import {
+  buildSuggestedOrderLines,
+  calculateOnOrderQuantities,
+  generatePurchaseOrderNumber,
+  getPurchaseOrderStatusAfterReceipt
+} from './purchaseOrderUtils';
+
+const line = (productId: string, quantityOrdered: number, quantityReceived = 0): PurchaseOrderLine => ({
+  productId,
+  productName: productId,
+  category: 'Boissons',
+  quantityOrdered,
+  quantityReceived,
+  unitCost: 0.6
+});
+
+const order = (number: string, status: PurchaseOrder['status'], lines: PurchaseOrderLine[]): PurchaseOrder => ({
+  id: number,
+  number,
+  supplierId: 'sup',
+  supplierName: 'Grossiste',
+  status,
+  lines,
+  createdAt: new Date(2024, 2, 15)
+});
+
+describe('purchase orders', () => {
+  it('numbers the orders of a day in sequence', () => {
+    const orders = [order('BC-20240315-001', 'sent', []), order('BC-20240315-007', 'draft', []), order('BC-20240314-009', 'sent', [])];
+
+    expect(generatePurchaseOrderNumber(orders, new Date(2024, 2, 15))).toBe('BC-20240315-008');
+    expect(generatePurchaseOrderNumber(orders, new Date(2024, 2, 16))).toBe('BC-20240316-001');
+  });
+
+  it('is partially received until every line is complete', () => {
+    expect(getPurchaseOrderStatusAfterReceipt([line('coca', 24), line('fanta', 12)])).toBe('sent');
+    expect(getPurchaseOrderStatusAfterReceipt([line('coca', 24, 24), line('fanta', 12)])).toBe('partially_received');
+    expect(getPurchaseOrderStatusAfterReceipt([line('coca', 24, 24), line('fanta', 12, 12)])).toBe('received');
+  });
+
+  it('counts as on order what sent orders still expect', () => {
+    const onOrder = calculateOnOrderQuantities([
+      order('1', 'sent', [line('coca', 24)]),
+      order('2', 'partially_received', [line('coca', 12, 8), line('fanta', 6, 6)]),
+      order('3', 'draft', [line('coca', 100)]),
+      order('4', 'received', [line('coca', 50, 50)])
+    ]);
+
+    expect(Array.from(onOrder)).toEqual([['coca', 28]]);
+  });
+
+  it('suggests enough to reach twice the minimum stock, counting what is on order', () => {
+    const supplier: Supplier = {
+      id: 'sup',
+      name: 'Grossiste',
+      leadTimeDays: 3,
+      products: [{ productId: 'coca', purchasePrice: 0.6 }, { productId: 'deleted', purchasePrice: 1 }],
+      createdAt: new Date(2024, 0, 1),
+      updatedAt: new Date(2024, 0, 1)
+    };
+    const products = [makeProduct({ stock: 5, minStock: 10 })];
+
+    expect(buildSuggestedOrderLines(supplier, products, new Map([['coca', 6]])).map(l => [l.productId, l.quantityOrdered, l.unitCost]))
+      .toEqual([['coca', 9, 0.6]]);
+  });
+});
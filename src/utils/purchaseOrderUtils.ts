@@ -0,0 +1,82 @@
+import { format, addDays } from 'date-fns';
+import { Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '../types';
+
+// Orders whose remaining quantities are still expected from the supplier
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['sent', 'partially_received'];
+
+/**
+ * Next order number of the day, e.g. BC-20240315-002
+ */
+export function generatePurchaseOrderNumber(orders: PurchaseOrder[], date: Date = new Date()): string {
+  const prefix = `BC-${format(date, 'yyyyMMdd')}-`;
+  const lastIndex = orders
+    .filter(order => order.number.startsWith(prefix))
+    .reduce((max, order) => Math.max(max, parseInt(order.number.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(lastIndex + 1).padStart(3, '0')}`;
+}
+
+export function getRemainingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(0, line.quantityOrdered - line.quantityReceived);
+}
+
+export function getPurchaseOrderStatusAfterReceipt(lines: PurchaseOrderLine[]): PurchaseOrderStatus {
+  if (lines.every(line => getRemainingQuantity(line) === 0)) return 'received';
+  return lines.some(line => line.quantityReceived > 0) ? 'partially_received' : 'sent';
+}
+
+export function getPurchaseOrderTotal(order: Pick<PurchaseOrder, 'lines'>): number {
+  return order.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0);
+}
+
+/**
+ * Quantities ordered but not yet received, by product id
+ */
+export function calculateOnOrderQuantities(orders: PurchaseOrder[]): Map<string, number> {
+  const onOrder = new Map<string, number>();
+
+  orders
+    .filter(order => OPEN_STATUSES.includes(order.status))
+    .forEach(order => {
+      order.lines.forEach(line => {
+        const remaining = getRemainingQuantity(line);
+        if (remaining > 0) {
+          onOrder.set(line.productId, (onOrder.get(line.productId) || 0) + remaining);
+        }
+      });
+    });
+
+  return onOrder;
+}
+
+/**
+ * Draft lines for a supplier's default products: enough to bring each product
+ * back to twice its minimum stock, counting what is already on order
+ */
+export function buildSuggestedOrderLines(
+  supplier: Supplier,
+  products: Product[],
+  onOrder: Map<string, number>
+): PurchaseOrderLine[] {
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  return supplier.products
+    .filter(supplierProduct => productsById.has(supplierProduct.productId))
+    .map(supplierProduct => {
+      const product = productsById.get(supplierProduct.productId)!;
+      const target = product.minStock * 2;
+      const suggested = Math.max(0, target - product.stock - (onOrder.get(product.id) || 0));
+
+      return {
+        productId: product.id,
+        productName: product.name,
+        category: product.category,
+        quantityOrdered: suggested,
+        quantityReceived: 0,
+        unitCost: supplierProduct.purchasePrice
+      };
+    });
+}
+
+export function getDefaultExpectedDate(supplier: Supplier, from: Date = new Date()): Date {
+  return addDays(from, supplier.leadTimeDays);
+}
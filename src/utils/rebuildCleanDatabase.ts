@@ -1,16 +1,5 @@
-import { 
-  collection, 
-  getDocs, 
-  addDoc, 
-  query, 
-  where, 
-  writeBatch, 
-  doc, 
-  getDoc,
-  Firestore
-} from 'firebase/firestore';
-import { db, COLLECTIONS } from '../lib/firebase';
-import { RegisterSale, Product } from '../types';
+import { getDataStore, DataStore, CleanProduct, CleanSale } from '../lib/dataStore';
+import { RegisterSale } from '../types';
 
 /**
  * Creates a stable signature for a product based on name and category
@@ -22,53 +11,15 @@ export function createProductSignature(name: string, category: string): string {
   return `${name.toLowerCase().trim()}|${category.toLowerCase().trim()}`;
 }
 
-/**
- * Interface for a clean product in the products_clean collection
- */
-interface CleanProduct {
-  id: string;
-  name: string;
-  category: string;
-  signature: string;
-  price: number;
-  stock: number;
-  initialStock?: number;
-  initialStockDate?: string;
-  quantitySold?: number;
-  minStock: number;
-  description?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-/**
- * Interface for a clean sale in the register_sales_clean collection
- */
-interface CleanSale {
-  id: string;
-  product_id: string;
-  product_signature: string;
-  product: string;
-  category: string;
-  register: string;
-  date: string;
-  seller: string;
-  quantity: number;
-  price: number;
-  total: number;
-  createdAt: string;
-  cleaned: boolean;
-}
-
 /**
  * Rebuilds a clean database by importing sales data
- * @param salesData Optional array of sales data to process (if not provided, reads from Firestore)
- * @param firestore Optional Firestore instance (for testing)
+ * @param salesData Optional array of sales data to process (if not provided, reads from the data store)
+ * @param store Optional data store (for testing)
  * @returns Summary of the operation
  */
 export async function rebuildCleanDatabase(
   salesData?: RegisterSale[],
-  firestore: Firestore = db
+  store: DataStore = getDataStore()
 ): Promise<{
   success: boolean;
   productsCreated: number;
@@ -89,25 +40,8 @@ export async function rebuildCleanDatabase(
     if (salesData) {
       sales = salesData;
     } else {
-      console.log('📊 Fetching sales data from Firestore...');
-      const salesCollection = collection(firestore, COLLECTIONS.REGISTER_SALES);
-      const salesSnapshot = await getDocs(salesCollection);
-      
-      sales = salesSnapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          product: data.product,
-          category: data.category,
-          register: data.register,
-          date: new Date(data.date),
-          seller: data.seller,
-          quantity: data.quantity,
-          price: data.price,
-          total: data.total,
-          created_at: data.createdAt ? new Date(data.createdAt) : new Date()
-        };
-      });
+      console.log(`📊 Fetching sales data from ${store.kind} store...`);
+      sales = await store.sales.list();
       
       console.log(`📊 Fetched ${sales.length} sales records`);
     }
@@ -136,7 +70,8 @@ export async function rebuildCleanDatabase(
       const batch = batches[batchIndex];
       console.log(`🔄 Processing batch ${batchIndex + 1}/${batches.length} (${batch.length} sales)...`);
       
-      const writeBatchRef = writeBatch(firestore);
+      const batchProducts: CleanProduct[] = [];
+      const batchSales: CleanSale[] = [];
       
       // Process each sale in the batch
       for (const sale of batch) {
@@ -149,20 +84,18 @@ export async function rebuildCleanDatabase(
           
           if (!productId) {
             // Check if product exists in products_clean
-            const productsCleanCollection = collection(firestore, 'products_clean');
-            const productQuery = query(productsCleanCollection, where('signature', '==', signature));
-            const productSnapshot = await getDocs(productQuery);
+            const existingProduct = await store.clean.findProductBySignature(signature);
             
-            if (!productSnapshot.empty) {
+            if (existingProduct) {
               // Product exists, use its ID
-              productId = productSnapshot.docs[0].id;
+              productId = existingProduct.id;
               productSignatureMap.set(signature, productId);
             } else {
               // Create new product in products_clean
-              const newProductRef = doc(collection(firestore, 'products_clean'));
-              productId = newProductRef.id;
+              productId = store.generateId();
               
-              const newProduct: Omit<CleanProduct, 'id'> = {
+              const newProduct: CleanProduct = {
+                id: productId,
                 name: sale.product,
                 category: sale.category,
                 signature,
@@ -174,16 +107,15 @@ export async function rebuildCleanDatabase(
                 updatedAt: new Date().toISOString()
               };
               
-              writeBatchRef.set(newProductRef, newProduct);
+              batchProducts.push(newProduct);
               productSignatureMap.set(signature, productId);
               productsCreated++;
             }
           }
           
           // Create clean sale record
-          const newSaleRef = doc(collection(firestore, 'register_sales_clean'));
-          
-          const cleanSale: Omit<CleanSale, 'id'> = {
+          const cleanSale: CleanSale = {
+            id: store.generateId(),
             product_id: productId,
             product_signature: signature,
             product: sale.product,
@@ -198,7 +130,7 @@ export async function rebuildCleanDatabase(
             cleaned: true
           };
           
-          writeBatchRef.set(newSaleRef, cleanSale);
+          batchSales.push(cleanSale);
           salesProcessed++;
           
         } catch (error) {
@@ -208,7 +140,7 @@ export async function rebuildCleanDatabase(
       }
       
       // Commit the batch
-      await writeBatchRef.commit();
+      await store.clean.saveBatch(batchProducts, batchSales);
       console.log(`✅ Batch ${batchIndex + 1} committed successfully`);
     }
     
@@ -256,27 +188,15 @@ export async function rebuildCleanDatabase(
 /**
  * Utility function to get a clean product by signature
  * @param signature Product signature
- * @param firestore Firestore instance
+ * @param store Data store
  * @returns Clean product or null if not found
  */
 export async function getCleanProductBySignature(
   signature: string,
-  firestore: Firestore = db
+  store: DataStore = getDataStore()
 ): Promise<CleanProduct | null> {
   try {
-    const productsCleanCollection = collection(firestore, 'products_clean');
-    const productQuery = query(productsCleanCollection, where('signature', '==', signature));
-    const productSnapshot = await getDocs(productQuery);
-    
-    if (!productSnapshot.empty) {
-      const doc = productSnapshot.docs[0];
-      return {
-        id: doc.id,
-        ...doc.data()
-      } as CleanProduct;
-    }
-    
-    return null;
+    return await store.clean.findProductBySignature(signature);
   } catch (error) {
     console.error('Error getting clean product by signature:', error);
     return null;
@@ -286,22 +206,15 @@ export async function getCleanProductBySignature(
 /**
  * Utility function to get clean sales for a product
  * @param productId Product ID
- * @param firestore Firestore instance
+ * @param store Data store
  * @returns Array of clean sales
  */
 export async function getCleanSalesForProduct(
   productId: string,
-  firestore: Firestore = db
+  store: DataStore = getDataStore()
 ): Promise<CleanSale[]> {
   try {
-    const salesCleanCollection = collection(firestore, 'register_sales_clean');
-    const salesQuery = query(salesCleanCollection, where('product_id', '==', productId));
-    const salesSnapshot = await getDocs(salesQuery);
-    
-    return salesSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as CleanSale[];
+    return await store.clean.getSalesForProduct(productId);
   } catch (error) {
     console.error('Error getting clean sales for product:', error);
     return [];
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { RegisterSession } from '../types';
+import { makeSale } from '../test/fixtures';
+import { buildZReport, getCountedCash, getExpectedCash, groupSessionsByRegisterDay } from './registerSessionUtils';
+
+const session = (id: string, overrides: Partial<RegisterSession> = {}): RegisterSession => ({
+  id,
+  register: 'Caisse 1',
+  status: 'closed',
+  openingFloat: 50,
+  openedAt: new Date(2024, 1, 1, 8),
+  closedAt: new Date(2024, 1, 1, 13),
+  ...overrides
+});
+
+describe('register sessions', () => {
+  it('counts the cash from notes and coins in cents', () => {
+    expect(getCountedCash({ '2000': 2, '100': 3, '5': 1 })).toBe(43.05);
+  });
+
+  it('expects the opening float plus the takings of the session', () => {
+    expect(getExpectedCash(session('a'), [makeSale({ quantity: 2 }), makeSale({ type: 'return', quantity: -1 })])).toBe(51.5);
+  });
+
+  it('groups the closed sessions by register and day, most recent first', () => {
+    const days = groupSessionsByRegisterDay([
+      session('morning'),
+      session('afternoon', { openedAt: new Date(2024, 1, 1, 14), closedAt: new Date(2024, 1, 1, 19) }),
+      session('next-day', { openedAt: new Date(2024, 1, 2, 8) }),
+      session('other', { register: 'Caisse 2' }),
+      session('open', { status: 'open', openedAt: new Date(2024, 1, 3, 8), closedAt: undefined })
+    ]);
+
+    expect(days.map(day => [day.register, day.day, day.sessions.length])).toEqual([
+      ['Caisse 1', '2024-02-02', 1],
+      ['Caisse 1', '2024-02-01', 2],
+      ['Caisse 2', '2024-02-01', 1]
+    ]);
+  });
+});
+
+describe('buildZReport', () => {
+  it('adds up the sessions and the sales of the register over the day', () => {
+    const sessions = [
+      session('morning', { expectedCash: 60, countedCash: 59, closingCount: { '2000': 2, '100': 9 } }),
+      session('afternoon', {
+        openedAt: new Date(2024, 1, 1, 14),
+        closedAt: new Date(2024, 1, 1, 19),
+        openingFloat: 0,
+        expectedCash: 14,
+        countedCash: 14,
+        closingCount: { '2000': 1 }
+      })
+    ];
+    const sales = [
+      makeSale({ id: 'a', date: new Date(2024, 1, 1, 9), quantity: 4 }),
+      makeSale({ id: 'b', date: new Date(2024, 1, 1, 15), seller: 'Bob', category: 'Snacks', quantity: 2, price: 2 }),
+      makeSale({ id: 'refund', date: new Date(2024, 1, 1, 16), type: 'return', quantity: -1 }),
+      makeSale({ id: 'payout', date: new Date(2024, 1, 1, 17), quantity: 1, total: -5 }),
+      makeSale({ id: 'lunch', date: new Date(2024, 1, 1, 13, 30) }),
+      makeSale({ id: 'other', register: 'Caisse 2', date: new Date(2024, 1, 1, 9) })
+    ];
+
+    const report = buildZReport(groupSessionsByRegisterDay(sessions)[0], sales);
+
+    expect(report).toMatchObject({
+      salesCount: 5,
+      quantity: 7,
+      grossSales: 11.5,
+      refunds: 1.5,
+      otherOutflows: 5,
+      netSales: 5,
+      openingFloat: 50,
+      expectedCash: 74,
+      countedCash: 73,
+      discrepancy: -1,
+      closingCount: { '2000': 3, '100': 9 },
+      salesOutsideSessions: 1
+    });
+    expect(report.bySeller.map(row => [row.key, row.total])).toEqual([['Bob', 4], ['Alice', 1]]);
+  });
+});
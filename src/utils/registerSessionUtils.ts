@@ -0,0 +1,150 @@
+import { format, isAfter, isBefore } from 'date-fns';
+import { CashCount, RegisterSale, RegisterSession } from '../types';
+import { isReturn } from './returnUtils';
+
+// Euro notes and coins, in cents
+export const CASH_DENOMINATIONS: Array<{ cents: number; kind: 'note' | 'coin' }> = [
+  { cents: 50000, kind: 'note' },
+  { cents: 20000, kind: 'note' },
+  { cents: 10000, kind: 'note' },
+  { cents: 5000, kind: 'note' },
+  { cents: 2000, kind: 'note' },
+  { cents: 1000, kind: 'note' },
+  { cents: 500, kind: 'note' },
+  { cents: 200, kind: 'coin' },
+  { cents: 100, kind: 'coin' },
+  { cents: 50, kind: 'coin' },
+  { cents: 20, kind: 'coin' },
+  { cents: 10, kind: 'coin' },
+  { cents: 5, kind: 'coin' },
+  { cents: 2, kind: 'coin' },
+  { cents: 1, kind: 'coin' }
+];
+
+// Counted and expected cash are compared to the cent
+export const CASH_TOLERANCE = 0.005;
+
+export interface ZReportBreakdown {
+  key: string;
+  quantity: number;
+  total: number;
+}
+
+export interface ZReport {
+  register: string;
+  day: Date;
+  sessions: RegisterSession[]; // Closed sessions of the day
+  salesCount: number;
+  quantity: number;
+  grossSales: number; // Positive lines
+  refunds: number; // Customer returns, as a positive amount
+  otherOutflows: number; // Other negative lines (payouts...), as a positive amount
+  netSales: number;
+  openingFloat: number;
+  expectedCash: number;
+  countedCash: number;
+  discrepancy: number; // Counted − expected
+  closingCount: CashCount; // Notes and coins of all closings of the day
+  salesOutsideSessions: number; // Lines recorded while no session was open
+  byCategory: ZReportBreakdown[];
+  bySeller: ZReportBreakdown[];
+}
+
+export interface RegisterDay {
+  register: string;
+  day: string; // yyyy-MM-dd
+  sessions: RegisterSession[];
+}
+
+export function getCountedCash(count: CashCount): number {
+  return Object.entries(count).reduce((sum, [cents, quantity]) => sum + (parseInt(cents) * (quantity || 0)), 0) / 100;
+}
+
+export function getCashDiscrepancy(session: RegisterSession): number | null {
+  return session.countedCash !== undefined && session.expectedCash !== undefined
+    ? session.countedCash - session.expectedCash
+    : null;
+}
+
+export function isWithinSession(sale: RegisterSale, session: RegisterSession, until: Date = new Date()): boolean {
+  const end = session.closedAt || until;
+  return sale.register === session.register && !isBefore(sale.date, session.openedAt) && !isAfter(sale.date, end);
+}
+
+/**
+ * Cash expected in the drawer: the opening float plus everything rung up during the session
+ */
+export function getExpectedCash(session: RegisterSession, sessionSales: RegisterSale[]): number {
+  return session.openingFloat + sessionSales.reduce((sum, sale) => sum + sale.total, 0);
+}
+
+/**
+ * Closed sessions grouped by register and opening day, most recent first
+ */
+export function groupSessionsByRegisterDay(sessions: RegisterSession[]): RegisterDay[] {
+  const groups = new Map<string, RegisterDay>();
+
+  sessions
+    .filter(session => session.status === 'closed')
+    .forEach(session => {
+      const day = format(session.openedAt, 'yyyy-MM-dd');
+      const key = `${session.register}|${day}`;
+      if (!groups.has(key)) groups.set(key, { register: session.register, day, sessions: [] });
+      groups.get(key)!.sessions.push(session);
+    });
+
+  return Array.from(groups.values())
+    .sort((a, b) => b.day.localeCompare(a.day) || a.register.localeCompare(b.register));
+}
+
+const toBreakdown = (sales: RegisterSale[], keyOf: (sale: RegisterSale) => string): ZReportBreakdown[] => {
+  const groups = new Map<string, ZReportBreakdown>();
+  sales.forEach(sale => {
+    const key = keyOf(sale);
+    const entry = groups.get(key) || { key, quantity: 0, total: 0 };
+    entry.quantity += sale.quantity;
+    entry.total += sale.total;
+    groups.set(key, entry);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.total - a.total);
+};
+
+/**
+ * End of day (Z) report of a register from its closed sessions and the sales of that day
+ */
+export function buildZReport(day: RegisterDay, daySales: RegisterSale[]): ZReport {
+  const sales = daySales.filter(sale => sale.register === day.register);
+  const sessions = [...day.sessions].sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime());
+
+  const closingCount: CashCount = {};
+  sessions.forEach(session => {
+    Object.entries(session.closingCount || {}).forEach(([cents, quantity]) => {
+      closingCount[cents] = (closingCount[cents] || 0) + quantity;
+    });
+  });
+
+  const expectedCash = sessions.reduce((sum, session) => sum + (session.expectedCash || 0), 0);
+  const countedCash = sessions.reduce((sum, session) => sum + (session.countedCash || 0), 0);
+
+  return {
+    register: day.register,
+    day: new Date(`${day.day}T12:00:00`),
+    sessions,
+    salesCount: sales.length,
+    quantity: sales.filter(sale => sale.total >= 0).reduce((sum, sale) => sum + sale.quantity, 0),
+    grossSales: sales.filter(sale => sale.total >= 0).reduce((sum, sale) => sum + sale.total, 0),
+    refunds: Math.abs(sales.filter(isReturn).reduce((sum, sale) => sum + sale.total, 0)),
+    otherOutflows: Math.abs(sales
+      .filter(sale => sale.total < 0 && !isReturn(sale))
+      .reduce((sum, sale) => sum + sale.total, 0)),
+    netSales: sales.reduce((sum, sale) => sum + sale.total, 0),
+    openingFloat: sessions.reduce((sum, session) => sum + session.openingFloat, 0),
+    expectedCash,
+    countedCash,
+    discrepancy: countedCash - expectedCash,
+    closingCount,
+    salesOutsideSessions: sales.filter(sale => !sessions.some(session => isWithinSession(sale, session))).length,
+    byCategory: toBreakdown(sales, sale => sale.category),
+    bySeller: toBreakdown(sales, sale => sale.seller)
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { RegisterSale } from '../types';
+import { makeSale } from '../test/fixtures';
+import { getReturnRate, getReturnedQuantity, groupReturnTotals } from './returnUtils';
+
+const returned = (id: string, overrides: Partial<RegisterSale> = {}) =>
+  makeSale({ id, type: 'return', quantity: -1, originalSaleId: 's1', returnCondition: 'sellable', ...overrides });
+
+describe('returns', () => {
+  it('adds up the units already returned against a sale', () => {
+    const sales = [makeSale({ quantity: 4 }), returned('r1'), returned('r2', { quantity: -2 }), returned('r3', { originalSaleId: 's9' })];
+
+    expect(getReturnedQuantity('s1', sales)).toBe(3);
+  });
+
+  it('totals sold and returned units and refunds per group, leaving out negative sales', () => {
+    const sales = [
+      makeSale({ id: 's1', quantity: 4 }),
+      makeSale({ id: 's2', seller: 'Bob', quantity: 2 }),
+      returned('r1'),
+      makeSale({ id: 'expense', seller: 'Bob', quantity: 1, total: -20 })
+    ];
+
+    const bySeller = groupReturnTotals(sales, sale => sale.seller);
+
+    expect(bySeller.get('Alice')).toEqual({ soldQuantity: 4, returnedQuantity: 1, refunded: 1.5, returns: 1 });
+    expect(bySeller.get('Bob')).toEqual({ soldQuantity: 2, returnedQuantity: 0, refunded: 0, returns: 0 });
+    expect(getReturnRate(bySeller.get('Alice')!)).toBe(25);
+    expect(getReturnRate({ soldQuantity: 0, returnedQuantity: 1, refunded: 2, returns: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { RegisterSale, ReturnCondition } from '../types';
+
+export const RETURN_CONDITIONS: Record<ReturnCondition, string> = {
+  sellable: 'Revendable (remis en stock)',
+  defective: 'Défectueux (non remis en stock)'
+};
+
+export interface ReturnTotals {
+  soldQuantity: number;
+  returnedQuantity: number;
+  refunded: number; // Positive amount given back
+  returns: number; // Return lines
+}
+
+export function isReturn(sale: RegisterSale): boolean {
+  return sale.type === 'return';
+}
+
+/**
+ * Units already returned against a sale
+ */
+export function getReturnedQuantity(saleId: string, sales: RegisterSale[]): number {
+  return sales
+    .filter(sale => isReturn(sale) && sale.originalSaleId === saleId)
+    .reduce((sum, sale) => sum + Math.abs(sale.quantity), 0);
+}
+
+export function emptyReturnTotals(): ReturnTotals {
+  return { soldQuantity: 0, returnedQuantity: 0, refunded: 0, returns: 0 };
+}
+
+export function addSaleToReturnTotals(totals: ReturnTotals, sale: RegisterSale) {
+  if (isReturn(sale)) {
+    totals.returnedQuantity += Math.abs(sale.quantity);
+    totals.refunded += Math.abs(sale.total);
+    totals.returns += 1;
+  } else if (sale.total >= 0) {
+    totals.soldQuantity += sale.quantity;
+  }
+}
+
+/**
+ * Returned units as a percentage of units sold, null when nothing was sold
+ */
+export function getReturnRate(totals: ReturnTotals): number | null {
+  return totals.soldQuantity > 0 ? (totals.returnedQuantity / totals.soldQuantity) * 100 : null;
+}
+
+/**
+ * Return totals grouped by a sale attribute (product, seller...)
+ */
+export function groupReturnTotals(
+  sales: RegisterSale[],
+  keyOf: (sale: RegisterSale) => string
+): Map<string, ReturnTotals> {
+  const groups = new Map<string, ReturnTotals>();
+
+  sales.forEach(sale => {
+    const key = keyOf(sale);
+    if (!groups.has(key)) groups.set(key, emptyReturnTotals());
+    addSaleToReturnTotals(groups.get(key)!, sale);
+  });
+
+  return groups;
+}
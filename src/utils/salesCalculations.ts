@@ -1,4 +1,4 @@
-import { RegisterSale } from '../types';
+import { RegisterSale, SalesWindow } from '../types';
 
 /**
  * Calculate the total quantity sold across all sales
@@ -42,4 +42,12 @@ export function getUniqueSellers(sales: RegisterSale[]): string[] {
  */
 export function getUniqueRegisters(sales: RegisterSale[]): string[] {
   return [...new Set(sales.map(sale => sale.register))];
-}
\ No newline at end of file
+}
+
+/**
+ * True when the view needs sales older than the loaded window and the store still has some
+ */
+export function isSalesWindowPartial(salesWindow: SalesWindow, requiredFrom?: Date): boolean {
+  const { hasMore, oldestLoaded } = salesWindow;
+  return hasMore && (!requiredFrom || !oldestLoaded || oldestLoaded > requiredFrom);
+}
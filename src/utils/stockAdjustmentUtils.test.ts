@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { makeMovement, makeProduct } from '../test/fixtures';
+import { affectsFinalStock, calculateShrinkageReport } from './stockAdjustmentUtils';
+
+const products = [makeProduct({ price: 2 }), makeProduct({ id: 'chips', name: 'Chips', category: 'Snacks', price: 1 })];
+
+describe('calculateShrinkageReport', () => {
+  it('groups the adjustments of the period by reason and category, biggest losses first', () => {
+    const movements = [
+      makeMovement({ id: 'casse', reasonCode: 'casse', quantity: -3 }),
+      makeMovement({ id: 'vol', reasonCode: 'vol', quantity: -1, productId: 'chips', category: 'Snacks' }),
+      makeMovement({ id: 'correction', reasonCode: 'erreur_saisie', quantity: 2 }),
+      makeMovement({ id: 'no-reason', quantity: -10 }),
+      makeMovement({ id: 'receipt', type: 'receipt', quantity: 24 }),
+      makeMovement({ id: 'before', reasonCode: 'casse', quantity: -5, date: new Date(2024, 0, 31) })
+    ];
+
+    const report = calculateShrinkageReport(movements, products, new Date(2024, 1, 1), new Date(2024, 1, 29));
+
+    expect(report.byReason.map(row => [row.key, row.net, row.value])).toEqual([
+      ['casse', -3, -6],
+      ['vol', -1, -1],
+      ['erreur_saisie', 2, 4]
+    ]);
+    expect(report.byCategory.map(row => [row.key, row.losses, row.gains])).toEqual([['Boissons', 3, 2], ['Snacks', 1, 0]]);
+    expect(report.totals).toMatchObject({ losses: 4, gains: 2, net: -2, value: -3, adjustments: 3 });
+  });
+});
+
+describe('affectsFinalStock', () => {
+  it('counts reasoned adjustments and stock entries, not configuration changes or sales', () => {
+    const counted = [
+      makeMovement({ reasonCode: 'casse' }),
+      makeMovement({ type: 'receipt' }),
+      makeMovement({ type: 'return' }),
+      makeMovement({ type: 'transfer' }),
+      makeMovement({ type: 'merge' })
+    ];
+    const ignored = [makeMovement(), makeMovement({ type: 'sale' }), makeMovement({ type: 'initial' })];
+
+    expect(counted.every(affectsFinalStock)).toBe(true);
+    expect(ignored.some(affectsFinalStock)).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+import { Product, StockMovement, AdjustmentReasonCode } from '../types';
+import { startOfDay, endOfDay, isBefore, isAfter } from 'date-fns';
+
+export const ADJUSTMENT_REASONS: Record<AdjustmentReasonCode, string> = {
+  casse: 'Casse',
+  vol: 'Vol',
+  peremption: 'Péremption',
+  consommation_interne: 'Consommation interne',
+  erreur_saisie: 'Erreur de saisie',
+  ecart_inventaire: 'Écart d\'inventaire',
+  ecart_transfert: 'Écart de transfert'
+};
+
+// Inventory and transfer variances are only posted from a count session or a transfer receipt
+export const MANUAL_ADJUSTMENT_REASONS: AdjustmentReasonCode[] = [
+  'casse',
+  'vol',
+  'peremption',
+  'consommation_interne',
+  'erreur_saisie'
+];
+
+export interface ShrinkageRow {
+  key: string;
+  label: string;
+  losses: number; // Units removed
+  gains: number; // Units added back (corrections)
+  net: number; // Signed net quantity
+  value: number; // Net quantity valued at the product price
+  adjustments: number;
+}
+
+export interface ShrinkageReport {
+  byReason: ShrinkageRow[];
+  byCategory: ShrinkageRow[];
+  totals: ShrinkageRow;
+}
+
+/**
+ * Manual adjustments carry a reason code; other 'adjustment' movements only
+ * record configuration changes already reflected in the product
+ */
+export function isStockAdjustment(movement: StockMovement): boolean {
+  return movement.type === 'adjustment' && !!movement.reasonCode;
+}
+
+/**
+ * Ledger movements added on top of the initial stock by calculateStockFinal:
+ * manual adjustments, purchase order receipts, sellable customer returns,
+ * transfers between stores and the stock of merged products
+ */
+export function affectsFinalStock(movement: StockMovement): boolean {
+  return isStockAdjustment(movement) ||
+    movement.type === 'receipt' ||
+    movement.type === 'return' ||
+    movement.type === 'transfer' ||
+    movement.type === 'merge';
+}
+
+const emptyRow = (key: string, label: string): ShrinkageRow => ({
+  key,
+  label,
+  losses: 0,
+  gains: 0,
+  net: 0,
+  value: 0,
+  adjustments: 0
+});
+
+/**
+ * Shrinkage and corrections over a period, grouped by reason code and by category
+ */
+export function calculateShrinkageReport(
+  movements: StockMovement[],
+  products: Product[],
+  startDate: Date,
+  endDate: Date
+): ShrinkageReport {
+  const start = startOfDay(startDate);
+  const end = endOfDay(endDate);
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  const byReason = new Map<string, ShrinkageRow>();
+  const byCategory = new Map<string, ShrinkageRow>();
+  const totals = emptyRow('total', 'Total');
+
+  const addTo = (row: ShrinkageRow, quantity: number, value: number) => {
+    if (quantity < 0) {
+      row.losses += Math.abs(quantity);
+    } else {
+      row.gains += quantity;
+    }
+    row.net += quantity;
+    row.value += value;
+    row.adjustments += 1;
+  };
+
+  movements
+    .filter(movement =>
+      isStockAdjustment(movement) &&
+      !isBefore(movement.date, start) &&
+      !isAfter(movement.date, end)
+    )
+    .forEach(movement => {
+      const reasonCode = movement.reasonCode!;
+      const price = productsById.get(movement.productId)?.price || 0;
+      const value = movement.quantity * price;
+
+      if (!byReason.has(reasonCode)) {
+        byReason.set(reasonCode, emptyRow(reasonCode, ADJUSTMENT_REASONS[reasonCode]));
+      }
+      if (!byCategory.has(movement.category)) {
+        byCategory.set(movement.category, emptyRow(movement.category, movement.category));
+      }
+
+      addTo(byReason.get(reasonCode)!, movement.quantity, value);
+      addTo(byCategory.get(movement.category)!, movement.quantity, value);
+      addTo(totals, movement.quantity, value);
+    });
+
+  // Biggest losses first
+  const sortByNet = (a: ShrinkageRow, b: ShrinkageRow) => a.value - b.value;
+
+  return {
+    byReason: Array.from(byReason.values()).sort(sortByNet),
+    byCategory: Array.from(byCategory.values()).sort(sortByNet),
+    totals
+  };
+}
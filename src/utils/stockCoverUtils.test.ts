@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, subDays } from 'date-fns';
+import { makeProduct, makeSale } from '../test/fixtures';
+import { calculateStockCover, isRunningOutSoon } from './stockCoverUtils';
+
+const today = new Date(2024, 1, 20);
+const coca = makeProduct({ stock: 9 });
+const fanta = makeProduct({ id: 'fanta', name: 'Fanta 33cl', stock: 5 });
+const chips = makeProduct({ id: 'chips', name: 'Chips', category: 'Snacks', stock: 0 });
+
+describe('calculateStockCover', () => {
+  it('projects the stockout from the average daily sales of the window', () => {
+    const sales = Array.from({ length: 10 }, (_, day) => makeSale({ id: `s${day}`, date: subDays(today, day + 1), quantity: 2 }));
+
+    const cover = calculateStockCover([coca, fanta, chips], [...sales, makeSale({ id: 'today', date: today, quantity: 50 })], 10, today);
+
+    expect(cover.get('coca')).toEqual({ averageDailySales: 2, daysOfCover: 4.5, stockoutDate: addDays(today, 4), windowDays: 10 });
+    expect(cover.get('fanta')!.daysOfCover).toBeNull();
+    expect(cover.get('chips')!.daysOfCover).toBe(0);
+  });
+
+  it('averages over the loaded days only when the window reaches past the oldest sale', () => {
+    const cover = calculateStockCover([coca], [makeSale({ date: subDays(today, 4), quantity: 8 })], 30, today);
+
+    expect(cover.get('coca')).toMatchObject({ averageDailySales: 2, windowDays: 4 });
+  });
+
+  it('flags products in stock that run out within the horizon', () => {
+    const cover = { averageDailySales: 2, daysOfCover: 4.5, stockoutDate: today, windowDays: 10 };
+
+    expect(isRunningOutSoon(coca, cover, 7)).toBe(true);
+    expect(isRunningOutSoon(coca, cover, 3)).toBe(false);
+    expect(isRunningOutSoon(chips, { ...cover, daysOfCover: 0 }, 7)).toBe(false);
+  });
+});
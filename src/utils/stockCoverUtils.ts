@@ -0,0 +1,59 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Product, RegisterSale } from '../types';
+import { createProductIndex, getProductSales } from './productIdentityUtils';
+import { buildDailyDemand, getHistoryStart } from './forecastUtils';
+
+export const COVER_WINDOW_OPTIONS = [7, 14, 30, 60, 90];
+export const DEFAULT_COVER_WINDOW_DAYS = 30;
+
+// Products running out sooner than this are flagged next to the ones below their minimum stock
+export const DEFAULT_STOCKOUT_HORIZON_DAYS = 7;
+
+export interface StockCover {
+  averageDailySales: number;
+  daysOfCover: number | null; // null when nothing was sold over the window
+  stockoutDate: Date | null;
+  windowDays: number; // Days actually covered by the loaded sales
+}
+
+/**
+ * Average daily sales over the last `windowDays` full days and how long the current stock lasts at that rate
+ */
+export function calculateStockCover(
+  products: Product[],
+  sales: RegisterSale[],
+  windowDays: number = DEFAULT_COVER_WINDOW_DAYS,
+  now: Date = new Date()
+): Map<string, StockCover> {
+  const today = startOfDay(now);
+  const windowStart = getHistoryStart(sales, today, windowDays);
+  const days = Math.max(0, differenceInCalendarDays(today, windowStart));
+  const index = createProductIndex(products);
+
+  return new Map(products.map(product => {
+    const sold = buildDailyDemand(getProductSales(product, sales, index), windowStart, days)
+      .reduce((sum, quantity) => sum + quantity, 0);
+    const averageDailySales = days > 0 ? sold / days : 0;
+
+    let daysOfCover: number | null = null;
+    if (product.stock <= 0) {
+      daysOfCover = 0;
+    } else if (averageDailySales > 0) {
+      daysOfCover = product.stock / averageDailySales;
+    }
+
+    return [product.id, {
+      averageDailySales,
+      daysOfCover,
+      stockoutDate: daysOfCover === null ? null : addDays(today, Math.floor(daysOfCover)),
+      windowDays: days
+    }];
+  }));
+}
+
+/**
+ * Still in stock but expected to run out within the horizon
+ */
+export function isRunningOutSoon(product: Product, cover: StockCover | undefined, horizonDays: number): boolean {
+  return product.stock > 0 && !!cover && cover.daysOfCover !== null && cover.daysOfCover <= horizonDays;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { makeProduct, makeSale, stores } from '../test/fixtures';
+import { createProductIndex } from './productIdentityUtils';
+import { generateStockMovements, summarizeDailySales } from './stockHistoryUtils';
+
+const coca = makeProduct({ initialStock: 20, initialStockDate: '2024-02-01' });
+const fanta = makeProduct({ id: 'fanta', name: 'Fanta 33cl', initialStock: 10, initialStockDate: '2024-02-01' });
+const index = createProductIndex([coca, fanta]);
+
+describe('summarizeDailySales', () => {
+  it('sums the sales of a product per store and day, dated at the last one', () => {
+    const sales = [
+      makeSale({ id: 's1', date: new Date(2024, 1, 1, 9), quantity: 2 }),
+      makeSale({ id: 's2', date: new Date(2024, 1, 1, 18), quantity: 3 }),
+      makeSale({ id: 's3', date: new Date(2024, 1, 1, 12), register: 'Caisse 2' }),
+      makeSale({ id: 's4', date: new Date(2024, 1, 2, 10) }),
+      makeSale({ id: 's5', product: 'Fanta 33cl', date: new Date(2024, 1, 1, 11) }),
+      makeSale({ id: 'unknown', product: 'Inconnu' })
+    ];
+
+    const entries = summarizeDailySales(sales, index, stores).map(entry =>
+      [entry.product.id, entry.storeId, entry.day, entry.quantity, entry.salesCount, entry.date.getHours()]
+    );
+
+    expect(entries).toEqual([
+      ['coca', 'main', '2024-02-01', -5, 2, 18],
+      ['coca', 'port', '2024-02-01', -1, 1, 12],
+      ['coca', 'main', '2024-02-02', -1, 1, 10],
+      ['fanta', 'main', '2024-02-01', -1, 1, 11]
+    ]);
+  });
+
+  it('enters bundle sales against the components they were sold with', () => {
+    const pack = makeProduct({ id: 'pack', name: 'Pack Duo', bundleComponents: [{ productId: 'coca', quantity: 1 }] });
+    const sale = makeSale({
+      product: 'Pack Duo',
+      productId: 'pack',
+      quantity: 2,
+      bundleComponents: [{ productId: 'coca', quantity: 2 }, { productId: 'fanta', quantity: 1 }]
+    });
+
+    const entries = summarizeDailySales([sale], createProductIndex([coca, fanta, pack]), stores)
+      .map(entry => [entry.product.id, entry.quantity]);
+
+    expect(entries).toEqual([['coca', -4], ['fanta', -2]]);
+  });
+});
+
+describe('generateStockMovements', () => {
+  it('seeds the initial stock and one entry per day of sales since the stock date', () => {
+    const sales = [
+      makeSale({ id: 'before', date: new Date(2024, 0, 20), quantity: 4 }),
+      makeSale({ id: 's1', date: new Date(2024, 1, 3, 9), quantity: 2 }),
+      makeSale({ id: 's2', date: new Date(2024, 1, 3, 15), quantity: 1 })
+    ];
+
+    const movements = generateStockMovements([coca], sales, stores).map(({ type, quantity, storeId }) => [type, quantity, storeId]);
+
+    expect(movements).toEqual([['initial', 20, undefined], ['sale', -3, 'main']]);
+  });
+
+  it('resolves sales against the whole catalog when seeding some products only', () => {
+    const sale = makeSale({ productId: 'fanta', date: new Date(2024, 1, 3) });
+
+    expect(generateStockMovements([coca], [sale], stores, index).filter(movement => movement.type === 'sale')).toEqual([]);
+  });
+});
@@ -1,17 +1,10 @@
-import { Product, RegisterSale } from '../types';
-import { startOfDay, endOfDay, isAfter, isBefore, parseISO } from 'date-fns';
+import { Product, RegisterSale, StockMovement, Store } from '../types';
+import { startOfDay, endOfDay, isAfter, isBefore, parseISO, isValid, format } from 'date-fns';
+import { ProductIndex, createProductIndex, resolveSaleProduct } from './productIdentityUtils';
+import { getRegisterStore } from './storeUtils';
+import { getSaleStockItems } from './bundleUtils';
 
-export interface StockMovement {
-  id: string;
-  productId: string;
-  productName: string;
-  category: string;
-  type: 'sale' | 'import' | 'adjustment' | 'initial';
-  quantity: number; // Positive for additions, negative for sales
-  date: Date;
-  reference?: string; // Sale ID, import batch ID, etc.
-  description?: string;
-}
+export type { StockMovement } from '../types';
 
 export interface HistoricalStockState {
   productId: string;
@@ -25,6 +18,16 @@ export interface HistoricalStockState {
   movements: StockMovement[];
 }
 
+// Units sold of a product in a store on one day, recorded as a single ledger entry
+export interface DailySalesMovement {
+  product: Product;
+  storeId?: string;
+  day: string; // yyyy-MM-dd
+  date: Date; // Latest sale of the day
+  quantity: number; // Negative
+  salesCount: number;
+}
+
 export interface HistoricalStockSummary {
   totalProducts: number;
   totalStock: number;
@@ -40,17 +43,61 @@ export interface HistoricalStockSummary {
 }
 
 /**
- * Generate stock movements from current data
- * This reconstructs the movement history from sales and current stock
+ * Sales as ledger entries: one per product, store and day rather than one per sale line,
+ * so the ledger grows with the catalog and not with the sales. A bundle sale is entered
+ * against the components it consumed, with the composition it was sold with. Sales
+ * matching no product and products rejected by `include` are left out.
+ */
+export function summarizeDailySales(
+  sales: RegisterSale[],
+  productIndex: ProductIndex,
+  stores: Store[] = [],
+  include: (sale: RegisterSale, product: Product) => boolean = () => true
+): DailySalesMovement[] {
+  const entries = new Map<string, DailySalesMovement>();
+
+  sales.forEach(sale => {
+    const soldProduct = resolveSaleProduct(productIndex, sale);
+    if (!soldProduct) return;
+
+    const storeId = getRegisterStore(stores, sale.register)?.id;
+    const day = format(sale.date, 'yyyy-MM-dd');
+    getSaleStockItems(sale, soldProduct, productIndex)
+      .filter(({ product }) => include(sale, product))
+      .forEach(({ product, quantity }) => {
+        const key = `${product.id}|${storeId || ''}|${day}`;
+        const entry = entries.get(key) || { product, storeId, day, date: sale.date, quantity: 0, salesCount: 0 };
+        entry.quantity -= sale.quantity * quantity;
+        entry.salesCount += 1;
+        if (sale.date > entry.date) entry.date = sale.date;
+        entries.set(key, entry);
+      });
+  });
+
+  return Array.from(entries.values());
+}
+
+/**
+ * Reconstruct movements from initial stock and sales.
+ * Only used to seed the stock ledger for products recorded before it existed;
+ * history should otherwise be read from the persisted stock_movements.
+ * Sales are resolved against the given catalog index and summed per day and store.
  */
 export function generateStockMovements(
   products: Product[],
-  sales: RegisterSale[]
+  sales: RegisterSale[],
+  stores: Store[] = [],
+  productIndex: ProductIndex = createProductIndex(products)
 ): StockMovement[] {
   const movements: StockMovement[] = [];
+  const stockDates = new Map<string, Date>();
 
   // Create initial stock movements for each product
   products.forEach(product => {
+    const parsedDate = product.initialStockDate ? parseISO(product.initialStockDate) : null;
+    const stockDate = parsedDate && isValid(parsedDate) ? startOfDay(parsedDate) : new Date(2024, 0, 1);
+    stockDates.set(product.id, stockDate);
+
     if (product.initialStock && product.initialStock > 0) {
       movements.push({
         id: `initial-${product.id}`,
@@ -59,33 +106,30 @@ export function generateStockMovements(
         category: product.category,
         type: 'initial',
         quantity: product.initialStock,
-        date: new Date(2024, 0, 1), // Default initial date
-        description: 'Stock initial'
+        date: stockDate,
+        reference: product.id,
+        description: 'Stock initial',
+        reason: 'Reprise de l\'historique'
       });
     }
   });
 
-  // Create sale movements (negative quantities)
-  sales.forEach(sale => {
-    // Find matching product
-    const product = products.find(p => 
-      p.name.toLowerCase().trim() === sale.product.toLowerCase().trim() &&
-      p.category.toLowerCase().trim() === sale.category.toLowerCase().trim()
-    );
-
-    if (product) {
-      movements.push({
-        id: `sale-${sale.id}`,
-        productId: product.id,
-        productName: product.name,
-        category: product.category,
-        type: 'sale',
-        quantity: -sale.quantity, // Negative for sales
-        date: sale.date,
-        reference: sale.id,
-        description: `Vente - ${sale.seller} (${sale.register})`
-      });
-    }
+  // Create daily sale movements (negative quantities), ignoring sales before the initial stock date
+  const isSeeded = (sale: RegisterSale, product: Product) =>
+    stockDates.has(product.id) && !isBefore(sale.date, stockDates.get(product.id)!);
+  summarizeDailySales(sales, productIndex, stores, isSeeded).forEach(entry => {
+    movements.push({
+      id: `sale-${entry.product.id}-${entry.storeId || 'main'}-${entry.day}`,
+      productId: entry.product.id,
+      productName: entry.product.name,
+      category: entry.product.category,
+      type: 'sale',
+      quantity: entry.quantity,
+      date: entry.date,
+      description: `${entry.salesCount} vente(s) du ${format(entry.date, 'dd/MM/yyyy')}`,
+      reason: 'Reprise de l\'historique',
+      storeId: entry.storeId
+    });
   });
 
   // Sort movements by date
@@ -95,7 +139,7 @@ export function generateStockMovements(
 }
 
 /**
- * Calculate historical stock state for a specific date
+ * Calculate historical stock state for a specific date from the stock ledger
  */
 export function calculateHistoricalStock(
   products: Product[],
@@ -109,8 +153,8 @@ export function calculateHistoricalStock(
     // Get all movements for this product up to the target date
     const productMovements = movements.filter(movement => 
       movement.productId === product.id &&
-      isBefore(movement.date, endOfTargetDate) || 
-      movement.date.getTime() === endOfTargetDate.getTime()
+      (isBefore(movement.date, endOfTargetDate) || 
+       movement.date.getTime() === endOfTargetDate.getTime())
     );
 
     // Calculate stock at the target date
@@ -184,9 +228,13 @@ export function calculateHistoricalSummary(
         if (movement.type === 'sale') {
           productsSold += Math.abs(movement.quantity);
           totalSales += Math.abs(movement.quantity);
-        } else if (movement.type === 'import' || movement.type === 'initial') {
+        } else if (
+          movement.type === 'import' || movement.type === 'initial' ||
+          movement.type === 'receipt' || movement.type === 'return' || movement.type === 'transfer' ||
+          movement.type === 'merge'
+        ) {
           totalImports += movement.quantity;
-        } else if (movement.type === 'adjustment') {
+        } else if (movement.type === 'adjustment' || movement.type === 'deletion') {
           totalAdjustments += Math.abs(movement.quantity);
         }
       });
@@ -247,7 +295,7 @@ export function getMovementsInPeriod(
 }
 
 /**
- * Reconstruct stock timeline for a product
+ * Stock timeline for a product, replayed from the stock ledger
  */
 export function getProductStockTimeline(
   productId: string,
@@ -279,7 +327,7 @@ export function getProductStockTimeline(
 
   // Process movements in the period
   const movementsInPeriod = productMovements.filter(m =>
-    isAfter(m.date, startOfDay(startDate)) && 
+    !isBefore(m.date, startOfDay(startDate)) && 
     (isBefore(m.date, endOfDay(endDate)) || m.date.getTime() === endOfDay(endDate).getTime())
   );
 
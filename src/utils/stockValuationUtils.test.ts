@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { makeMovement, makeProduct } from '../test/fixtures';
+import { calculateStockValuation } from './stockValuationUtils';
+
+const coca = makeProduct({ costPrice: 0.5 });
+const movements = [
+  makeMovement({ id: 'initial', type: 'initial', quantity: 10, date: new Date(2024, 0, 1) }),
+  makeMovement({ id: 'receipt', type: 'receipt', quantity: 10, unitCost: 0.8, date: new Date(2024, 0, 10) }),
+  makeMovement({ id: 'sales', type: 'sale', quantity: -12, date: new Date(2024, 0, 15) }),
+  makeMovement({ id: 'later', type: 'receipt', quantity: 50, unitCost: 2, date: new Date(2024, 1, 1) })
+];
+
+describe('calculateStockValuation', () => {
+  it('values the stock at the weighted average cost of the entries up to the date', () => {
+    const report = calculateStockValuation([coca], movements, new Date(2024, 0, 31), 'wac');
+
+    expect(report.totalQuantity).toBe(8);
+    expect(report.products[0].unitCost).toBeCloseTo(0.65);
+    expect(report.totalValue).toBeCloseTo(5.2);
+  });
+
+  it('values the units on hand at the latest entries with FIFO', () => {
+    const report = calculateStockValuation([coca], movements, new Date(2024, 0, 31), 'fifo');
+
+    expect(report.totalValue).toBeCloseTo(6.4);
+    expect(report.byCategory).toEqual([{ category: 'Boissons', quantity: 8, value: report.totalValue, products: 1 }]);
+  });
+
+  it('reports the units with no known cost and leaves bundles out', () => {
+    const uncosted = makeProduct({ id: 'chips', name: 'Chips' });
+    const pack = makeProduct({ id: 'pack', name: 'Pack 6 Coca', costPrice: 5, bundleComponents: [{ productId: 'coca', quantity: 6 }] });
+    const report = calculateStockValuation(
+      [uncosted, pack],
+      [
+        makeMovement({ productId: 'chips', type: 'initial', quantity: 4 }),
+        makeMovement({ productId: 'pack', type: 'initial', quantity: 2 })
+      ],
+      new Date(2024, 1, 1),
+      'wac'
+    );
+
+    expect(report.products.map(product => [product.productId, product.unvaluedQuantity])).toEqual([['chips', 4]]);
+    expect(report.unvaluedProducts).toBe(1);
+    expect(report.totalValue).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { Product, StockMovement } from '../types';
+import { calculateHistoricalStock, calculateHistoricalSummary } from './stockHistoryUtils';
+import { getCostPriceAt } from './marginUtils';
+import { isBundle } from './bundleUtils';
+
+export type ValuationMethod = 'wac' | 'fifo';
+
+export const VALUATION_METHODS: Record<ValuationMethod, string> = {
+  wac: 'Coût moyen pondéré (CUMP)',
+  fifo: 'Premier entré, premier sorti (FIFO)'
+};
+
+export interface ProductValuation {
+  productId: string;
+  productName: string;
+  category: string;
+  quantity: number;
+  unitCost: number; // Average unit cost of the units on hand
+  value: number;
+  unvaluedQuantity: number; // Units on hand with no known cost
+}
+
+export interface CategoryValuation {
+  category: string;
+  quantity: number;
+  value: number;
+  products: number;
+}
+
+export interface StockValuationReport {
+  date: Date;
+  method: ValuationMethod;
+  products: ProductValuation[];
+  byCategory: CategoryValuation[];
+  totalQuantity: number;
+  totalValue: number;
+  unvaluedProducts: number;
+}
+
+interface CostLayer {
+  quantity: number;
+  unitCost: number | null;
+}
+
+/**
+ * Incoming units with their cost: receipts carry the purchase order cost,
+ * other entries fall back to the product cost price at the movement date
+ */
+function getCostLayers(product: Product, movements: StockMovement[]): CostLayer[] {
+  return movements
+    .filter(movement => movement.quantity > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(movement => ({
+      quantity: movement.quantity,
+      unitCost: movement.unitCost ?? getCostPriceAt(product, movement.date)
+    }));
+}
+
+function valueWeightedAverage(layers: CostLayer[], quantity: number) {
+  const costed = layers.filter(layer => layer.unitCost !== null);
+  const costedQuantity = costed.reduce((sum, layer) => sum + layer.quantity, 0);
+
+  if (costedQuantity === 0) {
+    return { value: 0, unvaluedQuantity: quantity };
+  }
+
+  const averageCost = costed.reduce((sum, layer) => sum + layer.quantity * layer.unitCost!, 0) / costedQuantity;
+  return { value: quantity * averageCost, unvaluedQuantity: 0 };
+}
+
+/**
+ * FIFO: the units still on hand are the most recent entries
+ */
+function valueFifo(layers: CostLayer[], quantity: number) {
+  let remaining = quantity;
+  let value = 0;
+  let unvaluedQuantity = 0;
+
+  for (let i = layers.length - 1; i >= 0 && remaining > 0; i--) {
+    const taken = Math.min(remaining, layers[i].quantity);
+    if (layers[i].unitCost === null) {
+      unvaluedQuantity += taken;
+    } else {
+      value += taken * layers[i].unitCost!;
+    }
+    remaining -= taken;
+  }
+
+  // Stock not explained by the ledger entries (e.g. before the ledger existed)
+  return { value, unvaluedQuantity: unvaluedQuantity + remaining };
+}
+
+/**
+ * Value of the stock on hand at the end of a given day, from the stock ledger
+ */
+export function calculateStockValuation(
+  products: Product[],
+  movements: StockMovement[],
+  date: Date,
+  method: ValuationMethod
+): StockValuationReport {
+  // Bundles hold no stock of their own: their sales are entered against the components
+  const stockedProducts = products.filter(product => !isBundle(product));
+  const states = calculateHistoricalStock(stockedProducts, movements, date);
+  const summary = calculateHistoricalSummary(states, stockedProducts);
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  const valuations: ProductValuation[] = states
+    .filter(state => state.stockAtDate > 0)
+    .map(state => {
+      const layers = getCostLayers(productsById.get(state.productId)!, state.movements);
+      const { value, unvaluedQuantity } = method === 'fifo'
+        ? valueFifo(layers, state.stockAtDate)
+        : valueWeightedAverage(layers, state.stockAtDate);
+      const valuedQuantity = state.stockAtDate - unvaluedQuantity;
+
+      return {
+        productId: state.productId,
+        productName: state.productName,
+        category: state.category,
+        quantity: state.stockAtDate,
+        unitCost: valuedQuantity > 0 ? value / valuedQuantity : 0,
+        value,
+        unvaluedQuantity
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+
+  const byCategory: CategoryValuation[] = Object.entries(summary.stockByCategory)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([category, quantity]) => {
+      const categoryProducts = valuations.filter(valuation => valuation.category === category);
+      return {
+        category,
+        quantity,
+        value: categoryProducts.reduce((sum, valuation) => sum + valuation.value, 0),
+        products: categoryProducts.length
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+
+  return {
+    date,
+    method,
+    products: valuations,
+    byCategory,
+    totalQuantity: summary.totalStock,
+    totalValue: valuations.reduce((sum, valuation) => sum + valuation.value, 0),
+    unvaluedProducts: valuations.filter(valuation => valuation.unvaluedQuantity > 0).length
+  };
+}
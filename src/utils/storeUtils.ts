@@ -0,0 +1,99 @@
+import { Product, RegisterSale, StockMovement, Store } from '../types';
+
+// Store selector value covering every store
+export const ALL_STORES = 'all';
+
+/**
+ * What belongs to one store. The main store, the oldest one, also holds the sales of
+ * registers no store owns, the ledger entries without a store and the initial stock
+ * not placed elsewhere, so the stores always add up to the consolidated stock.
+ */
+export interface StoreScope {
+  storeId: string;
+  isMain: boolean;
+  registers: Set<string>;
+  assignedRegisters: Set<string>; // Registers of every store
+  storeIds: Set<string>;
+}
+
+export const getMainStore = (stores: Store[]): Store | undefined => stores[0];
+
+/**
+ * Scope of the selected store, undefined when every store is selected or the store is unknown
+ */
+export function getStoreScope(stores: Store[], storeId: string): StoreScope | undefined {
+  const selected = stores.find(store => store.id === storeId);
+  if (!selected) return undefined;
+
+  return {
+    storeId: selected.id,
+    isMain: getMainStore(stores)?.id === selected.id,
+    registers: new Set(selected.registers),
+    assignedRegisters: new Set(stores.flatMap(store => store.registers)),
+    storeIds: new Set(stores.map(store => store.id))
+  };
+}
+
+/**
+ * Store a register belongs to, the main store when no store owns it
+ */
+export const getRegisterStore = (stores: Store[], register: string): Store | undefined =>
+  stores.find(store => store.registers.includes(register)) || getMainStore(stores);
+
+export const isRegisterInStore = (scope: StoreScope, register: string) =>
+  scope.registers.has(register) || (scope.isMain && !scope.assignedRegisters.has(register));
+
+export const isSaleInStore = (scope: StoreScope, sale: Pick<RegisterSale, 'register'>) =>
+  isRegisterInStore(scope, sale.register);
+
+// Entries of a deleted store fall back to the main store like untagged ones
+export const isMovementInStore = (scope: StoreScope, movement: Pick<StockMovement, 'storeId'>) =>
+  movement.storeId && scope.storeIds.has(movement.storeId) ? movement.storeId === scope.storeId : scope.isMain;
+
+/**
+ * Initial stock placed in the store; the main store keeps whatever the other stores were not given
+ */
+export function getStoreInitialStock(product: Product, scope: StoreScope): number {
+  const placed = product.initialStockByStore || {};
+  if (!scope.isMain) return placed[scope.storeId] || 0;
+
+  const placedElsewhere = Object.entries(placed)
+    .filter(([storeId]) => storeId !== scope.storeId && scope.storeIds.has(storeId))
+    .reduce((sum, [, quantity]) => sum + quantity, 0);
+  return (product.initialStock || 0) - placedElsewhere;
+}
+
+/**
+ * Calculated stock of the product in the store; before the first recalculation
+ * with stores everything is still in the main store
+ */
+export const getStoreStock = (product: Product, scope: StoreScope) =>
+  product.stockByStore?.[scope.storeId] ?? (scope.isMain ? product.stock : 0);
+
+/**
+ * Products with `stock` set to their stock in the selected store, unchanged when every store is selected
+ */
+export function getStoreProducts(products: Product[], stores: Store[], storeId: string): Product[] {
+  const scope = getStoreScope(stores, storeId);
+  if (!scope) return products;
+  return products.map(product => ({ ...product, stock: getStoreStock(product, scope) }));
+}
+
+export function getStoreSales(sales: RegisterSale[], stores: Store[], storeId: string): RegisterSale[] {
+  const scope = getStoreScope(stores, storeId);
+  return scope ? sales.filter(sale => isSaleInStore(scope, sale)) : sales;
+}
+
+export function getStoreMovements(movements: StockMovement[], stores: Store[], storeId: string): StockMovement[] {
+  const scope = getStoreScope(stores, storeId);
+  return scope ? movements.filter(movement => isMovementInStore(scope, movement)) : movements;
+}
+
+/**
+ * Registers already owned by another store than the given one
+ */
+export function findAssignedRegisters(stores: Store[], registers: string[], storeId?: string): string[] {
+  return registers.filter(register =>
+    stores.some(store => store.id !== storeId && store.registers.includes(register))
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { SalesTarget } from '../types';
+import { makeSale } from '../test/fixtures';
+import { calculateTargetProgress, calculateTargetsProgress, getTargetActual, getTargetPeriodKey } from './targetUtils';
+
+const target = (overrides: Partial<SalesTarget> = {}): SalesTarget => ({
+  id: 't1',
+  scope: 'overall',
+  period: 'daily',
+  metric: 'revenue',
+  amount: 20,
+  active: true,
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+  ...overrides
+});
+
+describe('sales targets', () => {
+  it('keys weekly targets on the Monday of the week', () => {
+    expect(getTargetPeriodKey('weekly', new Date(2024, 1, 4))).toBe('2024-01-29');
+    expect(getTargetPeriodKey('monthly', new Date(2024, 1, 4))).toBe('2024-02-01');
+  });
+
+  it('counts sales net of returns, other negative lines are not sales', () => {
+    const sales = [
+      makeSale({ quantity: 4 }),
+      makeSale({ type: 'return', quantity: -1 }),
+      makeSale({ quantity: 1, total: -10 })
+    ];
+
+    expect(getTargetActual('revenue', sales)).toBe(4.5);
+    expect(getTargetActual('units', sales)).toBe(3);
+  });
+
+  it('falls behind below the expected pace of its scope', () => {
+    const sales = [
+      makeSale({ id: 'alice', date: new Date(2024, 1, 1, 9), quantity: 4 }),
+      makeSale({ id: 'bob', date: new Date(2024, 1, 1, 10), seller: 'Bob', quantity: 10 }),
+      makeSale({ id: 'yesterday', date: new Date(2024, 0, 31, 18), quantity: 10 })
+    ];
+
+    const progress = calculateTargetProgress(target({ scope: 'seller', scopeValue: 'Alice' }), sales, new Date(2024, 1, 1, 12));
+
+    expect(progress.actual).toBe(6);
+    expect(progress.elapsed).toBeCloseTo(0.5, 2);
+    expect(progress.projected).toBeCloseTo(12, 1);
+    expect(progress.status).toBe('behind');
+  });
+
+  it('is reached at the sale that got it over the line', () => {
+    const sales = [
+      makeSale({ id: 'a', date: new Date(2024, 1, 2), quantity: 3 }),
+      makeSale({ id: 'b', date: new Date(2024, 1, 5), quantity: 3 }),
+      makeSale({ id: 'r', date: new Date(2024, 1, 6), type: 'return', quantity: -1 })
+    ];
+    const units = target({ period: 'monthly', metric: 'units', amount: 5 });
+
+    const [progress] = calculateTargetsProgress([units, target({ id: 'off', active: false })], sales, new Date(2024, 1, 10));
+
+    expect(progress.status).toBe('reached');
+    expect(progress.reachedAt).toEqual(new Date(2024, 1, 5));
+  });
+});
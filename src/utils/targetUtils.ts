@@ -0,0 +1,126 @@
+import {
+  startOfDay,
+  endOfDay,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  format
+} from 'date-fns';
+import { RegisterSale, SalesTarget, SalesTargetMetric, SalesTargetPeriod, SalesTargetScope } from '../types';
+import { isReturn } from './returnUtils';
+
+export const TARGET_PERIODS: SalesTargetPeriod[] = ['daily', 'weekly', 'monthly'];
+export const TARGET_METRICS: SalesTargetMetric[] = ['revenue', 'units'];
+export const TARGET_SCOPES: SalesTargetScope[] = ['overall', 'seller', 'register', 'category'];
+
+// Below this share of the expected pace a target is falling behind
+export const BEHIND_PACE_RATIO = 0.8;
+
+// Too early in the period to judge the pace before this share has elapsed
+const MIN_ELAPSED_FOR_PACE = 0.25;
+
+export type TargetStatus = 'reached' | 'onTrack' | 'behind';
+
+export interface TargetProgress {
+  target: SalesTarget;
+  periodStart: Date;
+  periodEnd: Date;
+  actual: number;
+  progress: number; // actual / amount, not capped
+  elapsed: number; // Share of the period already elapsed, 0 to 1
+  expected: number; // What should be done by now at a steady pace
+  projected: number | null; // End of period estimate at the current pace
+  status: TargetStatus;
+  reachedAt?: Date; // Sale that got the target over the line
+}
+
+export function getTargetPeriodBounds(period: SalesTargetPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  switch (period) {
+    case 'daily':
+      return { start: startOfDay(now), end: endOfDay(now) };
+    case 'weekly':
+      return { start: startOfWeek(now, { weekStartsOn: 1 }), end: endOfWeek(now, { weekStartsOn: 1 }) };
+    case 'monthly':
+      return { start: startOfMonth(now), end: endOfMonth(now) };
+  }
+}
+
+/**
+ * Key of the period a target is evaluated on, so a notification fires once per period
+ */
+export function getTargetPeriodKey(period: SalesTargetPeriod, now: Date = new Date()): string {
+  return format(getTargetPeriodBounds(period, now).start, 'yyyy-MM-dd');
+}
+
+export function matchesTargetScope(target: SalesTarget, sale: RegisterSale): boolean {
+  switch (target.scope) {
+    case 'overall':
+      return true;
+    case 'seller':
+      return sale.seller === target.scopeValue;
+    case 'register':
+      return sale.register === target.scopeValue;
+    case 'category':
+      return sale.category === target.scopeValue;
+  }
+}
+
+/**
+ * Revenue or units sold net of customer returns, other negative lines are not sales
+ */
+export function getTargetActual(metric: SalesTargetMetric, sales: RegisterSale[]): number {
+  return sales
+    .filter(sale => sale.total >= 0 || isReturn(sale))
+    .reduce((sum, sale) => sum + (metric === 'revenue' ? sale.total : isReturn(sale) ? -Math.abs(sale.quantity) : sale.quantity), 0);
+}
+
+export function calculateTargetProgress(
+  target: SalesTarget,
+  sales: RegisterSale[],
+  now: Date = new Date()
+): TargetProgress {
+  const { start, end } = getTargetPeriodBounds(target.period, now);
+  const periodSales = sales.filter(sale => sale.date >= start && sale.date <= end && matchesTargetScope(target, sale));
+  const actual = getTargetActual(target.metric, periodSales);
+
+  // Pace assumes sales spread evenly over the whole period, opening hours are not known
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - start.getTime()) / (end.getTime() - start.getTime())));
+  const expected = target.amount * elapsed;
+  const progress = target.amount > 0 ? actual / target.amount : 0;
+
+  let status: TargetStatus = 'onTrack';
+  let reachedAt: Date | undefined;
+  if (target.amount > 0 && actual >= target.amount) {
+    status = 'reached';
+    let running = 0;
+    reachedAt = [...periodSales]
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .find(sale => (running += getTargetActual(target.metric, [sale])) >= target.amount)?.date;
+  } else if (elapsed >= MIN_ELAPSED_FOR_PACE && actual < expected * BEHIND_PACE_RATIO) {
+    status = 'behind';
+  }
+
+  return {
+    target,
+    periodStart: start,
+    periodEnd: end,
+    actual,
+    progress,
+    elapsed,
+    expected,
+    projected: elapsed > 0 ? actual / elapsed : null,
+    status,
+    reachedAt
+  };
+}
+
+export function calculateTargetsProgress(
+  targets: SalesTarget[],
+  sales: RegisterSale[],
+  now: Date = new Date()
+): TargetProgress[] {
+  return targets
+    .filter(target => target.active)
+    .map(target => calculateTargetProgress(target, sales, now));
+}
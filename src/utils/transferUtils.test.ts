@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { StockTransfer, StockTransferLine } from '../types';
+import { makeMovement, makeProduct, stores } from '../test/fixtures';
+import { calculateInTransitQuantities, generateTransferNumber, getTransferVariance } from './transferUtils';
+import { calculateStockFinal } from './calculateStockFinal';
+import { getStoreScope } from './storeUtils';
+
+const line = (productId: string, overrides: Partial<StockTransferLine> = {}): StockTransferLine => ({
+  productId,
+  productName: productId,
+  category: 'Boissons',
+  quantityRequested: 6,
+  ...overrides
+});
+
+const transfer = (number: string, overrides: Partial<StockTransfer> = {}): StockTransfer => ({
+  id: number,
+  number,
+  fromStoreId: 'main',
+  toStoreId: 'port',
+  status: 'shipped',
+  lines: [line('coca')],
+  createdAt: new Date(2024, 2, 15),
+  ...overrides
+});
+
+describe('stock transfers', () => {
+  it('numbers the transfers of a day in sequence', () => {
+    expect(generateTransferNumber([transfer('TR-20240315-004')], new Date(2024, 2, 15))).toBe('TR-20240315-005');
+  });
+
+  it('records what was received beyond or short of what was shipped', () => {
+    expect(getTransferVariance(line('coca', { quantityShipped: 5, quantityReceived: 4 }))).toBe(-1);
+    expect(getTransferVariance(line('coca', { quantityReceived: 7 }))).toBe(1);
+    expect(getTransferVariance(line('coca', { quantityShipped: 5 }))).toBe(0);
+  });
+
+  it('counts the shipped quantities in transit towards a store', () => {
+    const transfers = [
+      transfer('1', { lines: [line('coca', { quantityShipped: 4 }), line('chips')] }),
+      transfer('2', { fromStoreId: 'port', toStoreId: 'main' }),
+      transfer('3', { status: 'requested' }),
+      transfer('4', { status: 'received' })
+    ];
+
+    expect(calculateInTransitQuantities(transfers, 'port')).toEqual(new Map([['coca', 4], ['chips', 6]]));
+    expect(calculateInTransitQuantities(transfers).get('coca')).toBe(10);
+  });
+
+  it('moves the stock between stores without changing the consolidated stock', () => {
+    const coca = makeProduct({ initialStock: 20, initialStockDate: '2024-01-01' });
+    const movements = [
+      makeMovement({ id: 'out', type: 'transfer', quantity: -6, storeId: 'main' }),
+      makeMovement({ id: 'in', type: 'transfer', quantity: 6, storeId: 'port' })
+    ];
+
+    expect(calculateStockFinal(coca, [], movements).finalStock).toBe(20);
+    expect(calculateStockFinal(coca, [], movements, getStoreScope(stores, 'main')).finalStock).toBe(14);
+    expect(calculateStockFinal(coca, [], movements, getStoreScope(stores, 'port')).finalStock).toBe(6);
+  });
+});
@@ -0,0 +1,43 @@
+import { format } from 'date-fns';
+import { StockTransfer, StockTransferLine } from '../types';
+import { ALL_STORES } from './storeUtils';
+
+/**
+ * Next transfer number of the day, e.g. TR-20240315-002
+ */
+export function generateTransferNumber(transfers: StockTransfer[], date: Date = new Date()): string {
+  const prefix = `TR-${format(date, 'yyyyMMdd')}-`;
+  const lastIndex = transfers
+    .filter(transfer => transfer.number.startsWith(prefix))
+    .reduce((max, transfer) => Math.max(max, parseInt(transfer.number.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(lastIndex + 1).padStart(3, '0')}`;
+}
+
+export const getShippedQuantity = (line: StockTransferLine) => line.quantityShipped ?? line.quantityRequested;
+
+/**
+ * Received minus shipped, recorded as a transfer variance at the destination
+ */
+export const getTransferVariance = (line: StockTransferLine) =>
+  line.quantityReceived === undefined ? 0 : line.quantityReceived - getShippedQuantity(line);
+
+/**
+ * Quantities shipped but not yet received, by product id: those heading to the
+ * selected store, or every shipment in the consolidated view
+ */
+export function calculateInTransitQuantities(transfers: StockTransfer[], storeId: string = ALL_STORES): Map<string, number> {
+  const inTransit = new Map<string, number>();
+
+  transfers
+    .filter(transfer => transfer.status === 'shipped' && (storeId === ALL_STORES || transfer.toStoreId === storeId))
+    .forEach(transfer => {
+      transfer.lines.forEach(line => {
+        const shipped = getShippedQuantity(line);
+        if (shipped > 0) {
+          inTransit.set(line.productId, (inTransit.get(line.productId) || 0) + shipped);
+        }
+      });
+    });
+
+  return inTransit;
+}